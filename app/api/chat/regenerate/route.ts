@@ -0,0 +1,222 @@
+/**
+ * API Route: /api/chat/regenerate
+ * Ponownie wykonuje jeden krok pipeline dla istniejącej odpowiedzi AI (te same wejścia)
+ * Poprzednia treść zostaje zachowana jako wersja albo nadpisana (replace)
+ */
+
+import { NextRequest } from 'next/server';
+import { getProvider } from '@/lib/ai/registry';
+import { resolveStepProvider, restoreStepState, runPipelineStep, getStepFindings } from '@/lib/ai/pipeline';
+import { processAutoSave, getLLMResponseId } from '@/lib/ai/autoSave';
+import { checkProjectBudget, formatBudgetMessage } from '@/lib/ai/pricing';
+import { prepareContextWindow } from '@/lib/ai/contextWindow';
+import { loadProjectKnowledge } from '@/lib/ai/knowledge';
+import { indexMemory, retrieveMemories } from '@/lib/ai/memory';
+import { extractMemorySidecar } from '@/lib/memorySidecar';
+import { extractAppliedFindings } from '@/lib/reviewFindings';
+import { markAppliedFindings } from '@/lib/ai/reviewFeedback';
+import { createFileTools } from '@/lib/ai/tools';
+import { checkGeneratedCode } from '@/lib/ai/codeCheck';
+import { saveFailedLLMResponse } from '@/lib/ai/resilience';
+import { createSSEStream, createMessageStream, SSE_HEADERS } from '@/lib/sse';
+import {
+  getChatMessageById,
+  updateChatMessage,
+  getConversationById,
+  getConversationHistory,
+  getProjectById,
+  getPreferences,
+  saveChatIteration,
+  updateChatIteration,
+} from '@/lib/supabase';
+import { CONTEXT_HISTORY_FETCH_LIMIT } from '@/lib/constants';
+import type { RegenerateRequest, AIContext, ChatMessageVersion } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: RegenerateRequest = await request.json();
+    const { message_id, replace = false, projectContext, context: requestContext, repo } = body;
+
+    if (!message_id) {
+      return new Response(
+        JSON.stringify({ error: 'Brak wymaganego pola: message_id' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const original = await getChatMessageById(message_id);
+    const snapshot = original?.metadata?.pipelineStep;
+
+    if (!original || original.sender === 'user' || !snapshot) {
+      return new Response(
+        JSON.stringify({ error: 'Tej wiadomości nie można wygenerować ponownie' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const conversation = await getConversationById(original.conversation_id);
+    const projectId = conversation?.project_id;
+
+    const budget = projectId ? await checkProjectBudget(projectId) : null;
+    if (budget?.status === 'exceeded' && budget.action === 'block') {
+      return new Response(
+        JSON.stringify({ error: formatBudgetMessage(budget) }),
+        { status: 402, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Podsumowanie rozmowy przydaje się tylko, jeśli kończy się przed regenerowanym krokiem
+    const summaryUntil = conversation?.summary_until;
+    const summaryApplies = !!summaryUntil && summaryUntil < snapshot.historyUntil;
+
+    // Kontekst jak przy oryginalnym wywołaniu - historia do wiadomości użytkownika
+    const [history, preferences, project] = await Promise.all([
+      getConversationHistory(
+        original.conversation_id,
+        CONTEXT_HISTORY_FETCH_LIMIT,
+        snapshot.historyUntil,
+        summaryApplies ? summaryUntil : undefined
+      ),
+      getPreferences(),
+      projectId ? getProjectById(projectId) : Promise.resolve(null),
+    ]);
+
+    const context: AIContext = {
+      history,
+      preferences,
+      project: project || undefined,
+      editorContent: requestContext?.editorContent,
+      projectContext: projectContext || undefined,
+      historySummary: summaryApplies ? conversation?.summary || undefined : undefined,
+      projectKnowledge: await loadProjectKnowledge(project || undefined, snapshot.message),
+      memories: await retrieveMemories(snapshot.message, projectId, [original.id, ...history.map(m => m.id)]),
+    };
+
+    // Ten sam provider co w oryginalnej odpowiedzi (jeśli nadal jest zarejestrowany)
+    const provider = getProvider(original.sender) || resolveStepProvider(snapshot.step);
+
+    const { stream, sendEvent, close, signal, abort } = createSSEStream();
+    request.signal.addEventListener('abort', abort);
+
+    const regenerate = async () => {
+      const messageStream = createMessageStream(sendEvent, provider.id, original.id);
+      if (budget && budget.status !== 'ok') {
+        sendEvent({ type: 'warning', content: formatBudgetMessage(budget) });
+      }
+      sendEvent({ type: 'typing', sender: provider.id, messageId: original.id, queue: [] });
+
+      try {
+        const fittedContext = await prepareContextWindow(
+          original.conversation_id,
+          context,
+          [provider],
+          { summaryUntil, projectId, signal }
+        );
+
+        const result = await runPipelineStep(
+          snapshot.step,
+          restoreStepState(snapshot, fittedContext),
+          provider,
+          {
+            onDelta: messageStream.onDelta,
+            onReset: messageStream.onReset,
+            signal,
+            tools: createFileTools(repo, messageStream.onToolCall),
+          }
+        ).catch(async (error: unknown) => {
+          // Nieudane próby (timeouty, 429, fallbacki) zostają w llm_responses
+          if (!signal.aborted) {
+            await saveFailedLLMResponse(error, provider, {
+              conversation_id: original.conversation_id,
+              project_id: projectId,
+              prompt_used: snapshot.message.slice(0, 1000),
+              role: snapshot.step.role,
+            });
+          }
+          throw error;
+        });
+        signal.throwIfAborted();
+
+        // Blok pamięci trafia do auto-save, a nie do treści wiadomości
+        const sidecar = extractMemorySidecar(result.content);
+        if (sidecar.errors.length > 0) {
+          console.error(`[AUTO-SAVE] Blok pamięci ${provider.id} - pominięto:`, sidecar.errors);
+        }
+        // Raport architekta - numery uwzględnionych uwag recenzentów
+        const { content, applied } = extractAppliedFindings(sidecar.content);
+
+        const saved = await processAutoSave(
+          content,
+          snapshot.message,
+          provider.id,
+          projectId,
+          { ...result.metadata, role: snapshot.step.role },
+          original.conversation_id,
+          sidecar.memory,
+          original.id
+        );
+
+        // Poprzednia treść trafia do wersji (chyba że użytkownik chce ją nadpisać)
+        const previousVersions = original.metadata?.versions || [];
+        const versions: ChatMessageVersion[] = replace
+          ? previousVersions
+          : [...previousVersions, { content: original.content, replaced_at: new Date().toISOString() }];
+
+        // Nowa odpowiedź LLM - ocena poprzedniej wersji nie obowiązuje
+        const memories = fittedContext.memories || [];
+        const llmResponseId = getLLMResponseId(saved);
+        const backlogProposals = sidecar.memory?.backlog.length ? sidecar.memory.backlog : undefined;
+        const toolCalls = messageStream.toolCalls.length > 0 ? messageStream.toolCalls : undefined;
+        // Próba trybu "do zielonego" - nowa wersja kodu sprawdzana ponownie, zapisana próba dostaje nowy kod i wynik
+        const iteration = original.metadata?.iteration;
+        const check = iteration ? await checkGeneratedCode(content, repo, signal) : null;
+        const sandbox = iteration ? check ?? undefined : original.metadata?.sandbox;
+        if (iteration && !(await updateChatIteration(original.id, content, check)) && check) {
+          await saveChatIteration(original.conversation_id, original.id, iteration.attempt, content, check);
+        }
+        await updateChatMessage(original.id, {
+          content,
+          metadata: { ...original.metadata, versions, memories, llmResponseId, rating: undefined, backlogProposals, toolCalls, sandbox },
+        });
+        indexMemory('conversation', content, original.id, projectId);
+        if (applied) {
+          await markAppliedFindings(
+            original.conversation_id,
+            snapshot.historyUntil,
+            getStepFindings(snapshot.step, snapshot.outputs),
+            applied
+          );
+        }
+
+        messageStream.end(content, original.id, { memories, llmResponseId, backlogProposals, toolCalls, sandbox });
+        sendEvent({
+          type: 'done',
+          metadata: { totalTokens: saved.tokensUsed, totalCost: saved.costUsd, autoSaved: saved.autoSaved },
+        });
+      } catch (error) {
+        if (signal.aborted) {
+          console.log(`[REGENERATE] Przerwano przez użytkownika (wiadomość ${original.id})`);
+        } else {
+          console.error('Regenerate error:', error);
+          sendEvent({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Nieznany błąd podczas generowania',
+          });
+        }
+      } finally {
+        close();
+      }
+    };
+
+    regenerate();
+
+    return new Response(stream, { headers: SSE_HEADERS });
+
+  } catch (error) {
+    console.error('Regenerate API error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Błąd serwera' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -9,38 +9,61 @@
  */
 
 import { NextRequest } from 'next/server';
-import { callClaude, callClaudeSummary, callClaudeFinal } from '@/lib/ai/claude';
-import { callGPT } from '@/lib/ai/gpt';
-import { callGemini } from '@/lib/ai/gemini';
+import {
+  BUILTIN_PIPELINES,
+  STEP_FALLBACKS,
+  normalizePipelineSteps,
+  groupPipelineSteps,
+  hasParallelCodeSteps,
+  resolveStepProvider,
+  runPipelineStep,
+  applyStepResults,
+  createStepSnapshot,
+  getStepFindings,
+  CODE_PROMPT_KINDS,
+} from '@/lib/ai/pipeline';
+import type { PipelineState } from '@/lib/ai/pipeline';
 import {
   createConversation,
+  getConversationById,
   getConversationHistory,
+  updateConversation,
   saveChatMessage,
+  updateChatMessage,
   getProjectById,
+  getPipelineById,
   getPreferences,
   savePreference,
   deletePreference,
-  // Nowe funkcje auto-save
-  saveLLMResponse,
-  saveDecision,
-  saveBugHistory,
-  savePrompt,
-  saveProjectRule,
-  saveTechStack,
-  saveStyleGuide,
+  saveChatIteration,
 } from '@/lib/supabase';
-import { isGenerateAction, CHAT_HISTORY_LIMIT } from '@/lib/constants';
+import { processAutoSave, getLLMResponseId } from '@/lib/ai/autoSave';
+import { checkProjectBudget, formatBudgetMessage } from '@/lib/ai/pricing';
+import { prepareContextWindow } from '@/lib/ai/contextWindow';
+import { loadProjectKnowledge } from '@/lib/ai/knowledge';
+import { indexMemory, retrieveMemories } from '@/lib/ai/memory';
+import { extractMemorySidecar } from '@/lib/memorySidecar';
+import { extractAppliedFindings } from '@/lib/reviewFindings';
+import { markAppliedFindings } from '@/lib/ai/reviewFeedback';
+import { detectBacklogCommand, runBacklogCommand } from '@/lib/ai/backlog';
+import { createFileTools } from '@/lib/ai/tools';
+import { checkGeneratedCode, formatSandboxReport } from '@/lib/ai/codeCheck';
+import { saveFailedLLMResponse } from '@/lib/ai/resilience';
+import { createSSEStream, createMessageStream, SSE_HEADERS } from '@/lib/sse';
+import { isGenerateAction, CONTEXT_HISTORY_FETCH_LIMIT, AUTO_FIX_MAX_ATTEMPTS } from '@/lib/constants';
 import type {
   ChatRequest,
-  ChatMessage,
   ChatMode,
   AIContext,
+  AISender,
   Preference,
-  AutoSavePatternType,
   AIResponseMetadata,
-  LLMTarget,
-  RuleCategory,
-  TechCategory,
+  MemorySidecar,
+  PipelineStep,
+  BacklogProposal,
+  RepoRef,
+  SandboxResult,
+  ChatIteration,
 } from '@/lib/types';
 
 // ============================================
@@ -62,283 +85,6 @@ const PREFERENCE_PATTERNS = {
   listEn: /(?:show|list|what are)\s*(?:my)?\s*preferences/i,
 };
 
-// ============================================
-// WZORCE AUTO-SAVE (wykrywanie w odpowiedziach AI)
-// ============================================
-
-const AUTO_SAVE_PATTERNS: Record<AutoSavePatternType, RegExp> = {
-  decision: /(?:zdecydowałem|decyzja|wybieramy|lepszym rozwiązaniem|postanowiłem|wybieram|decyduję|będziemy używać|rekomenduj[eę]|zalecam)/i,
-  bug: /(?:bug|błąd|fix|naprawiłem|problem był|rozwiązanie|naprawiono|error|issue|poprawka|debugowanie)/i,
-  prompt: /(?:prompt dla|wklej do claude|użyj tego promptu|skopiuj ten prompt|prompt:)/i,
-  rule: /(?:zawsze używaj|nigdy nie|preferuj[eę]|zasada|reguła|konwencja|standard|wymóg)/i,
-  tech: /(?:używam|stack|framework|biblioteka|technologia|język programowania|baza danych)/i,
-  feedback: /(?:\[BUG\]|\[OPTYMALIZACJA\]|\[EDGE CASE\]|\[BEST PRACTICE\]|\[UI\]|\[UX\]|\[A11Y\])/i,
-};
-
-// ============================================
-// FUNKCJE WYKRYWANIA AUTO-SAVE
-// ============================================
-
-/**
- * Wykrywa wzorce w odpowiedzi AI i zwraca listę wykrytych typów
- */
-function detectAutoSavePatterns(content: string): AutoSavePatternType[] {
-  const detected: AutoSavePatternType[] = [];
-
-  for (const [type, pattern] of Object.entries(AUTO_SAVE_PATTERNS)) {
-    if (pattern.test(content)) {
-      detected.push(type as AutoSavePatternType);
-    }
-  }
-
-  return detected;
-}
-
-/**
- * Wyciąga tytuł decyzji z treści
- */
-function extractDecisionTitle(content: string): string {
-  // Szukaj zdania z decyzją
-  const patterns = [
-    /(?:zdecydowałem|wybieram|decyduję)\s+(?:się\s+)?(?:na|że|aby)?\s*(.{10,100})/i,
-    /(?:lepszym rozwiązaniem|rekomenduj[eę]|zalecam)\s+(?:jest|będzie)?\s*(.{10,100})/i,
-    /(?:będziemy używać|używamy)\s+(.{5,50})/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = content.match(pattern);
-    if (match) {
-      return match[1].split(/[.!?\n]/)[0].trim().slice(0, 100);
-    }
-  }
-
-  return 'Decyzja architektoniczna';
-}
-
-/**
- * Wyciąga informacje o bugu
- */
-function extractBugInfo(content: string): { description: string; solution: string } {
-  const bugMatch = content.match(/(?:bug|błąd|problem)[\s:]+(.{10,200})/i);
-  const fixMatch = content.match(/(?:fix|napraw|rozwiązan|poprawk)[\s:]+(.{10,300})/i);
-
-  return {
-    description: bugMatch ? bugMatch[1].split(/[.!?\n]/)[0].trim() : 'Bug znaleziony przez AI',
-    solution: fixMatch ? fixMatch[1].split(/\n\n/)[0].trim() : content.slice(0, 500),
-  };
-}
-
-/**
- * Wyciąga prompt z treści
- */
-function extractPrompt(content: string): { name: string; target: LLMTarget; promptContent: string } | null {
-  // Szukaj bloku kodu z promptem
-  const codeBlockMatch = content.match(/```(?:prompt|text)?\n([\s\S]*?)```/);
-  if (codeBlockMatch) {
-    const promptContent = codeBlockMatch[1].trim();
-    const target: LLMTarget = content.toLowerCase().includes('codex') ? 'codex' :
-                              content.toLowerCase().includes('gemini') ? 'gemini' : 'claude_code';
-
-    return {
-      name: `Prompt ${new Date().toISOString().slice(0, 10)}`,
-      target,
-      promptContent,
-    };
-  }
-  return null;
-}
-
-/**
- * Wyciąga zasadę projektu
- */
-function extractProjectRule(content: string): { rule: string; category: RuleCategory } | null {
-  const rulePatterns = [
-    { regex: /(?:zawsze używaj|zawsze stosuj)\s+(.{5,100})/i, category: 'code_style' as RuleCategory },
-    { regex: /(?:nigdy nie|unikaj)\s+(.{5,100})/i, category: 'code_style' as RuleCategory },
-    { regex: /(?:konwencja|standard)[\s:]+(.{10,150})/i, category: 'naming' as RuleCategory },
-    { regex: /(?:architektura|wzorzec)[\s:]+(.{10,150})/i, category: 'architecture' as RuleCategory },
-    { regex: /(?:test|testuj)[\s:]+(.{10,150})/i, category: 'testing' as RuleCategory },
-    { regex: /(?:bezpiecze[ńn]stwo|security)[\s:]+(.{10,150})/i, category: 'security' as RuleCategory },
-  ];
-
-  for (const { regex, category } of rulePatterns) {
-    const match = content.match(regex);
-    if (match) {
-      return {
-        rule: match[1].split(/[.!?\n]/)[0].trim(),
-        category,
-      };
-    }
-  }
-  return null;
-}
-
-/**
- * Wyciąga tech stack
- */
-function extractTechStack(content: string, userMessage: string): { name: string; category: TechCategory }[] {
-  const techItems: { name: string; category: TechCategory }[] = [];
-  const combined = `${userMessage} ${content}`;
-
-  // Mapowanie technologii na kategorie
-  const techMap: Record<string, TechCategory> = {
-    // Frameworki
-    'react': 'framework', 'next.js': 'framework', 'nextjs': 'framework', 'vue': 'framework',
-    'angular': 'framework', 'svelte': 'framework', 'nuxt': 'framework', 'remix': 'framework',
-    // Biblioteki
-    'tailwind': 'styling', 'chakra': 'styling', 'mui': 'styling', 'bootstrap': 'styling',
-    'zustand': 'state', 'redux': 'state', 'jotai': 'state', 'recoil': 'state', 'mobx': 'state',
-    'axios': 'library', 'tanstack': 'library', 'react-query': 'library', 'swr': 'library',
-    // Języki
-    'typescript': 'language', 'javascript': 'language', 'python': 'language', 'rust': 'language',
-    // Bazy danych
-    'supabase': 'database', 'postgresql': 'database', 'postgres': 'database', 'mongodb': 'database',
-    'mysql': 'database', 'prisma': 'database', 'drizzle': 'database',
-    // Testowanie
-    'jest': 'testing', 'vitest': 'testing', 'cypress': 'testing', 'playwright': 'testing',
-    // Build
-    'vite': 'build', 'webpack': 'build', 'turbopack': 'build', 'esbuild': 'build',
-  };
-
-  for (const [tech, category] of Object.entries(techMap)) {
-    const regex = new RegExp(`\\b${tech}\\b`, 'i');
-    if (regex.test(combined)) {
-      techItems.push({ name: tech.charAt(0).toUpperCase() + tech.slice(1), category });
-    }
-  }
-
-  return techItems;
-}
-
-/**
- * Przetwarza odpowiedź AI i wykonuje auto-save do bazy
- */
-async function processAutoSave(
-  content: string,
-  userMessage: string,
-  llmSource: 'claude' | 'gpt' | 'gemini',
-  projectId: string | undefined,
-  tokensUsed: number,
-  conversationId: string
-): Promise<AIResponseMetadata> {
-  const detectedPatterns = detectAutoSavePatterns(content);
-  const autoSaved: AIResponseMetadata['autoSaved'] = [];
-
-  console.log(`[AUTO-SAVE] Wykryto wzorce w odpowiedzi ${llmSource}:`, detectedPatterns);
-
-  // Zawsze zapisz odpowiedź LLM
-  try {
-    const llmResponse = await saveLLMResponse({
-      conversation_id: conversationId,
-      llm_source: llmSource,
-      prompt_used: userMessage.slice(0, 1000),
-      response: content.slice(0, 5000),
-      tokens_used: tokensUsed,
-    });
-    if (llmResponse) {
-      autoSaved.push({ table: 'llm_responses', id: llmResponse.id, type: 'feedback' });
-    }
-  } catch (error) {
-    console.error('[AUTO-SAVE] Błąd zapisywania LLM response:', error);
-  }
-
-  // Jeśli nie ma projectId, nie możemy zapisywać do tabel związanych z projektem
-  if (!projectId) {
-    return { tokensUsed, detectedPatterns, autoSaved };
-  }
-
-  // Przetwórz wykryte wzorce
-  for (const patternType of detectedPatterns) {
-    try {
-      switch (patternType) {
-        case 'decision': {
-          const title = extractDecisionTitle(content);
-          const decision = await saveDecision({
-            project_id: projectId,
-            title,
-            description: content.slice(0, 500),
-            reason: `Wykryte automatycznie z odpowiedzi ${llmSource}`,
-          });
-          if (decision) {
-            autoSaved.push({ table: 'decisions', id: decision.id, type: 'decision' });
-          }
-          break;
-        }
-
-        case 'bug': {
-          const bugInfo = extractBugInfo(content);
-          const bug = await saveBugHistory({
-            project_id: projectId,
-            description: bugInfo.description,
-            solution: bugInfo.solution,
-          });
-          if (bug) {
-            autoSaved.push({ table: 'bugs_history', id: bug.id, type: 'bug' });
-          }
-          break;
-        }
-
-        case 'prompt': {
-          const promptInfo = extractPrompt(content);
-          if (promptInfo) {
-            const prompt = await savePrompt({
-              name: promptInfo.name,
-              llm_target: promptInfo.target,
-              content: promptInfo.promptContent,
-            });
-            if (prompt) {
-              autoSaved.push({ table: 'prompts', id: prompt.id, type: 'prompt' });
-            }
-          }
-          break;
-        }
-
-        case 'rule': {
-          const ruleInfo = extractProjectRule(content);
-          if (ruleInfo) {
-            const rule = await saveProjectRule({
-              project_id: projectId,
-              rule: ruleInfo.rule,
-              category: ruleInfo.category,
-            });
-            if (rule) {
-              autoSaved.push({ table: 'project_rules', id: rule.id, type: 'rule' });
-            }
-          }
-          break;
-        }
-
-        case 'tech': {
-          const techItems = extractTechStack(content, userMessage);
-          for (const tech of techItems) {
-            const saved = await saveTechStack({
-              project_id: projectId,
-              name: tech.name,
-              category: tech.category,
-            });
-            if (saved) {
-              autoSaved.push({ table: 'tech_stack', id: saved.id, type: 'tech' });
-            }
-          }
-          break;
-        }
-
-        // feedback z code review jest już obsłużony przez zapisywanie LLM response
-        case 'feedback':
-          break;
-      }
-    } catch (error) {
-      console.error(`[AUTO-SAVE] Błąd przetwarzania wzorca ${patternType}:`, error);
-    }
-  }
-
-  if (autoSaved.length > 0) {
-    console.log(`[AUTO-SAVE] Zapisano ${autoSaved.length} elementów do bazy:`, autoSaved);
-  }
-
-  return { tokensUsed, detectedPatterns, autoSaved };
-}
-
 /**
  * Sprawdza czy wiadomość to komenda preferencji
  */
@@ -500,52 +246,31 @@ function formatPreferencesList(preferences: Preference[]): string {
   return result;
 }
 
-// Helper do wysyłania SSE
-function createSSEStream() {
-  const encoder = new TextEncoder();
-  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
-
-  const stream = new ReadableStream<Uint8Array>({
-    start(c) {
-      controller = c;
-    },
-    cancel() {
-      controller = null;
-    },
-  });
-
-  const sendEvent = (data: object) => {
-    if (controller) {
-      try {
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
-      } catch {
-        // Stream zamknięty
-      }
-    }
-  };
-
-  const close = () => {
-    if (controller) {
-      try {
-        controller.close();
-      } catch {
-        // Już zamknięty
-      }
-    }
-  };
-
-  return { stream, sendEvent, close };
+/**
+ * Zapisuje na konwersacji znacznik przerwania odpowiedzi przez użytkownika
+ */
+async function markConversationCancelled(conversationId: string) {
+  try {
+    await updateConversation(conversationId, { cancelled_at: new Date().toISOString() });
+  } catch (error) {
+    console.error('[ORCHESTRATE] Błąd zapisu znacznika przerwania:', error);
+  }
 }
 
-// Główna funkcja orkiestrująca AI z auto-save
+// Główna funkcja orkiestrująca AI z auto-save - wykonuje kolejne kroki pipeline
 async function orchestrateAI(
   sendEvent: (data: object) => void,
   close: () => void,
   conversationId: string,
   message: string,
-  mode: ChatMode,
+  steps: PipelineStep[],
   context: AIContext,
-  projectId?: string
+  historyUntil: string,
+  signal: AbortSignal,
+  projectId?: string,
+  summaryUntil?: string | null,
+  repo?: RepoRef,
+  autoFixAttempts = 0
 ) {
   try {
     const action = isGenerateAction(message) ? 'generate' : 'discuss';
@@ -553,176 +278,204 @@ async function orchestrateAI(
       ? `${message}\n\n[TRYB GENEROWANIA - napisz pełny, działający kod]`
       : message;
 
+    // Kontekst dopasowany do najmniejszego okna modeli w pipeline (starsze wiadomości → podsumowanie)
+    const fittedContext = await prepareContextWindow(
+      conversationId,
+      context,
+      steps.map(resolveStepProvider),
+      { summaryUntil, projectId, signal }
+    );
+
+    const state: PipelineState = { message, enhancedMessage, context: fittedContext, outputs: {} };
+
+    // Grupy kroków - kroki w jednej grupie AI piszą równolegle
+    const groups = groupPipelineSteps(steps);
+    const groupSenders: AISender[][] = groups.map(group => group.map(step => resolveStepProvider(step).id));
+
     // Zbiorcze statystyki tokenów
     let totalTokens = 0;
+    let totalCost = 0;
     const allAutoSaved: AIResponseMetadata['autoSaved'] = [];
 
-    // 1. CLAUDE
-    sendEvent({ type: 'typing', sender: 'claude' });
+    // Ostatnio sprawdzony draft i wynik sandboxa (przy wiadomościach recenzenta)
+    let checkedDraft: string | undefined;
+    let sandbox: SandboxResult | null = null;
+
+    /**
+     * Wykonuje krok, zapisuje wiadomość i auto-save
+     * iteration - próba w trybie "do zielonego" (kod architekta sprawdzany w sandboxie)
+     */
+    const runStep = async (step: PipelineStep, queue: AISender[], iteration?: ChatIteration) => {
+      const provider = resolveStepProvider(step);
+      // Wejście kroku przed jego wykonaniem - do ponownego wygenerowania odpowiedzi
+      const snapshot = createStepSnapshot(step, state, historyUntil);
+      const stepStream = createMessageStream(sendEvent, provider.id);
+      sendEvent({ type: 'typing', sender: provider.id, messageId: stepStream.messageId, queue });
+
+      let content: string;
+      let memory: MemorySidecar | null = null;
+      let applied: number[] | null = null;
+      let backlogProposals: BacklogProposal[] | undefined;
+      let metadata: AIResponseMetadata | null = null;
+      try {
+        const result = await runPipelineStep(step, state, provider, {
+          onDelta: stepStream.onDelta,
+          onReset: stepStream.onReset,
+          signal,
+          // Narzędzia plików - kroki wywołań widoczne w wiadomości
+          tools: createFileTools(repo, stepStream.onToolCall),
+        });
+        signal.throwIfAborted();
 
-    let claudeResult;
-    try {
-      claudeResult = await callClaude(enhancedMessage, context.history, context);
-    } catch (error) {
-      sendEvent({ type: 'error', error: `Błąd Claude: ${error instanceof Error ? error.message : 'nieznany'}` });
-      close();
-      return;
-    }
+        // Blok pamięci trafia do auto-save, a nie do treści wiadomości
+        const sidecar = extractMemorySidecar(result.content);
+        if (sidecar.errors.length > 0) {
+          console.error(`[AUTO-SAVE] Blok pamięci ${provider.id} - pominięto:`, sidecar.errors);
+        }
+        // Raport architekta - numery uwzględnionych uwag recenzentów
+        const report = extractAppliedFindings(sidecar.content);
+        content = report.content;
+        applied = report.applied;
+        memory = sidecar.memory;
+        // Propozycje do backlogu nie idą do auto-save - użytkownik dodaje je z wiadomości
+        backlogProposals = memory?.backlog.length ? memory.backlog : undefined;
+        // Rola kroku trafia do llm_responses - analityka ocen per rola
+        metadata = { ...result.metadata, role: step.role };
+      } catch (error) {
+        // Przerwanie to nie błąd kroku - nie podstawiaj odpowiedzi zastępczej
+        signal.throwIfAborted();
+
+        // Nieudane próby (timeouty, 429, fallbacki) zostają w llm_responses
+        await saveFailedLLMResponse(error, provider, {
+          conversation_id: conversationId,
+          project_id: projectId,
+          prompt_used: message.slice(0, 1000),
+          role: step.role,
+        });
 
-    const claudeResponse = claudeResult.content;
-    totalTokens += claudeResult.metadata.tokensUsed;
+        const fallback = STEP_FALLBACKS[step.prompt];
+        // Bez pierwszej odpowiedzi nie ma czego recenzować - przerwij pipeline
+        if (!fallback) {
+          throw new Error(`Błąd ${provider.personality.displayName}: ${error instanceof Error ? error.message : 'nieznany'}`);
+        }
+        console.error(`[PIPELINE] Błąd kroku ${step.prompt} (${provider.id}):`, error);
+        content = fallback;
+      }
 
-    // Auto-save dla Claude
-    const claudeAutoSave = await processAutoSave(
-      claudeResponse,
-      message,
-      'claude',
-      projectId,
-      claudeResult.metadata.tokensUsed,
-      conversationId
-    );
-    allAutoSaved.push(...claudeAutoSave.autoSaved);
+      const memories = state.context.memories || [];
+      const toolCalls = stepStream.toolCalls.length > 0 ? stepStream.toolCalls : undefined;
 
-    sendEvent({ type: 'message', sender: 'claude', content: claudeResponse });
-    await saveChatMessage(conversationId, 'claude', claudeResponse);
+      // Tryb "do zielonego" - kod architekta sprawdzany przed zapisem, wynik widoczny przy próbie
+      const check = iteration && metadata && CODE_PROMPT_KINDS.includes(step.prompt)
+        ? await checkGeneratedCode(content, repo, signal)
+        : null;
+      signal.throwIfAborted();
+      const stepIteration = check ? iteration : undefined;
+      const stepSandbox = check || (step.prompt === 'review' && sandbox ? sandbox : undefined);
 
-    if (mode === 'solo') {
-      sendEvent({
-        type: 'done',
-        metadata: { totalTokens, autoSaved: allAutoSaved }
+      const saved = await saveChatMessage(conversationId, provider.id, content, {
+        pipelineStep: snapshot, memories, backlogProposals, toolCalls, sandbox: stepSandbox, iteration: stepIteration,
       });
-      close();
-      return;
-    }
-
-    // 2. GPT
-    sendEvent({ type: 'typing', sender: 'gpt' });
-
-    let gptResult;
-    let gptResponse: string;
-    try {
-      gptResult = await callGPT(message, claudeResponse, context.history, context);
-      gptResponse = gptResult.content;
-      totalTokens += gptResult.metadata.tokensUsed;
-
-      // Auto-save dla GPT
-      const gptAutoSave = await processAutoSave(
-        gptResponse,
-        message,
-        'gpt',
-        projectId,
-        gptResult.metadata.tokensUsed,
-        conversationId
-      );
-      allAutoSaved.push(...gptAutoSave.autoSaved);
-    } catch (error) {
-      console.error('GPT error:', error);
-      gptResponse = 'Nie mogłem przeanalizować kodu w tym momencie.';
-    }
-
-    sendEvent({ type: 'message', sender: 'gpt', content: gptResponse });
-    await saveChatMessage(conversationId, 'gpt', gptResponse);
-
-    if (mode === 'duo') {
-      sendEvent({ type: 'typing', sender: 'claude' });
+      stepStream.end(content, saved.id, { memories, backlogProposals, toolCalls, sandbox: stepSandbox, iteration: stepIteration });
+      if (check && stepIteration) {
+        await saveChatIteration(conversationId, saved.id, stepIteration.attempt, content, check);
+      }
 
-      let claudeSummaryResult;
-      let claudeSummary: string;
-      try {
-        claudeSummaryResult = await callClaudeSummary(message, claudeResponse, gptResponse, context);
-        claudeSummary = claudeSummaryResult.content;
-        totalTokens += claudeSummaryResult.metadata.tokensUsed;
+      if (applied) {
+        await markAppliedFindings(conversationId, historyUntil, getStepFindings(step, snapshot.outputs), applied);
+      }
 
-        // Auto-save dla Claude Summary
-        const summaryAutoSave = await processAutoSave(
-          claudeSummary,
+      // Auto-save dla odpowiedzi kroku - elementy trafiają do kolejki przeglądu z linkiem do wiadomości
+      if (metadata) {
+        indexMemory('conversation', content, saved.id, projectId);
+        const stepAutoSave = await processAutoSave(
+          content,
           message,
-          'claude',
+          provider.id,
           projectId,
-          claudeSummaryResult.metadata.tokensUsed,
-          conversationId
+          metadata,
+          conversationId,
+          memory,
+          saved.id
         );
-        allAutoSaved.push(...summaryAutoSave.autoSaved);
-      } catch (error) {
-        claudeSummary = 'Podsumowując feedback od GPT - moja oryginalna propozycja pozostaje aktualna.';
+
+        // Wiadomość zna swoją odpowiedź LLM - można ją ocenić
+        const llmResponseId = getLLMResponseId(stepAutoSave);
+        if (llmResponseId) {
+          await updateChatMessage(saved.id, { metadata: { ...saved.metadata, llmResponseId } });
+          sendEvent({ type: 'message_metadata', messageId: saved.id, messageMetadata: { llmResponseId } });
+        }
+
+        totalTokens += stepAutoSave.tokensUsed;
+        totalCost += stepAutoSave.costUsd || 0;
+        allAutoSaved.push(...stepAutoSave.autoSaved);
       }
 
-      sendEvent({ type: 'message', sender: 'claude', content: claudeSummary });
-      await saveChatMessage(conversationId, 'claude', claudeSummary);
+      return { step, provider, content, check };
+    };
 
-      sendEvent({
-        type: 'done',
-        metadata: { totalTokens, autoSaved: allAutoSaved }
-      });
-      close();
-      return;
-    }
+    for (const [groupIndex, group] of groups.entries()) {
+      // Klient przerwał - pomiń pozostałe kroki
+      signal.throwIfAborted();
+
+      // Kod z aktualnego draftu sprawdzany w sandboxie przed review - recenzent dostaje faktyczne błędy
+      const draft = state.outputs.draft;
+      if (draft && draft !== checkedDraft && group.some(step => step.prompt === 'review')) {
+        checkedDraft = draft;
+        sandbox = await checkGeneratedCode(draft, repo, signal);
+        state.sandboxReport = sandbox ? formatSandboxReport(sandbox) : undefined;
+        signal.throwIfAborted();
+      }
 
-    // 3. GEMINI
-    sendEvent({ type: 'typing', sender: 'gemini' });
-
-    let geminiResult;
-    let geminiResponse: string;
-    try {
-      geminiResult = await callGemini(message, claudeResponse, gptResponse, context.history, context);
-      geminiResponse = geminiResult.content;
-      totalTokens += geminiResult.metadata.tokensUsed;
-
-      // Auto-save dla Gemini
-      const geminiAutoSave = await processAutoSave(
-        geminiResponse,
-        message,
-        'gemini',
-        projectId,
-        geminiResult.metadata.tokensUsed,
-        conversationId
-      );
-      allAutoSaved.push(...geminiAutoSave.autoSaved);
-    } catch (error) {
-      console.error('Gemini error:', error);
-      geminiResponse = 'Nie mogłem przeanalizować UI/UX w tym momencie.';
-    }
+      // Kolejka typowania - kto będzie mówił po bieżącej grupie
+      const queue = groupSenders.slice(groupIndex + 1).flat();
+      const firstAttempt = autoFixAttempts > 0 ? { attempt: 1, maxAttempts: autoFixAttempts } : undefined;
+
+      const results = await Promise.all(group.map(step => runStep(step, queue, firstAttempt)));
+      applyStepResults(state, results);
+
+      // Błędy z sandboxa wracają do architekta, aż kod przejdzie sprawdzenie albo skończą się próby
+      // W grupie jest najwyżej jeden krok z kodem - pipeline'y z kilkoma odrzuca walidacja żądania
+      let last = results.find(result => result.check);
+      for (let attempt = 2; last?.check?.status === 'failed' && attempt <= autoFixAttempts; attempt++) {
+        state.sandboxReport = formatSandboxReport(last.check);
+        const fixStep: PipelineStep = { role: 'architect', prompt: 'fix', provider: last.provider.id };
+        try {
+          last = await runStep(fixStep, queue, { attempt, maxAttempts: autoFixAttempts });
+        } catch (error) {
+          // Nieudana poprawka nie przerywa pipeline - dalej idzie ostatnia wersja kodu
+          signal.throwIfAborted();
+          console.error(`[AUTO-FIX] Błąd poprawki ${attempt}/${autoFixAttempts}:`, error);
+          break;
+        }
+        applyStepResults(state, [last]);
+      }
 
-    sendEvent({ type: 'message', sender: 'gemini', content: geminiResponse });
-    await saveChatMessage(conversationId, 'gemini', geminiResponse);
-
-    // 4. CLAUDE final
-    sendEvent({ type: 'typing', sender: 'claude' });
-
-    let claudeFinalResult;
-    let claudeFinal: string;
-    try {
-      claudeFinalResult = await callClaudeFinal(message, claudeResponse, gptResponse, geminiResponse, context);
-      claudeFinal = claudeFinalResult.content;
-      totalTokens += claudeFinalResult.metadata.tokensUsed;
-
-      // Auto-save dla Claude Final
-      const finalAutoSave = await processAutoSave(
-        claudeFinal,
-        message,
-        'claude',
-        projectId,
-        claudeFinalResult.metadata.tokensUsed,
-        conversationId
-      );
-      allAutoSaved.push(...finalAutoSave.autoSaved);
-    } catch (error) {
-      claudeFinal = 'Uwzględniając feedback od GPT i Gemini - oto finalna wersja mojej propozycji.';
+      // Recenzent dostaje wynik ostatniej próby - bez ponownego sprawdzania tego samego kodu
+      if (last?.check) {
+        checkedDraft = state.outputs.draft;
+        sandbox = last.check;
+        state.sandboxReport = formatSandboxReport(last.check);
+      }
     }
 
-    sendEvent({ type: 'message', sender: 'claude', content: claudeFinal });
-    await saveChatMessage(conversationId, 'claude', claudeFinal);
-
     // Podsumowanie
-    console.log(`[ORCHESTRATE] Zakończono. Tokeny: ${totalTokens}, Auto-saved: ${allAutoSaved.length} items`);
+    console.log(`[ORCHESTRATE] Zakończono. Tokeny: ${totalTokens}, koszt: $${totalCost.toFixed(4)}, Auto-saved: ${allAutoSaved.length} items`);
 
     sendEvent({
       type: 'done',
-      metadata: { totalTokens, autoSaved: allAutoSaved }
+      metadata: { totalTokens, totalCost, autoSaved: allAutoSaved }
     });
     close();
 
   } catch (error) {
+    if (signal.aborted) {
+      console.log(`[ORCHESTRATE] Przerwano przez użytkownika (konwersacja ${conversationId})`);
+      await markConversationCancelled(conversationId);
+      close();
+      return;
+    }
+
     console.error('Orchestration error:', error);
     sendEvent({
       type: 'error',
@@ -732,14 +485,29 @@ async function orchestrateAI(
   }
 }
 
+/**
+ * Zwraca kroki do wykonania - własny pipeline z bazy albo wbudowany tryb
+ */
+async function resolvePipelineSteps(mode: ChatMode, pipelineId?: string): Promise<PipelineStep[]> {
+  if (pipelineId) {
+    const pipeline = await getPipelineById(pipelineId);
+    const steps = normalizePipelineSteps(pipeline?.steps);
+    if (steps.length > 0) {
+      return steps;
+    }
+    console.error(`[PIPELINE] Pipeline ${pipelineId} nie istnieje lub nie ma poprawnych kroków - używam trybu ${mode}`);
+  }
+  return BUILTIN_PIPELINES[mode];
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body: ChatRequest = await request.json();
-    const { conversation_id, message, mode, project_id, projectContext, context: requestContext } = body;
+    const { conversation_id, message, mode, pipeline_id, project_id, projectContext, context: requestContext, repo, autoFixAttempts } = body;
 
     console.log('========== CHAT API REQUEST ==========');
     console.log('Message received:', message);
-    console.log('Mode:', mode);
+    console.log('Mode:', mode, pipeline_id ? `(pipeline ${pipeline_id})` : '');
     console.log('=======================================');
 
     // Walidacja
@@ -750,32 +518,78 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Kroki pipeline - własny z bazy albo wbudowany tryb
+    const steps = await resolvePipelineSteps(mode, pipeline_id);
+    // Tryb "do zielonego" - liczba prób w granicach limitu
+    const fixAttempts = Math.min(Math.max(Math.floor(Number(autoFixAttempts) || 0), 0), AUTO_FIX_MAX_ATTEMPTS);
+    if (fixAttempts > 0 && hasParallelCodeSteps(steps)) {
+      return new Response(
+        JSON.stringify({ error: 'Tryb „do zielonego” wymaga pipeline z najwyżej jednym krokiem kodu w grupie równoległej' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Pobierz preferencje użytkownika
     const preferences = await getPreferences();
     console.log('Current preferences count:', preferences.length);
 
+    // Budżet projektu - blokada przed wywołaniem AI, ostrzeżenie w strumieniu
+    const budget = project_id ? await checkProjectBudget(project_id) : null;
+    if (budget?.status === 'exceeded' && budget.action === 'block') {
+      return new Response(
+        JSON.stringify({ error: formatBudgetMessage(budget) }),
+        { status: 402, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Utwórz lub użyj istniejącej konwersacji
     let conversationId = conversation_id;
     if (!conversationId) {
       const title = message.slice(0, 50) + (message.length > 50 ? '...' : '');
-      const conversation = await createConversation(title, mode, project_id);
+      const conversation = await createConversation(title, mode, project_id, pipeline_id);
       conversationId = conversation.id;
     }
 
-    // Zapisz wiadomość użytkownika
-    await saveChatMessage(conversationId, 'user', message);
+    // Zapisz wiadomość użytkownika (embedding w tle - pamięć semantyczna)
+    const userMessage = await saveChatMessage(conversationId, 'user', message);
+    indexMemory('conversation', message, userMessage.id, project_id);
+
+    // Komendy backlogu mają pierwszeństwo - wzorce preferencji łapią np. "pokaż" w dowolnym miejscu
+    const backlogCommand = detectBacklogCommand(message);
 
     // ========== SPRAWDŹ PREFERENCJE ==========
-    const preferenceCommand = detectPreferenceCommand(message);
+    const preferenceCommand = backlogCommand ? { type: null } : detectPreferenceCommand(message);
     console.log('Preference command result:', preferenceCommand);
     // =========================================
 
     // Utwórz SSE stream
-    const { stream, sendEvent, close } = createSSEStream();
+    const { stream, sendEvent, close, signal, abort } = createSSEStream();
+
+    // Rozłączenie klienta przerywa orkiestrację i żądania do providerów
+    request.signal.addEventListener('abort', abort);
 
     // Wyślij conversation_id na początku
     sendEvent({ type: 'conversation_id', id: conversationId });
 
+    if (budget && budget.status !== 'ok') {
+      sendEvent({ type: 'warning', content: formatBudgetMessage(budget) });
+    }
+
+    // Obsłuż komendy backlogu
+    if (backlogCommand) {
+      try {
+        const responseMessage = await runBacklogCommand(backlogCommand, project_id, conversationId);
+        sendEvent({ type: 'message', sender: 'claude', content: responseMessage });
+        await saveChatMessage(conversationId, 'claude', responseMessage);
+        sendEvent({ type: 'done' });
+      } catch (error) {
+        console.error('Backlog command error:', error);
+        sendEvent({ type: 'error', error: 'Wystąpił błąd podczas obsługi komendy backlogu' });
+      }
+      close();
+      return new Response(stream, { headers: SSE_HEADERS });
+    }
+
     // Obsłuż komendy preferencji
     if (preferenceCommand.type) {
       console.log('>>> HANDLING PREFERENCE COMMAND:', preferenceCommand.type);
@@ -823,32 +637,20 @@ export async function POST(request: NextRequest) {
         sendEvent({ type: 'done' });
         close();
 
-        return new Response(stream, {
-          headers: {
-            'Content-Type': 'text/event-stream',
-            'Cache-Control': 'no-cache, no-transform',
-            'Connection': 'keep-alive',
-            'X-Accel-Buffering': 'no',
-          },
-        });
+        return new Response(stream, { headers: SSE_HEADERS });
 
       } catch (error) {
         console.error('Preference command error:', error);
         sendEvent({ type: 'error', error: 'Wystąpił błąd podczas obsługi preferencji' });
         close();
-        return new Response(stream, {
-          headers: {
-            'Content-Type': 'text/event-stream',
-            'Cache-Control': 'no-cache, no-transform',
-            'Connection': 'keep-alive',
-            'X-Accel-Buffering': 'no',
-          },
-        });
+        return new Response(stream, { headers: SSE_HEADERS });
       }
     }
 
-    // Pobierz historię i kontekst
-    const history = await getConversationHistory(conversationId, CHAT_HISTORY_LIMIT);
+    // Pobierz historię i kontekst - wiadomości objęte podsumowaniem rozmowy są pomijane
+    const existingConversation = conversation_id ? await getConversationById(conversationId) : null;
+    const summaryUntil = existingConversation?.summary_until || undefined;
+    const history = await getConversationHistory(conversationId, CONTEXT_HISTORY_FETCH_LIMIT, undefined, summaryUntil);
     const project = project_id ? await getProjectById(project_id) : undefined;
 
     const context: AIContext = {
@@ -857,19 +659,29 @@ export async function POST(request: NextRequest) {
       project: project || undefined,
       editorContent: requestContext?.editorContent,
       projectContext: projectContext || undefined,
+      historySummary: existingConversation?.summary || undefined,
+      projectKnowledge: await loadProjectKnowledge(project || undefined, message),
+      // Wiadomości z historii model i tak dostaje - nie powtarzamy ich jako pamięci
+      memories: await retrieveMemories(message, project_id, [userMessage.id, ...history.map(m => m.id)]),
     };
 
     // Uruchom orkiestrację z projectId dla auto-save
-    orchestrateAI(sendEvent, close, conversationId, message, mode, context, project_id);
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache, no-transform',
-        'Connection': 'keep-alive',
-        'X-Accel-Buffering': 'no',
-      },
-    });
+    orchestrateAI(
+      sendEvent,
+      close,
+      conversationId,
+      message,
+      steps,
+      context,
+      userMessage.created_at,
+      signal,
+      project_id,
+      summaryUntil,
+      repo,
+      fixAttempts
+    );
+
+    return new Response(stream, { headers: SSE_HEADERS });
 
   } catch (error) {
     console.error('Chat API error:', error);
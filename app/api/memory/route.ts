@@ -0,0 +1,29 @@
+/**
+ * API endpoint pamięci semantycznej
+ * POST /api/memory - embeduje zapisany lub zmieniony rekord bazy wiedzy (decyzja, bug, dokumentacja)
+ */
+
+import { NextResponse } from 'next/server';
+import { indexKnowledgeRecord } from '@/lib/ai/memory';
+import type { MemoryRecordType } from '@/lib/types';
+
+const MEMORY_RECORD_TYPES: MemoryRecordType[] = ['decision', 'bug', 'doc'];
+
+export async function POST(request: Request) {
+  try {
+    const { type, id } = await request.json();
+
+    if (!MEMORY_RECORD_TYPES.includes(type) || !id) {
+      return NextResponse.json({ error: 'Wymagane pola: type (decision | bug | doc), id' }, { status: 400 });
+    }
+
+    const indexed = await indexKnowledgeRecord(type, id);
+    return NextResponse.json({ indexed });
+  } catch (error) {
+    console.error('Błąd indeksowania pamięci:', error);
+
+    const message = error instanceof Error ? error.message : 'Nieznany błąd';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
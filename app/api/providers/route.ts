@@ -0,0 +1,26 @@
+/**
+ * API endpoint z listą zarejestrowanych providerów AI
+ * GET /api/providers - id, typ, model i osobowość (bez kluczy API)
+ */
+
+import { NextResponse } from 'next/server';
+import { listProviders } from '@/lib/ai/registry';
+
+export async function GET() {
+  try {
+    const providers = listProviders().map(provider => ({
+      id: provider.id,
+      type: provider.type,
+      model: provider.model,
+      personality: provider.personality,
+    }));
+
+    return NextResponse.json({ providers });
+  } catch (error) {
+    console.error('Błąd pobierania providerów AI:', error);
+
+    const message = error instanceof Error ? error.message : 'Nieznany błąd';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * API endpoint sprawdzania kodu w sandboxie (np. krok workflow N8N przed review)
+ * POST /api/sandbox { files: [{ path, content }], entry?, timeoutMs? } → SandboxResult
+ * Wymagany nagłówek Authorization: Bearer <N8N_WEBHOOK_SECRET> - bez sekretu endpoint jest niedostępny
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runSandbox, normalizeSandboxRequest, isSandboxEnabled } from '@/lib/sandbox';
+
+const N8N_WEBHOOK_SECRET = process.env.N8N_WEBHOOK_SECRET;
+
+export async function POST(request: NextRequest) {
+  if (!isSandboxEnabled()) {
+    return NextResponse.json(
+      { error: 'Sandbox jest wyłączony (ustaw SANDBOX_ENABLED=true)' },
+      { status: 503 }
+    );
+  }
+
+  // Endpoint uruchamia przesłany kod - nigdy bez autoryzacji
+  if (!N8N_WEBHOOK_SECRET) {
+    return NextResponse.json(
+      { error: 'Brak konfiguracji N8N_WEBHOOK_SECRET' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${N8N_WEBHOOK_SECRET}`) {
+    return NextResponse.json(
+      { error: 'Brak autoryzacji' },
+      { status: 401 }
+    );
+  }
+
+  let sandboxRequest;
+  try {
+    sandboxRequest = normalizeSandboxRequest(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Nieprawidłowe dane' },
+      { status: 400 }
+    );
+  }
+
+  const result = await runSandbox(sandboxRequest, request.signal);
+  return NextResponse.json(result, { status: result.status === 'error' ? 500 : 200 });
+}
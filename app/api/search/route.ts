@@ -0,0 +1,42 @@
+/**
+ * API endpoint wyszukiwania globalnego
+ * GET /api/search?q=...&project_id=&sender=&from=&to=&sources=message,decision
+ * Full-text search w wiadomościach, tytułach rozmów, decyzjach, bugach, dokumentacji i promptach
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchAll } from '@/lib/supabase';
+import { SEARCH_SOURCE_LABELS } from '@/lib/constants';
+import type { MessageSender, SearchSource } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim() || '';
+
+    if (!query) {
+      return NextResponse.json({ error: 'Brak zapytania (q)' }, { status: 400 });
+    }
+
+    const sources = (params.get('sources') || '')
+      .split(',')
+      .filter((source): source is SearchSource => source in SEARCH_SOURCE_LABELS);
+
+    const results = await searchAll({
+      query,
+      projectId: params.get('project_id') || undefined,
+      sender: (params.get('sender') || undefined) as MessageSender | undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      sources,
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Błąd wyszukiwania:', error);
+
+    const message = error instanceof Error ? error.message : 'Nieznany błąd';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
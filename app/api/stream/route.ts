@@ -5,6 +5,8 @@
 
 import { NextRequest } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { TASK_STALE_TIMEOUT_MS } from '@/lib/constants';
+import { getTaskBackend } from '@/lib/ai/taskRunner';
 import type { StreamEvent, Task, TaskIteration } from '@/lib/types';
 
 // Zmienne środowiskowe
@@ -92,6 +94,24 @@ export async function GET(request: NextRequest) {
 
           const typedTask = task as Task;
 
+          // Zadanie porzucone (np. funkcja runnera ubita przez hosting) - bez tego wisiałoby w in_progress
+          // Tylko wbudowany runner ma limit czasu zadania - workflow N8N może legalnie trwać dłużej
+          const isStale = getTaskBackend() === 'builtin'
+            && (typedTask.status === 'pending' || typedTask.status === 'in_progress')
+            && !!typedTask.created_at
+            && Date.now() - new Date(typedTask.created_at).getTime() > TASK_STALE_TIMEOUT_MS;
+          if (isStale) {
+            const { error: staleError } = await supabase
+              .from('tasks')
+              .update({ status: 'failed' })
+              .eq('id', taskId)
+              .eq('status', typedTask.status);
+            if (staleError) {
+              console.error('Błąd oznaczania porzuconego zadania:', staleError);
+            }
+            typedTask.status = 'failed';
+          }
+
           // Pobierz ostatnią iterację
           const { data: iterations } = await supabase
             .from('task_iterations')
@@ -151,7 +171,7 @@ export async function GET(request: NextRequest) {
 
             case 'failed':
               streamStatus = 'error';
-              message = 'Zadanie zakończyło się błędem';
+              message = isStale ? 'Zadanie przerwane - przekroczono limit czasu' : 'Zadanie zakończyło się błędem';
               break;
           }
 
@@ -190,7 +210,7 @@ export async function GET(request: NextRequest) {
 
             // Dodaj błąd jeśli wystąpił
             if (streamStatus === 'error') {
-              event.error = 'Task failed';
+              event.error = isStale ? 'TIMEOUT' : 'Task failed';
             }
 
             sendEvent(controller, encoder, event);
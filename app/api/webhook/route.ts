@@ -1,13 +1,19 @@
 /**
  * API Route: /api/webhook
- * Proxy do N8N webhook - wysyła zadanie do przetworzenia przez multi-LLM pipeline
+ * Tworzy zadanie i przekazuje je do multi-LLM pipeline - wbudowanego runnera albo webhooka N8N (TASK_RUNNER)
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { createTask, updateTask } from '@/lib/supabase';
+import { runTask, getTaskBackend } from '@/lib/ai/taskRunner';
+import { checkProjectBudget, formatBudgetMessage } from '@/lib/ai/pricing';
 import type { WebhookRequest, WebhookResponse, Project, Task } from '@/lib/types';
 
 // Zmienne środowiskowe
+// Wbudowany runner działa po wysłaniu odpowiedzi (after) - funkcja musi żyć do końca zadania (TASK_RUN_TIMEOUT_MS)
+export const maxDuration = 800;
+
 const N8N_WEBHOOK_URL = process.env.N8N_WEBHOOK_URL;
 const N8N_WEBHOOK_SECRET = process.env.N8N_WEBHOOK_SECRET;
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -24,7 +30,8 @@ const getSupabaseClient = () => {
 export async function POST(request: NextRequest) {
   try {
     // Sprawdź konfigurację
-    if (!N8N_WEBHOOK_URL) {
+    const backend = getTaskBackend();
+    if (backend === 'n8n' && !N8N_WEBHOOK_URL) {
       return NextResponse.json(
         { error: 'Brak konfiguracji N8N webhook URL' },
         { status: 500 }
@@ -43,6 +50,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Zablokuj zadanie po przekroczeniu budżetu projektu
+    const budget = project_id ? await checkProjectBudget(project_id) : null;
+    if (budget?.status === 'exceeded' && budget.action === 'block') {
+      return NextResponse.json(
+        { error: formatBudgetMessage(budget) },
+        { status: 402 }
+      );
+    }
+
     // Pobierz kontekst z Supabase
     // Używamy Partial<Task> dla recent_tasks bo pobieramy tylko wybrane pola
     let context: { project?: Project; recent_tasks?: Partial<Task>[] } = {};
@@ -84,33 +100,36 @@ export async function POST(request: NextRequest) {
       // Kontynuuj bez kontekstu
     }
 
-    // Utwórz nowe zadanie w bazie
-    let taskId: string;
+    // Utwórz nowe zadanie w bazie - bez zapisu runner nie ma gdzie raportować postępu
+    let newTask: Task;
 
     try {
-      const supabase = getSupabaseClient();
-
-      const { data: newTask, error: insertError } = await supabase
-        .from('tasks')
-        .insert({
-          title: task.substring(0, 100), // Pierwsze 100 znaków jako tytuł
-          description: task,
-          project_id: project_id || null,
-          status: 'pending',
-          iteration_count: 0,
-        })
-        .select('id')
-        .single();
-
-      if (insertError) {
-        throw insertError;
-      }
-
-      taskId = newTask.id;
+      newTask = await createTask({
+        title: task.substring(0, 100), // Pierwsze 100 znaków jako tytuł
+        description: task,
+        project_id: project_id || null,
+        status: 'pending',
+        iteration_count: 0,
+      });
     } catch (dbError) {
       console.error('Błąd zapisu do bazy:', dbError);
-      // Wygeneruj tymczasowe ID jeśli baza nie działa
-      taskId = `temp-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      return NextResponse.json(
+        { error: 'Nie udało się utworzyć zadania' },
+        { status: 500 }
+      );
+    }
+
+    const taskId = newTask.id;
+
+    // Wbudowany runner - pipeline wykonuje się po wysłaniu odpowiedzi, postęp przez /api/stream
+    if (backend === 'builtin') {
+      after(() => runTask(newTask, mode || 'full', context.project));
+
+      const response: WebhookResponse = {
+        task_id: taskId,
+        stream_url: `/api/stream?task_id=${taskId}`,
+      };
+      return NextResponse.json(response);
     }
 
     // Przygotuj payload dla N8N
@@ -124,7 +143,7 @@ export async function POST(request: NextRequest) {
     };
 
     // Wyślij do N8N webhook
-    const webhookResponse = await fetch(N8N_WEBHOOK_URL, {
+    const webhookResponse = await fetch(N8N_WEBHOOK_URL!, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -143,11 +162,7 @@ export async function POST(request: NextRequest) {
 
       // Oznacz zadanie jako failed
       try {
-        const supabase = getSupabaseClient();
-        await supabase
-          .from('tasks')
-          .update({ status: 'failed' })
-          .eq('id', taskId);
+        await updateTask(taskId, { status: 'failed' });
       } catch {
         // Ignoruj błędy aktualizacji
       }
@@ -169,11 +184,7 @@ export async function POST(request: NextRequest) {
 
     // Oznacz zadanie jako in_progress
     try {
-      const supabase = getSupabaseClient();
-      await supabase
-        .from('tasks')
-        .update({ status: 'in_progress' })
-        .eq('id', taskId);
+      await updateTask(taskId, { status: 'in_progress' });
     } catch {
       // Ignoruj błędy aktualizacji
     }
@@ -205,6 +216,7 @@ export async function GET() {
     status: 'ok',
     endpoint: '/api/webhook',
     method: 'POST',
-    configured: !!N8N_WEBHOOK_URL,
+    backend: getTaskBackend(),
+    configured: getTaskBackend() === 'builtin' || !!N8N_WEBHOOK_URL,
   });
 }
@@ -11,7 +11,7 @@
 'use client';
 
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { Bot, Menu, X, ChevronDown, GripHorizontal } from 'lucide-react';
+import { Bot, Menu, X, ChevronDown, GripHorizontal, BarChart3, Inbox, BookOpen, Search, MessageSquareText, SquareKanban } from 'lucide-react';
 import { toast } from 'sonner';
 
 // Komponenty
@@ -22,6 +22,13 @@ import { ModeSelector } from '@/components/chat/ModeSelector';
 import { Button } from '@/components/ui/button';
 import { GitHubSync } from '@/components/github/GitHubSync';
 import { ArtifactPanel } from '@/components/artifacts/ArtifactPanel';
+import { UsagePanel } from '@/components/usage/UsagePanel';
+import { ReviewInbox } from '@/components/review/ReviewInbox';
+import { KnowledgeBase } from '@/components/knowledge/KnowledgeBase';
+import { CommandPalette } from '@/components/search/CommandPalette';
+import { PromptLibrary } from '@/components/prompts/PromptLibrary';
+import { BacklogBoard } from '@/components/backlog/BacklogBoard';
+import { DiffReview } from '@/components/editor/DiffReview';
 
 // Hooks
 import { useProjects } from '@/hooks/useProjects';
@@ -30,9 +37,13 @@ import { useCodeEditor } from '@/hooks/useCodeEditor';
 import { useGitHub } from '@/hooks/useGitHub';
 import { useArtifacts } from '@/hooks/useArtifacts';
 import { useFiles } from '@/hooks/useFiles';
+import { useAIProviders } from '@/hooks/useAIProviders';
+import { usePipelines } from '@/hooks/usePipelines';
+import { useReviewQueue } from '@/hooks/useReviewQueue';
+import { useReviewFindings } from '@/hooks/useReviewFindings';
 
 // Typy i stałe
-import type { ChatMode, Project } from '@/lib/types';
+import type { AppliedFileChange, ChatMode, FeedbackRating, FileEdit, KnowledgeType, Project, ReviewFeedback, SearchResult } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
 export default function KodusChatPage() {
@@ -41,6 +52,17 @@ export default function KodusChatPage() {
   const [mobileView, setMobileView] = useState<'chat' | 'editor'>('chat');
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [usageOpen, setUsageOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  // Otwarta zakładka bazy wiedzy (null - panel zamknięty)
+  const [knowledgeTab, setKnowledgeTab] = useState<KnowledgeType | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [promptsOpen, setPromptsOpen] = useState(false);
+  const [backlogOpen, setBacklogOpen] = useState(false);
+  // Zmiany plików z odpowiedzi AI otwarte w przeglądzie diff
+  const [reviewEdits, setReviewEdits] = useState<FileEdit[] | null>(null);
+  // Tekst z biblioteki promptów do wstawienia w pole czatu (id - każde wstawienie osobno)
+  const [chatInsert, setChatInsert] = useState<{ text: string; id: number } | null>(null);
 
   // Stan dla draggable divider - procent wysokości chatu (domyślnie 60%)
   const [chatHeightPercent, setChatHeightPercent] = useState(60);
@@ -48,26 +70,38 @@ export default function KodusChatPage() {
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Pobierz projekty
-  const { state: projectsState } = useProjects();
+  const { state: projectsState, refresh: refreshProjects } = useProjects();
+
+  // Kolejka przeglądu elementów z auto-save
+  const reviewQueue = useReviewQueue(selectedProjectId || undefined);
 
   // Chat hook
+  // GitHub hook - przed czatem, AI czyta pliki z połączonego repo
+  const github = useGitHub();
+
   const chat = useChat({
     projectId: selectedProjectId || undefined,
+    repo: github.isConnected ? github.repoInfo : null,
     onError: (error) => toast.error(error),
+    onWarning: (warning) => toast.warning(warning),
+    onAutoSaved: reviewQueue.refresh,
   });
 
   // Code editor hook
   const editor = useCodeEditor();
 
-  // GitHub hook
-  const github = useGitHub();
-
   // Artifacts hook
   const artifacts = useArtifacts();
 
   // Files hook (dla kontekstu projektu)
   const files = useFiles();
 
+  // Providery AI z konfiguracji (osobowości dla wiadomości i typing indicatora)
+  const { providers } = useAIProviders();
+
+  // Własne pipeline'y zespołu dla wybranego projektu
+  const { pipelines } = usePipelines(selectedProjectId || undefined);
+
   // Synchronizuj GitHub repo z hookiem plików
   useEffect(() => {
     if (github.isConnected && github.repoInfo) {
@@ -127,6 +161,19 @@ export default function KodusChatPage() {
     [editor]
   );
 
+  // Zastosuj zaakceptowane fragmenty zmian w edytorze
+  const handleApplyEdits = useCallback(
+    (changes: AppliedFileChange[]) => {
+      editor.applyFileChanges(changes);
+      setReviewEdits(null);
+      toast.success(`Zastosowano zmiany w ${changes.length} ${changes.length === 1 ? 'pliku' : 'plikach'}`);
+      setMobileView('editor');
+    },
+    [editor]
+  );
+
+  const handleCloseReview = useCallback(() => setReviewEdits(null), []);
+
   // Otwórz kod jako artefakt (panel boczny)
   const handleOpenArtifact = useCallback(
     (code: string, filename?: string, language?: string) => {
@@ -190,12 +237,61 @@ export default function KodusChatPage() {
         chat.startNewConversation();
         toast.info('Nowa rozmowa');
       }
+      if (e.ctrlKey && e.key === 'k') {
+        e.preventDefault();
+        setSearchOpen(true);
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [chat]);
 
+  // Ocena odpowiedzi AI
+  const { rateMessage } = chat;
+  const handleRateMessage = useCallback(async (messageId: string, rating: FeedbackRating) => {
+    if (!(await rateMessage(messageId, rating))) {
+      toast.error('Nie udało się zapisać oceny');
+    }
+  }, [rateMessage]);
+
+  // Uwagi z review przy wiadomościach recenzentów - odświeżane po każdej odpowiedzi zespołu
+  const reviewFindings = useReviewFindings(chat.conversationId, chat.isLoading);
+  const { toggle: toggleFinding } = reviewFindings;
+  const handleToggleFinding = useCallback(async (finding: ReviewFeedback) => {
+    if (!(await toggleFinding(finding))) {
+      toast.error('Nie udało się zapisać uwagi');
+    }
+  }, [toggleFinding]);
+
+  // Propozycja AI z wiadomości → backlog projektu
+  const { addBacklogProposal } = chat;
+  const handleAddToBacklog = useCallback(async (messageId: string, index: number) => {
+    const item = await addBacklogProposal(messageId, index);
+    if (item) {
+      toast.success(`Dodano do backlogu: ${item.title}`);
+    } else {
+      toast.error('Nie udało się dodać do backlogu');
+    }
+  }, [addBacklogProposal]);
+
+  // Wynik wyszukiwania - przejście do wiadomości albo do rekordu w bazie wiedzy
+  const handleSearchSelect = useCallback((result: SearchResult) => {
+    setSearchOpen(false);
+
+    if (result.conversation_id) {
+      chat.loadConversation(result.conversation_id, result.message_id);
+      return;
+    }
+    // Rekord dodany ręcznie (bez rozmowy) - otwórz zakładkę bazy wiedzy jego projektu
+    if (result.project_id && (result.source === 'decision' || result.source === 'bug' || result.source === 'doc')) {
+      setSelectedProjectId(result.project_id);
+      setKnowledgeTab(result.source);
+      return;
+    }
+    toast.info('Ten wynik nie jest powiązany z rozmową');
+  }, [chat]);
+
   // Filtruj konwersacje
   const filteredConversations = (chat as any).conversations?.filter(
     (c: any) =>
@@ -298,8 +394,71 @@ export default function KodusChatPage() {
             </span>
           </div>
 
-          {/* Right: GitHub sync */}
+          {/* Right: wyszukiwanie + prompty + backlog + baza wiedzy + przegląd + koszty + GitHub sync */}
           <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setSearchOpen(true)}
+              title="Szukaj (Ctrl+K)"
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setPromptsOpen(true)}
+              title="Biblioteka promptów"
+            >
+              <MessageSquareText className="h-4 w-4" />
+            </Button>
+            {selectedProject && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setBacklogOpen(true)}
+                title="Backlog projektu"
+              >
+                <SquareKanban className="h-4 w-4" />
+              </Button>
+            )}
+            {selectedProject && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setKnowledgeTab('decision')}
+                title="Baza wiedzy projektu"
+              >
+                <BookOpen className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="relative h-8 w-8"
+              onClick={() => setReviewOpen(true)}
+              title="Do przeglądu"
+            >
+              <Inbox className="h-4 w-4" />
+              {reviewQueue.items.length > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-purple-600 text-[10px] leading-4 text-white">
+                  {reviewQueue.items.length}
+                </span>
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setUsageOpen(true)}
+              title="Zużycie i koszty"
+            >
+              <BarChart3 className="h-4 w-4" />
+            </Button>
             <GitHubSync
               github={github}
               files={editor.files}
@@ -351,9 +510,19 @@ export default function KodusChatPage() {
               <ChatPanel
                 messages={chat.messages}
                 onSend={chat.sendMessage}
+                onStop={chat.stopGeneration}
+                onRegenerate={chat.regenerateMessage}
+                onRate={handleRateMessage}
+                reviewFindings={reviewFindings.byMessage}
+                onToggleFinding={handleToggleFinding}
+                onAddToBacklog={selectedProjectId ? handleAddToBacklog : undefined}
+                onReviewEdits={setReviewEdits}
+                focusedMessageId={chat.focusedMessageId}
                 isLoading={chat.isLoading}
                 currentlyTyping={chat.currentlyTyping}
                 typingQueue={chat.typingQueue}
+                pipelines={pipelines}
+                insertText={chatInsert}
                 onInsertCode={handleInsertCode}
                 onOpenArtifact={handleOpenArtifact}
                 contextLoaded={files.contextLoaded}
@@ -416,9 +585,19 @@ export default function KodusChatPage() {
               <ChatPanel
                 messages={chat.messages}
                 onSend={chat.sendMessage}
+                onStop={chat.stopGeneration}
+                onRegenerate={chat.regenerateMessage}
+                onRate={handleRateMessage}
+                reviewFindings={reviewFindings.byMessage}
+                onToggleFinding={handleToggleFinding}
+                onAddToBacklog={selectedProjectId ? handleAddToBacklog : undefined}
+                onReviewEdits={setReviewEdits}
+                focusedMessageId={chat.focusedMessageId}
                 isLoading={chat.isLoading}
                 currentlyTyping={chat.currentlyTyping}
                 typingQueue={chat.typingQueue}
+                pipelines={pipelines}
+                insertText={chatInsert}
                 onInsertCode={handleInsertCode}
                 onOpenArtifact={handleOpenArtifact}
                 contextLoaded={files.contextLoaded}
@@ -470,6 +649,111 @@ export default function KodusChatPage() {
         onRemoveArtifact={artifacts.removeArtifact}
         onInsertToEditor={handleInsertCode}
       />
+
+      {/* Zużycie tokenów i koszty */}
+      {usageOpen && (
+        <UsagePanel
+          project={selectedProject}
+          conversationId={chat.conversationId}
+          onClose={() => setUsageOpen(false)}
+          onBudgetSaved={() => {
+            refreshProjects();
+            toast.success('Zapisano budżet projektu');
+          }}
+        />
+      )}
+
+      {/* Wyszukiwanie globalne */}
+      {searchOpen && (
+        <CommandPalette
+          projectId={selectedProjectId || undefined}
+          projectName={selectedProject?.name}
+          senders={providers.map((p) => p.id)}
+          onSelect={handleSearchSelect}
+          onClose={() => setSearchOpen(false)}
+        />
+      )}
+
+      {/* Biblioteka promptów */}
+      {promptsOpen && (
+        <PromptLibrary
+          projectId={selectedProjectId || undefined}
+          projectName={selectedProject?.name}
+          onInsert={(text) => {
+            setChatInsert({ text, id: Date.now() });
+            setMobileView('chat');
+            setPromptsOpen(false);
+          }}
+          onClose={() => setPromptsOpen(false)}
+        />
+      )}
+
+      {/* Przegląd zmian plików zaproponowanych przez AI */}
+      {reviewEdits && (
+        <DiffReview
+          edits={reviewEdits}
+          files={editor.files}
+          repoUrl={github.isConnected ? github.repoInfo?.repoUrl : null}
+          onApply={handleApplyEdits}
+          onClose={handleCloseReview}
+        />
+      )}
+
+      {/* Tablica backlogu projektu */}
+      {backlogOpen && selectedProject && (
+        <BacklogBoard
+          project={selectedProject}
+          onOpenConversation={(id) => {
+            chat.loadConversation(id);
+            setBacklogOpen(false);
+          }}
+          onError={(msg) => toast.error(msg)}
+          onClose={() => setBacklogOpen(false)}
+        />
+      )}
+
+      {/* Baza wiedzy projektu */}
+      {knowledgeTab && selectedProject && (
+        <KnowledgeBase
+          project={selectedProject}
+          initialType={knowledgeTab}
+          onOpenConversation={(id) => {
+            chat.loadConversation(id);
+            setKnowledgeTab(null);
+          }}
+          onProjectUpdated={() => {
+            refreshProjects();
+            toast.success('Zapisano ustawienia wiedzy projektu');
+          }}
+          onClose={() => setKnowledgeTab(null)}
+        />
+      )}
+
+      {/* Kolejka przeglądu auto-save */}
+      {reviewOpen && (
+        <ReviewInbox
+          items={reviewQueue.items}
+          isLoading={reviewQueue.isLoading}
+          projectId={selectedProjectId || undefined}
+          projectName={selectedProject?.name}
+          onAccept={async (item, changes) => {
+            const ok = await reviewQueue.accept(item, changes);
+            if (!ok) toast.error('Nie udało się zaakceptować elementu');
+            return ok;
+          }}
+          onReject={async (item) => {
+            const ok = await reviewQueue.reject(item);
+            if (!ok) toast.error('Nie udało się odrzucić elementu');
+            return ok;
+          }}
+          onRefresh={reviewQueue.refresh}
+          onClose={() => setReviewOpen(false)}
+          onMerged={() => {
+            reviewQueue.refresh();
+            toast.success('Scalono duplikaty');
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
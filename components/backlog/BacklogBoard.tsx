@@ -0,0 +1,448 @@
+'use client';
+
+/**
+ * BacklogBoard - tablica kanban backlogu projektu
+ * Kolumny to statusy backlogu, tory to kamienie milowe (plus tor bez kamienia milowego)
+ * Karty przeciągane między kolumnami i torami, status kamienia milowego zmieniany w nagłówku toru
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { SquareKanban, X, RefreshCw, Plus, Flag, MessageSquare } from 'lucide-react';
+import { useBacklog } from '@/hooks/useBacklog';
+import { BACKLOG_STATUS_LABELS, BACKLOG_PRIORITY_LABELS, MILESTONE_STATUS_LABELS } from '@/lib/constants';
+import type { BacklogItem, BacklogPriority, BacklogStatus, Milestone, MilestoneStatus, Project } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface BacklogBoardProps {
+  project: Project;
+  onOpenConversation: (conversationId: string) => void;
+  onError?: (message: string) => void;
+  onClose: () => void;
+}
+
+const STATUSES = Object.keys(BACKLOG_STATUS_LABELS) as BacklogStatus[];
+const PRIORITIES = Object.keys(BACKLOG_PRIORITY_LABELS) as BacklogPriority[];
+
+const PRIORITY_STYLES: Record<BacklogPriority, string> = {
+  critical: 'bg-red-500/20 text-red-300',
+  high: 'bg-orange-500/20 text-orange-300',
+  medium: 'bg-blue-500/20 text-blue-300',
+  low: 'bg-zinc-700/60 text-zinc-400',
+};
+
+// Tor bez kamienia milowego
+const NO_MILESTONE = 'none';
+
+const inputClass = 'w-full px-2 py-1 rounded bg-zinc-900 border border-zinc-700 focus:border-purple-500 outline-none text-sm';
+
+/**
+ * Formularz nowego elementu backlogu
+ */
+function ItemForm({
+  milestones,
+  onSubmit,
+  onCancel,
+}: {
+  milestones: Milestone[];
+  onSubmit: (input: { title: string; description?: string; priority: BacklogPriority; tags: string[]; milestone_id?: string }) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<BacklogPriority>('medium');
+  const [milestoneId, setMilestoneId] = useState('');
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    const ok = await onSubmit({
+      title: title.trim(),
+      description: description.trim() || undefined,
+      priority,
+      tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      milestone_id: milestoneId || undefined,
+    });
+    if (!ok) setIsSaving(false);
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-zinc-800/50 border border-purple-500/40 space-y-2">
+      <div className="flex gap-2">
+        <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Tytuł *" className={inputClass} />
+        <select
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as BacklogPriority)}
+          className="px-2 py-1 rounded bg-zinc-900 border border-zinc-700 outline-none text-sm"
+        >
+          {PRIORITIES.map((value) => (
+            <option key={value} value={value}>{BACKLOG_PRIORITY_LABELS[value]}</option>
+          ))}
+        </select>
+        <select
+          value={milestoneId}
+          onChange={(e) => setMilestoneId(e.target.value)}
+          className="px-2 py-1 rounded bg-zinc-900 border border-zinc-700 outline-none text-sm"
+        >
+          <option value="">Bez kamienia milowego</option>
+          {milestones.map((milestone) => (
+            <option key={milestone.id} value={milestone.id}>{milestone.title}</option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        rows={3}
+        placeholder="Opis"
+        className={cn(inputClass, 'resize-y')}
+      />
+      <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tagi (po przecinku)" className={inputClass} />
+      <div className="flex justify-end gap-2 text-sm">
+        <button onClick={onCancel} className="px-3 py-1 rounded text-zinc-400 hover:text-white transition-colors">
+          Anuluj
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={isSaving || !title.trim()}
+          className="px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors"
+        >
+          Zapisz
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Formularz nowego kamienia milowego
+ */
+function MilestoneForm({
+  onSubmit,
+  onCancel,
+}: {
+  onSubmit: (input: { title: string; description?: string; target_date?: string }) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    const ok = await onSubmit({
+      title: title.trim(),
+      description: description.trim() || undefined,
+      target_date: targetDate || undefined,
+    });
+    if (!ok) setIsSaving(false);
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-zinc-800/50 border border-purple-500/40 space-y-2">
+      <div className="flex gap-2">
+        <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Tytuł *" className={inputClass} />
+        <input
+          type="date"
+          value={targetDate}
+          onChange={(e) => setTargetDate(e.target.value)}
+          className="px-2 py-1 rounded bg-zinc-900 border border-zinc-700 outline-none text-sm"
+          title="Termin"
+        />
+      </div>
+      <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Opis" className={inputClass} />
+      <div className="flex justify-end gap-2 text-sm">
+        <button onClick={onCancel} className="px-3 py-1 rounded text-zinc-400 hover:text-white transition-colors">
+          Anuluj
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={isSaving || !title.trim()}
+          className="px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors"
+        >
+          Zapisz
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Karta elementu backlogu
+ */
+function BacklogCard({
+  item,
+  isDragging,
+  onDragStart,
+  onDragEnd,
+  onOpenConversation,
+}: {
+  item: BacklogItem;
+  isDragging: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onOpenConversation: (conversationId: string) => void;
+}) {
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', item.id);
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      className={cn(
+        'p-2 rounded-lg bg-zinc-800 border border-zinc-700 cursor-grab active:cursor-grabbing text-xs',
+        isDragging && 'opacity-40'
+      )}
+      title={item.description || undefined}
+    >
+      <div className="text-sm text-white break-words">{item.title}</div>
+      <div className="mt-1 flex flex-wrap items-center gap-1">
+        <span className={cn('px-1.5 py-0.5 rounded', PRIORITY_STYLES[item.priority])}>
+          {BACKLOG_PRIORITY_LABELS[item.priority] || item.priority}
+        </span>
+        {item.tags?.map((tag) => (
+          <span key={tag} className="text-zinc-500">#{tag}</span>
+        ))}
+        {item.conversation_id && (
+          <button
+            onClick={() => onOpenConversation(item.conversation_id!)}
+            className="ml-auto p-0.5 rounded text-zinc-500 hover:text-white"
+            title="Otwórz rozmowę"
+          >
+            <MessageSquare size={12} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function BacklogBoard({ project, onOpenConversation, onError, onClose }: BacklogBoardProps) {
+  const { items, milestones, isLoading, refresh, createItem, createMilestone, moveItem, setMilestoneStatus } =
+    useBacklog(project.id);
+  const [adding, setAdding] = useState<'item' | 'milestone' | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Zamknij panel na Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Karty pogrupowane po torze i kolumnie, w kolumnie od najwyższego priorytetu
+  const cells = useMemo(() => {
+    const grouped: Record<string, BacklogItem[]> = {};
+    const milestoneIds = new Set(milestones.map((m) => m.id));
+    for (const item of items) {
+      // Kamień milowy usunięty - karta wraca do toru bez kamienia milowego
+      const lane = item.milestone_id && milestoneIds.has(item.milestone_id) ? item.milestone_id : NO_MILESTONE;
+      (grouped[`${lane}:${item.status}`] ||= []).push(item);
+    }
+    for (const cell of Object.values(grouped)) {
+      cell.sort((a, b) => PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority));
+    }
+    return grouped;
+  }, [items, milestones]);
+
+  const lanes: { id: string; milestone?: Milestone }[] = [
+    ...milestones.map((milestone) => ({ id: milestone.id, milestone })),
+    { id: NO_MILESTONE },
+  ];
+
+  const handleDrop = async (laneId: string, status: BacklogStatus) => {
+    const item = items.find((i) => i.id === draggingId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!item) return;
+
+    const ok = await moveItem(item, status, laneId === NO_MILESTONE ? null : laneId);
+    if (!ok) onError?.('Nie udało się przenieść elementu');
+  };
+
+  const handleMilestoneStatus = async (milestone: Milestone, status: MilestoneStatus) => {
+    if (!(await setMilestoneStatus(milestone, status))) {
+      onError?.('Nie udało się zmienić statusu kamienia milowego');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-7xl h-[90vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <SquareKanban size={18} className="text-purple-400" />
+            <h2 className="font-medium text-white">Backlog</h2>
+            <span className="text-xs text-zinc-500">{project.name}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setAdding('item')}
+              disabled={adding !== null}
+              className="flex items-center gap-1.5 px-3 py-1 mr-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors text-sm"
+            >
+              <Plus size={14} /> Element
+            </button>
+            <button
+              onClick={() => setAdding('milestone')}
+              disabled={adding !== null}
+              className="flex items-center gap-1.5 px-3 py-1 mr-1 rounded bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 transition-colors text-sm"
+            >
+              <Flag size={14} /> Kamień milowy
+            </button>
+            <button
+              onClick={refresh}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Odśwież"
+            >
+              <RefreshCw size={16} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Zamknij (Esc)"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {adding && (
+          <div className="px-4 py-3 border-b border-zinc-800">
+            {adding === 'item' ? (
+              <ItemForm
+                milestones={milestones}
+                onSubmit={async (input) => {
+                  const ok = !!(await createItem(input));
+                  if (ok) setAdding(null);
+                  else onError?.('Nie udało się dodać elementu');
+                  return ok;
+                }}
+                onCancel={() => setAdding(null)}
+              />
+            ) : (
+              <MilestoneForm
+                onSubmit={async (input) => {
+                  const ok = !!(await createMilestone(input));
+                  if (ok) setAdding(null);
+                  else onError?.('Nie udało się dodać kamienia milowego');
+                  return ok;
+                }}
+                onCancel={() => setAdding(null)}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Tablica */}
+        <div className="flex-1 overflow-auto p-4">
+          {isLoading ? (
+            <p className="text-sm text-zinc-500">Ładowanie...</p>
+          ) : (
+            <div className="min-w-[900px] space-y-4">
+              {/* Kolumny */}
+              <div className="grid grid-cols-5 gap-2 text-xs text-zinc-500">
+                {STATUSES.map((status) => (
+                  <div key={status} className="px-2">
+                    {BACKLOG_STATUS_LABELS[status]} ({items.filter((i) => i.status === status).length})
+                  </div>
+                ))}
+              </div>
+
+              {lanes.map(({ id: laneId, milestone }) => {
+                const laneItems = STATUSES.flatMap((status) => cells[`${laneId}:${status}`] || []);
+                const done = laneItems.filter((i) => i.status === 'done').length;
+
+                return (
+                  <div key={laneId} className="rounded-lg border border-zinc-800">
+                    {/* Nagłówek toru */}
+                    <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-800 bg-zinc-800/30 text-sm">
+                      <Flag size={14} className={milestone ? 'text-purple-400' : 'text-zinc-600'} />
+                      <span className={cn('font-medium', milestone ? 'text-white' : 'text-zinc-400')}>
+                        {milestone?.title || 'Bez kamienia milowego'}
+                      </span>
+                      {milestone?.target_date && (
+                        <span className="text-xs text-zinc-500">
+                          termin {new Date(milestone.target_date).toLocaleDateString('pl-PL')}
+                        </span>
+                      )}
+                      <span className="text-xs text-zinc-500">
+                        {done}/{laneItems.length} zrobione
+                      </span>
+                      {milestone && (
+                        <select
+                          value={milestone.status}
+                          onChange={(e) => handleMilestoneStatus(milestone, e.target.value as MilestoneStatus)}
+                          className="ml-auto px-2 py-0.5 rounded bg-zinc-800 border border-zinc-700 outline-none text-xs"
+                        >
+                          {Object.entries(MILESTONE_STATUS_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+
+                    {/* Komórki tor × status */}
+                    <div className="grid grid-cols-5 gap-2 p-2">
+                      {STATUSES.map((status) => {
+                        const key = `${laneId}:${status}`;
+                        return (
+                          <div
+                            key={status}
+                            onDragOver={(e) => {
+                              if (!draggingId) return;
+                              e.preventDefault();
+                              setDropTarget(key);
+                            }}
+                            onDragLeave={() => setDropTarget((prev) => (prev === key ? null : prev))}
+                            onDrop={(e) => {
+                              e.preventDefault();
+                              handleDrop(laneId, status);
+                            }}
+                            className={cn(
+                              'min-h-16 p-1 space-y-1 rounded-lg transition-colors',
+                              dropTarget === key ? 'bg-purple-500/10 ring-1 ring-purple-500/50' : 'bg-zinc-950/40'
+                            )}
+                          >
+                            {(cells[key] || []).map((item) => (
+                              <BacklogCard
+                                key={item.id}
+                                item={item}
+                                isDragging={item.id === draggingId}
+                                onDragStart={() => setDraggingId(item.id)}
+                                onDragEnd={() => {
+                                  setDraggingId(null);
+                                  setDropTarget(null);
+                                }}
+                                onOpenConversation={onOpenConversation}
+                              />
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+
+              <p className="text-xs text-zinc-600">
+                Przeciągnij kartę, żeby zmienić status albo kamień milowy. W czacie: /backlog, /milestone, /status.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,41 +2,53 @@
 
 /**
  * ChatInput - pole wprowadzania wiadomości
- * Auto-resize textarea, wybór trybu, Ctrl+Enter do wysłania
+ * Auto-resize textarea, wybór trybu, tryb "do zielonego", Ctrl+Enter do wysłania
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square, Repeat } from 'lucide-react';
 import { ModeSelector } from './ModeSelector';
 import { TypingIndicator } from './TypingIndicator';
-import type { ChatMode, AISender } from '@/lib/types';
+import { AUTO_FIX_ATTEMPT_OPTIONS, MAX_ITERATIONS } from '@/lib/constants';
+import type { ChatMode, AISender, Pipeline } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
 interface ChatInputProps {
-  onSend: (content: string, mode: ChatMode) => void;
+  onSend: (content: string, mode: ChatMode, pipelineId?: string, autoFixAttempts?: number) => void;
+  onStop?: () => void;
   isLoading: boolean;
-  currentlyTyping: AISender | null;
+  currentlyTyping: AISender[];
   typingQueue?: AISender[];
   defaultMode?: ChatMode;
+  pipelines?: Pipeline[];
+  insertText?: { text: string; id: number } | null;  // Tekst do wstawienia w pole (np. z biblioteki promptów)
 }
 
 export function ChatInput({
   onSend,
+  onStop,
   isLoading,
   currentlyTyping,
   typingQueue = [],
   defaultMode = 'solo',
+  pipelines = [],
+  insertText,
 }: ChatInputProps) {
   const [message, setMessage] = useState('');
+  const [appliedInsertId, setAppliedInsertId] = useState<number | null>(null);
   const [mode, setMode] = useState<ChatMode>(defaultMode);
+  const [pipelineId, setPipelineId] = useState<string | null>(null);
+  const [autoFixAttempts, setAutoFixAttempts] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Załaduj preferowany tryb z localStorage
+  // Załaduj preferowany tryb i pipeline z localStorage
   useEffect(() => {
     const saved = localStorage.getItem('kodus-chat-mode');
-    if (saved && ['solo', 'duo', 'team'].includes(saved)) {
+    if (saved && ['solo', 'duo', 'team', 'parallel'].includes(saved)) {
       setMode(saved as ChatMode);
     }
+    setPipelineId(localStorage.getItem('kodus-chat-pipeline'));
+    setAutoFixAttempts(Number(localStorage.getItem('kodus-chat-autofix')) || 0);
   }, []);
 
   // Zapisz tryb do localStorage przy zmianie
@@ -45,6 +57,40 @@ export function ChatInput({
     localStorage.setItem('kodus-chat-mode', newMode);
   }, []);
 
+  // Zapisz wybrany pipeline (null = wbudowany tryb)
+  const handlePipelineChange = useCallback((newPipelineId: string | null) => {
+    setPipelineId(newPipelineId);
+    if (newPipelineId) {
+      localStorage.setItem('kodus-chat-pipeline', newPipelineId);
+    } else {
+      localStorage.removeItem('kodus-chat-pipeline');
+    }
+  }, []);
+
+  // Tryb "do zielonego" - liczba prób kodu architekta (0 = wyłączony)
+  const handleAutoFixChange = useCallback((attempts: number) => {
+    setAutoFixAttempts(attempts);
+    if (attempts > 0) {
+      localStorage.setItem('kodus-chat-autofix', String(attempts));
+    } else {
+      localStorage.removeItem('kodus-chat-autofix');
+    }
+  }, []);
+
+  // Pipeline z innego projektu nie jest dostępny - wtedy działa wbudowany tryb
+  const activePipelineId = pipelines.some((p) => p.id === pipelineId) ? pipelineId : null;
+
+  // Wstawienie tekstu z zewnątrz - dopisywany do bieżącej treści, każdy tylko raz
+  if (insertText && insertText.id !== appliedInsertId) {
+    setAppliedInsertId(insertText.id);
+    setMessage((prev) => (prev.trim() ? `${prev.trimEnd()}\n\n${insertText.text}` : insertText.text));
+  }
+
+  // Po wstawieniu kursor w polu wiadomości
+  useEffect(() => {
+    if (appliedInsertId !== null) textareaRef.current?.focus();
+  }, [appliedInsertId]);
+
   // Auto-resize textarea
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -59,14 +105,14 @@ export function ChatInput({
     const trimmed = message.trim();
     if (!trimmed || isLoading) return;
 
-    onSend(trimmed, mode);
+    onSend(trimmed, mode, activePipelineId || undefined, autoFixAttempts || undefined);
     setMessage('');
 
     // Reset wysokości textarea
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
     }
-  }, [message, mode, isLoading, onSend]);
+  }, [message, mode, activePipelineId, autoFixAttempts, isLoading, onSend]);
 
   // Obsługa klawiszy
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -79,9 +125,9 @@ export function ChatInput({
   return (
     <div className="border-t border-zinc-800 bg-zinc-900/80 backdrop-blur-sm">
       {/* Typing indicator */}
-      {currentlyTyping && (
+      {currentlyTyping.length > 0 && (
         <div className="px-4 pt-3">
-          <TypingIndicator sender={currentlyTyping} queue={typingQueue} />
+          <TypingIndicator senders={currentlyTyping} queue={typingQueue} />
         </div>
       )}
 
@@ -89,8 +135,47 @@ export function ChatInput({
       <div className="p-4 space-y-3">
         {/* Mode selector */}
         <div className="flex items-center justify-between">
-          <ModeSelector mode={mode} onChange={handleModeChange} disabled={isLoading} size="sm" />
-          <span className="text-xs text-zinc-500">Ctrl+Enter aby wysłać</span>
+          <ModeSelector
+            mode={mode}
+            onChange={handleModeChange}
+            pipelines={pipelines}
+            pipelineId={activePipelineId}
+            onPipelineChange={handlePipelineChange}
+            disabled={isLoading}
+            size="sm"
+          />
+          <div className="flex items-center gap-2">
+            <div className="flex items-center rounded-md bg-zinc-800 text-xs">
+              <button
+                onClick={() => handleAutoFixChange(autoFixAttempts > 0 ? 0 : MAX_ITERATIONS)}
+                disabled={isLoading}
+                title="Kod architekta sprawdzany w sandboxie (tsc, testy) i poprawiany, aż przejdzie"
+                className={cn(
+                  'flex items-center gap-1 px-2 py-1 rounded-md transition-colors disabled:opacity-50',
+                  autoFixAttempts > 0 ? 'bg-green-600/20 text-green-400' : 'text-zinc-400 hover:text-white'
+                )}
+              >
+                <Repeat size={12} />
+                <span className="hidden sm:inline">Do zielonego</span>
+              </button>
+              {autoFixAttempts > 0 && (
+                <select
+                  value={autoFixAttempts}
+                  onChange={(e) => handleAutoFixChange(Number(e.target.value))}
+                  disabled={isLoading}
+                  title="Maksymalna liczba prób"
+                  className="bg-transparent pr-1 text-green-400 focus:outline-none"
+                >
+                  {AUTO_FIX_ATTEMPT_OPTIONS.map((attempts) => (
+                    <option key={attempts} value={attempts} className="bg-zinc-800">
+                      maks. {attempts}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <span className="hidden md:inline text-xs text-zinc-500">Ctrl+Enter aby wysłać</span>
+          </div>
         </div>
 
         {/* Textarea + Send button */}
@@ -115,24 +200,40 @@ export function ChatInput({
             />
           </div>
 
-          <button
-            onClick={handleSend}
-            disabled={!message.trim() || isLoading}
-            className={cn(
-              'flex-shrink-0 px-4 py-3 rounded-lg',
-              'bg-purple-600 hover:bg-purple-700',
-              'text-white font-medium',
-              'disabled:opacity-50 disabled:cursor-not-allowed',
-              'transition-colors',
-              'flex items-center justify-center'
-            )}
-          >
-            {isLoading ? (
-              <Loader2 size={20} className="animate-spin" />
-            ) : (
-              <Send size={20} />
-            )}
-          </button>
+          {isLoading && onStop ? (
+            <button
+              onClick={onStop}
+              title="Zatrzymaj odpowiedź"
+              className={cn(
+                'flex-shrink-0 px-4 py-3 rounded-lg',
+                'bg-zinc-700 hover:bg-red-600',
+                'text-white font-medium',
+                'transition-colors',
+                'flex items-center justify-center'
+              )}
+            >
+              <Square size={20} className="fill-current" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!message.trim() || isLoading}
+              className={cn(
+                'flex-shrink-0 px-4 py-3 rounded-lg',
+                'bg-purple-600 hover:bg-purple-700',
+                'text-white font-medium',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                'transition-colors',
+                'flex items-center justify-center'
+              )}
+            >
+              {isLoading ? (
+                <Loader2 size={20} className="animate-spin" />
+              ) : (
+                <Send size={20} />
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -9,18 +9,30 @@
 import { memo, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Copy, Check, FileCode, PanelRight } from 'lucide-react';
+import { Copy, Check, FileCode, PanelRight, RefreshCw, ChevronLeft, ChevronRight, Brain, Star, ListChecks, ListTodo, Plus, Wrench, Loader2, AlertCircle, ChevronDown, GitCompare, TerminalSquare } from 'lucide-react';
 import { useState } from 'react';
-import { AI_PERSONALITIES, USER_COLOR, USER_BG_COLOR } from '@/lib/constants';
-import type { ChatMessage as ChatMessageType, MessageSender, AISender } from '@/lib/types';
+import { getAIPersonality, USER_COLOR, USER_BG_COLOR, MEMORY_CONTENT_LABELS, REVIEW_FEEDBACK_LABELS, BACKLOG_PRIORITY_LABELS, AI_TOOL_LABELS } from '@/lib/constants';
+import { stripMemorySidecar } from '@/lib/memorySidecar';
+import { stripAppliedFindings } from '@/lib/reviewFindings';
+import { parseFileEdits, stripFileEdits } from '@/lib/fileEdits';
+import type { ChatMessage as ChatMessageType, MessageSender, AISender, MemoryCitation, FeedbackRating, ReviewFeedback, BacklogProposal, AIToolCallStep, FileEdit, SandboxResult } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  highlighted?: boolean;  // Wiadomość wskazana z wyszukiwania
   onInsertCode?: (code: string, filename?: string, language?: string) => void;
   onOpenArtifact?: (code: string, filename?: string, language?: string) => void;
+  onRegenerate?: (messageId: string, replace?: boolean) => void;
+  onRate?: (messageId: string, rating: FeedbackRating) => void;
+  findings?: ReviewFeedback[];  // Uwagi z review zapisane z tej wiadomości
+  onToggleFinding?: (finding: ReviewFeedback) => void;
+  onAddToBacklog?: (messageId: string, index: number) => void;  // Brak - rozmowa poza projektem
+  onReviewEdits?: (edits: FileEdit[]) => void;
 }
 
+const RATINGS: FeedbackRating[] = [1, 2, 3, 4, 5];
+
 // Formatowanie timestamp
 function formatTime(dateString: string): string {
   const date = new Date(dateString);
@@ -152,9 +164,342 @@ function CodeBlock({
   );
 }
 
+/**
+ * Wpisy pamięci projektu, które AI dostało w kontekście (cytowane jako [P1], [P2]...)
+ */
+function MemoryCitations({ memories }: { memories: MemoryCitation[] }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-zinc-500 hover:text-zinc-300 transition-colors"
+      >
+        <Brain size={12} />
+        Pamięć projektu ({memories.length})
+      </button>
+      {isOpen && (
+        <ul className="mt-1 space-y-1">
+          {memories.map((memory) => (
+            <li key={memory.ref} className="px-2 py-1 rounded bg-zinc-800/60 text-zinc-400">
+              <span className="font-mono text-purple-400">[{memory.ref}]</span>{' '}
+              <span className="text-zinc-500">
+                {MEMORY_CONTENT_LABELS[memory.content_type]} · {Math.round(memory.similarity * 100)}%
+              </span>
+              <p className="mt-0.5 whitespace-pre-wrap line-clamp-3">{memory.excerpt}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Checklista uwag recenzenta - zaznaczone zostały uwzględnione w wersji finalnej
+ */
+function ReviewChecklist({
+  findings,
+  onToggle,
+}: {
+  findings: ReviewFeedback[];
+  onToggle?: (finding: ReviewFeedback) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(true);
+  const appliedCount = findings.filter((f) => f.was_applied).length;
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-zinc-500 hover:text-zinc-300 transition-colors"
+      >
+        <ListChecks size={12} />
+        Uwagi z review ({appliedCount}/{findings.length} uwzględnione)
+      </button>
+      {isOpen && (
+        <ul className="mt-1 space-y-1">
+          {findings.map((finding) => (
+            <li key={finding.id} className="flex items-start gap-2 px-2 py-1 rounded bg-zinc-800/60 text-zinc-400">
+              <input
+                type="checkbox"
+                checked={!!finding.was_applied}
+                onChange={() => onToggle?.(finding)}
+                disabled={!onToggle}
+                className="mt-0.5"
+                title="Uwzględniona"
+              />
+              <div className="min-w-0">
+                <span className="text-purple-400">{REVIEW_FEEDBACK_LABELS[finding.feedback_type]}</span>{' '}
+                <span className={cn(finding.was_applied && 'line-through text-zinc-500')}>{finding.description}</span>
+                {finding.suggestion && (
+                  <p className="mt-0.5 whitespace-pre-wrap line-clamp-3 text-zinc-500">{finding.suggestion}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Propozycje AI do backlogu projektu - dodawane jednym kliknięciem
+ */
+function BacklogProposals({
+  proposals,
+  onAdd,
+}: {
+  proposals: BacklogProposal[];
+  onAdd?: (index: number) => void;
+}) {
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex items-center gap-1 text-zinc-500">
+        <ListTodo size={12} />
+        Propozycje do backlogu
+      </div>
+      <ul className="mt-1 space-y-1">
+        {proposals.map((proposal, index) => (
+          <li key={index} className="flex items-start gap-2 px-2 py-1 rounded bg-zinc-800/60 text-zinc-400">
+            <div className="flex-1 min-w-0">
+              <span className="text-zinc-200">{proposal.title}</span>
+              {proposal.priority && (
+                <span className="ml-1.5 text-purple-400">{BACKLOG_PRIORITY_LABELS[proposal.priority]}</span>
+              )}
+              {proposal.description && (
+                <p className="mt-0.5 whitespace-pre-wrap line-clamp-2 text-zinc-500">{proposal.description}</p>
+              )}
+            </div>
+            {proposal.backlogItemId ? (
+              <span className="flex items-center gap-1 text-green-500 whitespace-nowrap">
+                <Check size={12} />
+                W backlogu
+              </span>
+            ) : (
+              <button
+                onClick={() => onAdd?.(index)}
+                disabled={!onAdd}
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-zinc-700 hover:text-white whitespace-nowrap disabled:opacity-40 disabled:hover:bg-transparent"
+                title={onAdd ? 'Dodaj do backlogu projektu' : 'Wybierz projekt, żeby dodać do backlogu'}
+              >
+                <Plus size={12} />
+                Dodaj do backlogu
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Zmiany plików zaproponowane w odpowiedzi - przegląd jako diff w osobnym panelu
+ */
+function FileEditsSummary({ edits, onReview }: { edits: FileEdit[]; onReview?: () => void }) {
+  return (
+    <div className="mt-2 flex items-center gap-2 px-2 py-1.5 rounded bg-zinc-800/60 text-xs text-zinc-400">
+      <GitCompare size={12} className="shrink-0" />
+      <span className="min-w-0 truncate">
+        Zmiany w plikach ({edits.length}):{' '}
+        <span className="font-mono text-zinc-300">{edits.map((edit) => edit.path).join(', ')}</span>
+      </span>
+      {onReview && (
+        <button
+          onClick={onReview}
+          className="ml-auto shrink-0 px-2 py-0.5 rounded bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+        >
+          Przejrzyj zmiany
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Jeden krok narzędzia plików - rozwijany podgląd wyniku albo błędu
+ */
+function ToolCallStep({ step }: { step: AIToolCallStep }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const path = typeof step.input.path === 'string' ? step.input.path : '';
+
+  return (
+    <li className="rounded bg-zinc-800/60 text-zinc-400">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!step.output}
+        className="w-full flex items-center gap-1.5 px-2 py-1 text-left hover:text-zinc-200 disabled:hover:text-zinc-400"
+      >
+        {step.status === 'running' ? (
+          <Loader2 size={12} className="animate-spin" />
+        ) : step.status === 'error' ? (
+          <AlertCircle size={12} className="text-red-400" />
+        ) : (
+          <Check size={12} className="text-green-500" />
+        )}
+        <span>{AI_TOOL_LABELS[step.name] || step.name}</span>
+        {path && <span className="font-mono text-zinc-300 truncate">{path}</span>}
+        {step.output && (
+          <ChevronDown size={12} className={cn('ml-auto shrink-0 transition-transform', isOpen && 'rotate-180')} />
+        )}
+      </button>
+      {isOpen && step.output && (
+        <pre
+          className={cn(
+            'mx-2 mb-1.5 p-2 max-h-60 overflow-auto rounded bg-zinc-900 font-mono whitespace-pre-wrap',
+            step.status === 'error' ? 'text-red-400' : 'text-zinc-400'
+          )}
+        >
+          {step.output}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Narzędzia plików wywołane przez AI w tej odpowiedzi (widoczne także podczas streamowania)
+ */
+function ToolCallSteps({ steps }: { steps: AIToolCallStep[] }) {
+  return (
+    <div className="mb-2 text-xs">
+      <div className="flex items-center gap-1 text-zinc-500">
+        <Wrench size={12} />
+        Pliki projektu ({steps.length})
+      </div>
+      <ul className="mt-1 space-y-1">
+        {steps.map((step) => (
+          <ToolCallStep key={step.id} step={step} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Wynik sprawdzenia kodu w sandboxie, który dostał recenzent - rozwijane diagnostyki tsc i wyjście testów
+ */
+function SandboxCheck({ result }: { result: SandboxResult }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const errors = result.diagnostics.filter((d) => d.severity === 'error');
+  const runFailed = result.run !== null && (result.run.timedOut || result.run.exitCode !== 0);
+
+  const summary = result.status === 'error'
+    ? `nie udało się uruchomić (${result.error})`
+    : [
+        errors.length > 0 ? `błędy tsc: ${errors.length}` : 'tsc OK',
+        result.run && `${result.runKind === 'tests' ? 'testy' : 'uruchomienie'}: ${runFailed ? (result.run.timedOut ? 'limit czasu' : 'błąd') : 'OK'}`,
+      ].filter(Boolean).join(', ');
+  const output = result.run && [result.run.stdout, result.run.stderr].filter((text) => text.trim()).join('\n');
+
+  return (
+    <div className="mb-2 rounded bg-zinc-800/60 text-xs text-zinc-400">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={result.status === 'error'}
+        className="w-full flex items-center gap-1.5 px-2 py-1 text-left hover:text-zinc-200 disabled:hover:text-zinc-400"
+      >
+        {result.status === 'passed' ? (
+          <Check size={12} className="text-green-500" />
+        ) : (
+          <AlertCircle size={12} className={result.status === 'failed' ? 'text-red-400' : 'text-zinc-500'} />
+        )}
+        <TerminalSquare size={12} />
+        <span>Sprawdzenie kodu ({result.files.length} plików): {summary}</span>
+        {result.status !== 'error' && (
+          <ChevronDown size={12} className={cn('ml-auto shrink-0 transition-transform', isOpen && 'rotate-180')} />
+        )}
+      </button>
+      {isOpen && (
+        <div className="px-2 pb-1.5 space-y-1.5">
+          <div className="font-mono text-zinc-500 truncate">{result.files.join(', ')}</div>
+          {result.diagnostics.length > 0 && (
+            <ul className="space-y-0.5 font-mono">
+              {result.diagnostics.map((d, index) => (
+                <li key={index} className={d.severity === 'error' ? 'text-red-400' : 'text-yellow-500'}>
+                  {d.file && `${d.file}:${d.line}:${d.column} `}{d.code}: {d.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.error && <div className="text-red-400">{result.error}</div>}
+          {result.run && (
+            <>
+              <div className="font-mono text-zinc-500">$ {result.run.command}</div>
+              {output && (
+                <pre
+                  className={cn(
+                    'p-2 max-h-60 overflow-auto rounded bg-zinc-900 font-mono whitespace-pre-wrap',
+                    runFailed ? 'text-red-400' : 'text-zinc-400'
+                  )}
+                >
+                  {output}
+                </pre>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Ocena odpowiedzi AI (1-5 gwiazdek) - zapisywana w user_feedback
+ */
+function RatingStars({ rating, onRate }: { rating?: FeedbackRating; onRate: (rating: FeedbackRating) => void }) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const shown = hovered ?? rating ?? 0;
+
+  return (
+    <div className="flex items-center" onMouseLeave={() => setHovered(null)}>
+      {RATINGS.map((value) => (
+        <button
+          key={value}
+          onClick={() => onRate(value)}
+          onMouseEnter={() => setHovered(value)}
+          className="p-0.5 rounded text-zinc-600 hover:text-amber-400"
+          title={`Oceń: ${value}/5`}
+        >
+          <Star size={12} className={cn(value <= shown && 'fill-amber-400 text-amber-400')} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
 // Główny komponent wiadomości
-function ChatMessageComponent({ message, onInsertCode, onOpenArtifact }: ChatMessageProps) {
-  const { sender, content, created_at } = message;
+function ChatMessageComponent({
+  message,
+  highlighted,
+  onInsertCode,
+  onOpenArtifact,
+  onRegenerate,
+  onRate,
+  findings,
+  onToggleFinding,
+  onAddToBacklog,
+  onReviewEdits,
+}: ChatMessageProps) {
+  const { id, sender, content, created_at, isStreaming, metadata } = message;
+
+  // Wersje odpowiedzi (po ponownym generowaniu) - null = aktualna
+  const [versionIndex, setVersionIndex] = useState<number | null>(null);
+  const versions = useMemo(
+    () => [...(metadata?.versions || []).map((v) => v.content), content],
+    [metadata?.versions, content]
+  );
+  const shownIndex = versionIndex ?? versions.length - 1;
+  // Blok pamięci (auto-save) i raport uwzględnionych uwag są widoczne tylko w trakcie streamingu - ukryj je
+  const rawContent = isStreaming
+    ? stripAppliedFindings(stripMemorySidecar(content))
+    : versions[shownIndex] ?? content;
+  // Bloki zmian plików pokazywane osobno (przegląd diff) - dopiero po zakończeniu odpowiedzi
+  const shownContent = useMemo(() => stripFileEdits(rawContent), [rawContent]);
+  const fileEdits = useMemo(() => (isStreaming ? [] : parseFileEdits(rawContent)), [isStreaming, rawContent]);
 
   // Pobierz styl dla nadawcy
   const senderInfo = useMemo(() => {
@@ -167,16 +512,29 @@ function ChatMessageComponent({ message, onInsertCode, onOpenArtifact }: ChatMes
         role: 'Użytkownik',
       };
     }
-    return AI_PERSONALITIES[sender as AISender];
+    return getAIPersonality(sender as AISender);
   }, [sender]);
 
   const isUser = sender === 'user';
 
+  // Wiadomości spoza pipeline (komendy, stare rozmowy bez metadanych) nie mają kroku do powtórzenia
+  const canRegenerate = !!onRegenerate && !isUser && !isStreaming && !id.startsWith('msg-') && metadata !== null;
+
+  // Ocenić można tylko odpowiedź powiązaną z zapisem w llm_responses
+  const canRate = !!onRate && !isUser && !isStreaming && !!metadata?.llmResponseId;
+
+  const handleRegenerate = (e: React.MouseEvent) => {
+    setVersionIndex(null);
+    onRegenerate?.(id, e.shiftKey);
+  };
+
   return (
     <div
+      data-message-id={id}
       className={cn(
         'flex gap-3 p-4 rounded-lg transition-colors',
-        isUser ? 'bg-zinc-800/50' : 'bg-zinc-900/50'
+        isUser ? 'bg-zinc-800/50' : 'bg-zinc-900/50',
+        highlighted && 'ring-1 ring-purple-500'
       )}
     >
       {/* Avatar */}
@@ -199,11 +557,71 @@ function ChatMessageComponent({ message, onInsertCode, onOpenArtifact }: ChatMes
               {senderInfo.role}
             </span>
           )}
-          <span className="text-xs text-zinc-600 ml-auto">
-            {formatTime(created_at)}
-          </span>
+          {/* Numer próby w trybie "do zielonego" - kolor wg wyniku sprawdzenia kodu */}
+          {metadata?.iteration && (
+            <span
+              className={cn(
+                'px-1.5 py-0.5 rounded text-xs',
+                metadata.sandbox?.status === 'passed'
+                  ? 'bg-green-600/20 text-green-400'
+                  : metadata.sandbox?.status === 'failed'
+                    ? 'bg-red-600/20 text-red-400'
+                    : 'bg-zinc-800 text-zinc-400'
+              )}
+            >
+              Próba {metadata.iteration.attempt}/{metadata.iteration.maxAttempts}
+            </span>
+          )}
+          {isStreaming && (
+            <span className="text-xs text-zinc-500">pisze...</span>
+          )}
+          <div className="flex items-center gap-1 ml-auto">
+            {/* Przeglądanie wersji odpowiedzi */}
+            {!isStreaming && versions.length > 1 && (
+              <div className="flex items-center text-xs text-zinc-500">
+                <button
+                  onClick={() => setVersionIndex(Math.max(0, shownIndex - 1))}
+                  disabled={shownIndex === 0}
+                  className="p-0.5 rounded hover:bg-zinc-800 disabled:opacity-30"
+                  title="Poprzednia wersja"
+                >
+                  <ChevronLeft size={14} />
+                </button>
+                <span>{shownIndex + 1}/{versions.length}</span>
+                <button
+                  onClick={() => setVersionIndex(Math.min(versions.length - 1, shownIndex + 1))}
+                  disabled={shownIndex === versions.length - 1}
+                  className="p-0.5 rounded hover:bg-zinc-800 disabled:opacity-30"
+                  title="Następna wersja"
+                >
+                  <ChevronRight size={14} />
+                </button>
+              </div>
+            )}
+            {canRate && (
+              <RatingStars rating={metadata?.rating} onRate={(rating) => onRate?.(id, rating)} />
+            )}
+            {canRegenerate && (
+              <button
+                onClick={handleRegenerate}
+                className="p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-800"
+                title="Wygeneruj ponownie (Shift+klik - nadpisz bez zachowania wersji)"
+              >
+                <RefreshCw size={14} />
+              </button>
+            )}
+            <span className="text-xs text-zinc-600">
+              {formatTime(created_at)}
+            </span>
+          </div>
         </div>
 
+        {metadata?.toolCalls && metadata.toolCalls.length > 0 && (
+          <ToolCallSteps steps={metadata.toolCalls} />
+        )}
+
+        {metadata?.sandbox && <SandboxCheck result={metadata.sandbox} />}
+
         {/* Message content with markdown */}
         <div className="prose prose-invert prose-sm max-w-none">
           <ReactMarkdown
@@ -279,13 +697,36 @@ function ChatMessageComponent({ message, onInsertCode, onOpenArtifact }: ChatMes
               },
             }}
           >
-            {content}
+            {shownContent}
           </ReactMarkdown>
+          {/* Kursor podczas streamowania odpowiedzi */}
+          {isStreaming && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-zinc-400 animate-pulse" />
+          )}
         </div>
+
+        {fileEdits.length > 0 && (
+          <FileEditsSummary edits={fileEdits} onReview={onReviewEdits && (() => onReviewEdits(fileEdits))} />
+        )}
+
+        {!isStreaming && metadata?.memories && metadata.memories.length > 0 && (
+          <MemoryCitations memories={metadata.memories} />
+        )}
+
+        {!isStreaming && findings && findings.length > 0 && (
+          <ReviewChecklist findings={findings} onToggle={onToggleFinding} />
+        )}
+
+        {!isStreaming && metadata?.backlogProposals && metadata.backlogProposals.length > 0 && (
+          <BacklogProposals
+            proposals={metadata.backlogProposals}
+            onAdd={onAddToBacklog && ((index) => onAddToBacklog(id, index))}
+          />
+        )}
       </div>
     </div>
   );
 }
 
-// Memo dla optymalizacji - wiadomości się nie zmieniają
+// Memo dla optymalizacji - wiadomość renderuje się ponownie tylko gdy spływa jej treść
 export const ChatMessage = memo(ChatMessageComponent);
@@ -14,17 +14,27 @@ import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
 import { ContextLoader } from './ContextLoader';
 import { MessageSquare } from 'lucide-react';
-import type { ChatMessage as ChatMessageType, ChatMode, AISender, AdditionalFile } from '@/lib/types';
+import type { ChatMessage as ChatMessageType, ChatMode, AISender, AdditionalFile, Pipeline, FeedbackRating, ReviewFeedback, FileEdit } from '@/lib/types';
 
 interface ChatPanelProps {
   messages: ChatMessageType[];
-  onSend: (content: string, mode: ChatMode) => void;
+  onSend: (content: string, mode: ChatMode, pipelineId?: string, autoFixAttempts?: number) => void;
+  onStop?: () => void;
+  onRegenerate?: (messageId: string, replace?: boolean) => void;
+  onRate?: (messageId: string, rating: FeedbackRating) => void;
+  reviewFindings?: Record<string, ReviewFeedback[]>;  // Uwagi z review pogrupowane po wiadomości
+  onToggleFinding?: (finding: ReviewFeedback) => void;
+  onAddToBacklog?: (messageId: string, index: number) => void;
+  onReviewEdits?: (edits: FileEdit[]) => void;
+  focusedMessageId?: string | null;
   isLoading: boolean;
-  currentlyTyping: AISender | null;
+  currentlyTyping: AISender[];
   typingQueue?: AISender[];
   onInsertCode?: (code: string, filename?: string, language?: string) => void;
   onOpenArtifact?: (code: string, filename?: string, language?: string) => void;
   defaultMode?: ChatMode;
+  pipelines?: Pipeline[];
+  insertText?: { text: string; id: number } | null;
   // Propsy dla kontekstu
   contextLoaded?: boolean;
   addedFiles?: AdditionalFile[];
@@ -38,12 +48,22 @@ interface ChatPanelProps {
 export function ChatPanel({
   messages,
   onSend,
+  onStop,
+  onRegenerate,
+  onRate,
+  reviewFindings,
+  onToggleFinding,
+  onAddToBacklog,
+  onReviewEdits,
+  focusedMessageId,
   isLoading,
   currentlyTyping,
   typingQueue,
   onInsertCode,
   onOpenArtifact,
   defaultMode,
+  pipelines,
+  insertText,
   // Propsy dla kontekstu
   contextLoaded = false,
   addedFiles = [],
@@ -64,6 +84,18 @@ export function ChatPanel({
     }
   }, [messages, currentlyTyping]);
 
+  // Przejście do wiadomości wskazanej z wyszukiwania (jednorazowo, bez auto-scrolla na dół)
+  const scrolledToRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!focusedMessageId || scrolledToRef.current === focusedMessageId) return;
+    const target = scrollRef.current?.querySelector(`[data-message-id="${focusedMessageId}"]`);
+    if (target) {
+      scrolledToRef.current = focusedMessageId;
+      isUserScrolledUp.current = true;
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [focusedMessageId, messages]);
+
   // Wykryj czy user scrolluje w górę
   const handleScroll = useCallback(() => {
     const container = scrollRef.current;
@@ -127,8 +159,15 @@ export function ChatPanel({
               <ChatMessage
                 key={message.id}
                 message={message}
+                highlighted={message.id === focusedMessageId}
                 onInsertCode={onInsertCode}
                 onOpenArtifact={onOpenArtifact}
+                onRegenerate={isLoading ? undefined : onRegenerate}
+                onRate={onRate}
+                findings={reviewFindings?.[message.id]}
+                onToggleFinding={onToggleFinding}
+                onAddToBacklog={onAddToBacklog}
+                onReviewEdits={onReviewEdits}
               />
             ))}
             <div ref={messagesEndRef} />
@@ -139,10 +178,13 @@ export function ChatPanel({
       {/* Input area */}
       <ChatInput
         onSend={onSend}
+        onStop={onStop}
         isLoading={isLoading}
         currentlyTyping={currentlyTyping}
         typingQueue={typingQueue}
         defaultMode={defaultMode}
+        pipelines={pipelines}
+        insertText={insertText}
       />
     </div>
   );
@@ -1,50 +1,85 @@
 'use client';
 
 /**
- * ModeSelector - wybór trybu chatu (Solo/Duo/Team)
+ * ModeSelector - wybór trybu chatu (Solo/Duo/Team) lub własnego pipeline
  */
 
 import { CHAT_MODES } from '@/lib/constants';
-import type { ChatMode } from '@/lib/types';
+import type { ChatMode, Pipeline } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
 interface ModeSelectorProps {
   mode: ChatMode;
   onChange: (mode: ChatMode) => void;
+  pipelines?: Pipeline[];
+  pipelineId?: string | null;
+  onPipelineChange?: (pipelineId: string | null) => void;
   disabled?: boolean;
   size?: 'sm' | 'md';
 }
 
-export function ModeSelector({ mode, onChange, disabled, size = 'md' }: ModeSelectorProps) {
-  const modes: ChatMode[] = ['solo', 'duo', 'team'];
+export function ModeSelector({
+  mode,
+  onChange,
+  pipelines = [],
+  pipelineId = null,
+  onPipelineChange,
+  disabled,
+  size = 'md',
+}: ModeSelectorProps) {
+  const modes: ChatMode[] = ['solo', 'duo', 'team', 'parallel'];
+
+  const buttonClass = (isActive: boolean) => cn(
+    'flex items-center gap-1.5 px-3 py-1.5 rounded-md transition-all',
+    'text-sm font-medium',
+    size === 'sm' && 'px-2 py-1 text-xs',
+    isActive
+      ? 'bg-zinc-700 text-white'
+      : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50',
+    disabled && 'opacity-50 cursor-not-allowed'
+  );
 
   return (
     <div className="flex gap-1 p-1 bg-zinc-800 rounded-lg">
       {modes.map((m) => {
         const info = CHAT_MODES[m];
-        const isActive = mode === m;
+        const isActive = !pipelineId && mode === m;
 
         return (
           <button
             key={m}
-            onClick={() => onChange(m)}
+            onClick={() => {
+              onPipelineChange?.(null);
+              onChange(m);
+            }}
             disabled={disabled}
             title={info.description}
-            className={cn(
-              'flex items-center gap-1.5 px-3 py-1.5 rounded-md transition-all',
-              'text-sm font-medium',
-              size === 'sm' && 'px-2 py-1 text-xs',
-              isActive
-                ? 'bg-zinc-700 text-white'
-                : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50',
-              disabled && 'opacity-50 cursor-not-allowed'
-            )}
+            className={buttonClass(isActive)}
           >
             <span className="text-base">{info.icons}</span>
             <span className="hidden sm:inline">{info.label}</span>
           </button>
         );
       })}
+
+      {/* Własne pipeline'y zespołu */}
+      {onPipelineChange && pipelines.length > 0 && (
+        <>
+          <div className="w-px my-1 bg-zinc-700" />
+          {pipelines.map((pipeline) => (
+            <button
+              key={pipeline.id}
+              onClick={() => onPipelineChange(pipeline.id)}
+              disabled={disabled}
+              title={pipeline.description || `${pipeline.steps.length} kroków`}
+              className={buttonClass(pipelineId === pipeline.id)}
+            >
+              <span className="text-base">{pipeline.icons || '⚙️'}</span>
+              <span className="hidden sm:inline">{pipeline.name}</span>
+            </button>
+          ))}
+        </>
+      )}
     </div>
   );
 }
@@ -2,37 +2,49 @@
 
 /**
  * TypingIndicator - pokazuje kto aktualnie "pisze"
- * Animowane kropki + avatar AI
+ * Animowane kropki + avatary AI (kilka naraz przy równoległym review)
  */
 
-import { AI_PERSONALITIES } from '@/lib/constants';
+import { getAIPersonality } from '@/lib/constants';
 import type { AISender } from '@/lib/types';
 
 interface TypingIndicatorProps {
-  sender: AISender;
+  senders: AISender[];
   queue?: AISender[];
 }
 
-export function TypingIndicator({ sender, queue = [] }: TypingIndicatorProps) {
-  const info = AI_PERSONALITIES[sender];
+export function TypingIndicator({ senders, queue = [] }: TypingIndicatorProps) {
+  const typing = senders.map((sender) => getAIPersonality(sender));
+  // Kropki w kolorze pierwszego piszącego AI
+  const info = typing[0];
 
   return (
     <div className="flex items-center gap-3 p-4 bg-zinc-900/50 rounded-lg">
-      {/* Avatar */}
-      <div
-        className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center text-lg animate-pulse"
-        style={{ backgroundColor: info.bgColor }}
-      >
-        {info.avatar}
+      {/* Avatary - kilka przy krokach równoległych */}
+      <div className="flex flex-shrink-0 -space-x-2">
+        {typing.map((t, index) => (
+          <div
+            key={`${t.name}-${index}`}
+            className="w-10 h-10 rounded-full flex items-center justify-center text-lg animate-pulse ring-2 ring-zinc-900"
+            style={{ backgroundColor: t.bgColor }}
+          >
+            {t.avatar}
+          </div>
+        ))}
       </div>
 
       {/* Info */}
       <div className="flex-1">
         <div className="flex items-center gap-2">
-          <span className="font-medium" style={{ color: info.color }}>
-            {info.displayName}
+          <span className="font-medium">
+            {typing.map((t, index) => (
+              <span key={`${t.name}-${index}`} style={{ color: t.color }}>
+                {index > 0 && <span className="text-zinc-500"> i </span>}
+                {t.displayName}
+              </span>
+            ))}
           </span>
-          <span className="text-xs text-zinc-500">pisze...</span>
+          <span className="text-xs text-zinc-500">{typing.length > 1 ? 'piszą...' : 'pisze...'}</span>
         </div>
 
         {/* Animowane kropki */}
@@ -56,9 +68,9 @@ export function TypingIndicator({ sender, queue = [] }: TypingIndicatorProps) {
       {queue.length > 0 && (
         <div className="flex items-center gap-1 text-xs text-zinc-500">
           <span>Następni:</span>
-          {queue.map((q) => (
-            <span key={q} title={AI_PERSONALITIES[q].displayName}>
-              {AI_PERSONALITIES[q].avatar}
+          {queue.map((q, index) => (
+            <span key={`${q}-${index}`} title={getAIPersonality(q).displayName}>
+              {getAIPersonality(q).avatar}
             </span>
           ))}
         </div>
@@ -0,0 +1,342 @@
+'use client';
+
+/**
+ * DiffReview - przegląd zmian plików zaproponowanych przez AI
+ * Diff obok siebie względem pliku w edytorze albo w repo GitHub, każdy fragment akceptowany lub odrzucany osobno
+ * Zaakceptowane fragmenty trafiają do edytora
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { GitCompare, X, RefreshCw, Check, FilePlus, FilePen, FileMinus, AlertCircle, CheckCheck } from 'lucide-react';
+import { useFileEditBases } from '@/hooks/useFileEditBases';
+import type { FileEditBaseSource } from '@/hooks/useFileEditBases';
+import { resolveFileEdit, applyFileEdit, buildHunkRows, countHunkLines } from '@/lib/fileEdits';
+import type { AppliedFileChange, DiffRow, EditorFile, FileEdit, FileEditAction, HunkDecision, ResolvedHunk } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface DiffReviewProps {
+  edits: FileEdit[];
+  files: EditorFile[];
+  repoUrl?: string | null;  // Połączone repo - źródło plików, których nie ma w edytorze
+  onApply: (changes: AppliedFileChange[]) => void;
+  onClose: () => void;
+}
+
+const ACTION_ICONS: Record<FileEditAction, typeof FilePen> = {
+  create: FilePlus,
+  modify: FilePen,
+  delete: FileMinus,
+};
+
+const ACTION_STYLES: Record<FileEditAction, string> = {
+  create: 'text-green-400',
+  modify: 'text-blue-400',
+  delete: 'text-red-400',
+};
+
+const SOURCE_LABELS: Record<NonNullable<FileEditBaseSource>, string> = {
+  editor: 'z edytora',
+  github: 'z GitHub',
+};
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  context: { left: '', right: '' },
+  removed: { left: 'bg-red-500/15 text-red-200', right: 'bg-zinc-900/60' },
+  added: { left: 'bg-zinc-900/60', right: 'bg-green-500/15 text-green-200' },
+  changed: { left: 'bg-red-500/15 text-red-200', right: 'bg-green-500/15 text-green-200' },
+};
+
+// Decyzje per plik i fragment
+type Decisions = Record<string, Record<string, HunkDecision>>;
+
+/**
+ * Jedna strona wiersza diff - numer linii i treść
+ */
+function DiffCell({ cell, className }: { cell?: { line: number; text: string }; className: string }) {
+  return (
+    <div className={cn('flex min-w-0', className)}>
+      <span className="w-10 shrink-0 pr-2 text-right text-zinc-600 select-none">{cell?.line ?? ''}</span>
+      <span className="flex-1 whitespace-pre-wrap break-all">{cell?.text ?? ''}</span>
+    </div>
+  );
+}
+
+/**
+ * Fragment zmiany - widok obok siebie z przyciskami akceptacji
+ */
+function HunkView({
+  index,
+  hunk,
+  rows,
+  decision,
+  onDecide,
+}: {
+  index: number;
+  hunk: ResolvedHunk;
+  rows: DiffRow[];
+  decision: HunkDecision;
+  onDecide: (decision: HunkDecision) => void;
+}) {
+  return (
+    <div
+      className={cn(
+        'rounded-lg border overflow-hidden',
+        decision === 'accepted' ? 'border-green-600/60' : decision === 'rejected' ? 'border-zinc-800 opacity-60' : 'border-zinc-700'
+      )}
+    >
+      <div className="flex items-center gap-2 px-3 py-1.5 bg-zinc-800/60 text-xs">
+        <span className="text-zinc-300">Fragment {index + 1}</span>
+        <span className="text-zinc-500">
+          {hunk.oldLines.length > 0 ? `linie ${hunk.start + 1}-${hunk.start + hunk.oldLines.length}` : `po linii ${hunk.start}`}
+        </span>
+        {hunk.error ? (
+          <span className="flex items-center gap-1 ml-auto text-red-400">
+            <AlertCircle size={12} /> {hunk.error}
+          </span>
+        ) : (
+          <div className="flex items-center gap-1 ml-auto">
+            <button
+              onClick={() => onDecide(decision === 'accepted' ? 'pending' : 'accepted')}
+              className={cn(
+                'flex items-center gap-1 px-2 py-0.5 rounded transition-colors',
+                decision === 'accepted' ? 'bg-green-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-200'
+              )}
+            >
+              <Check size={12} /> Akceptuj
+            </button>
+            <button
+              onClick={() => onDecide(decision === 'rejected' ? 'pending' : 'rejected')}
+              className={cn(
+                'flex items-center gap-1 px-2 py-0.5 rounded transition-colors',
+                decision === 'rejected' ? 'bg-red-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-200'
+              )}
+            >
+              <X size={12} /> Odrzuć
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-2 font-mono text-xs text-zinc-300 divide-x divide-zinc-800">
+        <div>
+          {rows.map((row, i) => (
+            <DiffCell key={i} cell={row.left} className={ROW_STYLES[row.type].left} />
+          ))}
+        </div>
+        <div>
+          {rows.map((row, i) => (
+            <DiffCell key={i} cell={row.right} className={ROW_STYLES[row.type].right} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function DiffReview({ edits, files, repoUrl, onApply, onClose }: DiffReviewProps) {
+  const { bases, isLoading, refresh } = useFileEditBases(edits, files, repoUrl);
+  const [selectedPath, setSelectedPath] = useState(edits[0]?.path ?? '');
+  const [decisions, setDecisions] = useState<Decisions>({});
+
+  // Zamknij panel na Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Fragmenty umiejscowione w aktualnej treści plików
+  const resolved = useMemo(
+    () => Object.fromEntries(
+      edits.map((edit) => [edit.path, isLoading ? [] : resolveFileEdit(edit, bases[edit.path]?.content ?? null)])
+    ) as Record<string, ResolvedHunk[]>,
+    [edits, bases, isLoading]
+  );
+
+  const decisionOf = (path: string, hunk: ResolvedHunk): HunkDecision => decisions[path]?.[hunk.id] ?? 'pending';
+
+  const decide = (path: string, hunkIds: string[], decision: HunkDecision) => {
+    setDecisions((prev) => ({
+      ...prev,
+      [path]: { ...prev[path], ...Object.fromEntries(hunkIds.map((id) => [id, decision])) },
+    }));
+  };
+
+  const decideAll = (decision: HunkDecision) => {
+    setDecisions(Object.fromEntries(
+      edits.map((edit) => [
+        edit.path,
+        Object.fromEntries(resolved[edit.path].filter((h) => !h.error).map((h) => [h.id, decision])),
+      ])
+    ));
+  };
+
+  const changes = useMemo(
+    () => edits
+      .map((edit) => applyFileEdit(edit, bases[edit.path]?.content ?? null, resolved[edit.path], decisions[edit.path] || {}))
+      .filter((change): change is AppliedFileChange => change !== null),
+    [edits, bases, resolved, decisions]
+  );
+
+  const selected = edits.find((edit) => edit.path === selectedPath) || edits[0];
+  const selectedBase = selected ? bases[selected.path] : undefined;
+  const selectedHunks = useMemo(() => (selected ? resolved[selected.path] : []), [selected, resolved]);
+
+  // Numeracja nowej wersji przesunięta przez wcześniejsze, nieodrzucone fragmenty
+  const hunkViews = useMemo(() => {
+    const views: { hunk: ResolvedHunk; rows: DiffRow[] }[] = [];
+    let offset = 0;
+    for (const hunk of selectedHunks) {
+      views.push({ hunk, rows: buildHunkRows(selectedBase?.content ?? null, hunk, offset) });
+      if (!hunk.error && selected && decisions[selected.path]?.[hunk.id] !== 'rejected') {
+        offset += hunk.newLines.length - hunk.oldLines.length;
+      }
+    }
+    return views;
+  }, [selected, selectedBase, selectedHunks, decisions]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-7xl h-[90vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <GitCompare size={18} className="text-purple-400" />
+            <h2 className="font-medium text-white">Zmiany w plikach</h2>
+            <span className="text-xs text-zinc-500">{edits.length} {edits.length === 1 ? 'plik' : 'plików'}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => decideAll('accepted')}
+              disabled={isLoading}
+              className="flex items-center gap-1.5 px-3 py-1 mr-1 rounded bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 transition-colors text-sm"
+            >
+              <CheckCheck size={14} /> Akceptuj wszystkie
+            </button>
+            <button
+              onClick={() => {
+                setDecisions({});
+                refresh();
+              }}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Wczytaj pliki ponownie (decyzje zostaną wyczyszczone)"
+            >
+              <RefreshCw size={16} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Zamknij (Esc)"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Lista plików */}
+          <div className="w-64 shrink-0 border-r border-zinc-800 overflow-y-auto p-2 space-y-1">
+            {edits.map((edit) => {
+              const Icon = ACTION_ICONS[edit.action];
+              const hunks = resolved[edit.path];
+              const { added, removed } = countHunkLines(hunks);
+              const accepted = hunks.filter((h) => decisionOf(edit.path, h) === 'accepted').length;
+              const errors = hunks.filter((h) => h.error).length;
+              return (
+                <button
+                  key={edit.path}
+                  onClick={() => setSelectedPath(edit.path)}
+                  className={cn(
+                    'w-full text-left px-2 py-1.5 rounded text-xs transition-colors',
+                    edit.path === selected?.path ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:bg-zinc-800/60'
+                  )}
+                >
+                  <div className="flex items-center gap-1.5 min-w-0">
+                    <Icon size={14} className={cn('shrink-0', ACTION_STYLES[edit.action])} />
+                    <span className="font-mono truncate" title={edit.path}>{edit.path}</span>
+                  </div>
+                  {!isLoading && (
+                    <div className="flex items-center gap-2 mt-0.5 pl-5">
+                      <span className="text-green-500">+{added}</span>
+                      <span className="text-red-400">-{removed}</span>
+                      <span className="text-zinc-500">{accepted}/{hunks.length - errors} zaakc.</span>
+                      {errors > 0 && <AlertCircle size={12} className="text-red-400" />}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Diff wybranego pliku */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {isLoading ? (
+              <div className="text-sm text-zinc-500">Wczytywanie plików...</div>
+            ) : selected && (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-mono text-zinc-200">{selected.path}</span>
+                  <span className="text-xs text-zinc-500">
+                    {selectedBase?.source ? `porównanie ${SOURCE_LABELS[selectedBase.source]}` : 'nowy plik'}
+                  </span>
+                  {selected.action === 'delete' && (
+                    <span className="text-xs text-zinc-500">- akceptacja zamyka plik w edytorze, w repo usuń go ręcznie</span>
+                  )}
+                  {selectedHunks.some((h) => !h.error) && (
+                    <div className="flex items-center gap-1 ml-auto text-xs">
+                      <button
+                        onClick={() => decide(selected.path, selectedHunks.filter((h) => !h.error).map((h) => h.id), 'accepted')}
+                        className="px-2 py-0.5 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                      >
+                        Akceptuj plik
+                      </button>
+                      <button
+                        onClick={() => decide(selected.path, selectedHunks.filter((h) => !h.error).map((h) => h.id), 'rejected')}
+                        className="px-2 py-0.5 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                      >
+                        Odrzuć plik
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {hunkViews.length === 0 ? (
+                  <div className="text-sm text-zinc-500">Brak różnic względem aktualnej treści pliku.</div>
+                ) : (
+                  hunkViews.map(({ hunk, rows }, index) => (
+                    <HunkView
+                      key={hunk.id}
+                      index={index}
+                      hunk={hunk}
+                      rows={rows}
+                      decision={decisionOf(selected.path, hunk)}
+                      onDecide={(decision) => decide(selected.path, [hunk.id], decision)}
+                    />
+                  ))
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Stopka */}
+        <div className="flex items-center justify-between px-4 py-3 border-t border-zinc-800">
+          <span className="text-xs text-zinc-500">
+            Zastosowane zostaną tylko zaakceptowane fragmenty - pozostałe nie zmienią pliku
+          </span>
+          <button
+            onClick={() => onApply(changes)}
+            disabled={changes.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors text-sm"
+          >
+            <Check size={14} />
+            Zastosuj w edytorze{changes.length > 0 ? ` (${changes.length})` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
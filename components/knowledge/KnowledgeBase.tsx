@@ -0,0 +1,617 @@
+'use client';
+
+/**
+ * KnowledgeBase - baza wiedzy projektu
+ * Zakładki: decyzje, bugi, zasady, style guide, backlog, dokumentacja i kamienie milowe
+ * Dodawanie, edycja, usuwanie, filtry i link do rozmowy, z której pochodzi rekord
+ * Ustawienia dołączania zasad, style guide i decyzji do promptów AI
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  BookOpen, X, RefreshCw, Plus, Pencil, Trash2, Search, MessageSquare, Lightbulb, Bug, ScrollText,
+  Palette, ListTodo, FileText, Flag, type LucideIcon,
+} from 'lucide-react';
+import { useKnowledge, useKnowledgePromptSettings } from '@/hooks/useKnowledge';
+import { PROJECT_KNOWLEDGE_DEFAULT_BUDGET, BACKLOG_STATUS_LABELS, MILESTONE_STATUS_LABELS } from '@/lib/constants';
+import type { KnowledgeRecords, KnowledgeType, Project } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+type KnowledgeRecord = KnowledgeRecords[KnowledgeType];
+type FormValues = Record<string, string | boolean>;
+
+interface KnowledgeBaseProps {
+  project: Project;
+  initialType?: KnowledgeType;
+  onOpenConversation: (conversationId: string) => void;
+  onProjectUpdated?: () => void;
+  onClose: () => void;
+}
+
+// Pole formularza rekordu
+interface KnowledgeField {
+  key: string;
+  label: string;
+  kind?: 'textarea' | 'select' | 'date' | 'checkbox';
+  options?: Record<string, string>;  // Wartość → etykieta (dla select)
+  required?: boolean;
+  editOnly?: boolean;                 // Wartość nadawana przy zapisie (status, aktywność) - edytowalna dopiero później
+  defaultValue?: string | boolean;
+}
+
+interface KnowledgeTab {
+  label: string;
+  icon: LucideIcon;
+  fields: KnowledgeField[];   // Pierwsze pole to tytuł, drugie - podgląd treści
+  filters: string[];          // Pola select, po których można filtrować
+}
+
+const SEVERITIES = { low: 'Niski', medium: 'Średni', high: 'Wysoki', critical: 'Krytyczny' };
+
+const KNOWLEDGE_TABS: Record<KnowledgeType, KnowledgeTab> = {
+  decision: {
+    label: 'Decyzje',
+    icon: Lightbulb,
+    fields: [
+      { key: 'title', label: 'Tytuł', required: true },
+      { key: 'description', label: 'Opis', kind: 'textarea', required: true },
+      { key: 'reason', label: 'Uzasadnienie', kind: 'textarea', required: true },
+      { key: 'alternatives', label: 'Alternatywy', kind: 'textarea' },
+    ],
+    filters: [],
+  },
+  bug: {
+    label: 'Bugi',
+    icon: Bug,
+    fields: [
+      { key: 'description', label: 'Opis', required: true },
+      { key: 'solution', label: 'Rozwiązanie', kind: 'textarea', required: true },
+      { key: 'file_path', label: 'Plik' },
+      { key: 'severity', label: 'Waga', kind: 'select', options: SEVERITIES, defaultValue: 'medium' },
+    ],
+    filters: ['severity'],
+  },
+  rule: {
+    label: 'Zasady',
+    icon: ScrollText,
+    fields: [
+      { key: 'rule', label: 'Zasada', kind: 'textarea', required: true },
+      {
+        key: 'category',
+        label: 'Kategoria',
+        kind: 'select',
+        options: {
+          code_style: 'Styl kodu', architecture: 'Architektura', testing: 'Testy',
+          security: 'Bezpieczeństwo', naming: 'Nazewnictwo', other: 'Inne',
+        },
+        defaultValue: 'other',
+      },
+      { key: 'is_active', label: 'Aktywna', kind: 'checkbox', editOnly: true },
+    ],
+    filters: ['category'],
+  },
+  style: {
+    label: 'Style guide',
+    icon: Palette,
+    fields: [
+      { key: 'rule', label: 'Zasada', kind: 'textarea', required: true },
+      { key: 'language', label: 'Język' },
+      { key: 'example_good', label: 'Dobry przykład', kind: 'textarea' },
+      { key: 'example_bad', label: 'Zły przykład', kind: 'textarea' },
+    ],
+    filters: [],
+  },
+  backlog: {
+    label: 'Backlog',
+    icon: ListTodo,
+    fields: [
+      { key: 'title', label: 'Tytuł', required: true },
+      { key: 'description', label: 'Opis', kind: 'textarea' },
+      { key: 'priority', label: 'Priorytet', kind: 'select', options: SEVERITIES, defaultValue: 'medium' },
+      {
+        key: 'status',
+        label: 'Status',
+        kind: 'select',
+        options: BACKLOG_STATUS_LABELS,
+        editOnly: true,
+      },
+    ],
+    filters: ['status', 'priority'],
+  },
+  doc: {
+    label: 'Dokumentacja',
+    icon: FileText,
+    fields: [
+      { key: 'title', label: 'Tytuł', required: true },
+      { key: 'content', label: 'Treść', kind: 'textarea', required: true },
+      {
+        key: 'doc_type',
+        label: 'Typ',
+        kind: 'select',
+        options: { readme: 'README', api: 'API', guide: 'Poradnik', changelog: 'Changelog', other: 'Inne' },
+        defaultValue: 'other',
+      },
+      { key: 'file_path', label: 'Plik' },
+    ],
+    filters: ['doc_type'],
+  },
+  milestone: {
+    label: 'Kamienie milowe',
+    icon: Flag,
+    fields: [
+      { key: 'title', label: 'Tytuł', required: true },
+      { key: 'description', label: 'Opis', kind: 'textarea' },
+      { key: 'target_date', label: 'Termin', kind: 'date' },
+      {
+        key: 'status',
+        label: 'Status',
+        kind: 'select',
+        options: MILESTONE_STATUS_LABELS,
+        editOnly: true,
+      },
+    ],
+    filters: ['status'],
+  },
+};
+
+// Wartość pola rekordu jako tekst
+function recordValue(record: object, key: string): string {
+  const value = (record as Record<string, unknown>)[key];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleDateString('pl-PL') : '';
+}
+
+/**
+ * Formularz dodawania/edycji rekordu
+ */
+function KnowledgeForm({
+  fields,
+  record,
+  onSubmit,
+  onCancel,
+}: {
+  fields: KnowledgeField[];
+  record?: KnowledgeRecord;
+  onSubmit: (values: Record<string, unknown>) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const visibleFields = fields.filter((field) => record || !field.editOnly);
+  const [values, setValues] = useState<FormValues>(() =>
+    Object.fromEntries(visibleFields.map((field) => {
+      const current = record ? (record as unknown as Record<string, unknown>)[field.key] : undefined;
+      if (field.kind === 'checkbox') return [field.key, current !== false];
+      if (field.kind === 'date') return [field.key, current ? String(current).slice(0, 10) : ''];
+      return [field.key, current === undefined || current === null ? String(field.defaultValue || '') : String(current)];
+    }))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isValid = visibleFields.every((field) => !field.required || String(values[field.key]).trim());
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    // Puste pola opcjonalne - null przy edycji, pominięte przy dodawaniu
+    const payload = Object.fromEntries(
+      visibleFields
+        .map((field) => {
+          const value = values[field.key];
+          return [field.key, typeof value === 'string' ? value.trim() || null : value] as const;
+        })
+        .filter(([, value]) => record || value !== null)
+    );
+    const ok = await onSubmit(payload);
+    if (!ok) setIsSaving(false);
+  };
+
+  const setValue = (key: string, value: string | boolean) => setValues((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="p-3 rounded-lg bg-zinc-800/50 border border-purple-500/40 space-y-2">
+      {visibleFields.map((field) => (
+        <label key={field.key} className={cn('block space-y-1', field.kind === 'checkbox' && 'flex items-center gap-2 space-y-0')}>
+          {field.kind === 'checkbox' ? (
+            <>
+              <input
+                type="checkbox"
+                checked={values[field.key] === true}
+                onChange={(e) => setValue(field.key, e.target.checked)}
+                className="accent-purple-500"
+              />
+              <span className="text-sm text-zinc-300">{field.label}</span>
+            </>
+          ) : (
+            <>
+              <span className="text-xs text-zinc-500">
+                {field.label}{field.required && ' *'}
+              </span>
+              {field.kind === 'textarea' ? (
+                <textarea
+                  value={String(values[field.key])}
+                  onChange={(e) => setValue(field.key, e.target.value)}
+                  rows={field.key === 'content' ? 8 : 3}
+                  className="w-full px-2 py-1 rounded bg-zinc-900 border border-zinc-700 focus:border-purple-500 outline-none text-sm resize-y"
+                />
+              ) : field.kind === 'select' ? (
+                <select
+                  value={String(values[field.key])}
+                  onChange={(e) => setValue(field.key, e.target.value)}
+                  className="w-full px-2 py-1 rounded bg-zinc-900 border border-zinc-700 outline-none text-sm"
+                >
+                  {Object.entries(field.options || {}).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={field.kind === 'date' ? 'date' : 'text'}
+                  value={String(values[field.key])}
+                  onChange={(e) => setValue(field.key, e.target.value)}
+                  className="w-full px-2 py-1 rounded bg-zinc-900 border border-zinc-700 focus:border-purple-500 outline-none text-sm"
+                />
+              )}
+            </>
+          )}
+        </label>
+      ))}
+      <div className="flex justify-end gap-2 pt-1">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 rounded text-sm text-zinc-400 hover:text-white transition-colors"
+        >
+          Anuluj
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={!isValid || isSaving}
+          className="px-3 py-1 rounded text-sm bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors"
+        >
+          {record ? 'Zapisz' : 'Dodaj'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Rekord na liście - podgląd, edycja, usunięcie i link do rozmowy
+ */
+function KnowledgeCard({
+  tab,
+  record,
+  onUpdate,
+  onDelete,
+  onOpenConversation,
+}: {
+  tab: KnowledgeTab;
+  record: KnowledgeRecord;
+  onUpdate: (changes: Record<string, unknown>) => Promise<boolean>;
+  onDelete: () => Promise<boolean>;
+  onOpenConversation: (conversationId: string) => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  if (isEditing) {
+    return (
+      <KnowledgeForm
+        fields={tab.fields}
+        record={record}
+        onSubmit={async (changes) => {
+          const ok = await onUpdate(changes);
+          if (ok) setIsEditing(false);
+          return ok;
+        }}
+        onCancel={() => setIsEditing(false)}
+      />
+    );
+  }
+
+  const [titleField, previewField] = tab.fields;
+  const badges = tab.fields.filter((field) => field.kind === 'select' && recordValue(record, field.key));
+  const inactive = 'is_active' in record && record.is_active === false;
+  const targetDate = 'target_date' in record ? record.target_date : undefined;
+
+  return (
+    <div className={cn('group p-3 rounded-lg bg-zinc-800/50 border border-zinc-800 space-y-1.5', inactive && 'opacity-60')}>
+      <div className="flex items-start gap-2">
+        <div className="flex-1 min-w-0 text-sm font-medium text-white break-words">{recordValue(record, titleField.key)}</div>
+        <div className="flex items-center gap-1 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={() => setIsEditing(true)}
+            className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors"
+            title="Edytuj"
+          >
+            <Pencil size={13} />
+          </button>
+          {confirmDelete ? (
+            <button
+              onClick={() => onDelete()}
+              onMouseLeave={() => setConfirmDelete(false)}
+              className="px-1.5 py-0.5 rounded bg-red-600 hover:bg-red-500 text-xs transition-colors"
+            >
+              Usuń?
+            </button>
+          ) : (
+            <button
+              onClick={() => setConfirmDelete(true)}
+              className="p-1 rounded text-zinc-400 hover:text-red-400 hover:bg-zinc-700 transition-colors"
+              title="Usuń"
+            >
+              <Trash2 size={13} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {previewField && recordValue(record, previewField.key) && (
+        <div className="text-sm text-zinc-400 whitespace-pre-wrap break-words line-clamp-3">
+          {recordValue(record, previewField.key)}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1.5 text-xs text-zinc-500">
+        {badges.map((field) => (
+          <span key={field.key} className="px-1.5 py-0.5 rounded bg-zinc-700/60 text-zinc-300">
+            {field.options?.[recordValue(record, field.key)] || recordValue(record, field.key)}
+          </span>
+        ))}
+        {inactive && <span className="px-1.5 py-0.5 rounded bg-zinc-700/60">nieaktywna</span>}
+        {targetDate && <span>termin {formatDate(targetDate)}</span>}
+        <span className="ml-auto">{formatDate(record.created_at)}</span>
+        {record.conversation_id && (
+          <button
+            onClick={() => onOpenConversation(record.conversation_id!)}
+            className="flex items-center gap-1 text-purple-400 hover:text-purple-300 transition-colors"
+            title="Otwórz rozmowę, z której pochodzi"
+          >
+            <MessageSquare size={12} /> rozmowa
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lista rekordów jednej zakładki z filtrami
+ */
+function KnowledgeList({
+  type,
+  projectId,
+  query,
+  isAdding,
+  onAddDone,
+  onOpenConversation,
+}: {
+  type: KnowledgeType;
+  projectId: string;
+  query: string;
+  isAdding: boolean;
+  onAddDone: () => void;
+  onOpenConversation: (conversationId: string) => void;
+}) {
+  const tab = KNOWLEDGE_TABS[type];
+  const { records, isLoading, create, update, remove } = useKnowledge(type, projectId);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return records.filter((record) =>
+      Object.entries(filters).every(([key, value]) => !value || recordValue(record, key) === value) &&
+      (!needle || tab.fields.some((field) => recordValue(record, field.key).toLowerCase().includes(needle)))
+    );
+  }, [records, filters, query, tab]);
+
+  return (
+    <div className="space-y-3">
+      {tab.filters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tab.filters.map((key) => {
+            const field = tab.fields.find((f) => f.key === key)!;
+            return (
+              <select
+                key={key}
+                value={filters[key] || ''}
+                onChange={(e) => setFilters((prev) => ({ ...prev, [key]: e.target.value }))}
+                className="px-2 py-1 rounded bg-zinc-800 border border-zinc-700 outline-none text-xs"
+              >
+                <option value="">{field.label}: wszystkie</option>
+                {Object.entries(field.options || {}).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            );
+          })}
+        </div>
+      )}
+
+      {isAdding && (
+        <KnowledgeForm
+          fields={tab.fields}
+          onSubmit={async (values) => {
+            const ok = !!(await create(values));
+            if (ok) onAddDone();
+            return ok;
+          }}
+          onCancel={onAddDone}
+        />
+      )}
+
+      {!isLoading && visible.length === 0 && !isAdding && (
+        <p className="text-sm text-zinc-500 text-center py-8">
+          {records.length === 0 ? 'Brak wpisów' : 'Brak wpisów pasujących do filtrów'}
+        </p>
+      )}
+
+      {visible.map((record) => (
+        <KnowledgeCard
+          key={record.id}
+          tab={tab}
+          record={record}
+          onUpdate={async (changes) => !!(await update(record.id, changes))}
+          onDelete={() => remove(record.id)}
+          onOpenConversation={onOpenConversation}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Ustawienia wiedzy projektu w promptach AI (zasady, style guide, decyzje)
+ */
+function PromptSettings({ project, onSaved }: { project: Project; onSaved?: () => void }) {
+  const { save } = useKnowledgePromptSettings(project);
+  const [enabled, setEnabled] = useState(project.knowledge_in_prompt !== false);
+  const [budget, setBudget] = useState(project.knowledge_budget_tokens ? String(project.knowledge_budget_tokens) : '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const parsed = parseInt(budget, 10);
+    const updated = await save(enabled, Number.isFinite(parsed) && parsed > 0 ? parsed : null);
+    setIsSaving(false);
+    if (updated) onSaved?.();
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 border-b border-zinc-800 text-sm">
+      <label className="flex items-center gap-2 text-zinc-300">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        Dołączaj zasady, style guide i decyzje do promptów AI
+      </label>
+      <div className="flex items-center gap-1.5 ml-auto">
+        <span className="text-zinc-500">limit</span>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          placeholder={String(PROJECT_KNOWLEDGE_DEFAULT_BUDGET)}
+          disabled={!enabled}
+          className="w-20 px-2 py-1 rounded bg-zinc-800 border border-zinc-700 focus:border-purple-500 outline-none disabled:opacity-50"
+        />
+        <span className="text-zinc-500">tokenów</span>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors"
+        >
+          Zapisz
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function KnowledgeBase({ project, initialType = 'decision', onOpenConversation, onProjectUpdated, onClose }: KnowledgeBaseProps) {
+  const [type, setType] = useState<KnowledgeType>(initialType);
+  const [query, setQuery] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [refreshVersion, setRefreshVersion] = useState(0);
+
+  // Zamknij panel na Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const selectTab = (next: KnowledgeType) => {
+    setType(next);
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <BookOpen size={18} className="text-purple-400" />
+            <h2 className="font-medium text-white">Baza wiedzy</h2>
+            <span className="text-xs text-zinc-500">{project.name}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setRefreshVersion((v) => v + 1)}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Odśwież"
+            >
+              <RefreshCw size={16} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Zamknij (Esc)"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Wiedza projektu w promptach AI */}
+        <PromptSettings key={project.id} project={project} onSaved={onProjectUpdated} />
+
+        {/* Zakładki */}
+        <div className="flex gap-1 px-4 py-2 border-b border-zinc-800 overflow-x-auto text-sm">
+          {(Object.entries(KNOWLEDGE_TABS) as [KnowledgeType, KnowledgeTab][]).map(([key, tab]) => (
+            <button
+              key={key}
+              onClick={() => selectTab(key)}
+              className={cn(
+                'flex items-center gap-1.5 px-2.5 py-1 rounded whitespace-nowrap transition-colors',
+                type === key ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+              )}
+            >
+              <tab.icon size={14} />
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Wyszukiwanie + dodawanie */}
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-zinc-800">
+          <div className="flex-1 flex items-center gap-2 px-2 py-1 rounded bg-zinc-800 border border-zinc-700 focus-within:border-purple-500">
+            <Search size={14} className="text-zinc-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Szukaj..."
+              className="flex-1 bg-transparent outline-none text-sm"
+            />
+          </div>
+          <button
+            onClick={() => setIsAdding(true)}
+            disabled={isAdding}
+            className="flex items-center gap-1.5 px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors text-sm"
+          >
+            <Plus size={14} /> Dodaj
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          <KnowledgeList
+            // Odświeżenie przeładowuje listę od nowa
+            key={`${project.id}-${type}-${refreshVersion}`}
+            type={type}
+            projectId={project.id}
+            query={query}
+            isAdding={isAdding}
+            onAddDone={() => setIsAdding(false)}
+            onOpenConversation={onOpenConversation}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+'use client';
+
+/**
+ * PromptLibrary - biblioteka zapisanych promptów
+ * Wyszukiwanie po tagu i narzędziu, zmienne {{nazwa}} uzupełniane z formularza,
+ * wstawienie do czatu albo skopiowanie do zewnętrznego CLI (każde użycie zwiększa use_count)
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { MessageSquareText, X, RefreshCw, Plus, Search, Copy, Check, CornerDownLeft } from 'lucide-react';
+import { usePrompts } from '@/hooks/usePrompts';
+import { LLM_TARGET_LABELS } from '@/lib/constants';
+import { extractTemplateVariables, fillTemplate } from '@/lib/promptTemplate';
+import type { LLMTarget, Prompt } from '@/lib/types';
+import { cn, copyToClipboard } from '@/lib/utils';
+
+interface PromptLibraryProps {
+  projectId?: string;
+  projectName?: string;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Formularz nowego promptu
+ */
+function PromptForm({
+  onSubmit,
+  onCancel,
+}: {
+  onSubmit: (input: { name: string; llm_target: LLMTarget; content: string; description?: string; tags: string[] }) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState<LLMTarget>('claude_code');
+  const [content, setContent] = useState('');
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    const ok = await onSubmit({
+      name: name.trim(),
+      llm_target: target,
+      content: content.trim(),
+      description: description.trim() || undefined,
+      tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+    });
+    if (!ok) setIsSaving(false);
+  };
+
+  const inputClass = 'w-full px-2 py-1 rounded bg-zinc-900 border border-zinc-700 focus:border-purple-500 outline-none text-sm';
+
+  return (
+    <div className="p-3 rounded-lg bg-zinc-800/50 border border-purple-500/40 space-y-2">
+      <div className="flex gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nazwa *" className={inputClass} />
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value as LLMTarget)}
+          className="px-2 py-1 rounded bg-zinc-900 border border-zinc-700 outline-none text-sm"
+        >
+          {Object.entries(LLM_TARGET_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={6}
+        placeholder="Treść * - zmienne jako {{nazwa}}"
+        className={cn(inputClass, 'resize-y font-mono')}
+      />
+      <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Opis" className={inputClass} />
+      <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tagi (po przecinku)" className={inputClass} />
+      <div className="flex justify-end gap-2 text-sm">
+        <button onClick={onCancel} className="px-3 py-1 rounded text-zinc-400 hover:text-white transition-colors">
+          Anuluj
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={isSaving || !name.trim() || !content.trim()}
+          className="px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors"
+        >
+          Zapisz
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Wybrany prompt - formularz zmiennych, podgląd i akcje
+ */
+function PromptDetails({
+  prompt,
+  onInsert,
+  onUsed,
+}: {
+  prompt: Prompt;
+  onInsert: (text: string) => void;
+  onUsed: (prompt: Prompt) => void;
+}) {
+  const variables = useMemo(() => extractTemplateVariables(prompt.content), [prompt.content]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState(false);
+
+  const filled = fillTemplate(prompt.content, values);
+  const missing = variables.filter((name) => !values[name]?.trim());
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(filled)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+      onUsed(prompt);
+    }
+  };
+
+  const handleInsert = () => {
+    onInsert(filled);
+    onUsed(prompt);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center gap-2">
+          <h3 className="font-medium text-white">{prompt.name}</h3>
+          <span className="px-1.5 py-0.5 rounded bg-zinc-800 text-xs text-zinc-400">
+            {LLM_TARGET_LABELS[prompt.llm_target] || prompt.llm_target}
+          </span>
+          <span className="ml-auto text-xs text-zinc-500">użyto {prompt.use_count || 0}×</span>
+        </div>
+        {prompt.description && <p className="mt-1 text-sm text-zinc-400">{prompt.description}</p>}
+      </div>
+
+      {variables.length > 0 && (
+        <div className="space-y-2">
+          {variables.map((name) => (
+            <label key={name} className="block space-y-1">
+              <span className="text-xs text-zinc-500 font-mono">{`{{${name}}}`}</span>
+              <input
+                value={values[name] || ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                className="w-full px-2 py-1 rounded bg-zinc-800 border border-zinc-700 focus:border-purple-500 outline-none text-sm"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <pre className="p-3 rounded-lg bg-zinc-950 border border-zinc-800 text-xs text-zinc-300 whitespace-pre-wrap max-h-64 overflow-y-auto">
+        {filled}
+      </pre>
+
+      <div className="flex items-center gap-2 text-sm">
+        {missing.length > 0 && (
+          <span className="text-xs text-amber-400">Nieuzupełnione: {missing.join(', ')}</span>
+        )}
+        <button
+          onClick={handleCopy}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1 rounded bg-zinc-800 hover:bg-zinc-700 transition-colors"
+          title="Kopiuj do schowka (np. do CLI)"
+        >
+          {copied ? <Check size={14} className="text-green-400" /> : <Copy size={14} />}
+          {copied ? 'Skopiowano' : 'Kopiuj'}
+        </button>
+        <button
+          onClick={handleInsert}
+          className="flex items-center gap-1.5 px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 transition-colors"
+        >
+          <CornerDownLeft size={14} /> Wstaw do czatu
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function PromptLibrary({ projectId, projectName, onInsert, onClose }: PromptLibraryProps) {
+  const { prompts, isLoading, refresh, create, markUsed } = usePrompts(projectId);
+  const [query, setQuery] = useState('');
+  const [target, setTarget] = useState<LLMTarget | ''>('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  // Zamknij panel na Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const tags = useMemo(() => [...new Set(prompts.flatMap((p) => p.tags || []))].sort(), [prompts]);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return prompts.filter((prompt) =>
+      (!target || prompt.llm_target === target) &&
+      (!tag || prompt.tags?.includes(tag)) &&
+      (!needle || [prompt.name, prompt.description, prompt.content, ...(prompt.tags || [])]
+        .some((text) => text?.toLowerCase().includes(needle)))
+    );
+  }, [prompts, query, target, tag]);
+
+  const selected = filtered.find((p) => p.id === selectedId) || filtered[0];
+
+  const handleCreate = async (input: Parameters<typeof create>[0]) => {
+    const prompt = await create(input);
+    if (!prompt) return false;
+    setIsAdding(false);
+    setSelectedId(prompt.id);
+    return true;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <MessageSquareText size={18} className="text-purple-400" />
+            <h2 className="font-medium text-white">Biblioteka promptów</h2>
+            {projectName && <span className="text-xs text-zinc-500">{projectName} + wspólne</span>}
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={refresh}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Odśwież"
+            >
+              <RefreshCw size={16} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Zamknij (Esc)"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Wyszukiwanie + filtry */}
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-zinc-800">
+          <div className="flex-1 flex items-center gap-2 px-2 py-1 rounded bg-zinc-800 border border-zinc-700 focus-within:border-purple-500">
+            <Search size={14} className="text-zinc-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Szukaj..."
+              className="flex-1 bg-transparent outline-none text-sm"
+            />
+          </div>
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value as LLMTarget | '')}
+            className="px-2 py-1 rounded bg-zinc-800 border border-zinc-700 outline-none text-sm"
+          >
+            <option value="">Wszystkie narzędzia</option>
+            {Object.entries(LLM_TARGET_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsAdding(true)}
+            disabled={isAdding}
+            className="flex items-center gap-1.5 px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors text-sm"
+          >
+            <Plus size={14} /> Dodaj
+          </button>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 px-4 py-2 border-b border-zinc-800 text-xs">
+            {tags.map((t) => (
+              <button
+                key={t}
+                onClick={() => setTag(tag === t ? null : t)}
+                className={cn(
+                  'px-2 py-0.5 rounded-full border transition-colors',
+                  tag === t ? 'bg-purple-600/30 border-purple-500 text-white' : 'border-zinc-700 text-zinc-400 hover:text-white'
+                )}
+              >
+                #{t}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* Lista promptów */}
+          <div className="w-72 border-r border-zinc-800 overflow-y-auto p-2 space-y-1">
+            {isLoading ? (
+              <p className="p-2 text-sm text-zinc-500">Ładowanie...</p>
+            ) : filtered.length === 0 ? (
+              <p className="p-2 text-sm text-zinc-500">{prompts.length === 0 ? 'Brak promptów' : 'Brak wyników'}</p>
+            ) : (
+              filtered.map((prompt) => (
+                <button
+                  key={prompt.id}
+                  onClick={() => {
+                    setSelectedId(prompt.id);
+                    setIsAdding(false);
+                  }}
+                  className={cn(
+                    'w-full text-left px-3 py-2 rounded-lg transition-colors',
+                    selected?.id === prompt.id && !isAdding ? 'bg-zinc-800' : 'hover:bg-zinc-800/50'
+                  )}
+                >
+                  <div className="text-sm text-white truncate">{prompt.name}</div>
+                  <div className="flex items-center gap-2 text-xs text-zinc-500">
+                    <span>{LLM_TARGET_LABELS[prompt.llm_target] || prompt.llm_target}</span>
+                    <span className="ml-auto">{prompt.use_count || 0}×</span>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Szczegóły / nowy prompt */}
+          <div className="flex-1 overflow-y-auto p-4">
+            {isAdding ? (
+              <PromptForm onSubmit={handleCreate} onCancel={() => setIsAdding(false)} />
+            ) : selected ? (
+              // Nowy prompt - nowy formularz zmiennych
+              <PromptDetails key={selected.id} prompt={selected} onInsert={onInsert} onUsed={markUsed} />
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
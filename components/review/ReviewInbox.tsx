@@ -0,0 +1,424 @@
+'use client';
+
+/**
+ * ReviewInbox - kolejka przeglądu elementów z auto-save
+ * Każdy element można zaakceptować, poprawić albo odrzucić - do kontekstu AI trafiają tylko zaakceptowane
+ * Zakładka duplikatów scala podobne rekordy pamięci projektu
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  Inbox, X, RefreshCw, Check, Pencil, Trash2, Lightbulb, Bug, MessageSquareText, ScrollText, Layers,
+  ChevronDown, ChevronUp, Merge, type LucideIcon,
+} from 'lucide-react';
+import { useDuplicates } from '@/hooks/useDuplicates';
+import { getAIPersonality } from '@/lib/constants';
+import type { DuplicateGroup, ReviewItem, ReviewItemRecords, ReviewItemType } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+type InboxTab = 'pending' | 'duplicates';
+
+interface ReviewInboxProps {
+  items: ReviewItem[];
+  isLoading: boolean;
+  projectId?: string;
+  projectName?: string;
+  onAccept: (item: ReviewItem, changes?: Partial<ReviewItemRecords[ReviewItemType]>) => Promise<boolean>;
+  onReject: (item: ReviewItem) => Promise<boolean>;
+  onRefresh: () => void;
+  onClose: () => void;
+  onMerged?: () => void;
+}
+
+// Edytowalne pole elementu
+interface ReviewField {
+  key: string;
+  label: string;
+  multiline?: boolean;
+}
+
+// Etykieta, ikona i edytowalne pola dla rodzaju elementu (pierwsze pole to tytuł karty)
+const REVIEW_TYPES: Record<ReviewItemType, { label: string; icon: LucideIcon; fields: ReviewField[] }> = {
+  decision: {
+    label: 'Decyzja',
+    icon: Lightbulb,
+    fields: [
+      { key: 'title', label: 'Tytuł' },
+      { key: 'description', label: 'Opis', multiline: true },
+      { key: 'reason', label: 'Uzasadnienie', multiline: true },
+      { key: 'alternatives', label: 'Alternatywy', multiline: true },
+    ],
+  },
+  bug: {
+    label: 'Bug',
+    icon: Bug,
+    fields: [
+      { key: 'description', label: 'Opis' },
+      { key: 'solution', label: 'Rozwiązanie', multiline: true },
+      { key: 'file_path', label: 'Plik' },
+    ],
+  },
+  prompt: {
+    label: 'Prompt',
+    icon: MessageSquareText,
+    fields: [
+      { key: 'name', label: 'Nazwa' },
+      { key: 'description', label: 'Opis' },
+      { key: 'content', label: 'Treść', multiline: true },
+    ],
+  },
+  rule: {
+    label: 'Zasada',
+    icon: ScrollText,
+    fields: [{ key: 'rule', label: 'Zasada', multiline: true }],
+  },
+  tech: {
+    label: 'Tech stack',
+    icon: Layers,
+    fields: [
+      { key: 'name', label: 'Nazwa' },
+      { key: 'version', label: 'Wersja' },
+    ],
+  },
+};
+
+// Wartość pola rekordu jako tekst
+function recordValue(record: object, key: string): string {
+  const value = (record as Record<string, unknown>)[key];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function fieldValue(item: ReviewItem, key: string): string {
+  return recordValue(item.record, key);
+}
+
+/**
+ * Karta elementu - podgląd, edycja, akceptacja i odrzucenie
+ */
+function ReviewCard({
+  item,
+  onAccept,
+  onReject,
+}: {
+  item: ReviewItem;
+  onAccept: ReviewInboxProps['onAccept'];
+  onReject: ReviewInboxProps['onReject'];
+}) {
+  const { label, icon: Icon, fields } = REVIEW_TYPES[item.type];
+  const [isEditing, setIsEditing] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+  const [draft, setDraft] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map((field) => [field.key, fieldValue(item, field.key)]))
+  );
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsBusy(true);
+    const ok = await action();
+    // Po sukcesie karta znika z listy
+    if (!ok) setIsBusy(false);
+  };
+
+  const handleAccept = () => run(() => {
+    if (!isEditing) return onAccept(item);
+
+    // Zmienione pola; puste opcjonalne pola zapisujemy jako null
+    const changes = Object.fromEntries(
+      fields
+        .filter((field) => draft[field.key].trim() !== fieldValue(item, field.key))
+        .map((field) => [field.key, draft[field.key].trim() || null])
+    );
+    return onAccept(item, changes as Partial<ReviewItemRecords[ReviewItemType]>);
+  });
+
+  const [titleField, ...detailFields] = fields;
+  const source = item.sourceMessage;
+  const sourceInfo = source && source.sender !== 'user' ? getAIPersonality(source.sender) : null;
+
+  return (
+    <div className="p-3 rounded-lg bg-zinc-800/50 border border-zinc-800 space-y-2">
+      <div className="flex items-start gap-2">
+        <Icon size={16} className="mt-0.5 shrink-0 text-purple-400" />
+        <div className="flex-1 min-w-0">
+          <div className="text-xs text-zinc-500">{label}</div>
+          {!isEditing && (
+            <div className="text-sm font-medium text-white break-words">{fieldValue(item, titleField.key)}</div>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            onClick={() => setIsEditing((v) => !v)}
+            disabled={isBusy}
+            className={cn(
+              'p-1.5 rounded transition-colors disabled:opacity-50',
+              isEditing ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-700'
+            )}
+            title="Edytuj przed akceptacją"
+          >
+            <Pencil size={14} />
+          </button>
+          <button
+            onClick={() => run(() => onReject(item))}
+            disabled={isBusy}
+            className="p-1.5 rounded text-zinc-400 hover:text-red-400 hover:bg-zinc-700 transition-colors disabled:opacity-50"
+            title="Odrzuć"
+          >
+            <Trash2 size={14} />
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={isBusy}
+            className="p-1.5 rounded text-zinc-400 hover:text-green-400 hover:bg-zinc-700 transition-colors disabled:opacity-50"
+            title={isEditing ? 'Zapisz zmiany i zaakceptuj' : 'Zaakceptuj'}
+          >
+            <Check size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* Szczegóły albo formularz edycji */}
+      {isEditing ? (
+        <div className="space-y-2">
+          {fields.map((field) => (
+            <label key={field.key} className="block space-y-1">
+              <span className="text-xs text-zinc-500">{field.label}</span>
+              {field.multiline ? (
+                <textarea
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  rows={3}
+                  className="w-full px-2 py-1 rounded bg-zinc-900 border border-zinc-700 focus:border-purple-500 outline-none text-sm resize-y"
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  className="w-full px-2 py-1 rounded bg-zinc-900 border border-zinc-700 focus:border-purple-500 outline-none text-sm"
+                />
+              )}
+            </label>
+          ))}
+        </div>
+      ) : (
+        detailFields
+          .filter((field) => fieldValue(item, field.key))
+          .map((field) => (
+            <div key={field.key} className="text-sm">
+              <span className="text-xs text-zinc-500">{field.label}: </span>
+              <span className="text-zinc-300 whitespace-pre-wrap break-words line-clamp-4">{fieldValue(item, field.key)}</span>
+            </div>
+          ))
+      )}
+
+      {/* Wiadomość źródłowa */}
+      {source && (
+        <div className="border-t border-zinc-800 pt-2">
+          <button
+            onClick={() => setShowSource((v) => !v)}
+            className="flex items-center gap-1.5 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            {showSource ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+            Z wiadomości
+            {sourceInfo && <span style={{ color: sourceInfo.color }}>{sourceInfo.avatar} {sourceInfo.displayName}</span>}
+            <span>· {new Date(source.created_at).toLocaleString('pl-PL')}</span>
+          </button>
+          {showSource && (
+            <div className="mt-2 max-h-48 overflow-y-auto p-2 rounded bg-zinc-900 text-xs text-zinc-400 whitespace-pre-wrap break-words">
+              {source.content}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Grupa duplikatów - wybór rekordu docelowego i scalenie
+ */
+function DuplicateCard({
+  group,
+  onMerge,
+}: {
+  group: DuplicateGroup;
+  onMerge: (group: DuplicateGroup, targetId: string) => Promise<boolean>;
+}) {
+  const { label, icon: Icon, fields } = REVIEW_TYPES[group.type];
+  const records = group.records as DuplicateGroup['records'][number][];
+  // Domyślnie zostaje najstarszy zaakceptowany rekord
+  const [targetId, setTargetId] = useState(
+    (records.find((record) => (record.review_status || 'accepted') === 'accepted') || records[0]).id
+  );
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleMerge = async () => {
+    setIsBusy(true);
+    const ok = await onMerge(group, targetId);
+    if (!ok) setIsBusy(false);
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-zinc-800/50 border border-zinc-800 space-y-2">
+      <div className="flex items-center gap-2">
+        <Icon size={16} className="text-purple-400" />
+        <span className="flex-1 text-xs text-zinc-500">{label} · {records.length} podobne</span>
+        <button
+          onClick={handleMerge}
+          disabled={isBusy}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors text-xs"
+        >
+          <Merge size={12} /> Scal
+        </button>
+      </div>
+      {records.map((record) => (
+        <label key={record.id} className="flex items-start gap-2 text-sm cursor-pointer">
+          <input
+            type="radio"
+            checked={targetId === record.id}
+            onChange={() => setTargetId(record.id)}
+            className="mt-1 accent-purple-500"
+          />
+          <div className="flex-1 min-w-0">
+            <div className="text-zinc-200 break-words">{recordValue(record, fields[0].key)}</div>
+            {fields[1] && recordValue(record, fields[1].key) && (
+              <div className="text-xs text-zinc-500 line-clamp-2">{recordValue(record, fields[1].key)}</div>
+            )}
+          </div>
+          {record.review_status === 'pending' && (
+            <span className="shrink-0 px-1.5 py-0.5 rounded bg-zinc-700 text-[10px] text-zinc-400">oczekuje</span>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Lista grup duplikatów w projekcie
+ */
+function DuplicatesList({ projectId, onMerged }: { projectId: string; onMerged?: () => void }) {
+  const { groups, isLoading, merge } = useDuplicates(projectId);
+
+  const handleMerge = async (group: DuplicateGroup, targetId: string) => {
+    const ok = await merge(group, targetId);
+    if (ok) onMerged?.();
+    return ok;
+  };
+
+  if (!isLoading && groups.length === 0) {
+    return <p className="text-sm text-zinc-500 text-center py-8">Brak duplikatów w pamięci projektu</p>;
+  }
+
+  return (
+    <>
+      {groups.map((group) => (
+        <DuplicateCard key={`${group.type}-${group.records[0].id}`} group={group} onMerge={handleMerge} />
+      ))}
+    </>
+  );
+}
+
+export function ReviewInbox({
+  items,
+  isLoading,
+  projectId,
+  projectName,
+  onAccept,
+  onReject,
+  onRefresh,
+  onClose,
+  onMerged,
+}: ReviewInboxProps) {
+  const [tab, setTab] = useState<InboxTab>('pending');
+  const activeTab = projectId ? tab : 'pending';
+
+  // Zamknij panel na Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <Inbox size={18} className="text-purple-400" />
+            <h2 className="font-medium text-white">Do przeglądu</h2>
+            <span className="text-xs text-zinc-500">{projectName || 'Wszystkie projekty'}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onRefresh}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Odśwież"
+            >
+              <RefreshCw size={16} className={cn(isLoading && 'animate-spin')} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Zamknij (Esc)"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Zakładki - duplikaty tylko w obrębie projektu */}
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-zinc-800 text-sm">
+          <div className="flex gap-1">
+            <button
+              onClick={() => setTab('pending')}
+              className={cn(
+                'px-2.5 py-1 rounded transition-colors',
+                activeTab === 'pending' ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+              )}
+            >
+              Oczekujące{items.length > 0 && ` (${items.length})`}
+            </button>
+            {projectId && (
+              <button
+                onClick={() => setTab('duplicates')}
+                className={cn(
+                  'px-2.5 py-1 rounded transition-colors',
+                  activeTab === 'duplicates' ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+                )}
+              >
+                Duplikaty
+              </button>
+            )}
+          </div>
+          <span className="text-xs text-zinc-500">
+            {activeTab === 'pending'
+              ? 'Do kontekstu AI trafiają dopiero po akceptacji.'
+              : 'Scalenie zachowuje wybrany rekord i usuwa pozostałe.'}
+          </span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {activeTab === 'duplicates' && projectId ? (
+            <DuplicatesList projectId={projectId} onMerged={onMerged} />
+          ) : (
+            <>
+              {!isLoading && items.length === 0 && (
+                <p className="text-sm text-zinc-500 text-center py-8">Brak elementów do przeglądu</p>
+              )}
+              {items.map((item) => (
+                <ReviewCard key={`${item.type}-${item.record.id}`} item={item} onAccept={onAccept} onReject={onReject} />
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
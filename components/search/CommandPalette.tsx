@@ -0,0 +1,273 @@
+'use client';
+
+/**
+ * CommandPalette - wyszukiwanie globalne (Ctrl+K)
+ * Wiadomości, tytuły rozmów, decyzje, bugi, dokumentacja i prompty - filtry projektu, nadawcy, dat i źródeł
+ * Wybór wyniku przechodzi od razu do wiadomości w rozmowie
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Search, X, MessageSquare, MessagesSquare, Lightbulb, Bug, FileText, MessageSquareText, type LucideIcon,
+} from 'lucide-react';
+import { useSearch } from '@/hooks/useSearch';
+import { getAIPersonality, SEARCH_SOURCE_LABELS } from '@/lib/constants';
+import type { AISender, MessageSender, SearchResult, SearchSource } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface CommandPaletteProps {
+  projectId?: string;
+  projectName?: string;
+  senders: AISender[];
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+const SOURCE_ICONS: Record<SearchSource, LucideIcon> = {
+  message: MessageSquare,
+  conversation: MessagesSquare,
+  decision: Lightbulb,
+  bug: Bug,
+  doc: FileText,
+  prompt: MessageSquareText,
+};
+
+/**
+ * Tekst z zaznaczonymi trafieniami
+ */
+function HighlightedText({ text, highlights }: { text: string; highlights: [number, number][] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  for (const [from, to] of highlights) {
+    if (from > position) parts.push(text.slice(position, from));
+    parts.push(
+      <mark key={from} className="bg-purple-500/30 text-white rounded-sm">
+        {text.slice(from, to)}
+      </mark>
+    );
+    position = to;
+  }
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+function formatDay(date?: string): string {
+  return date ? new Date(date).toLocaleDateString('pl-PL') : '';
+}
+
+export function CommandPalette({ projectId, projectName, senders, onSelect, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [sources, setSources] = useState<SearchSource[]>([]);
+  const [sender, setSender] = useState<MessageSender | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [onlyProject, setOnlyProject] = useState(!!projectId);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { results, isLoading, error } = useSearch({
+    query,
+    projectId: onlyProject ? projectId : undefined,
+    sender: sender || undefined,
+    from: from ? `${from}T00:00:00` : undefined,
+    to: to ? `${to}T23:59:59` : undefined,
+    sources,
+  });
+
+  // Wyniki pogrupowane po źródle - kolejność jak w odpowiedzi API
+  const groups = useMemo(() => {
+    const bySource = new Map<SearchSource, SearchResult[]>();
+    for (const result of results) {
+      bySource.set(result.source, [...(bySource.get(result.source) || []), result]);
+    }
+    return [...bySource.entries()];
+  }, [results]);
+
+  const selectedIndex = Math.min(activeIndex, Math.max(0, results.length - 1));
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Zamknij paletę na Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Aktywny wynik zawsze widoczny na liście
+  useEffect(() => {
+    listRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleInputKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(Math.min(results.length - 1, selectedIndex + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(Math.max(0, selectedIndex - 1));
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      e.preventDefault();
+      onSelect(results[selectedIndex]);
+    }
+  };
+
+  const toggleSource = (source: SearchSource) => {
+    setSources((prev) => (prev.includes(source) ? prev.filter((s) => s !== source) : [...prev, source]));
+    setActiveIndex(0);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[75vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Zapytanie */}
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-zinc-800">
+          <Search size={18} className="text-purple-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleInputKeyDown}
+            placeholder="Szukaj w rozmowach, decyzjach, bugach, dokumentacji..."
+            className="flex-1 bg-transparent outline-none text-white placeholder:text-zinc-500"
+          />
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+            title="Zamknij (Esc)"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Filtry */}
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-zinc-800 text-xs">
+          {(Object.keys(SEARCH_SOURCE_LABELS) as SearchSource[]).map((source) => (
+            <button
+              key={source}
+              onClick={() => toggleSource(source)}
+              className={cn(
+                'px-2 py-0.5 rounded border transition-colors',
+                sources.includes(source)
+                  ? 'bg-purple-600/30 border-purple-500 text-white'
+                  : 'border-zinc-700 text-zinc-400 hover:text-white'
+              )}
+            >
+              {SEARCH_SOURCE_LABELS[source]}
+            </button>
+          ))}
+          <select
+            value={sender}
+            onChange={(e) => setSender(e.target.value)}
+            className="px-2 py-0.5 rounded bg-zinc-800 border border-zinc-700 outline-none"
+            title="Nadawca (tylko wiadomości)"
+          >
+            <option value="">Każdy nadawca</option>
+            <option value="user">Ty</option>
+            {senders.map((id) => (
+              <option key={id} value={id}>{getAIPersonality(id).displayName}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-2 py-0.5 rounded bg-zinc-800 border border-zinc-700 outline-none"
+            title="Od"
+          />
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-2 py-0.5 rounded bg-zinc-800 border border-zinc-700 outline-none"
+            title="Do"
+          />
+          {projectId && (
+            <label className="flex items-center gap-1.5 text-zinc-400">
+              <input type="checkbox" checked={onlyProject} onChange={(e) => setOnlyProject(e.target.checked)} />
+              Tylko {projectName || 'bieżący projekt'}
+            </label>
+          )}
+        </div>
+
+        {/* Wyniki */}
+        <div ref={listRef} className="flex-1 overflow-y-auto p-2">
+          {!query.trim() ? (
+            <p className="px-2 py-6 text-center text-sm text-zinc-500">
+              Wpisz frazę - ↑↓ wybór, Enter przejście do wiadomości
+            </p>
+          ) : isLoading ? (
+            <p className="px-2 py-6 text-center text-sm text-zinc-500">Szukam...</p>
+          ) : error ? (
+            <p className="px-2 py-6 text-center text-sm text-red-400">{error}</p>
+          ) : results.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-zinc-500">Brak wyników</p>
+          ) : (
+            groups.map(([source, items]) => {
+              const Icon = SOURCE_ICONS[source];
+              return (
+                <div key={source} className="mb-2">
+                  <div className="flex items-center gap-1.5 px-2 py-1 text-xs text-zinc-500">
+                    <Icon size={12} />
+                    {SEARCH_SOURCE_LABELS[source]}
+                  </div>
+                  {items.map((result) => {
+                    const index = results.indexOf(result);
+                    const isActive = index === selectedIndex;
+                    return (
+                      <button
+                        key={`${result.source}-${result.id}`}
+                        data-active={isActive}
+                        onClick={() => onSelect(result)}
+                        onMouseMove={() => setActiveIndex(index)}
+                        className={cn(
+                          'w-full text-left px-3 py-2 rounded-lg transition-colors',
+                          isActive ? 'bg-zinc-800' : 'hover:bg-zinc-800/50'
+                        )}
+                      >
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="font-medium text-white truncate">
+                            {result.source === 'conversation'
+                              ? <HighlightedText text={result.snippet} highlights={result.highlights} />
+                              : result.title}
+                          </span>
+                          {result.sender && (
+                            <span className="text-xs text-zinc-500">
+                              {result.sender === 'user' ? 'Ty' : getAIPersonality(result.sender).displayName}
+                            </span>
+                          )}
+                          <span className="ml-auto text-xs text-zinc-600 whitespace-nowrap">
+                            {formatDay(result.created_at)}
+                          </span>
+                        </div>
+                        {result.snippet && result.source !== 'conversation' && (
+                          <p className="mt-0.5 text-xs text-zinc-400 line-clamp-2">
+                            <HighlightedText text={result.snippet} highlights={result.highlights} />
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
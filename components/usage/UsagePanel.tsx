@@ -0,0 +1,379 @@
+'use client';
+
+/**
+ * UsagePanel - zużycie tokenów i koszty AI
+ * Suma, podział na providery, dni i rozmowy + oceny odpowiedzi i miesięczny budżet projektu
+ */
+
+import { useEffect, useState } from 'react';
+import { BarChart3, X, RefreshCw, Wallet, Star } from 'lucide-react';
+import { useUsage } from '@/hooks/useUsage';
+import { getAIPersonality, AI_ROLE_LABELS } from '@/lib/constants';
+import { formatCost, formatTokens } from '@/lib/usage';
+import type { AIRole, BudgetAction, Project, RatingStats, RatingSummary, UsageByProvider } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+type UsageScope = 'conversation' | 'project';
+
+interface UsagePanelProps {
+  project?: Project;
+  conversationId?: string | null;
+  onClose: () => void;
+  onBudgetSaved?: () => void;
+}
+
+// Dostępne zakresy czasu (dni)
+const RANGES = [7, 30, 90];
+
+/**
+ * Poziomy pasek z udziałem providerów (kolory z osobowości AI)
+ */
+function ProviderBar({ byProvider, total }: { byProvider: UsageByProvider; total: number }) {
+  if (total <= 0) return <div className="h-1.5 rounded-full bg-zinc-800" />;
+
+  return (
+    <div className="flex h-1.5 rounded-full overflow-hidden bg-zinc-800">
+      {Object.entries(byProvider).map(([provider, usage]) => (
+        <div
+          key={provider}
+          style={{
+            width: `${(usage.totalTokens / total) * 100}%`,
+            backgroundColor: getAIPersonality(provider).color,
+          }}
+          title={`${getAIPersonality(provider).displayName}: ${formatTokens(usage.totalTokens)}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Średnia ocena z liczbą ocen
+ */
+function RatingValue({ stats }: { stats: RatingStats }) {
+  return (
+    <span className="whitespace-nowrap">
+      {stats.average.toFixed(1)} <Star size={11} className="inline -mt-0.5 fill-amber-400 text-amber-400" />
+      <span className="text-zinc-500"> ({stats.count})</span>
+    </span>
+  );
+}
+
+/**
+ * Oceny odpowiedzi per provider i per rola - który model najlepiej sprawdza się w danej roli
+ */
+function RatingsSection({ ratings }: { ratings: RatingSummary }) {
+  const providers = Object.entries(ratings.byProvider).sort((a, b) => b[1].average - a[1].average);
+  const roles = Object.entries(ratings.byRole) as [AIRole, NonNullable<RatingSummary['byRole'][AIRole]>][];
+
+  return (
+    <section className="space-y-2">
+      <h3 className="flex items-center gap-1.5 text-sm font-medium text-zinc-300">
+        <Star size={14} /> Oceny odpowiedzi
+        {ratings.totals.count > 0 && (
+          <span className="ml-auto text-xs font-normal text-zinc-400"><RatingValue stats={ratings.totals} /></span>
+        )}
+      </h3>
+      {ratings.totals.count === 0 && <p className="text-sm text-zinc-500">Brak ocen w tym okresie</p>}
+      {providers.map(([provider, stats]) => {
+        const info = getAIPersonality(provider);
+        return (
+          <div key={provider} className="flex items-center gap-3 text-sm">
+            <span className="w-5 text-center">{info.avatar}</span>
+            <span className="w-24 truncate" style={{ color: info.color }}>{info.displayName}</span>
+            <div className="flex-1 h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+              <div className="h-full bg-amber-400" style={{ width: `${(stats.average / 5) * 100}%` }} />
+            </div>
+            <span className="w-20 text-right text-xs"><RatingValue stats={stats} /></span>
+          </div>
+        );
+      })}
+      {roles.length > 0 && (
+        <div className="space-y-1 pt-1">
+          {roles.map(([role, stats]) => (
+            <div key={role} className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="w-20 text-zinc-400">{AI_ROLE_LABELS[role]}</span>
+              {Object.entries(stats.byProvider)
+                .sort((a, b) => b[1].average - a[1].average)
+                .map(([provider, providerStats]) => (
+                  <span key={provider} className="px-2 py-0.5 rounded bg-zinc-800/60">
+                    <span style={{ color: getAIPersonality(provider).color }}>
+                      {getAIPersonality(provider).displayName}
+                    </span>{' '}
+                    <RatingValue stats={providerStats} />
+                  </span>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Formularz miesięcznego budżetu projektu
+ */
+function BudgetForm({
+  project,
+  onSave,
+}: {
+  project: Project;
+  onSave: (budgetUsd: number | null, action: BudgetAction) => Promise<void>;
+}) {
+  const [amount, setAmount] = useState(project.monthly_budget_usd ? String(project.monthly_budget_usd) : '');
+  const [action, setAction] = useState<BudgetAction>(project.budget_action || 'warn');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const parsed = parseFloat(amount.replace(',', '.'));
+    await onSave(Number.isFinite(parsed) && parsed > 0 ? parsed : null, action);
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-zinc-500">$</span>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder="bez limitu"
+        className="w-24 px-2 py-1 rounded bg-zinc-800 border border-zinc-700 focus:border-purple-500 outline-none"
+      />
+      <span className="text-zinc-500">/ mies.</span>
+      <select
+        value={action}
+        onChange={(e) => setAction(e.target.value as BudgetAction)}
+        className="px-2 py-1 rounded bg-zinc-800 border border-zinc-700 outline-none"
+      >
+        <option value="warn">Ostrzegaj</option>
+        <option value="block">Blokuj</option>
+      </select>
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-50 transition-colors"
+      >
+        Zapisz
+      </button>
+    </div>
+  );
+}
+
+export function UsagePanel({ project, conversationId, onClose, onBudgetSaved }: UsagePanelProps) {
+  const [scope, setScope] = useState<UsageScope>(conversationId ? 'conversation' : 'project');
+  const [days, setDays] = useState(30);
+
+  const activeScope = conversationId ? scope : 'project';
+  const { summary, ratings, budget, isLoading, refresh, saveBudget } = useUsage({
+    project,
+    conversationId: activeScope === 'conversation' ? conversationId || undefined : undefined,
+    days,
+  });
+
+  // Zamknij panel na Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSaveBudget = async (budgetUsd: number | null, action: BudgetAction) => {
+    await saveBudget(budgetUsd, action);
+    onBudgetSaved?.();
+  };
+
+  const totals = summary?.totals;
+  const providers = Object.entries(summary?.byProvider || {}).sort((a, b) => b[1].costUsd - a[1].costUsd);
+  const maxDayTokens = Math.max(1, ...(summary?.byDay || []).map((d) => d.totalTokens));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <BarChart3 size={18} className="text-purple-400" />
+            <h2 className="font-medium text-white">Zużycie i koszty</h2>
+            <span className="text-xs text-zinc-500">{project?.name || 'Wszystkie projekty'}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={refresh}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Odśwież"
+            >
+              <RefreshCw size={16} className={cn(isLoading && 'animate-spin')} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded hover:bg-zinc-800 transition-colors text-zinc-400 hover:text-white"
+              title="Zamknij (Esc)"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Zakres */}
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-zinc-800 text-sm">
+          <div className="flex gap-1">
+            {conversationId && (
+              <button
+                onClick={() => setScope('conversation')}
+                className={cn(
+                  'px-2.5 py-1 rounded transition-colors',
+                  activeScope === 'conversation' ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+                )}
+              >
+                Ta rozmowa
+              </button>
+            )}
+            <button
+              onClick={() => setScope('project')}
+              className={cn(
+                'px-2.5 py-1 rounded transition-colors',
+                activeScope === 'project' ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+              )}
+            >
+              {project ? 'Projekt' : 'Wszystko'}
+            </button>
+          </div>
+          <div className="flex gap-1">
+            {RANGES.map((range) => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={cn(
+                  'px-2 py-1 rounded text-xs transition-colors',
+                  days === range ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-white'
+                )}
+              >
+                {range} dni
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {/* Suma */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-3 rounded-lg bg-zinc-800/50">
+              <div className="text-xs text-zinc-500">Koszt</div>
+              <div className="text-lg font-semibold">{formatCost(totals?.costUsd || 0)}</div>
+            </div>
+            <div className="p-3 rounded-lg bg-zinc-800/50">
+              <div className="text-xs text-zinc-500">Tokeny</div>
+              <div className="text-lg font-semibold">{formatTokens(totals?.totalTokens || 0)}</div>
+              <div className="text-xs text-zinc-500">
+                {formatTokens(totals?.inputTokens || 0)} wej. / {formatTokens(totals?.outputTokens || 0)} wyj.
+              </div>
+            </div>
+            <div className="p-3 rounded-lg bg-zinc-800/50">
+              <div className="text-xs text-zinc-500">Wywołania</div>
+              <div className="text-lg font-semibold">{totals?.calls || 0}</div>
+            </div>
+          </div>
+
+          {/* Budżet projektu */}
+          {project && (
+            <section className="space-y-2">
+              <h3 className="flex items-center gap-1.5 text-sm font-medium text-zinc-300">
+                <Wallet size={14} /> Budżet miesięczny
+              </h3>
+              {budget && (
+                <div className="space-y-1">
+                  <div className="h-2 rounded-full bg-zinc-800 overflow-hidden">
+                    <div
+                      className={cn(
+                        'h-full transition-all',
+                        budget.status === 'exceeded' ? 'bg-red-500' : budget.status === 'warning' ? 'bg-orange-500' : 'bg-green-500'
+                      )}
+                      style={{ width: `${Math.min(100, (budget.spentUsd / budget.budgetUsd) * 100)}%` }}
+                    />
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {formatCost(budget.spentUsd)} z {formatCost(budget.budgetUsd)} w tym miesiącu
+                    {budget.status === 'exceeded' && (budget.action === 'block' ? ' - wywołania zablokowane' : ' - przekroczono')}
+                  </div>
+                </div>
+              )}
+              <BudgetForm key={project.id} project={project} onSave={handleSaveBudget} />
+            </section>
+          )}
+
+          {/* Providery */}
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium text-zinc-300">Providery</h3>
+            {providers.length === 0 && <p className="text-sm text-zinc-500">Brak wywołań w tym okresie</p>}
+            {providers.map(([provider, usage]) => {
+              const info = getAIPersonality(provider);
+              return (
+                <div key={provider} className="flex items-center gap-3 text-sm">
+                  <span className="w-5 text-center">{info.avatar}</span>
+                  <span className="w-24 truncate" style={{ color: info.color }}>{info.displayName}</span>
+                  <div className="flex-1 h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                    <div
+                      className="h-full"
+                      style={{
+                        width: `${totals?.totalTokens ? (usage.totalTokens / totals.totalTokens) * 100 : 0}%`,
+                        backgroundColor: info.color,
+                      }}
+                    />
+                  </div>
+                  <span className="w-16 text-right text-zinc-400">{formatTokens(usage.totalTokens)}</span>
+                  <span className="w-20 text-right">{formatCost(usage.costUsd)}</span>
+                </div>
+              );
+            })}
+          </section>
+
+          {/* Oceny */}
+          {ratings && <RatingsSection ratings={ratings} />}
+
+          {/* Dni */}
+          {summary && summary.byDay.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium text-zinc-300">Dziennie</h3>
+              {summary.byDay.map((day) => (
+                <div key={day.date} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 text-zinc-400">{day.date}</span>
+                  <div className="flex-1" style={{ maxWidth: `${(day.totalTokens / maxDayTokens) * 100}%` }}>
+                    <ProviderBar byProvider={day.byProvider} total={day.totalTokens} />
+                  </div>
+                  <span className="ml-auto w-16 text-right text-zinc-400">{formatTokens(day.totalTokens)}</span>
+                  <span className="w-20 text-right">{formatCost(day.costUsd)}</span>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {/* Rozmowy */}
+          {activeScope === 'project' && summary && summary.byConversation.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium text-zinc-300">Rozmowy</h3>
+              {summary.byConversation.slice(0, 20).map((conversation) => (
+                <div key={conversation.conversationId} className="space-y-1">
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="flex-1 truncate">{conversation.title || conversation.conversationId}</span>
+                    <span className="w-16 text-right text-zinc-400">{formatTokens(conversation.totalTokens)}</span>
+                    <span className="w-20 text-right">{formatCost(conversation.costUsd)}</span>
+                  </div>
+                  <ProviderBar byProvider={conversation.byProvider} total={conversation.totalTokens} />
+                </div>
+              ))}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
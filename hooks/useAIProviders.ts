@@ -0,0 +1,43 @@
+'use client';
+
+/**
+ * useAIProviders - hook do pobierania providerów AI z serwera
+ * Rejestruje ich osobowości, żeby chat znał avatary i kolory spoza wbudowanej trójki
+ */
+
+import { useState, useEffect } from 'react';
+import { CHAT_API_ENDPOINTS, registerAIPersonalities } from '@/lib/constants';
+import type { AIProviderInfo } from '@/lib/types';
+
+export function useAIProviders() {
+  const [providers, setProviders] = useState<AIProviderInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProviders = async () => {
+      try {
+        const response = await fetch(CHAT_API_ENDPOINTS.PROVIDERS);
+        if (!response.ok) {
+          throw new Error(`HTTP error: ${response.status}`);
+        }
+
+        const data: { providers: AIProviderInfo[] } = await response.json();
+        if (cancelled) return;
+
+        registerAIPersonalities(data.providers.map(p => p.personality));
+        setProviders(data.providers);
+      } catch (err) {
+        console.error('Błąd ładowania providerów AI:', err);
+      }
+    };
+
+    loadProviders();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { providers };
+}
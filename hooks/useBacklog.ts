@@ -0,0 +1,97 @@
+'use client';
+
+/**
+ * useBacklog - hook do tablicy backlogu projektu
+ * Elementy backlogu i kamienie milowe, przenoszenie kart między kolumnami i torami
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getBacklog,
+  getMilestones,
+  saveBacklogItem,
+  saveMilestone,
+  updateBacklogStatus,
+  updateBacklogMilestone,
+  updateMilestoneStatus,
+} from '@/lib/supabase';
+import type {
+  BacklogItem,
+  BacklogStatus,
+  Milestone,
+  MilestoneStatus,
+  SaveBacklogInput,
+  SaveMilestoneInput,
+} from '@/lib/types';
+
+interface BacklogState {
+  items: BacklogItem[];
+  milestones: Milestone[];
+  isLoading: boolean;
+}
+
+export function useBacklog(projectId: string) {
+  const [state, setState] = useState<BacklogState>({ items: [], milestones: [], isLoading: true });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getBacklog(projectId), getMilestones(projectId)]).then(([items, milestones]) => {
+      if (!cancelled) setState({ items, milestones, isLoading: false });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  const createItem = useCallback(async (input: Omit<SaveBacklogInput, 'project_id'>) => {
+    const item = await saveBacklogItem({ ...input, project_id: projectId });
+    if (item) {
+      setState((prev) => ({ ...prev, items: [item, ...prev.items] }));
+    }
+    return item;
+  }, [projectId]);
+
+  const createMilestone = useCallback(async (input: Omit<SaveMilestoneInput, 'project_id'>) => {
+    const milestone = await saveMilestone({ ...input, project_id: projectId });
+    if (milestone) {
+      setState((prev) => ({ ...prev, milestones: [...prev.milestones, milestone] }));
+    }
+    return milestone;
+  }, [projectId]);
+
+  // Przeniesienie karty - kolumna (status) i tor (kamień milowy), przywracane przy błędzie
+  const moveItem = useCallback(async (item: BacklogItem, status: BacklogStatus, milestoneId: string | null) => {
+    const previous = { status: item.status, milestone_id: item.milestone_id ?? null };
+    if (previous.status === status && previous.milestone_id === milestoneId) return true;
+
+    const update = (changes: Partial<BacklogItem>) => setState((prev) => ({
+      ...prev,
+      items: prev.items.map((i) => (i.id === item.id ? { ...i, ...changes } : i)),
+    }));
+
+    update({ status, milestone_id: milestoneId });
+    const ok = (previous.status === status || await updateBacklogStatus(item.id, status))
+      && (previous.milestone_id === milestoneId || await updateBacklogMilestone(item.id, milestoneId));
+    if (!ok) update(previous);
+    return ok;
+  }, []);
+
+  const setMilestoneStatus = useCallback(async (milestone: Milestone, status: MilestoneStatus) => {
+    const update = (changes: Partial<Milestone>) => setState((prev) => ({
+      ...prev,
+      milestones: prev.milestones.map((m) => (m.id === milestone.id ? { ...m, ...changes } : m)),
+    }));
+
+    update({ status });
+    const ok = await updateMilestoneStatus(milestone.id, status);
+    if (!ok) update({ status: milestone.status });
+    return ok;
+  }, []);
+
+  return { ...state, refresh, createItem, createMilestone, moveItem, setMilestoneStatus };
+}
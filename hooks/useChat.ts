@@ -5,16 +5,20 @@
  * Obsługuje SSE, historię wiadomości, ładowanie konwersacji
  */
 
-import { useState, useCallback, useRef } from 'react';
-import { getChatMessages, getConversations } from '@/lib/supabase';
-import { CHAT_API_ENDPOINTS } from '@/lib/constants';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import { getChatMessages, getConversations, saveUserFeedback, updateChatMessage, saveBacklogItem } from '@/lib/supabase';
+import { CHAT_API_ENDPOINTS, CHAT_FOCUS_MESSAGES_LIMIT } from '@/lib/constants';
 import type {
   ChatMessage,
   ChatMode,
   AISender,
   Conversation,
   ChatStreamEvent,
+  AIResponseMetadata,
+  FeedbackRating,
   UseChatReturn,
+  AIToolCallStep,
+  RepoRef,
 } from '@/lib/types';
 
 interface AdditionalFile {
@@ -22,22 +26,68 @@ interface AdditionalFile {
   content: string;
 }
 
+// AI piszące w danej chwili - klucz to ID streamowanej wiadomości
+interface TypingEntry {
+  id: string;
+  sender: AISender;
+}
+
 interface UseChatOptions {
   projectId?: string;
+  repo?: RepoRef | null;  // Połączone repo GitHub - AI czyta z niego pliki narzędziami
   onMessageReceived?: (message: ChatMessage) => void;
   onError?: (error: string) => void;
+  onWarning?: (warning: string) => void;  // Np. zbliżający się limit budżetu projektu
+  onAutoSaved?: (items: AIResponseMetadata['autoSaved']) => void;  // Nowe elementy w kolejce przeglądu
+}
+
+/**
+ * Czyta strumień SSE z odpowiedzi API i przekazuje kolejne zdarzenia
+ */
+async function readChatStream(response: Response, onEvent: (event: ChatStreamEvent) => void) {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Brak response body');
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Parsuj SSE events
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        let event: ChatStreamEvent;
+        try {
+          event = JSON.parse(line.slice(6));
+        } catch {
+          // Ignoruj błędy parsowania
+          continue;
+        }
+        onEvent(event);
+      }
+    }
+  }
 }
 
 export function useChat(options: UseChatOptions = {}): UseChatReturn {
-  const { projectId, onMessageReceived, onError } = options;
+  const { projectId, repo, onMessageReceived, onError, onWarning, onAutoSaved } = options;
 
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [currentlyTyping, setCurrentlyTyping] = useState<AISender | null>(null);
+  const [typingEntries, setTypingEntries] = useState<TypingEntry[]>([]);
   const [typingQueue, setTypingQueue] = useState<AISender[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // Wiadomość wskazana z wyszukiwania - panel chatu przewija do niej i ją wyróżnia
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
 
   // Nowe stany dla kontekstu projektu
   const [projectContext, setProjectContext] = useState<string | null>(null);
@@ -47,6 +97,12 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
   const eventSourceRef = useRef<EventSource | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Aktualne wiadomości dla callbacków, które nie powinny zmieniać się przy każdej delcie
+  const messagesRef = useRef<ChatMessage[]>([]);
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
   // Ładowanie listy konwersacji
   const loadConversations = useCallback(async () => {
     try {
@@ -57,13 +113,18 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     }
   }, [projectId]);
 
-  // Ładowanie konkretnej konwersacji
-  const loadConversation = useCallback(async (id: string) => {
+  // Ładowanie konkretnej konwersacji (opcjonalnie z przejściem do wiadomości)
+  const loadConversation = useCallback(async (id: string, focusMessageId?: string) => {
     try {
       setIsLoading(true);
-      const msgs = await getChatMessages(id);
+      let msgs = await getChatMessages(id);
+      // Wiadomość z wyszukiwania może być poza domyślnym limitem
+      if (focusMessageId && !msgs.some((m) => m.id === focusMessageId)) {
+        msgs = await getChatMessages(id, CHAT_FOCUS_MESSAGES_LIMIT);
+      }
       setMessages(msgs);
       setConversationId(id);
+      setFocusedMessageId(focusMessageId || null);
       setError(null);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Błąd ładowania rozmowy';
@@ -86,16 +147,231 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
 
     setMessages([]);
     setConversationId(null);
-    setCurrentlyTyping(null);
+    setFocusedMessageId(null);
+    setTypingEntries([]);
     setTypingQueue([]);
     setError(null);
   }, []);
 
+  // Zamknij niedokończone (streamowane) wiadomości - np. po błędzie lub przerwaniu
+  const finishStreamingMessages = useCallback(() => {
+    setMessages((prev) =>
+      prev.some((m) => m.isStreaming)
+        ? prev.map((m) => (m.isStreaming ? { ...m, isStreaming: false } : m))
+        : prev
+    );
+  }, []);
+
+  // Obsługa pojedynczego zdarzenia SSE (wspólna dla wysyłania i ponownego generowania)
+  const handleStreamEvent = useCallback((event: ChatStreamEvent) => {
+    switch (event.type) {
+      case 'conversation_id':
+        if (event.id) {
+          setConversationId(event.id);
+          // Aktualizuj tymczasową wiadomość
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.id.startsWith('temp-') ? { ...m, conversation_id: event.id! } : m
+            )
+          );
+        }
+        break;
+
+      case 'typing':
+        if (event.sender && event.sender !== 'user') {
+          const entry: TypingEntry = {
+            id: event.messageId || event.sender,
+            sender: event.sender as AISender,
+          };
+          // Przy krokach równoległych kilka AI pisze naraz
+          setTypingEntries((prev) => [...prev.filter((t) => t.id !== entry.id), entry]);
+          setTypingQueue(event.queue || []);
+        }
+        break;
+
+      case 'delta':
+        if (event.sender && event.messageId && event.content) {
+          const { sender, messageId, content: delta } = event;
+          setMessages((prev) => {
+            const existing = prev.find((m) => m.id === messageId);
+            if (!existing) {
+              return [
+                ...prev,
+                {
+                  id: messageId,
+                  conversation_id: conversationId || 'new',
+                  sender,
+                  content: delta,
+                  created_at: new Date().toISOString(),
+                  isStreaming: true,
+                },
+              ];
+            }
+            return prev.map((m) =>
+              m.id === messageId ? { ...m, content: m.content + delta } : m
+            );
+          });
+        }
+        break;
+
+      case 'message_reset':
+        // Provider ponawia próbę - odrzuć częściową treść i kroki narzędzi
+        if (event.messageId) {
+          const { messageId } = event;
+          setMessages((prev) =>
+            prev.map((m) => (m.id === messageId ? { ...m, content: '', metadata: { ...m.metadata, toolCalls: undefined } } : m))
+          );
+        }
+        break;
+
+      case 'tool_call':
+        // AI wywołało narzędzie plików - krok widoczny w wiadomości jeszcze przed treścią
+        if (event.sender && event.messageId && event.toolCall) {
+          const { sender, messageId, toolCall } = event;
+          const upsert = (steps: AIToolCallStep[] = []) =>
+            steps.some((s) => s.id === toolCall.id)
+              ? steps.map((s) => (s.id === toolCall.id ? toolCall : s))
+              : [...steps, toolCall];
+          setMessages((prev) => {
+            if (!prev.some((m) => m.id === messageId)) {
+              return [
+                ...prev,
+                {
+                  id: messageId,
+                  conversation_id: conversationId || 'new',
+                  sender,
+                  content: '',
+                  created_at: new Date().toISOString(),
+                  metadata: { toolCalls: [toolCall] },
+                  isStreaming: true,
+                },
+              ];
+            }
+            return prev.map((m) =>
+              m.id === messageId ? { ...m, metadata: { ...m.metadata, toolCalls: upsert(m.metadata?.toolCalls) } } : m
+            );
+          });
+        }
+        break;
+
+      case 'message_end':
+        if (event.sender && event.messageId && event.content !== undefined) {
+          const { messageId } = event;
+          const finalMessage: ChatMessage = {
+            // ID z bazy zastępuje tymczasowe ID streamu
+            id: event.id || messageId,
+            conversation_id: conversationId || 'new',
+            sender: event.sender,
+            content: event.content,
+            created_at: new Date().toISOString(),
+            metadata: event.messageMetadata,
+          };
+          // Podmień częściową treść na finalną (lub dodaj, jeśli nie było delt)
+          setMessages((prev) =>
+            prev.some((m) => m.id === messageId)
+              ? prev.map((m) =>
+                  m.id === messageId
+                    ? {
+                        ...m,
+                        id: finalMessage.id,
+                        content: finalMessage.content,
+                        metadata: event.messageMetadata ? { ...m.metadata, ...event.messageMetadata } : m.metadata,
+                        isStreaming: false,
+                      }
+                    : m
+                )
+              : [...prev, finalMessage]
+          );
+          onMessageReceived?.(finalMessage);
+          setTypingEntries((prev) => prev.filter((t) => t.id !== messageId));
+        }
+        break;
+
+      case 'message_metadata':
+        // Metadane dopisane po zapisie wiadomości (np. powiązana odpowiedź LLM)
+        if (event.messageId && event.messageMetadata) {
+          const { messageId, messageMetadata } = event;
+          setMessages((prev) =>
+            prev.map((m) => (m.id === messageId ? { ...m, metadata: { ...m.metadata, ...messageMetadata } } : m))
+          );
+        }
+        break;
+
+      case 'message':
+        if (event.sender && event.content) {
+          const newMessage: ChatMessage = {
+            id: `msg-${Date.now()}-${event.sender}`,
+            conversation_id: conversationId || 'new',
+            sender: event.sender,
+            content: event.content,
+            created_at: new Date().toISOString(),
+          };
+          setMessages((prev) => [...prev, newMessage]);
+          onMessageReceived?.(newMessage);
+          setTypingEntries((prev) => prev.filter((t) => t.sender !== newMessage.sender));
+        }
+        break;
+
+      case 'done': {
+        setTypingEntries([]);
+        setTypingQueue([]);
+        setIsLoading(false);
+        // Odśwież listę konwersacji
+        loadConversations();
+        // Nowe elementy pamięci projektu (bez odpowiedzi LLM, uwag z review i powiązanych duplikatów) czekają na przegląd
+        const autoSaved = (event.metadata?.autoSaved || []).filter(
+          (item) => item.type !== 'feedback' && item.action !== 'linked'
+        );
+        if (autoSaved.length > 0) {
+          onAutoSaved?.(autoSaved);
+        }
+        break;
+      }
+
+      case 'warning':
+        if (event.content) {
+          onWarning?.(event.content);
+        }
+        break;
+
+      case 'error':
+        const errorMsg = event.error || 'Nieznany błąd';
+        finishStreamingMessages();
+        setError(errorMsg);
+        onError?.(errorMsg);
+        setTypingEntries([]);
+        setTypingQueue([]);
+        setIsLoading(false);
+        break;
+    }
+  }, [conversationId, onMessageReceived, onError, onWarning, onAutoSaved, loadConversations, finishStreamingMessages]);
+
+  // Pełny kontekst projektu (struktura + dodatkowe pliki) wysyłany do API
+  const buildProjectContext = useCallback((): string | undefined => {
+    if (!projectContext && additionalFiles.length === 0) return undefined;
+
+    const contextParts: string[] = [];
+    if (projectContext) {
+      contextParts.push(projectContext);
+    }
+    if (additionalFiles.length > 0) {
+      contextParts.push('');
+      contextParts.push('DODATKOWE PLIKI:');
+      for (const file of additionalFiles) {
+        contextParts.push('');
+        contextParts.push(file.content);
+      }
+    }
+    return contextParts.join('\n');
+  }, [projectContext, additionalFiles]);
+
   // Wysyłanie wiadomości
-  const sendMessage = useCallback(async (content: string, mode: ChatMode) => {
+  // autoFixAttempts - tryb "do zielonego" (poprawki kodu po błędach z sandboxa)
+  const sendMessage = useCallback(async (content: string, mode: ChatMode, pipelineId?: string, autoFixAttempts?: number) => {
     try {
       setIsLoading(true);
       setError(null);
+      setFocusedMessageId(null);
 
       // Dodaj wiadomość użytkownika do UI natychmiast
       const userMessage: ChatMessage = {
@@ -110,24 +386,6 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
       // Utwórz abort controller
       abortControllerRef.current = new AbortController();
 
-      // Przygotuj pełny kontekst projektu
-      let fullProjectContext: string | undefined;
-      if (projectContext || additionalFiles.length > 0) {
-        const contextParts: string[] = [];
-        if (projectContext) {
-          contextParts.push(projectContext);
-        }
-        if (additionalFiles.length > 0) {
-          contextParts.push('');
-          contextParts.push('DODATKOWE PLIKI:');
-          for (const file of additionalFiles) {
-            contextParts.push('');
-            contextParts.push(file.content);
-          }
-        }
-        fullProjectContext = contextParts.join('\n');
-      }
-
       // Wyślij request do API
       const response = await fetch(CHAT_API_ENDPOINTS.CHAT, {
         method: 'POST',
@@ -136,111 +394,24 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
           conversation_id: conversationId,
           message: content,
           mode,
+          pipeline_id: pipelineId,
           project_id: projectId,
-          projectContext: fullProjectContext,
+          projectContext: buildProjectContext(),
+          repo: repo || undefined,
+          autoFixAttempts,
         }),
         signal: abortControllerRef.current.signal,
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error: ${response.status}`);
+        // Np. 402 - przekroczony budżet projektu
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `HTTP error: ${response.status}`);
       }
 
-      // Obsługa SSE
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('Brak response body');
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      // Określ kolejkę typowania na podstawie mode
-      const getTypingQueue = (mode: ChatMode, current: AISender): AISender[] => {
-        const queues: Record<ChatMode, AISender[]> = {
-          solo: [],
-          duo: current === 'claude' ? ['gpt', 'claude'] : ['claude'],
-          team: current === 'claude'
-            ? ['gpt', 'gemini', 'claude']
-            : current === 'gpt'
-              ? ['gemini', 'claude']
-              : ['claude'],
-        };
-        return queues[mode].filter((a) => a !== current);
-      };
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        // Parsuj SSE events
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const event: ChatStreamEvent = JSON.parse(line.slice(6));
-
-              switch (event.type) {
-                case 'conversation_id':
-                  if (event.id) {
-                    setConversationId(event.id);
-                    // Aktualizuj tymczasową wiadomość
-                    setMessages((prev) =>
-                      prev.map((m) =>
-                        m.id.startsWith('temp-') ? { ...m, conversation_id: event.id! } : m
-                      )
-                    );
-                  }
-                  break;
-
-                case 'typing':
-                  if (event.sender && event.sender !== 'user') {
-                    setCurrentlyTyping(event.sender as AISender);
-                    setTypingQueue(getTypingQueue(mode, event.sender as AISender));
-                  }
-                  break;
-
-                case 'message':
-                  if (event.sender && event.content) {
-                    const newMessage: ChatMessage = {
-                      id: `msg-${Date.now()}-${event.sender}`,
-                      conversation_id: conversationId || 'new',
-                      sender: event.sender,
-                      content: event.content,
-                      created_at: new Date().toISOString(),
-                    };
-                    setMessages((prev) => [...prev, newMessage]);
-                    onMessageReceived?.(newMessage);
-                    setCurrentlyTyping(null);
-                  }
-                  break;
-
-                case 'done':
-                  setCurrentlyTyping(null);
-                  setTypingQueue([]);
-                  setIsLoading(false);
-                  // Odśwież listę konwersacji
-                  loadConversations();
-                  break;
-
-                case 'error':
-                  const errorMsg = event.error || 'Nieznany błąd';
-                  setError(errorMsg);
-                  onError?.(errorMsg);
-                  setCurrentlyTyping(null);
-                  setTypingQueue([]);
-                  setIsLoading(false);
-                  break;
-              }
-            } catch {
-              // Ignoruj błędy parsowania
-            }
-          }
-        }
-      }
+      await readChatStream(response, handleStreamEvent);
     } catch (err) {
+      finishStreamingMessages();
       if (err instanceof Error && err.name === 'AbortError') {
         // Anulowano - ignoruj
         return;
@@ -248,12 +419,132 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
       const errorMsg = err instanceof Error ? err.message : 'Błąd wysyłania wiadomości';
       setError(errorMsg);
       onError?.(errorMsg);
-      setCurrentlyTyping(null);
+      setTypingEntries([]);
       setTypingQueue([]);
     } finally {
       setIsLoading(false);
     }
-  }, [conversationId, projectId, projectContext, additionalFiles, onMessageReceived, onError, loadConversations]);
+  }, [conversationId, projectId, repo, buildProjectContext, handleStreamEvent, onError, finishStreamingMessages]);
+
+  // Ponowne wygenerowanie jednej odpowiedzi AI (ten sam krok pipeline, te same wejścia)
+  const regenerateMessage = useCallback(async (messageId: string, replace = false) => {
+    const original = messagesRef.current.find((m) => m.id === messageId);
+    if (!original || original.sender === 'user') return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      // Wyczyść treść pod nowe delty - poprzednia trafia do wersji (chyba że nadpisujemy)
+      const versions = replace
+        ? original.metadata?.versions
+        : [...(original.metadata?.versions || []), { content: original.content, replaced_at: new Date().toISOString() }];
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId
+            ? { ...m, content: '', isStreaming: true, metadata: { ...m.metadata, versions, rating: undefined, backlogProposals: undefined, toolCalls: undefined } }
+            : m
+        )
+      );
+
+      abortControllerRef.current = new AbortController();
+
+      const response = await fetch(CHAT_API_ENDPOINTS.REGENERATE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          message_id: messageId,
+          replace,
+          projectContext: buildProjectContext(),
+          repo: repo || undefined,
+        }),
+        signal: abortControllerRef.current.signal,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `HTTP error: ${response.status}`);
+      }
+
+      let completed = false;
+      await readChatStream(response, (event) => {
+        if (event.type === 'message_end') completed = true;
+        handleStreamEvent(event);
+      });
+
+      // Serwer zgłosił błąd zamiast nowej treści - przywróć poprzednią
+      if (!completed) {
+        setMessages((prev) => prev.map((m) => (m.id === messageId ? original : m)));
+      }
+    } catch (err) {
+      // Przywróć poprzednią treść - nowa odpowiedź nie powstała
+      setMessages((prev) => prev.map((m) => (m.id === messageId ? original : m)));
+      if (err instanceof Error && err.name === 'AbortError') {
+        return;
+      }
+      const errorMsg = err instanceof Error ? err.message : 'Błąd ponownego generowania';
+      setError(errorMsg);
+      onError?.(errorMsg);
+      setTypingEntries([]);
+      setTypingQueue([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [repo, buildProjectContext, handleStreamEvent, onError]);
+
+  // Ocena odpowiedzi AI - wpis w user_feedback i kopia w metadanych wiadomości
+  const rateMessage = useCallback(async (messageId: string, rating: FeedbackRating) => {
+    const message = messagesRef.current.find((m) => m.id === messageId);
+    const llmResponseId = message?.metadata?.llmResponseId;
+    if (!message || !llmResponseId) return false;
+
+    const metadata = { ...message.metadata, rating };
+    setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, metadata } : m)));
+
+    const feedback = await saveUserFeedback({ llm_response_id: llmResponseId, rating });
+    if (!feedback) {
+      setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, metadata: message.metadata } : m)));
+      return false;
+    }
+    await updateChatMessage(messageId, { metadata }).catch(() => null);
+    return true;
+  }, []);
+
+  // Propozycja AI → element backlogu projektu (oznaczona w metadanych wiadomości jako dodana)
+  const addBacklogProposal = useCallback(async (messageId: string, index: number) => {
+    const message = messagesRef.current.find((m) => m.id === messageId);
+    const proposal = message?.metadata?.backlogProposals?.[index];
+    if (!message || !proposal || proposal.backlogItemId || !projectId) return null;
+
+    const item = await saveBacklogItem({
+      project_id: projectId,
+      title: proposal.title,
+      description: proposal.description,
+      priority: proposal.priority,
+      conversation_id: conversationId || undefined,
+    });
+    if (!item) return null;
+
+    const backlogProposals = message.metadata?.backlogProposals?.map((p, i) =>
+      i === index ? { ...p, backlogItemId: item.id } : p
+    );
+    const metadata = { ...message.metadata, backlogProposals };
+    setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, metadata } : m)));
+    await updateChatMessage(messageId, { metadata }).catch(() => null);
+    return item;
+  }, [projectId, conversationId]);
+
+  // Zatrzymaj odpowiedź zespołu - przerwanie fetch zamyka SSE, serwer pomija pozostałe kroki
+  const stopGeneration = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+    }
+    finishStreamingMessages();
+    setTypingEntries([]);
+    setTypingQueue([]);
+    setIsLoading(false);
+  }, [finishStreamingMessages]);
 
   // Metody do zarządzania kontekstem projektu
   const updateProjectContext = useCallback((context: string | null) => {
@@ -279,15 +570,22 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
     setAdditionalFiles([]);
   }, []);
 
+  const currentlyTyping = useMemo(() => typingEntries.map((t) => t.sender), [typingEntries]);
+
   return {
     messages,
     sendMessage,
+    stopGeneration,
+    regenerateMessage,
+    rateMessage,
+    addBacklogProposal,
     isLoading,
     currentlyTyping,
     typingQueue,
     startNewConversation,
     loadConversation,
     conversationId,
+    focusedMessageId,
     error,
     conversations,
     loadConversations,
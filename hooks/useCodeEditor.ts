@@ -7,7 +7,7 @@
 
 import { useState, useCallback, useMemo } from 'react';
 import { detectLanguage } from '@/lib/constants';
-import type { EditorFile, UseCodeEditorReturn } from '@/lib/types';
+import type { AppliedFileChange, EditorFile, UseCodeEditorReturn } from '@/lib/types';
 
 // Generuje unikalne ID
 function generateId(): string {
@@ -141,6 +141,32 @@ export function useCodeEditor(): UseCodeEditorReturn {
     setActiveFileId(id);
   }, [activeFile, files, updateFileContent]);
 
+  // Zastosuj zaakceptowane zmiany z przeglądu diff (ścieżka = nazwa pliku, null - usunięcie)
+  const applyFileChanges = useCallback((changes: AppliedFileChange[]) => {
+    const created = changes
+      .filter((change) => change.content !== null && !files.some((f) => f.name === change.path))
+      .map((change): EditorFile => ({
+        id: generateId(),
+        name: change.path,
+        language: detectLanguage(change.content || '', change.path),
+        content: change.content || '',
+        isDirty: true,
+      }));
+
+    const remaining = files
+      .filter((f) => !changes.some((change) => change.path === f.name && change.content === null))
+      .map((f) => {
+        const change = changes.find((c) => c.path === f.name);
+        return change?.content != null ? { ...f, content: change.content, isDirty: true } : f;
+      });
+    const nextFiles = [...remaining, ...created];
+
+    setFiles(nextFiles);
+    // Aktywny pierwszy zmieniony plik (albo dowolny, gdy aktywny został usunięty)
+    const firstChanged = nextFiles.find((f) => changes.some((change) => change.path === f.name));
+    setActiveFileId(firstChanged?.id || (nextFiles.some((f) => f.id === activeFileId) ? activeFileId : nextFiles[0]?.id || null));
+  }, [files, activeFileId]);
+
   // Oznacz plik jako zapisany
   const markFileSaved = useCallback((id: string) => {
     setFiles((prev) =>
@@ -166,6 +192,7 @@ export function useCodeEditor(): UseCodeEditorReturn {
     closeFile,
     hasUnsavedChanges,
     insertCode,
+    applyFileChanges,
     markFileSaved,
     markAllSaved,
   } as UseCodeEditorReturn & {
@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * useDuplicates - hook do wyszukiwania i scalania duplikatów pamięci projektu
+ * Grupuje podobne decyzje, bugi, zasady i tech stack (oczekujące i zaakceptowane)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getMemoryRecords, mergeMemoryRecords } from '@/lib/supabase';
+import { groupDuplicates, mergeRecordFields, mergeReviewStatus } from '@/lib/dedup';
+import { requestMemoryIndex } from '@/lib/memoryIndex';
+import type { DedupItemType, DuplicateGroup } from '@/lib/types';
+
+const DEDUP_TYPES: DedupItemType[] = ['decision', 'bug', 'rule', 'tech'];
+
+interface DuplicatesState {
+  groups: DuplicateGroup[];
+  isLoading: boolean;
+}
+
+/**
+ * Pobiera rekordy projektu i grupuje duplikaty (bez ustawiania stanu - wynik trafia do efektu)
+ */
+async function fetchDuplicateGroups(projectId: string): Promise<DuplicateGroup[]> {
+  const groups = await Promise.all(DEDUP_TYPES.map(async (type) => {
+    const records = await getMemoryRecords(type, projectId, ['pending', 'accepted']);
+    return groupDuplicates(type, records).map((group) => ({ type, records: group }) as DuplicateGroup);
+  }));
+  return groups.flat();
+}
+
+export function useDuplicates(projectId?: string) {
+  const [state, setState] = useState<DuplicatesState>({ groups: [], isLoading: true });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+
+    fetchDuplicateGroups(projectId).then((groups) => {
+      if (!cancelled) setState({ groups, isLoading: false });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  // Scala grupę w wybrany rekord - pozostałe są usuwane
+  const merge = useCallback(async (group: DuplicateGroup, targetId: string) => {
+    const records = group.records as DuplicateGroup['records'][number][];
+    const target = records.find((record) => record.id === targetId);
+    if (!target) return false;
+
+    const duplicates = records.filter((record) => record.id !== targetId);
+    const ok = await mergeMemoryRecords(group.type, targetId, {
+      ...mergeRecordFields(group.type, target, duplicates),
+      review_status: mergeReviewStatus(records),
+    }, duplicates.map((record) => record.id));
+
+    if (ok) {
+      setState((prev) => ({ ...prev, groups: prev.groups.filter((g) => g !== group) }));
+      requestMemoryIndex(group.type, targetId);
+    }
+    return ok;
+  }, []);
+
+  return { ...state, isLoading: projectId ? state.isLoading : false, refresh, merge };
+}
@@ -0,0 +1,65 @@
+'use client';
+
+/**
+ * useFileEditBases - aktualna treść plików, których dotyczą zmiany zaproponowane przez AI
+ * Najpierw plik otwarty w edytorze, potem połączone repo GitHub; brak w obu - null (nowy plik)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { EditorFile, FileEdit } from '@/lib/types';
+
+export type FileEditBaseSource = 'editor' | 'github' | null;
+
+export interface FileEditBase {
+  content: string | null;
+  source: FileEditBaseSource;
+}
+
+interface FileEditBasesState {
+  bases: Record<string, FileEditBase>;
+  isLoading: boolean;
+}
+
+/**
+ * Treść pliku z GitHub przez /api/github (null, gdy pliku nie ma w repo)
+ */
+async function fetchGitHubContent(repoUrl: string, path: string): Promise<string | null> {
+  try {
+    const response = await fetch(
+      `/api/github?repoUrl=${encodeURIComponent(repoUrl)}&action=file&path=${encodeURIComponent(path)}`
+    );
+    const data = await response.json();
+    return response.ok && data.success ? data.content : null;
+  } catch {
+    return null;
+  }
+}
+
+export function useFileEditBases(edits: FileEdit[], files: EditorFile[], repoUrl?: string | null) {
+  const [state, setState] = useState<FileEditBasesState>({ bases: {}, isLoading: true });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      edits.map(async (edit): Promise<[string, FileEditBase]> => {
+        const open = files.find((f) => f.name === edit.path);
+        if (open) return [edit.path, { content: open.content, source: 'editor' }];
+
+        const content = repoUrl ? await fetchGitHubContent(repoUrl, edit.path) : null;
+        return [edit.path, { content, source: content === null ? null : 'github' }];
+      })
+    ).then((entries) => {
+      if (!cancelled) setState({ bases: Object.fromEntries(entries), isLoading: false });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [edits, files, repoUrl, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { ...state, refresh };
+}
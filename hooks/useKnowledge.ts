@@ -0,0 +1,151 @@
+'use client';
+
+/**
+ * useKnowledge - hook do bazy wiedzy projektu
+ * Decyzje, bugi, zasady, style guide, backlog, dokumentacja i kamienie milowe - odczyt, dodawanie, edycja, usuwanie
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getMemoryRecords,
+  getStyleGuide,
+  getBacklog,
+  getDocs,
+  getMilestones,
+  saveDecision,
+  saveBugHistory,
+  saveProjectRule,
+  saveStyleGuide,
+  saveBacklogItem,
+  saveDoc,
+  saveMilestone,
+  updateKnowledgeRecord,
+  deleteKnowledgeRecord,
+  updateProject,
+} from '@/lib/supabase';
+import { requestMemoryIndex } from '@/lib/memoryIndex';
+import type {
+  KnowledgeRecords,
+  KnowledgeType,
+  Project,
+  SaveDecisionInput,
+  SaveBugInput,
+  SaveProjectRuleInput,
+  SaveStyleGuideInput,
+  SaveBacklogInput,
+  SaveDocInput,
+  SaveMilestoneInput,
+} from '@/lib/types';
+
+type KnowledgeRecord = KnowledgeRecords[KnowledgeType];
+
+interface KnowledgeState {
+  records: KnowledgeRecord[];
+  isLoading: boolean;
+}
+
+/**
+ * Pobiera rekordy danego rodzaju (pamięć projektu - tylko zaakceptowane, także nieaktywne zasady)
+ */
+async function fetchKnowledge(type: KnowledgeType, projectId: string): Promise<KnowledgeRecord[]> {
+  switch (type) {
+    case 'decision':
+    case 'bug':
+    case 'rule':
+      return (await getMemoryRecords(type, projectId, ['accepted'])).reverse();
+    case 'style':
+      return getStyleGuide(projectId);
+    case 'backlog':
+      return getBacklog(projectId);
+    case 'doc':
+      return getDocs(projectId);
+    case 'milestone':
+      return getMilestones(projectId);
+  }
+}
+
+/**
+ * Dodaje rekord przez funkcję zapisu danej tabeli (domyślne statusy i pola jak przy auto-save)
+ */
+function createKnowledge(type: KnowledgeType, input: Record<string, unknown>): Promise<KnowledgeRecord | null> {
+  switch (type) {
+    case 'decision':
+      return saveDecision(input as unknown as SaveDecisionInput);
+    case 'bug':
+      return saveBugHistory(input as unknown as SaveBugInput);
+    case 'rule':
+      return saveProjectRule(input as unknown as SaveProjectRuleInput);
+    case 'style':
+      return saveStyleGuide(input as unknown as SaveStyleGuideInput);
+    case 'backlog':
+      return saveBacklogItem(input as unknown as SaveBacklogInput);
+    case 'doc':
+      return saveDoc(input as unknown as SaveDocInput);
+    case 'milestone':
+      return saveMilestone(input as unknown as SaveMilestoneInput);
+  }
+}
+
+export function useKnowledge(type: KnowledgeType, projectId?: string) {
+  const [state, setState] = useState<KnowledgeState>({ records: [], isLoading: true });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+
+    fetchKnowledge(type, projectId).then((records) => {
+      if (!cancelled) setState({ records, isLoading: false });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [type, projectId, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  const create = useCallback(async (values: Record<string, unknown>) => {
+    if (!projectId) return null;
+
+    const record = await createKnowledge(type, { ...values, project_id: projectId });
+    if (record) {
+      setState((prev) => ({ ...prev, records: [record, ...prev.records] }));
+      requestMemoryIndex(type, record.id);
+    }
+    return record;
+  }, [type, projectId]);
+
+  const update = useCallback(async (id: string, changes: Record<string, unknown>) => {
+    const record = await updateKnowledgeRecord(type, id, changes as Partial<KnowledgeRecord>);
+    if (record) {
+      setState((prev) => ({ ...prev, records: prev.records.map((r) => (r.id === id ? record : r)) }));
+      requestMemoryIndex(type, id);
+    }
+    return record;
+  }, [type]);
+
+  const remove = useCallback(async (id: string) => {
+    const ok = await deleteKnowledgeRecord(type, id);
+    if (ok) {
+      setState((prev) => ({ ...prev, records: prev.records.filter((r) => r.id !== id) }));
+    }
+    return ok;
+  }, [type]);
+
+  return { ...state, refresh, create, update, remove };
+}
+
+/**
+ * Ustawienia wiedzy projektu w promptach AI (włączenie i limit tokenów, null = domyślny)
+ */
+export function useKnowledgePromptSettings(project: Project) {
+  const save = useCallback(async (enabled: boolean, budgetTokens: number | null) => {
+    return updateProject(project.id, {
+      knowledge_in_prompt: enabled,
+      knowledge_budget_tokens: budgetTokens,
+    });
+  }, [project.id]);
+
+  return { save };
+}
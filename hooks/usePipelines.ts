@@ -0,0 +1,34 @@
+'use client';
+
+/**
+ * usePipelines - hook do pobierania własnych pipeline'ów zespołu AI
+ * Zwraca pipeline'y projektu i globalne (project_id = null)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getPipelines } from '@/lib/supabase';
+import type { Pipeline } from '@/lib/types';
+
+export function usePipelines(projectId?: string) {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+
+  // Ręczne odświeżenie (np. po zmianie definicji w bazie)
+  const refresh = useCallback(async () => {
+    setPipelines(await getPipelines(projectId));
+  }, [projectId]);
+
+  // Pobierz przy zmianie projektu
+  useEffect(() => {
+    let cancelled = false;
+
+    getPipelines(projectId).then((data) => {
+      if (!cancelled) setPipelines(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  return { pipelines, refresh };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+/**
+ * usePrompts - hook do biblioteki promptów
+ * Zaakceptowane prompty projektu i wspólne, dodawanie i licznik użyć
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getPrompts, savePrompt, incrementPromptUseCount } from '@/lib/supabase';
+import type { Prompt, SavePromptInput } from '@/lib/types';
+
+interface PromptsState {
+  prompts: Prompt[];
+  isLoading: boolean;
+}
+
+export function usePrompts(projectId?: string) {
+  const [state, setState] = useState<PromptsState>({ prompts: [], isLoading: true });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getPrompts(undefined, projectId).then((prompts) => {
+      if (!cancelled) setState({ prompts, isLoading: false });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, version]);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  // Nowy prompt dodany ręcznie - od razu zaakceptowany
+  const create = useCallback(async (input: Omit<SavePromptInput, 'project_id'>) => {
+    const prompt = await savePrompt({ ...input, project_id: projectId });
+    if (prompt) {
+      setState((prev) => ({ ...prev, prompts: [prompt, ...prev.prompts] }));
+    }
+    return prompt;
+  }, [projectId]);
+
+  // Użycie promptu (wstawienie do czatu albo skopiowanie)
+  const markUsed = useCallback(async (prompt: Prompt) => {
+    setState((prev) => ({
+      ...prev,
+      prompts: prev.prompts.map((p) => (p.id === prompt.id ? { ...p, use_count: (p.use_count || 0) + 1 } : p)),
+    }));
+    await incrementPromptUseCount(prompt.id);
+  }, []);
+
+  return { ...state, refresh, create, markUsed };
+}
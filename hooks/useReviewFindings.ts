@@ -0,0 +1,64 @@
+'use client';
+
+/**
+ * useReviewFindings - uwagi z code review w bieżącej rozmowie
+ * Pogrupowane po wiadomości recenzenta, z ręcznym oznaczaniem uwzględnionych
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getConversationReviewFeedback, setReviewFeedbackApplied } from '@/lib/supabase';
+import type { ReviewFeedback } from '@/lib/types';
+
+interface FindingsState {
+  conversationId: string | null;  // Rozmowa, której dotyczą uwagi
+  findings: ReviewFeedback[];
+}
+
+/**
+ * paused - nie pobieraj w trakcie odpowiedzi zespołu (uwagi i raport architekta jeszcze się zapisują)
+ */
+export function useReviewFindings(conversationId: string | null, paused = false) {
+  const [state, setState] = useState<FindingsState>({ conversationId: null, findings: [] });
+
+  useEffect(() => {
+    if (!conversationId || paused) return;
+    let cancelled = false;
+
+    getConversationReviewFeedback(conversationId).then((findings) => {
+      if (!cancelled) setState({ conversationId, findings });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, paused]);
+
+  const byMessage = useMemo(() => {
+    const grouped: Record<string, ReviewFeedback[]> = {};
+    // Uwagi poprzedniej rozmowy nie pasują do bieżącej
+    if (state.conversationId !== conversationId) return grouped;
+
+    for (const finding of state.findings) {
+      if (finding.message_id) {
+        (grouped[finding.message_id] ||= []).push(finding);
+      }
+    }
+    return grouped;
+  }, [state, conversationId]);
+
+  // Ręczne oznaczenie uwagi (np. gdy użytkownik sam wprowadził poprawkę)
+  const toggle = useCallback(async (finding: ReviewFeedback) => {
+    const wasApplied = !finding.was_applied;
+    const update = (value: boolean) => setState((prev) => ({
+      ...prev,
+      findings: prev.findings.map((f) => (f.id === finding.id ? { ...f, was_applied: value } : f)),
+    }));
+
+    update(wasApplied);
+    const ok = await setReviewFeedbackApplied([finding.id], wasApplied);
+    if (!ok) update(!wasApplied);
+    return ok;
+  }, []);
+
+  return { byMessage, toggle };
+}
@@ -0,0 +1,59 @@
+'use client';
+
+/**
+ * useReviewQueue - hook do kolejki przeglądu elementów z auto-save
+ * Decyzje, bugi, prompty, zasady i tech stack czekają na akceptację, zanim trafią do kontekstu AI
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getPendingReviewItems, reviewItem } from '@/lib/supabase';
+import { requestMemoryIndex } from '@/lib/memoryIndex';
+import type { ReviewItem, ReviewItemRecords } from '@/lib/types';
+
+interface ReviewQueueState {
+  items: ReviewItem[];
+  isLoading: boolean;
+}
+
+export function useReviewQueue(projectId?: string) {
+  const [state, setState] = useState<ReviewQueueState>({ items: [], isLoading: true });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getPendingReviewItems(projectId).then((items) => {
+      if (!cancelled) setState({ items, isLoading: false });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, version]);
+
+  // Ręczne odświeżenie (np. po auto-save w odpowiedzi AI)
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  const removeItem = useCallback((item: ReviewItem) => {
+    setState((prev) => ({ ...prev, items: prev.items.filter((i) => i.record.id !== item.record.id) }));
+  }, []);
+
+  // Akceptacja - opcjonalnie z poprawionymi polami
+  const accept = useCallback(async (item: ReviewItem, changes: Partial<ReviewItemRecords[typeof item.type]> = {}) => {
+    const ok = await reviewItem(item.type, item.record.id, 'accepted', changes);
+    if (ok) {
+      removeItem(item);
+      // Zaakceptowany element trafia do pamięci semantycznej
+      requestMemoryIndex(item.type, item.record.id);
+    }
+    return ok;
+  }, [removeItem]);
+
+  const reject = useCallback(async (item: ReviewItem) => {
+    const ok = await reviewItem(item.type, item.record.id, 'rejected');
+    if (ok) removeItem(item);
+    return ok;
+  }, [removeItem]);
+
+  return { ...state, refresh, accept, reject };
+}
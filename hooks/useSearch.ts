@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * useSearch - hook do wyszukiwania globalnego (GET /api/search)
+ * Zapytanie wysyłane z opóźnieniem podczas pisania, poprzednie żądanie jest przerywane
+ */
+
+import { useState, useEffect } from 'react';
+import { CHAT_API_ENDPOINTS, SEARCH_DEBOUNCE_MS } from '@/lib/constants';
+import { parseSearchTerms } from '@/lib/search';
+import type { SearchFilters, SearchResult } from '@/lib/types';
+
+interface SearchState {
+  params: string;  // Zapytanie, którego dotyczą wyniki
+  results: SearchResult[];
+  error: string | null;
+}
+
+/**
+ * Parametry URL zapytania (pusty string - nie ma czego szukać)
+ */
+function buildSearchParams(filters: SearchFilters): string {
+  if (parseSearchTerms(filters.query).length === 0) return '';
+
+  const params = new URLSearchParams({ q: filters.query });
+  if (filters.projectId) params.set('project_id', filters.projectId);
+  if (filters.sender) params.set('sender', filters.sender);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.sources?.length) params.set('sources', filters.sources.join(','));
+  return params.toString();
+}
+
+export function useSearch(filters: SearchFilters) {
+  const [state, setState] = useState<SearchState>({ params: '', results: [], error: null });
+  const params = buildSearchParams(filters);
+
+  useEffect(() => {
+    if (!params) return;
+    const controller = new AbortController();
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`${CHAT_API_ENDPOINTS.SEARCH}?${params}`, { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error(`HTTP error: ${response.status}`);
+        }
+
+        const data: { results: SearchResult[] } = await response.json();
+        setState({ params, results: data.results, error: null });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Błąd wyszukiwania:', err);
+        setState({ params, results: [], error: 'Nie udało się wyszukać' });
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [params]);
+
+  // Wyniki poprzedniego zapytania nie pasują do bieżącego - traktujemy je jako ładowanie
+  const isCurrent = state.params === params;
+  return {
+    results: params && isCurrent ? state.results : [],
+    isLoading: !!params && !isCurrent,
+    error: isCurrent ? state.error : null,
+  };
+}
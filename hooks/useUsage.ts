@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * useUsage - hook do pobierania zużycia tokenów i kosztów AI
+ * Zakres: rozmowa, projekt albo wszystko z ostatnich N dni + oceny odpowiedzi i stan miesięcznego budżetu projektu
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getLLMUsage, getRatedResponses, getConversations, updateProject } from '@/lib/supabase';
+import { summarizeUsage, summarizeRatings, getBudgetStatus, getMonthStart } from '@/lib/usage';
+import type { BudgetAction, Project, ProjectBudgetStatus, RatingSummary, UsageSummary } from '@/lib/types';
+
+interface UseUsageOptions {
+  project?: Project;
+  conversationId?: string;
+  days: number;
+}
+
+interface UsageState {
+  summary: UsageSummary | null;
+  ratings: RatingSummary | null;
+  budget: ProjectBudgetStatus | null;
+  isLoading: boolean;
+}
+
+/**
+ * Pobiera zużycie i stan budżetu (bez ustawiania stanu - wynik trafia do efektu)
+ */
+async function fetchUsage({ project, conversationId, days }: UseUsageOptions) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const [rows, rated, conversations, monthRows] = await Promise.all([
+    getLLMUsage({ projectId: project?.id, conversationId, since }),
+    getRatedResponses({ projectId: project?.id, conversationId, since }),
+    getConversations(project?.id).catch(() => []),
+    project?.monthly_budget_usd
+      ? getLLMUsage({ projectId: project.id, since: getMonthStart() })
+      : Promise.resolve([]),
+  ]);
+
+  const titles = Object.fromEntries(conversations.map((c) => [c.id, c.title]));
+  const monthSpent = monthRows.reduce((sum, row) => sum + (row.cost_usd || 0), 0);
+
+  return {
+    summary: summarizeUsage(rows, titles),
+    ratings: summarizeRatings(rated),
+    budget: project ? getBudgetStatus(project, monthSpent) : null,
+  };
+}
+
+export function useUsage({ project, conversationId, days }: UseUsageOptions) {
+  const [state, setState] = useState<UsageState>({ summary: null, ratings: null, budget: null, isLoading: true });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchUsage({ project, conversationId, days }).then((result) => {
+      if (!cancelled) setState({ ...result, isLoading: false });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [project, conversationId, days, version]);
+
+  // Ręczne odświeżenie (np. po nowej odpowiedzi AI)
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  // Zapis miesięcznego budżetu projektu (null = bez limitu)
+  const saveBudget = useCallback(async (budgetUsd: number | null, action: BudgetAction) => {
+    if (!project) return null;
+
+    const updated = await updateProject(project.id, {
+      monthly_budget_usd: budgetUsd,
+      budget_action: action,
+    });
+    return updated;
+  }, [project]);
+
+  return { ...state, refresh, saveBudget };
+}
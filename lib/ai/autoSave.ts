@@ -0,0 +1,448 @@
+/**
+ * Auto-save - zapis decyzji, bugów, promptów, zasad i tech stacku z odpowiedzi AI
+ * Źródłem jest blok pamięci (sidecar JSON) z odpowiedzi; wzorce słów kluczowych tylko opcjonalnie
+ * Zapisuje odpowiedź LLM i elementy do tabel projektu - jako pending, do przeglądu przez użytkownika
+ * Duplikaty istniejących rekordów są łączone z nimi zamiast wstawiane ponownie (dedup.ts)
+ * Uwagi recenzentów z tagami ([BUG], [UX]...) trafiają do review_feedback (reviewFeedback.ts)
+ */
+
+import {
+  saveLLMResponse,
+  saveDecision,
+  saveBugHistory,
+  savePrompt,
+  saveProjectRule,
+  saveTechStack,
+} from '../supabase';
+import { calculateCost } from './pricing';
+import { saveDeduplicated } from './dedup';
+import { saveReviewFindings } from './reviewFeedback';
+import type {
+  LLMSource,
+  AutoSaveAction,
+  MemorySidecar,
+  ReviewSource,
+  AutoSavePatternType,
+  AIResponseMetadata,
+  LLMTarget,
+  RuleCategory,
+  TechCategory,
+} from '../types';
+
+// ============================================
+// WZORCE AUTO-SAVE (heurystyka opcjonalna - AUTO_SAVE_HEURISTICS=true)
+// ============================================
+
+const AUTO_SAVE_PATTERNS: Record<AutoSavePatternType, RegExp> = {
+  decision: /(?:zdecydowałem|decyzja|wybieramy|lepszym rozwiązaniem|postanowiłem|wybieram|decyduję|będziemy używać|rekomenduj[eę]|zalecam)/i,
+  bug: /(?:bug|błąd|fix|naprawiłem|problem był|rozwiązanie|naprawiono|error|issue|poprawka|debugowanie)/i,
+  prompt: /(?:prompt dla|wklej do claude|użyj tego promptu|skopiuj ten prompt|prompt:)/i,
+  rule: /(?:zawsze używaj|nigdy nie|preferuj[eę]|zasada|reguła|konwencja|standard|wymóg)/i,
+  tech: /(?:używam|stack|framework|biblioteka|technologia|język programowania|baza danych)/i,
+  feedback: /(?:\[BUG\]|\[OPTYMALIZACJA\]|\[EDGE CASE\]|\[BEST PRACTICE\]|\[UI\]|\[UX\]|\[A11Y\])/i,
+};
+
+// ============================================
+// FUNKCJE WYKRYWANIA AUTO-SAVE
+// ============================================
+
+/**
+ * Wykrywa wzorce w odpowiedzi AI i zwraca listę wykrytych typów
+ */
+function detectAutoSavePatterns(content: string): AutoSavePatternType[] {
+  const detected: AutoSavePatternType[] = [];
+
+  for (const [type, pattern] of Object.entries(AUTO_SAVE_PATTERNS)) {
+    if (pattern.test(content)) {
+      detected.push(type as AutoSavePatternType);
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Wyciąga tytuł decyzji z treści
+ */
+function extractDecisionTitle(content: string): string {
+  // Szukaj zdania z decyzją
+  const patterns = [
+    /(?:zdecydowałem|wybieram|decyduję)\s+(?:się\s+)?(?:na|że|aby)?\s*(.{10,100})/i,
+    /(?:lepszym rozwiązaniem|rekomenduj[eę]|zalecam)\s+(?:jest|będzie)?\s*(.{10,100})/i,
+    /(?:będziemy używać|używamy)\s+(.{5,50})/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = content.match(pattern);
+    if (match) {
+      return match[1].split(/[.!?\n]/)[0].trim().slice(0, 100);
+    }
+  }
+
+  return 'Decyzja architektoniczna';
+}
+
+/**
+ * Wyciąga informacje o bugu
+ */
+function extractBugInfo(content: string): { description: string; solution: string } {
+  const bugMatch = content.match(/(?:bug|błąd|problem)[\s:]+(.{10,200})/i);
+  const fixMatch = content.match(/(?:fix|napraw|rozwiązan|poprawk)[\s:]+(.{10,300})/i);
+
+  return {
+    description: bugMatch ? bugMatch[1].split(/[.!?\n]/)[0].trim() : 'Bug znaleziony przez AI',
+    solution: fixMatch ? fixMatch[1].split(/\n\n/)[0].trim() : content.slice(0, 500),
+  };
+}
+
+/**
+ * Wyciąga prompt z treści
+ */
+function extractPrompt(content: string): { name: string; target: LLMTarget; promptContent: string } | null {
+  // Szukaj bloku kodu z promptem
+  const codeBlockMatch = content.match(/```(?:prompt|text)?\n([\s\S]*?)```/);
+  if (codeBlockMatch) {
+    const promptContent = codeBlockMatch[1].trim();
+    const target: LLMTarget = content.toLowerCase().includes('codex') ? 'codex' :
+                              content.toLowerCase().includes('gemini') ? 'gemini' : 'claude_code';
+
+    return {
+      name: `Prompt ${new Date().toISOString().slice(0, 10)}`,
+      target,
+      promptContent,
+    };
+  }
+  return null;
+}
+
+/**
+ * Wyciąga zasadę projektu
+ */
+function extractProjectRule(content: string): { rule: string; category: RuleCategory } | null {
+  const rulePatterns = [
+    { regex: /(?:zawsze używaj|zawsze stosuj)\s+(.{5,100})/i, category: 'code_style' as RuleCategory },
+    { regex: /(?:nigdy nie|unikaj)\s+(.{5,100})/i, category: 'code_style' as RuleCategory },
+    { regex: /(?:konwencja|standard)[\s:]+(.{10,150})/i, category: 'naming' as RuleCategory },
+    { regex: /(?:architektura|wzorzec)[\s:]+(.{10,150})/i, category: 'architecture' as RuleCategory },
+    { regex: /(?:test|testuj)[\s:]+(.{10,150})/i, category: 'testing' as RuleCategory },
+    { regex: /(?:bezpiecze[ńn]stwo|security)[\s:]+(.{10,150})/i, category: 'security' as RuleCategory },
+  ];
+
+  for (const { regex, category } of rulePatterns) {
+    const match = content.match(regex);
+    if (match) {
+      return {
+        rule: match[1].split(/[.!?\n]/)[0].trim(),
+        category,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Wyciąga tech stack
+ */
+function extractTechStack(content: string, userMessage: string): { name: string; category: TechCategory }[] {
+  const techItems: { name: string; category: TechCategory }[] = [];
+  const combined = `${userMessage} ${content}`;
+
+  // Mapowanie technologii na kategorie
+  const techMap: Record<string, TechCategory> = {
+    // Frameworki
+    'react': 'framework', 'next.js': 'framework', 'nextjs': 'framework', 'vue': 'framework',
+    'angular': 'framework', 'svelte': 'framework', 'nuxt': 'framework', 'remix': 'framework',
+    // Biblioteki
+    'tailwind': 'styling', 'chakra': 'styling', 'mui': 'styling', 'bootstrap': 'styling',
+    'zustand': 'state', 'redux': 'state', 'jotai': 'state', 'recoil': 'state', 'mobx': 'state',
+    'axios': 'library', 'tanstack': 'library', 'react-query': 'library', 'swr': 'library',
+    // Języki
+    'typescript': 'language', 'javascript': 'language', 'python': 'language', 'rust': 'language',
+    // Bazy danych
+    'supabase': 'database', 'postgresql': 'database', 'postgres': 'database', 'mongodb': 'database',
+    'mysql': 'database', 'prisma': 'database', 'drizzle': 'database',
+    // Testowanie
+    'jest': 'testing', 'vitest': 'testing', 'cypress': 'testing', 'playwright': 'testing',
+    // Build
+    'vite': 'build', 'webpack': 'build', 'turbopack': 'build', 'esbuild': 'build',
+  };
+
+  for (const [tech, category] of Object.entries(techMap)) {
+    const regex = new RegExp(`\\b${tech}\\b`, 'i');
+    if (regex.test(combined)) {
+      techItems.push({ name: tech.charAt(0).toUpperCase() + tech.slice(1), category });
+    }
+  }
+
+  return techItems;
+}
+
+// ============================================
+// BLOK PAMIĘCI (SIDECAR JSON)
+// ============================================
+
+/**
+ * Heurystyki słów kluczowych - tylko gdy włączone i odpowiedź nie ma bloku pamięci
+ */
+function keywordHeuristicsEnabled(): boolean {
+  return process.env.AUTO_SAVE_HEURISTICS === 'true';
+}
+
+/**
+ * Rodzaje elementów obecnych w bloku pamięci
+ */
+function getMemoryPatterns(memory: MemorySidecar): AutoSavePatternType[] {
+  const patterns: AutoSavePatternType[] = [];
+  if (memory.decisions.length > 0) patterns.push('decision');
+  if (memory.bugs.length > 0) patterns.push('bug');
+  if (memory.prompts.length > 0) patterns.push('prompt');
+  if (memory.rules.length > 0) patterns.push('rule');
+  if (memory.tech.length > 0) patterns.push('tech');
+  return patterns;
+}
+
+/**
+ * Zapisuje elementy bloku pamięci do tabel projektu (błąd jednego elementu nie przerywa reszty)
+ */
+async function saveMemoryItems(
+  memory: MemorySidecar,
+  projectId: string,
+  llmSource: LLMSource,
+  source: ReviewSource
+): Promise<AIResponseMetadata['autoSaved']> {
+  const autoSaved: AIResponseMetadata['autoSaved'] = [];
+
+  const saveItem = async (
+    type: AutoSavePatternType,
+    table: string,
+    save: () => Promise<{ id: string; action?: AutoSaveAction } | null>
+  ) => {
+    try {
+      const saved = await save();
+      if (saved) {
+        autoSaved.push({ table, id: saved.id, type, action: saved.action || 'created' });
+      }
+    } catch (error) {
+      console.error(`[AUTO-SAVE] Błąd zapisu elementu ${type}:`, error);
+    }
+  };
+
+  // Decyzje, bugi, zasady i tech stack - z deduplikacją względem istniejących rekordów projektu
+  for (const decision of memory.decisions) {
+    await saveItem('decision', 'decisions', () => saveDeduplicated('decision', projectId, decision, () => saveDecision({
+      project_id: projectId,
+      ...source,
+      ...decision,
+      reason: decision.reason || `Zapisane z odpowiedzi ${llmSource}`,
+    })));
+  }
+  for (const bug of memory.bugs) {
+    await saveItem('bug', 'bugs_history', () => saveDeduplicated('bug', projectId, bug, () =>
+      saveBugHistory({ project_id: projectId, ...source, ...bug })
+    ));
+  }
+  for (const prompt of memory.prompts) {
+    await saveItem('prompt', 'prompts', () => savePrompt({ project_id: projectId, ...source, ...prompt }));
+  }
+  for (const rule of memory.rules) {
+    await saveItem('rule', 'project_rules', () => saveDeduplicated('rule', projectId, rule, () =>
+      saveProjectRule({ project_id: projectId, ...source, ...rule })
+    ));
+  }
+  for (const tech of memory.tech) {
+    await saveItem('tech', 'tech_stack', () => saveDeduplicated('tech', projectId, tech, () =>
+      saveTechStack({ project_id: projectId, ...source, ...tech })
+    ));
+  }
+
+  return autoSaved;
+}
+
+/**
+ * ID zapisanej odpowiedzi LLM z wyniku auto-save (do oceny wiadomości)
+ */
+export function getLLMResponseId(metadata: AIResponseMetadata): string | undefined {
+  return metadata.autoSaved.find(item => item.table === 'llm_responses')?.id;
+}
+
+/**
+ * Przetwarza odpowiedź AI i wykonuje auto-save do bazy
+ * memory - zwalidowany blok pamięci z odpowiedzi (null gdy AI go nie dołączyło)
+ * sourceMessageId - zapisana wiadomość AI, pokazywana przy elemencie w kolejce przeglądu
+ */
+export async function processAutoSave(
+  content: string,
+  userMessage: string,
+  llmSource: LLMSource,
+  projectId: string | undefined,
+  responseMetadata: AIResponseMetadata,
+  conversationId: string,
+  memory: MemorySidecar | null = null,
+  sourceMessageId?: string
+): Promise<AIResponseMetadata> {
+  const { tokensUsed, inputTokens = 0, outputTokens = 0 } = responseMetadata;
+  const costUsd = calculateCost(responseMetadata.model, inputTokens, outputTokens);
+  const detectedPatterns = memory
+    ? getMemoryPatterns(memory)
+    : keywordHeuristicsEnabled() ? detectAutoSavePatterns(content) : [];
+  const autoSaved: AIResponseMetadata['autoSaved'] = [];
+
+  console.log(
+    `[AUTO-SAVE] ${memory ? 'Blok pamięci' : 'Wzorce'} w odpowiedzi ${llmSource}:`,
+    detectedPatterns
+  );
+
+  // Zawsze zapisz odpowiedź LLM
+  try {
+    const llmResponse = await saveLLMResponse({
+      conversation_id: conversationId,
+      llm_source: llmSource,
+      prompt_used: userMessage.slice(0, 1000),
+      response: content.slice(0, 5000),
+      tokens_used: tokensUsed,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      project_id: projectId,
+      cost_usd: costUsd,
+      // Faktyczny provider (fallback) i historia prób z warstwy odporności
+      metadata: {
+        provider: responseMetadata.provider,
+        model: responseMetadata.model,
+        role: responseMetadata.role,
+        attempts: responseMetadata.attempts,
+      },
+    });
+    if (llmResponse) {
+      autoSaved.push({ table: 'llm_responses', id: llmResponse.id, type: 'feedback' });
+    }
+  } catch (error) {
+    console.error('[AUTO-SAVE] Błąd zapisywania LLM response:', error);
+  }
+
+  // Uwagi recenzenta - format z tagami wymagany promptem roli, więc zapis niezależnie od heurystyk i projektu
+  const isReviewer = responseMetadata.role === 'reviewer' || responseMetadata.role === 'ux';
+  if (isReviewer && sourceMessageId) {
+    const findings = await saveReviewFindings(content, llmSource, sourceMessageId, conversationId);
+    autoSaved.push(...findings.map(finding => ({
+      table: 'review_feedback',
+      id: finding.id,
+      type: 'feedback' as const,
+      action: 'created' as const,
+    })));
+  }
+
+  // Jeśli nie ma projectId, nie możemy zapisywać do tabel związanych z projektem
+  if (!projectId) {
+    return { tokensUsed, costUsd, detectedPatterns, autoSaved };
+  }
+
+  // Elementy czekają na akceptację - do kontekstu AI trafiają dopiero po przeglądzie
+  const source: ReviewSource = {
+    review_status: 'pending',
+    source_message_id: sourceMessageId,
+    conversation_id: conversationId,
+  };
+
+  // Blok pamięci - zapisujemy tylko zadeklarowane elementy
+  if (memory) {
+    autoSaved.push(...await saveMemoryItems(memory, projectId, llmSource, source));
+    console.log(`[AUTO-SAVE] Zapisano ${autoSaved.length} elementów do bazy:`, autoSaved);
+    return { tokensUsed, costUsd, detectedPatterns, autoSaved };
+  }
+
+  // Heurystyka słów kluczowych (tylko gdy włączona)
+  for (const patternType of detectedPatterns) {
+    try {
+      switch (patternType) {
+        case 'decision': {
+          const candidate = { title: extractDecisionTitle(content), description: content.slice(0, 500) };
+          const decision = await saveDeduplicated('decision', projectId, candidate, () => saveDecision({
+            project_id: projectId,
+            ...source,
+            ...candidate,
+            reason: `Wykryte automatycznie z odpowiedzi ${llmSource}`,
+          }));
+          if (decision) {
+            autoSaved.push({ table: 'decisions', id: decision.id, type: 'decision', action: decision.action });
+          }
+          break;
+        }
+
+        case 'bug': {
+          const bugInfo = extractBugInfo(content);
+          const bug = await saveDeduplicated('bug', projectId, bugInfo, () => saveBugHistory({
+            project_id: projectId,
+            ...source,
+            description: bugInfo.description,
+            solution: bugInfo.solution,
+          }));
+          if (bug) {
+            autoSaved.push({ table: 'bugs_history', id: bug.id, type: 'bug', action: bug.action });
+          }
+          break;
+        }
+
+        case 'prompt': {
+          const promptInfo = extractPrompt(content);
+          if (promptInfo) {
+            const prompt = await savePrompt({
+              project_id: projectId,
+              ...source,
+              name: promptInfo.name,
+              llm_target: promptInfo.target,
+              content: promptInfo.promptContent,
+            });
+            if (prompt) {
+              autoSaved.push({ table: 'prompts', id: prompt.id, type: 'prompt', action: 'created' });
+            }
+          }
+          break;
+        }
+
+        case 'rule': {
+          const ruleInfo = extractProjectRule(content);
+          if (ruleInfo) {
+            const rule = await saveDeduplicated('rule', projectId, ruleInfo, () => saveProjectRule({
+              project_id: projectId,
+              ...source,
+              rule: ruleInfo.rule,
+              category: ruleInfo.category,
+            }));
+            if (rule) {
+              autoSaved.push({ table: 'project_rules', id: rule.id, type: 'rule', action: rule.action });
+            }
+          }
+          break;
+        }
+
+        case 'tech': {
+          const techItems = extractTechStack(content, userMessage);
+          for (const tech of techItems) {
+            const saved = await saveDeduplicated('tech', projectId, tech, () => saveTechStack({
+              project_id: projectId,
+              ...source,
+              name: tech.name,
+              category: tech.category,
+            }));
+            if (saved) {
+              autoSaved.push({ table: 'tech_stack', id: saved.id, type: 'tech', action: saved.action });
+            }
+          }
+          break;
+        }
+
+        // Uwagi z code review zapisywane są wyżej - tylko dla kroków recenzentów
+        case 'feedback':
+          break;
+      }
+    } catch (error) {
+      console.error(`[AUTO-SAVE] Błąd przetwarzania wzorca ${patternType}:`, error);
+    }
+  }
+
+  if (autoSaved.length > 0) {
+    console.log(`[AUTO-SAVE] Zapisano ${autoSaved.length} elementów do bazy:`, autoSaved);
+  }
+
+  return { tokensUsed, costUsd, detectedPatterns, autoSaved };
+}
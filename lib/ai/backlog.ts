@@ -0,0 +1,165 @@
+/**
+ * Komendy backlogu w czacie
+ * /backlog - lista, /backlog <tytuł> [!priorytet] [#tag] - nowy element,
+ * /milestone <tytuł> [RRRR-MM-DD] - kamień milowy, /status <fragment tytułu> -> <status> - przeniesienie
+ */
+
+import { saveBacklogItem, getBacklog, updateBacklogStatus, saveMilestone } from '../supabase';
+import { BACKLOG_STATUS_LABELS, BACKLOG_PRIORITY_LABELS } from '../constants';
+import type { BacklogItem, BacklogPriority, BacklogStatus } from '../types';
+
+export type BacklogCommand =
+  | { type: 'list' }
+  | { type: 'add'; title: string; priority?: BacklogPriority; tags: string[] }
+  | { type: 'milestone'; title: string; target_date?: string }
+  | { type: 'status'; query: string; status: BacklogStatus | null };
+
+const BACKLOG_PATTERNS = {
+  backlog: /^\/backlog(?:\s+([\s\S]+))?$/i,
+  milestone: /^\/milestone\s+([\s\S]+)$/i,
+  status: /^\/status\s+(.+?)\s*->\s*(.+)$/i,
+};
+
+const PRIORITY_TOKEN = /(?:^|\s)!(\S+)/g;
+const TAG_TOKEN = /(?:^|\s)#([\w-]+)/g;
+const DATE_TOKEN = /\s+(\d{4}-\d{2}-\d{2})\s*$/;
+
+// Wartość albo polska etykieta (bez względu na wielkość liter)
+function matchLabel<T extends string>(value: string, labels: Record<T, string>): T | null {
+  const normalized = value.trim().toLowerCase();
+  const entry = (Object.entries(labels) as [T, string][]).find(
+    ([key, label]) => key === normalized || label.toLowerCase() === normalized
+  );
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Sprawdza czy wiadomość to komenda backlogu
+ */
+export function detectBacklogCommand(message: string): BacklogCommand | null {
+  const trimmed = message.trim();
+
+  let match = trimmed.match(BACKLOG_PATTERNS.status);
+  if (match) {
+    return { type: 'status', query: match[1].trim(), status: matchLabel(match[2], BACKLOG_STATUS_LABELS) };
+  }
+
+  match = trimmed.match(BACKLOG_PATTERNS.milestone);
+  if (match) {
+    const date = match[1].match(DATE_TOKEN);
+    return {
+      type: 'milestone',
+      title: (date ? match[1].slice(0, date.index) : match[1]).trim(),
+      target_date: date?.[1],
+    };
+  }
+
+  match = trimmed.match(BACKLOG_PATTERNS.backlog);
+  if (!match) return null;
+  if (!match[1]?.trim()) return { type: 'list' };
+
+  const text = match[1];
+  const priority = [...text.matchAll(PRIORITY_TOKEN)]
+    .map(([, token]) => matchLabel(token, BACKLOG_PRIORITY_LABELS))
+    .find(Boolean) ?? undefined;
+  const tags = [...text.matchAll(TAG_TOKEN)].map(([, tag]) => tag.toLowerCase());
+  const title = text.replace(PRIORITY_TOKEN, ' ').replace(TAG_TOKEN, ' ').replace(/\s+/g, ' ').trim();
+
+  return { type: 'add', title, priority, tags };
+}
+
+function formatItem(item: BacklogItem): string {
+  const tags = item.tags?.length ? ` ${item.tags.map(tag => `#${tag}`).join(' ')}` : '';
+  return `  • **${item.title}** (${BACKLOG_PRIORITY_LABELS[item.priority] || item.priority})${tags}`;
+}
+
+/**
+ * Lista otwartych elementów backlogu pogrupowana po statusie
+ */
+function formatBacklogList(items: BacklogItem[]): string {
+  const open: BacklogStatus[] = ['in_progress', 'planned', 'idea'];
+  const priorities = Object.keys(BACKLOG_PRIORITY_LABELS);
+  const sections = open
+    .map((status) => {
+      const inStatus = items
+        .filter(item => item.status === status)
+        .sort((a, b) => priorities.indexOf(a.priority) - priorities.indexOf(b.priority));
+      return inStatus.length > 0
+        ? `${BACKLOG_STATUS_LABELS[status]}:\n${inStatus.map(formatItem).join('\n')}`
+        : '';
+    })
+    .filter(Boolean);
+
+  if (sections.length === 0) {
+    return '📋 Backlog projektu jest pusty.\n\nDodaj element np.: `/backlog Eksport do PDF !wysoki #raporty`';
+  }
+
+  const closed = items.length - items.filter(item => open.includes(item.status)).length;
+  return `📋 **Backlog projektu:**\n\n${sections.join('\n\n')}${closed > 0 ? `\n\nZamknięte (zrobione/odrzucone): ${closed}` : ''}`;
+}
+
+/**
+ * Wykonuje komendę backlogu i zwraca odpowiedź do czatu
+ */
+export async function runBacklogCommand(
+  command: BacklogCommand,
+  projectId: string | undefined,
+  conversationId: string
+): Promise<string> {
+  if (!projectId) {
+    return '❓ Backlog jest prowadzony per projekt - wybierz projekt i spróbuj ponownie.';
+  }
+
+  switch (command.type) {
+    case 'list':
+      return formatBacklogList(await getBacklog(projectId));
+
+    case 'add': {
+      if (!command.title) {
+        return '❓ Podaj tytuł, np. `/backlog Eksport do PDF !wysoki #raporty`';
+      }
+      const item = await saveBacklogItem({
+        project_id: projectId,
+        title: command.title,
+        priority: command.priority,
+        tags: command.tags,
+        conversation_id: conversationId,
+      });
+      return item
+        ? `✅ Dodałem do backlogu:\n\n${formatItem(item)}`
+        : '❌ Nie udało się dodać elementu do backlogu.';
+    }
+
+    case 'milestone': {
+      if (!command.title) {
+        return '❓ Podaj tytuł, np. `/milestone Wersja beta 2026-12-01`';
+      }
+      const milestone = await saveMilestone({
+        project_id: projectId,
+        title: command.title,
+        target_date: command.target_date,
+        conversation_id: conversationId,
+      });
+      if (!milestone) return '❌ Nie udało się dodać kamienia milowego.';
+      return `🏁 Dodałem kamień milowy **${milestone.title}**${milestone.target_date ? ` (termin ${milestone.target_date})` : ''}.`;
+    }
+
+    case 'status': {
+      if (!command.status) {
+        return `❓ Nieznany status. Dostępne: ${Object.values(BACKLOG_STATUS_LABELS).join(', ')}.`;
+      }
+      const query = command.query.toLowerCase();
+      const matches = (await getBacklog(projectId)).filter(item => item.title.toLowerCase().includes(query));
+      if (matches.length === 0) {
+        return `❓ Nie znalazłem w backlogu elementu pasującego do "${command.query}".`;
+      }
+      if (matches.length > 1) {
+        return `❓ Pasuje kilka elementów - doprecyzuj tytuł:\n\n${matches.map(formatItem).join('\n')}`;
+      }
+      const ok = await updateBacklogStatus(matches[0].id, command.status);
+      return ok
+        ? `✅ **${matches[0].title}** → ${BACKLOG_STATUS_LABELS[command.status]}`
+        : '❌ Nie udało się zmienić statusu.';
+    }
+  }
+}
@@ -1,23 +1,144 @@
 /**
  * Moduł Claude AI - główny architekt i lead developer
- * Używa Anthropic SDK do komunikacji z Claude
+ * Provider Anthropic (Anthropic SDK) + funkcje roli architekta
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import type { ChatMessage, AIContext, Preference, AIResponseWithMetadata } from '../types';
-
-// Leniwa inicjalizacja klienta Anthropic
-let anthropicClient: Anthropic | null = null;
-
-function getAnthropic(): Anthropic {
-  if (!anthropicClient) {
-    anthropicClient = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
+import { AI_PERSONALITIES, AI_TOOL_MAX_ROUNDS } from '../constants';
+import { MEMORY_SIDECAR_INSTRUCTIONS } from '../memorySidecar';
+import { FILE_EDIT_INSTRUCTIONS } from '../fileEdits';
+import { parseReviewFindings, formatFindingsForPrompt } from '../reviewFindings';
+import { buildContextInfo, formatHistoryMessages } from './context';
+import type {
+  ChatMessage,
+  AIContext,
+  AIResponseWithMetadata,
+  AICallOptions,
+  AIProvider,
+  AIProviderConfig,
+  AIProviderRequest,
+  AIPersonality,
+} from '../types';
+
+// Domyślny model Claude
+const CLAUDE_MODEL = 'claude-sonnet-4-5-20250929';
+
+// Klienci Anthropic per klucz API (leniwa inicjalizacja)
+const anthropicClients = new Map<string, Anthropic>();
+
+function getAnthropic(config: AIProviderConfig): Anthropic {
+  const apiKeyEnv = config.apiKeyEnv || 'ANTHROPIC_API_KEY';
+  const cacheKey = `${apiKeyEnv}|${config.baseURL || ''}`;
+
+  let client = anthropicClients.get(cacheKey);
+  if (!client) {
+    client = new Anthropic({
+      apiKey: process.env[apiKeyEnv],
+      baseURL: config.baseURL,
+      // Ponowienia obsługuje warstwa odporności (resilience.ts)
+      maxRetries: 0,
     });
+    anthropicClients.set(cacheKey, client);
   }
-  return anthropicClient;
+  return client;
 }
 
+/**
+ * Tworzy provider oparty o Anthropic Messages API (streaming)
+ */
+export function createAnthropicProvider(config: AIProviderConfig, personality: AIPersonality): AIProvider {
+  return {
+    id: config.id,
+    type: 'anthropic',
+    model: config.model,
+    personality,
+    contextWindow: config.contextWindow,
+    async complete(request: AIProviderRequest): Promise<AIResponseWithMetadata> {
+      const client = getAnthropic(config);
+      const tools = request.tools?.definitions.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+      const messages: Anthropic.MessageParam[] = [...request.messages];
+
+      let content = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      // Pętla narzędzi - model wywołuje narzędzia, wyniki wracają w tej samej turze
+      for (let round = 1; ; round++) {
+        const lastRound = round >= AI_TOOL_MAX_ROUNDS;
+        const separator = content ? '\n\n' : '';
+        let separatorSent = false;
+
+        const stream = client.messages.stream({
+          model: config.model,
+          max_tokens: request.maxTokens || config.maxTokens || 4096,
+          system: request.system,
+          messages,
+          ...(tools && { tools, tool_choice: { type: lastRound ? 'none' : 'auto' } as const }),
+        }, { signal: request.signal });
+
+        if (request.onDelta) {
+          stream.on('text', (text) => {
+            if (!separatorSent && separator) request.onDelta?.(separator);
+            separatorSent = true;
+            request.onDelta?.(text);
+          });
+        }
+
+        const response = await stream.finalMessage();
+        inputTokens += response.usage?.input_tokens || 0;
+        outputTokens += response.usage?.output_tokens || 0;
+
+        // Wyciągnij tekst z odpowiedzi
+        const text = response.content
+          .filter(block => block.type === 'text')
+          .map(block => block.text)
+          .join('');
+        if (text) content += separator + text;
+
+        const toolUses = response.content.filter(block => block.type === 'tool_use');
+        if (!request.tools || lastRound || response.stop_reason !== 'tool_use' || toolUses.length === 0) break;
+
+        const results: Anthropic.ToolResultBlockParam[] = [];
+        for (const toolUse of toolUses) {
+          const result = await request.tools.execute({
+            id: toolUse.id,
+            name: toolUse.name,
+            input: (toolUse.input || {}) as Record<string, unknown>,
+          });
+          results.push({ type: 'tool_result', tool_use_id: toolUse.id, content: result.content, is_error: result.isError });
+        }
+        messages.push({ role: 'assistant', content: response.content }, { role: 'user', content: results });
+      }
+
+      // Pobierz informacje o tokenach
+      const tokensUsed = inputTokens + outputTokens;
+
+      console.log(`[${config.id.toUpperCase()}] Tokeny: input=${inputTokens}, output=${outputTokens}, total=${tokensUsed}`);
+
+      return {
+        content,
+        metadata: {
+          tokensUsed,
+          inputTokens,
+          outputTokens,
+          detectedPatterns: [],
+          autoSaved: [],
+        },
+      };
+    },
+  };
+}
+
+// Wbudowany provider Claude
+export const claudeProvider = createAnthropicProvider(
+  { id: 'claude', type: 'anthropic', model: CLAUDE_MODEL },
+  AI_PERSONALITIES.claude
+);
+
 // System prompt dla Claude jako głównego architekta
 const CLAUDE_SYSTEM_PROMPT = `Jesteś Claude - głównym architektem i lead developerem w zespole AI.
 
@@ -29,10 +150,11 @@ TWOJA ROLA:
 - Pamiętasz kontekst rozmowy i preferencje użytkownika
 
 DOSTĘP DO PLIKÓW PROJEKTU:
-Masz dostęp do plików projektu użytkownika. Możesz poprosić o:
-- [POKAŻ STRUKTURĘ] - zobaczysz drzewo plików projektu
-- [POKAŻ PLIK: ścieżka/do/pliku] - zobaczysz zawartość konkretnego pliku
-Użytkownik wklei ci zawartość. Używaj tego do analizy istniejącego kodu.
+Masz narzędzia do plików projektu użytkownika:
+- show_structure - drzewo plików projektu
+- list_directory - zawartość katalogu
+- read_file - zawartość konkretnego pliku
+Wywołuj je sam, zamiast prosić użytkownika o wklejenie plików. Używaj ich do analizy istniejącego kodu.
 
 ZASADY PRACY (KRYTYCZNE):
 - NIGDY nie generuj kodu bez potwierdzenia użytkownika ("ok", "tak", "robimy", "dawaj")
@@ -83,126 +205,67 @@ ZASADY:
 - To jest finalna wersja - gotowy kod
 - Bez wstępów`;
 
-/**
- * Formatuje historię czatu do formatu wiadomości Anthropic
- */
-function formatHistory(history: ChatMessage[], currentMessage: string): Anthropic.MessageParam[] {
-  const messages: Anthropic.MessageParam[] = [];
-
-  // Dodaj historię rozmowy
-  for (const msg of history) {
-    if (msg.sender === 'user') {
-      messages.push({ role: 'user', content: msg.content });
-    } else {
-      // Wiadomości od AI traktujemy jako assistant
-      messages.push({ role: 'assistant', content: `[${msg.sender.toUpperCase()}]: ${msg.content}` });
-    }
-  }
-
-  // Dodaj aktualną wiadomość użytkownika
-  messages.push({ role: 'user', content: currentMessage });
+// System prompt dla poprawki kodu po sprawdzeniu w sandboxie (tryb "do zielonego")
+const CLAUDE_FIX_PROMPT = `Jesteś Claude - głównym architektem w zespole AI.
 
-  return messages;
-}
+Twój kod nie przeszedł sprawdzenia w sandboxie (tsc --strict, testy).
+- Popraw WSZYSTKIE błędy z raportu
+- Nie zmieniaj niczego, co nie wymaga poprawki
+- Podaj ponownie pełny kod wszystkich plików z poprzedniej odpowiedzi (także tych bez zmian) - sprawdzany jest tylko kod z tej odpowiedzi
+- Ostrzeżenia o brakujących modułach spoza odpowiedzi pomiń
 
-/**
- * Formatuje preferencje do czytelnego formatu dla AI
- */
-function formatPreferences(preferences: Preference[]): string {
-  if (!preferences || preferences.length === 0) return '';
-
-  const lines = preferences.map(p => `- ${p.key}: ${p.value}`);
-  return `\n\nPreferencje użytkownika (pamiętaj o nich!):\n${lines.join('\n')}`;
-}
-
-/**
- * Formatuje tech stack do czytelnego formatu
- */
-function formatTechStack(techStack?: string[]): string {
-  if (!techStack || techStack.length === 0) return '';
-  return `\n\nProjekt używa: ${techStack.join(', ')}`;
-}
+ZASADY:
+- Jedno zdanie, co poprawiłeś, potem kod
+- Bez wstępów`;
 
 /**
- * Buduje kontekst z informacjami o projekcie i preferencjach
+ * Wywołuje providera w roli architekta - ujednolica fallback i błędy
+ * Do system promptu dołącza instrukcję zmian plików (przegląd diff) i bloku pamięci (auto-save)
  */
-function buildContextInfo(context?: AIContext): string {
-  if (!context) return '';
-
-  let info = '';
-
-  if (context.project) {
-    info += `\n\nKontekst projektu:
-- Nazwa: ${context.project.name}
-- Opis: ${context.project.description || 'brak'}
-- Repo: ${context.project.repo_url || 'brak'}`;
-
-    // Dodaj tech stack projektu
-    info += formatTechStack(context.project.tech_stack);
-  }
-
-  // Dodaj pełny kontekst projektu (struktura + pliki) jeśli załadowany
-  if (context.projectContext) {
-    info += `\n\n=== ZAŁADOWANY KONTEKST PROJEKTU ===\n${context.projectContext}\n=== KONIEC KONTEKSTU ===`;
-  }
-
-  if (context.editorContent) {
-    info += `\n\nAktualny kod w edytorze:\n\`\`\`\n${context.editorContent}\n\`\`\``;
-  }
+async function runArchitect(
+  label: string,
+  request: AIProviderRequest,
+  fallback: string,
+  options: AICallOptions
+): Promise<AIResponseWithMetadata> {
+  const provider = options.provider || claudeProvider;
 
-  // Dodaj preferencje użytkownika
-  if (context.preferences && context.preferences.length > 0) {
-    info += formatPreferences(context.preferences);
+  try {
+    const result = await provider.complete({
+      ...request,
+      system: request.system + FILE_EDIT_INSTRUCTIONS + MEMORY_SIDECAR_INSTRUCTIONS,
+      onDelta: options.onDelta,
+      onReset: options.onReset,
+      signal: options.signal,
+      tools: options.tools,
+    });
+    return { ...result, content: result.content || fallback };
+  } catch (error) {
+    console.error(`Błąd ${label}:`, error);
+    // Przyczyna zachowuje historię prób (AIProviderError) do zapisu nieudanego wywołania
+    throw new Error(`Błąd komunikacji z ${provider.personality.displayName}: ${error instanceof Error ? error.message : 'nieznany błąd'}`, { cause: error });
   }
-
-  return info;
 }
 
 /**
  * Wywołuje Claude jako głównego architekta (pierwsza odpowiedź)
- * Zwraca odpowiedź z metadanymi o tokenach
+ * Streamuje fragmenty przez onDelta, zwraca odpowiedź z metadanymi o tokenach
  */
 export async function callClaude(
   message: string,
   history: ChatMessage[],
-  context?: AIContext
+  context?: AIContext,
+  options: AICallOptions = {}
 ): Promise<AIResponseWithMetadata> {
-  const contextInfo = buildContextInfo(context);
-  const systemPrompt = CLAUDE_SYSTEM_PROMPT + contextInfo;
-
-  try {
-    const response = await getAnthropic().messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 4096,
-      system: systemPrompt,
-      messages: formatHistory(history, message),
-    });
-
-    // Wyciągnij tekst z odpowiedzi
-    const textBlock = response.content.find(block => block.type === 'text');
-    const content = textBlock ? textBlock.text : 'Przepraszam, nie mogłem wygenerować odpowiedzi.';
-
-    // Pobierz informacje o tokenach
-    const inputTokens = response.usage?.input_tokens || 0;
-    const outputTokens = response.usage?.output_tokens || 0;
-    const tokensUsed = inputTokens + outputTokens;
-
-    console.log(`[CLAUDE] Tokeny: input=${inputTokens}, output=${outputTokens}, total=${tokensUsed}`);
-
-    return {
-      content,
-      metadata: {
-        tokensUsed,
-        inputTokens,
-        outputTokens,
-        detectedPatterns: [],
-        autoSaved: [],
-      },
-    };
-  } catch (error) {
-    console.error('Błąd Claude:', error);
-    throw new Error(`Błąd komunikacji z Claude: ${error instanceof Error ? error.message : 'nieznany błąd'}`);
-  }
+  return runArchitect(
+    'Claude',
+    {
+      system: (options.systemPrompt || CLAUDE_SYSTEM_PROMPT) + buildContextInfo(context),
+      messages: [...formatHistoryMessages(history), { role: 'user', content: message }],
+    },
+    'Przepraszam, nie mogłem wygenerować odpowiedzi.',
+    options
+  );
 }
 
 /**
@@ -225,52 +288,28 @@ export async function callClaudeSummary(
   originalMessage: string,
   claudeFirstResponse: string,
   gptFeedback: string,
-  context?: AIContext
+  context?: AIContext,
+  options: AICallOptions = {}
 ): Promise<AIResponseWithMetadata> {
-  const contextInfo = buildContextInfo(context);
-  const systemPrompt = CLAUDE_SUMMARY_PROMPT + contextInfo;
-
   const prompt = `Użytkownik napisał: ${originalMessage}
 
 Moja wcześniejsza odpowiedź:
 ${claudeFirstResponse}
 
 Feedback od GPT:
-${gptFeedback}
+${gptFeedback}${formatFindingsForPrompt(parseReviewFindings(gptFeedback))}
 
 Daj finalne rozwiązanie uwzględniając konstruktywny feedback:`;
 
-  try {
-    const response = await getAnthropic().messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 4096,
-      system: systemPrompt,
+  return runArchitect(
+    'Claude Summary',
+    {
+      system: (options.systemPrompt || CLAUDE_SUMMARY_PROMPT) + buildContextInfo(context),
       messages: [{ role: 'user', content: prompt }],
-    });
-
-    const textBlock = response.content.find(block => block.type === 'text');
-    const content = textBlock ? textBlock.text : 'Przepraszam, nie mogłem wygenerować podsumowania.';
-
-    const inputTokens = response.usage?.input_tokens || 0;
-    const outputTokens = response.usage?.output_tokens || 0;
-    const tokensUsed = inputTokens + outputTokens;
-
-    console.log(`[CLAUDE SUMMARY] Tokeny: input=${inputTokens}, output=${outputTokens}, total=${tokensUsed}`);
-
-    return {
-      content,
-      metadata: {
-        tokensUsed,
-        inputTokens,
-        outputTokens,
-        detectedPatterns: [],
-        autoSaved: [],
-      },
-    };
-  } catch (error) {
-    console.error('Błąd Claude Summary:', error);
-    throw new Error(`Błąd komunikacji z Claude: ${error instanceof Error ? error.message : 'nieznany błąd'}`);
-  }
+    },
+    'Przepraszam, nie mogłem wygenerować podsumowania.',
+    options
+  );
 }
 
 /**
@@ -282,11 +321,9 @@ export async function callClaudeFinal(
   claudeFirstResponse: string,
   gptFeedback: string,
   geminiFeedback: string,
-  context?: AIContext
+  context?: AIContext,
+  options: AICallOptions = {}
 ): Promise<AIResponseWithMetadata> {
-  const contextInfo = buildContextInfo(context);
-  const systemPrompt = CLAUDE_FINAL_PROMPT + contextInfo;
-
   const prompt = `Użytkownik napisał: ${originalMessage}
 
 Moja wcześniejsza odpowiedź:
@@ -296,39 +333,46 @@ Feedback od GPT (code review):
 ${gptFeedback}
 
 Feedback od Gemini (UI/UX):
-${geminiFeedback}
+${geminiFeedback}${formatFindingsForPrompt([...parseReviewFindings(gptFeedback), ...parseReviewFindings(geminiFeedback)])}
 
 Daj finalne rozwiązanie uwzględniając konstruktywny feedback od obu:`;
 
-  try {
-    const response = await getAnthropic().messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 4096,
-      system: systemPrompt,
+  return runArchitect(
+    'Claude Final',
+    {
+      system: (options.systemPrompt || CLAUDE_FINAL_PROMPT) + buildContextInfo(context),
       messages: [{ role: 'user', content: prompt }],
-    });
+    },
+    'Przepraszam, nie mogłem wygenerować finalnego podsumowania.',
+    options
+  );
+}
 
-    const textBlock = response.content.find(block => block.type === 'text');
-    const content = textBlock ? textBlock.text : 'Przepraszam, nie mogłem wygenerować finalnego podsumowania.';
-
-    const inputTokens = response.usage?.input_tokens || 0;
-    const outputTokens = response.usage?.output_tokens || 0;
-    const tokensUsed = inputTokens + outputTokens;
-
-    console.log(`[CLAUDE FINAL] Tokeny: input=${inputTokens}, output=${outputTokens}, total=${tokensUsed}`);
-
-    return {
-      content,
-      metadata: {
-        tokensUsed,
-        inputTokens,
-        outputTokens,
-        detectedPatterns: [],
-        autoSaved: [],
-      },
-    };
-  } catch (error) {
-    console.error('Błąd Claude Final:', error);
-    throw new Error(`Błąd komunikacji z Claude: ${error instanceof Error ? error.message : 'nieznany błąd'}`);
-  }
+/**
+ * Wywołuje Claude do poprawki kodu po błędach z sandboxa (tryb "do zielonego")
+ * Zwraca odpowiedź z metadanymi o tokenach
+ */
+export async function callClaudeFix(
+  originalMessage: string,
+  previousResponse: string,
+  checkReport: string,
+  context?: AIContext,
+  options: AICallOptions = {}
+): Promise<AIResponseWithMetadata> {
+  const prompt = `Użytkownik napisał: ${originalMessage}
+
+Moja wcześniejsza odpowiedź:
+${previousResponse}${checkReport}
+
+Popraw kod tak, żeby przeszedł sprawdzenie:`;
+
+  return runArchitect(
+    'Claude Fix',
+    {
+      system: (options.systemPrompt || CLAUDE_FIX_PROMPT) + buildContextInfo(context),
+      messages: [{ role: 'user', content: prompt }],
+    },
+    'Przepraszam, nie mogłem poprawić kodu.',
+    options
+  );
 }
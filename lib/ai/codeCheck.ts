@@ -0,0 +1,162 @@
+/**
+ * Sprawdzanie kodu z odpowiedzi AI w sandboxie - przed review i w trybie "do zielonego"
+ * Pliki z bloków kodus-edit (fragmenty nałożone na plik z projektu albo repo GitHub) i bloków kodu TS/JS
+ * trafiają do runSandbox, a raport z faktycznymi błędami dostaje recenzent albo architekt do poprawki
+ */
+
+import { parseFileEdits, stripFileEdits, resolveFileEdit, applyFileEdit } from '../fileEdits';
+import { readFileContent, isPathSafe, isFileBlocked } from '../files';
+import { getFileContent } from '../github';
+import { runSandbox, isSandboxEnabled } from '../sandbox';
+import { SANDBOX_MAX_FILES, SANDBOX_REPORT_OUTPUT_CHARS } from '../constants';
+import type { FileEdit, RepoRef, SandboxFile, SandboxResult } from '../types';
+
+// Pliki sprawdzane przez tsc (json dla importów konfiguracji)
+const CHECKED_FILE_PATTERN = /\.(tsx?|jsx?|json)$/;
+
+// Język bloku kodu → rozszerzenie pliku bez nazwy
+const CODE_BLOCK_EXTENSIONS: Record<string, string> = {
+  ts: 'ts',
+  typescript: 'ts',
+  tsx: 'tsx',
+  js: 'js',
+  javascript: 'js',
+  jsx: 'jsx',
+};
+
+// Nazwa pliku w pierwszej linii bloku: // lib/utils.ts albo /* lib/utils.ts */
+const FILENAME_COMMENT_PATTERN = /^(?:\/\/\s*|\/\*\s*)([\w\-./]+\.\w+)\s*(?:\*\/)?\s*$/;
+
+// Limit diagnostyk jednego rodzaju w raporcie
+const REPORT_MAX_DIAGNOSTICS = 20;
+
+/**
+ * Aktualna treść pliku, na który nakładane są fragmenty zmiany (null - brak pliku)
+ */
+async function readBase(path: string, repo?: RepoRef | null): Promise<string | null> {
+  if (!isPathSafe(path) || isFileBlocked(path)) return null;
+  try {
+    return repo
+      ? (await getFileContent(repo.owner, repo.repo, path, repo.branch)).content
+      : (await readFileContent(path)).content;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Treść pliku po zmianie - pełna treść albo wszystkie fragmenty nałożone na plik z projektu
+ */
+async function resolveEditedFile(edit: FileEdit, repo?: RepoRef | null): Promise<string | null> {
+  if (edit.content !== undefined) return edit.content;
+
+  const base = await readBase(edit.path, repo);
+  if (base === null) return null;
+
+  const hunks = resolveFileEdit(edit, base);
+  const decisions = Object.fromEntries(hunks.map(hunk => [hunk.id, 'accepted' as const]));
+  return applyFileEdit(edit, base, hunks, decisions)?.content ?? base;
+}
+
+/**
+ * Pliki do sprawdzenia z odpowiedzi AI - bloki kodus-edit i bloki kodu TS/JS
+ * Blok bez nazwy pliku w pierwszej linii dostaje nazwę snippet-N
+ */
+export async function collectSandboxFiles(content: string, repo?: RepoRef | null): Promise<SandboxFile[]> {
+  const files = new Map<string, string>();
+
+  for (const edit of parseFileEdits(content)) {
+    if (edit.action === 'delete' || !CHECKED_FILE_PATTERN.test(edit.path)) continue;
+    const resolved = await resolveEditedFile(edit, repo);
+    if (resolved !== null) files.set(edit.path, resolved);
+  }
+
+  let snippetIndex = 0;
+  for (const match of stripFileEdits(content).matchAll(/```(\w+)[^\n]*\n([\s\S]*?)```/g)) {
+    const extension = CODE_BLOCK_EXTENSIONS[match[1].toLowerCase()];
+    if (!extension) continue;
+
+    const [firstLine, ...rest] = match[2].split('\n');
+    const named = firstLine.trim().match(FILENAME_COMMENT_PATTERN);
+    const path = named ? named[1].replace(/^(\.\/|\/)+/, '') : `snippet-${++snippetIndex}.${extension}`;
+    if (!files.has(path)) files.set(path, named ? rest.join('\n') : match[2]);
+  }
+
+  return [...files.entries()]
+    .filter(([path]) => !['package.json', 'tsconfig.json'].includes(path))
+    .slice(0, SANDBOX_MAX_FILES)
+    .map(([path, fileContent]) => ({ path, content: fileContent }));
+}
+
+/**
+ * Sprawdza kod z odpowiedzi w sandboxie - null, gdy sandbox jest wyłączony albo odpowiedź nie ma kodu
+ */
+export async function checkGeneratedCode(
+  content: string,
+  repo?: RepoRef | null,
+  signal?: AbortSignal
+): Promise<SandboxResult | null> {
+  if (!isSandboxEnabled()) return null;
+
+  const files = await collectSandboxFiles(content, repo);
+  if (files.length === 0) return null;
+
+  const result = await runSandbox({ files }, signal);
+  console.log(`[SANDBOX] ${files.length} plików: ${result.status}, diagnostyki: ${result.diagnostics.length}`);
+  return result;
+}
+
+// Koniec wyjścia procesu - tam są podsumowania testów i stack trace
+function outputTail(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > SANDBOX_REPORT_OUTPUT_CHARS
+    ? `...${trimmed.slice(-SANDBOX_REPORT_OUTPUT_CHARS)}`
+    : trimmed;
+}
+
+/**
+ * Raport sprawdzenia kodu dla promptu (recenzent, poprawka architekta) - faktyczne błędy kompilacji i wynik testów/snippetu
+ */
+export function formatSandboxReport(result: SandboxResult): string {
+  if (result.status === 'error') {
+    return `\n\nSPRAWDZENIE KODU W SANDBOXIE: nie udało się uruchomić (${result.error}). Nie wyciągaj z tego wniosków o kodzie.`;
+  }
+
+  const errors = result.diagnostics.filter(d => d.severity === 'error');
+  const warnings = result.diagnostics.filter(d => d.severity === 'warning');
+  const formatDiagnostic = (d: SandboxResult['diagnostics'][number]) =>
+    `- ${d.file ? `${d.file}:${d.line}:${d.column} ` : ''}${d.code}: ${d.message}`;
+
+  const lines = [
+    '',
+    '',
+    'SPRAWDZENIE KODU W SANDBOXIE (tsc --strict' + (result.runKind === 'tests' ? ' + testy node:test' : '') + '):',
+    `Pliki: ${result.files.join(', ')}`,
+    `Wynik: ${result.status === 'passed' ? 'kod się kompiluje' + (result.run ? ', uruchomienie bez błędów' : '') : 'BŁĘDY'}`,
+  ];
+
+  if (result.typecheck?.timedOut) {
+    lines.push('tsc przekroczył limit czasu.');
+  }
+  if (errors.length > 0) {
+    lines.push(`Błędy TypeScript (${errors.length}):`, ...errors.slice(0, REPORT_MAX_DIAGNOSTICS).map(formatDiagnostic));
+  }
+  if (warnings.length > 0) {
+    lines.push(
+      `Brakujące moduły - pliki spoza odpowiedzi, nie traktuj jako błąd (${warnings.length}):`,
+      ...warnings.slice(0, REPORT_MAX_DIAGNOSTICS).map(formatDiagnostic)
+    );
+  }
+  if (result.error) {
+    lines.push(`Uwaga: ${result.error}`);
+  }
+  if (result.run) {
+    const label = result.runKind === 'tests' ? 'Testy' : 'Uruchomienie';
+    const outcome = result.run.timedOut ? 'przekroczony limit czasu' : `kod wyjścia ${result.run.exitCode}`;
+    lines.push(`${label} (${result.run.command}): ${outcome}`);
+    if (result.run.stdout.trim()) lines.push('stdout:', outputTail(result.run.stdout));
+    if (result.run.stderr.trim()) lines.push('stderr:', outputTail(result.run.stderr));
+  }
+
+  return lines.join('\n');
+}
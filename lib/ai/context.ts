@@ -0,0 +1,119 @@
+/**
+ * Wspólne budowanie kontekstu dla ról AI
+ * Preferencje, tech stack, projekt i historia - niezależnie od providera
+ */
+
+import { MEMORY_CONTENT_LABELS } from '../constants';
+import type { ChatMessage, AIContext, Preference, AIProviderMessage, MemoryCitation } from '../types';
+
+// Jak szczegółowo opisać projekt w prompcie
+export type ProjectDetailLevel = 'full' | 'short' | 'name';
+
+export interface ContextInfoOptions {
+  projectDetails?: ProjectDetailLevel;
+  includeEditor?: boolean;
+}
+
+/**
+ * Formatuje historię czatu do wiadomości user/assistant
+ * Wiadomości od AI dostają prefix z nadawcą, żeby model wiedział kto mówił
+ */
+export function formatHistoryMessages(history: ChatMessage[]): AIProviderMessage[] {
+  return history.map(msg => {
+    if (msg.sender === 'user') {
+      return { role: 'user' as const, content: msg.content };
+    }
+    return { role: 'assistant' as const, content: `[${msg.sender.toUpperCase()}]: ${msg.content}` };
+  });
+}
+
+/**
+ * Formatuje preferencje do czytelnego formatu dla AI
+ */
+export function formatPreferences(preferences: Preference[]): string {
+  if (!preferences || preferences.length === 0) return '';
+
+  const lines = preferences.map(p => `- ${p.key}: ${p.value}`);
+  return `\n\nPreferencje użytkownika (pamiętaj o nich!):\n${lines.join('\n')}`;
+}
+
+/**
+ * Formatuje tech stack do czytelnego formatu
+ */
+export function formatTechStack(techStack?: string[]): string {
+  if (!techStack || techStack.length === 0) return '';
+  return `\nProjekt używa: ${techStack.join(', ')}`;
+}
+
+/**
+ * Formatuje wpisy pamięci semantycznej z etykietami do cytowania
+ */
+export function formatMemories(memories?: MemoryCitation[]): string {
+  if (!memories || memories.length === 0) return '';
+
+  const entries = memories.map(m => `[${m.ref}] (${MEMORY_CONTENT_LABELS[m.content_type]}) ${m.excerpt}`);
+  return `\n\n=== PAMIĘĆ PROJEKTU (powiązane wpisy - korzystając z nich, cytuj je jako [P1], [P2]...) ===\n${entries.join('\n\n')}\n=== KONIEC PAMIĘCI ===`;
+}
+
+/**
+ * Opisuje projekt z zadaną szczegółowością
+ */
+function formatProject(project: NonNullable<AIContext['project']>, level: ProjectDetailLevel): string {
+  switch (level) {
+    case 'full':
+      return `\n\nKontekst projektu:
+- Nazwa: ${project.name}
+- Opis: ${project.description || 'brak'}
+- Repo: ${project.repo_url || 'brak'}`;
+    case 'short':
+      return `\n\nKontekst projektu: ${project.name}${project.description ? ` - ${project.description}` : ''}`;
+    case 'name':
+      return `\nProjekt: ${project.name}`;
+  }
+}
+
+/**
+ * Buduje kontekst z informacjami o projekcie i preferencjach
+ */
+export function buildContextInfo(context?: AIContext, options: ContextInfoOptions = {}): string {
+  if (!context) return '';
+
+  const { projectDetails = 'full', includeEditor = true } = options;
+  let info = '';
+
+  if (context.project) {
+    info += formatProject(context.project, projectDetails);
+
+    // Dodaj tech stack projektu
+    info += formatTechStack(context.project.tech_stack);
+  }
+
+  // Zasady, style guide i decyzje projektu (przygotowane w limicie tokenów projektu)
+  if (context.projectKnowledge) {
+    info += `\n\n${context.projectKnowledge}`;
+  }
+
+  // Wpisy pamięci podobne do wiadomości (wyszukiwanie semantyczne)
+  info += formatMemories(context.memories);
+
+  // Dodaj pełny kontekst projektu (struktura + pliki) jeśli załadowany
+  if (context.projectContext) {
+    info += `\n\n=== ZAŁADOWANY KONTEKST PROJEKTU ===\n${context.projectContext}\n=== KONIEC KONTEKSTU ===`;
+  }
+
+  if (includeEditor && context.editorContent) {
+    info += `\n\nAktualny kod w edytorze:\n\`\`\`\n${context.editorContent}\n\`\`\``;
+  }
+
+  // Dodaj preferencje użytkownika
+  if (context.preferences && context.preferences.length > 0) {
+    info += formatPreferences(context.preferences);
+  }
+
+  // Starsza część rozmowy (poza historią wiadomości) jako podsumowanie
+  if (context.historySummary) {
+    info += `\n\nPodsumowanie wcześniejszej części rozmowy:\n${context.historySummary}`;
+  }
+
+  return info;
+}
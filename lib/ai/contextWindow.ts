@@ -0,0 +1,256 @@
+/**
+ * Budżet okna kontekstu
+ * Szacuje tokeny historii, preferencji, kontekstu projektu i edytora względem okna modelu
+ * Starsze wiadomości, które się nie mieszczą, trafiają do kroczącego podsumowania rozmowy
+ */
+
+import {
+  AI_MODEL_CONTEXT_WINDOWS,
+  AI_DEFAULT_CONTEXT_WINDOW,
+  AI_CONTEXT_RESERVED_TOKENS,
+  CHARS_PER_TOKEN,
+  CHAT_HISTORY_LIMIT,
+  CONTEXT_MIN_RECENT_MESSAGES,
+} from '../constants';
+import { updateConversation, saveLLMResponse } from '../supabase';
+import { buildContextInfo } from './context';
+import { getProviderForRole } from './registry';
+import { calculateCost } from './pricing';
+import type { AIContext, AIProvider, ChatMessage } from '../types';
+
+// Narzut tokenów na każdą wiadomość (rola, prefiks nadawcy)
+const MESSAGE_OVERHEAD_TOKENS = 8;
+
+// Poniżej tego limitu przycięty kontekst nie ma sensu - pomijamy go w całości
+const MIN_TRIMMED_TOKENS = 500;
+
+// Maksymalna długość podsumowania (tokeny odpowiedzi)
+const SUMMARY_MAX_TOKENS = 1024;
+
+const SUMMARY_SYSTEM_PROMPT = `Prowadzisz notatki z rozmowy użytkownika z zespołem AI (programowanie).
+Zaktualizuj podsumowanie o nowe wiadomości.
+
+ZASADY:
+- Zachowaj ustalenia, decyzje, wymagania użytkownika, nazwy plików i otwarte kwestie
+- Pomiń powitania, pochwały i powtórzenia
+- Bez bloków kodu (najwyżej nazwy plików, funkcji, komponentów)
+- Maksymalnie ~300 słów, w punktach
+- Zwróć tylko podsumowanie, bez wstępów`;
+
+// Fragmenty kontekstu, które mogą zostać przycięte
+type TrimmableKey = 'projectContext' | 'editorContent';
+
+// Kontekst dopasowany do budżetu
+export interface ContextFit {
+  context: AIContext;
+  overflow: ChatMessage[];   // Starsze wiadomości poza oknem - do podsumowania
+  trimmed: TrimmableKey[];   // Przycięte fragmenty kontekstu
+  estimatedTokens: number;
+}
+
+/**
+ * Szacuje liczbę tokenów tekstu (bez tokenizera konkretnego modelu)
+ */
+export function estimateTokens(text: string | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+function estimateMessages(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Okno kontekstu providera - z konfiguracji albo wg prefiksu modelu
+ */
+export function getContextWindow(provider: AIProvider): number {
+  if (provider.contextWindow) return provider.contextWindow;
+
+  const match = Object.keys(AI_MODEL_CONTEXT_WINDOWS)
+    .filter(prefix => provider.model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? AI_MODEL_CONTEXT_WINDOWS[match] : AI_DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Przycina tekst do limitu tokenów - z jawną informacją dla modelu
+ */
+function trimToTokens(text: string, tokens: number): string {
+  const maxChars = Math.floor(tokens * CHARS_PER_TOKEN);
+  const omitted = text.length - maxChars;
+  return `${text.slice(0, maxChars)}\n\n[... pominięto ${omitted} znaków - kontekst nie mieści się w oknie modelu ...]`;
+}
+
+/**
+ * Dopasowuje kontekst do budżetu tokenów
+ * Kolejność: preferencje i projekt → najnowsze wiadomości → kontekst projektu i edytor → starsza historia
+ */
+export function fitContext(context: AIContext, budget: number): ContextFit {
+  const history = context.history;
+  const fixed = estimateTokens(
+    buildContextInfo({ ...context, history: [], projectContext: undefined, editorContent: undefined })
+  );
+  let remaining = budget - fixed;
+
+  // Najnowsze wiadomości zawsze dosłownie
+  let keepFrom = Math.max(0, history.length - CONTEXT_MIN_RECENT_MESSAGES);
+  remaining -= estimateMessages(history.slice(keepFrom));
+
+  // Załadowany kontekst projektu i kod z edytora - przycięte gdy się nie mieszczą
+  const fitted: AIContext = { ...context };
+  const trimmed: TrimmableKey[] = [];
+  for (const key of ['projectContext', 'editorContent'] as TrimmableKey[]) {
+    const text = context[key];
+    const cost = estimateTokens(text);
+    if (!text || cost <= remaining) {
+      remaining -= cost;
+      continue;
+    }
+
+    trimmed.push(key);
+    fitted[key] = remaining >= MIN_TRIMMED_TOKENS ? trimToTokens(text, remaining) : undefined;
+    remaining -= estimateTokens(fitted[key]);
+  }
+
+  // Starsza historia - od najnowszej, do limitu wiadomości i budżetu
+  while (keepFrom > 0 && history.length - keepFrom < CHAT_HISTORY_LIMIT) {
+    const cost = estimateMessages([history[keepFrom - 1]]);
+    if (cost > remaining) break;
+    remaining -= cost;
+    keepFrom--;
+  }
+
+  fitted.history = history.slice(keepFrom);
+
+  return {
+    context: fitted,
+    overflow: history.slice(0, keepFrom),
+    trimmed,
+    estimatedTokens: budget - remaining,
+  };
+}
+
+/**
+ * Dzieli wiadomości na porcje mieszczące się w oknie providera podsumowującego
+ */
+function chunkMessages(messages: ChatMessage[], maxTokens: number): ChatMessage[][] {
+  const chunks: ChatMessage[][] = [];
+  let current: ChatMessage[] = [];
+  let currentTokens = 0;
+
+  for (const message of messages) {
+    const tokens = estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+    // Pojedyncza bardzo długa wiadomość - przycięta do porcji
+    const fitted = tokens > maxTokens
+      ? { ...message, content: trimToTokens(message.content, maxTokens - MESSAGE_OVERHEAD_TOKENS) }
+      : message;
+
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(fitted);
+    currentTokens += Math.min(tokens, maxTokens);
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Dopisuje wiadomości do kroczącego podsumowania rozmowy (porcjami)
+ */
+export async function summarizeHistory(
+  previousSummary: string | undefined,
+  messages: ChatMessage[],
+  provider: AIProvider,
+  conversationId: string,
+  projectId?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  let summary = previousSummary || '';
+  const chunkTokens = Math.floor((getContextWindow(provider) - AI_CONTEXT_RESERVED_TOKENS) / 2);
+
+  for (const chunk of chunkMessages(messages, chunkTokens)) {
+    const transcript = chunk.map(m => `[${m.sender.toUpperCase()}]: ${m.content}`).join('\n\n');
+    const prompt = `${summary ? `Dotychczasowe podsumowanie:\n${summary}\n\n` : ''}Nowe wiadomości:\n${transcript}\n\nZwróć zaktualizowane podsumowanie:`;
+
+    const result = await provider.complete({
+      system: SUMMARY_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: SUMMARY_MAX_TOKENS,
+      signal,
+    });
+    summary = result.content.trim() || summary;
+
+    // Koszt podsumowania liczy się do zużycia rozmowy (bez auto-save wzorców)
+    const { tokensUsed, inputTokens = 0, outputTokens = 0, model } = result.metadata;
+    await saveLLMResponse({
+      conversation_id: conversationId,
+      project_id: projectId,
+      llm_source: result.metadata.provider || provider.id,
+      prompt_used: 'Podsumowanie historii rozmowy',
+      response: summary.slice(0, 5000),
+      tokens_used: tokensUsed,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      cost_usd: calculateCost(model, inputTokens, outputTokens),
+      metadata: { provider: result.metadata.provider, model, attempts: result.metadata.attempts },
+    });
+  }
+
+  return summary;
+}
+
+/**
+ * Przygotowuje kontekst pod najmniejsze okno spośród providerów pipeline
+ * Wiadomości poza oknem są podsumowywane, a podsumowanie zapisywane w rozmowie
+ * summaryUntil - zapisany zakres podsumowania (starszego nie nadpisujemy, np. przy ponownym generowaniu)
+ */
+export async function prepareContextWindow(
+  conversationId: string,
+  context: AIContext,
+  providers: AIProvider[],
+  options: { summaryUntil?: string | null; projectId?: string; signal?: AbortSignal } = {}
+): Promise<AIContext> {
+  const window = Math.min(...providers.map(getContextWindow));
+  const budget = Math.max(window - AI_CONTEXT_RESERVED_TOKENS, Math.floor(window / 2));
+  const fit = fitContext(context, budget);
+
+  if (fit.trimmed.length > 0) {
+    console.log(`[CONTEXT] Przycięto ${fit.trimmed.join(', ')} do okna ${window} tokenów`);
+  }
+  if (fit.overflow.length === 0) {
+    return fit.context;
+  }
+
+  console.log(`[CONTEXT] ${fit.overflow.length} starszych wiadomości poza oknem (${window} tokenów) - podsumowuję`);
+
+  try {
+    const summary = await summarizeHistory(
+      context.historySummary,
+      fit.overflow,
+      getProviderForRole('architect'),
+      conversationId,
+      options.projectId,
+      options.signal
+    );
+    const summaryUntil = fit.overflow[fit.overflow.length - 1].created_at;
+
+    if (!options.summaryUntil || summaryUntil > options.summaryUntil) {
+      try {
+        await updateConversation(conversationId, { summary, summary_until: summaryUntil });
+      } catch (error) {
+        console.error('[CONTEXT] Błąd zapisu podsumowania rozmowy:', error);
+      }
+    }
+
+    return { ...fit.context, historySummary: summary };
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    // Bez podsumowania starsze wiadomości wypadają z kontekstu - odnotuj to
+    console.error(`[CONTEXT] Błąd podsumowania - pomijam ${fit.overflow.length} starszych wiadomości:`, error);
+    return fit.context;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Deduplikacja auto-save po stronie serwera
+ * Szuka istniejącego rekordu pamięci projektu podobnego do nowego elementu:
+ * podobieństwo tekstu, a opcjonalnie (DEDUP_EMBEDDINGS=true) także embeddingi z serwisu embeddingów
+ */
+
+import { DEDUP_EMBEDDING_THRESHOLD, DEDUP_EMBEDDING_CACHE_SIZE } from '../constants';
+import { findDuplicate, getDedupText, mergeRecordFields } from '../dedup';
+import { getMemoryRecords, updateMemoryRecord } from '../supabase';
+import { cosineSimilarity, getEmbeddingService } from './embeddings';
+import type { AutoSaveAction, DedupItemType, EmbeddingService, ReviewItemRecords } from '../types';
+
+// Wektory rekordów pamięci: klucz serwis + rodzaj + id, tekst do wykrycia edycji rekordu
+// Map zachowuje kolejność wstawiania - pierwszy wpis to najdawniej użyty
+const recordVectors = new Map<string, { text: string; vector: number[] }>();
+
+function embeddingsEnabled(): boolean {
+  return process.env.DEDUP_EMBEDDINGS === 'true';
+}
+
+/**
+ * Embeduje kandydata i rekordy, których wektora nie ma w cache (albo tekst rekordu się zmienił)
+ * Każdy element odpowiedzi kosztuje embedding kandydata, a nie całej pamięci projektu
+ */
+async function embedWithCache<T extends DedupItemType>(
+  service: EmbeddingService,
+  type: T,
+  candidate: Partial<ReviewItemRecords[T]>,
+  records: ReviewItemRecords[T][]
+): Promise<{ query: number[]; vectors: number[][] }> {
+  const keys = records.map(record => `${service.id}:${type}:${record.id}`);
+  const texts = records.map(record => getDedupText(type, record));
+  const missing = records
+    .map((_, index) => index)
+    .filter(index => recordVectors.get(keys[index])?.text !== texts[index]);
+
+  const [query, ...embedded] = await service.embed([
+    getDedupText(type, candidate),
+    ...missing.map(index => texts[index]),
+  ]);
+  missing.forEach((index, position) => {
+    recordVectors.set(keys[index], { text: texts[index], vector: embedded[position] });
+  });
+
+  const vectors = keys.map(key => {
+    const entry = recordVectors.get(key)!;
+    // Odświeżenie pozycji - użyty wektor trafia na koniec kolejki usuwania
+    recordVectors.delete(key);
+    recordVectors.set(key, entry);
+    return entry.vector;
+  });
+
+  for (const key of recordVectors.keys()) {
+    if (recordVectors.size <= DEDUP_EMBEDDING_CACHE_SIZE) break;
+    recordVectors.delete(key);
+  }
+
+  return { query, vectors };
+}
+
+/**
+ * Najbardziej podobny rekord wg embeddingów (null - brak powyżej progu albo błąd API)
+ */
+async function findDuplicateByEmbedding<T extends DedupItemType>(
+  type: T,
+  candidate: Partial<ReviewItemRecords[T]>,
+  records: ReviewItemRecords[T][]
+): Promise<ReviewItemRecords[T] | null> {
+  const service = getEmbeddingService();
+  if (!service) return null;
+
+  try {
+    const { query, vectors } = await embedWithCache(service, type, candidate, records);
+
+    let best: ReviewItemRecords[T] | null = null;
+    let bestSimilarity = DEDUP_EMBEDDING_THRESHOLD;
+    for (const [index, vector] of vectors.entries()) {
+      const similarity = cosineSimilarity(query, vector);
+      if (similarity >= bestSimilarity) {
+        best = records[index];
+        bestSimilarity = similarity;
+      }
+    }
+    return best;
+  } catch (error) {
+    console.error('[AUTO-SAVE] Błąd embeddingów przy deduplikacji:', error);
+    return null;
+  }
+}
+
+/**
+ * Istniejący rekord projektu, który jest duplikatem nowego elementu (także odrzucony)
+ */
+export async function findExistingRecord<T extends DedupItemType>(
+  type: T,
+  projectId: string,
+  candidate: Partial<ReviewItemRecords[T]>
+): Promise<ReviewItemRecords[T] | null> {
+  const records = await getMemoryRecords(type, projectId);
+  if (records.length === 0) return null;
+
+  const match = findDuplicate(type, candidate, records);
+  if (match) return match.record;
+
+  // Tech stack porównujemy tylko po nazwie - embeddingi nic tu nie wnoszą
+  if (!embeddingsEnabled() || type === 'tech') return null;
+  return findDuplicateByEmbedding(type, candidate, records);
+}
+
+/**
+ * Zapisuje element albo łączy go z istniejącym duplikatem zamiast wstawiać kopię
+ * Oczekujący duplikat jest uzupełniany, zaakceptowany tylko powiązany (bez zmian poza przeglądem),
+ * a odrzucony oznacza, że elementu nie proponujemy ponownie
+ */
+export async function saveDeduplicated<T extends DedupItemType>(
+  type: T,
+  projectId: string,
+  candidate: Partial<ReviewItemRecords[T]>,
+  save: () => Promise<{ id: string } | null>
+): Promise<{ id: string; action: AutoSaveAction } | null> {
+  const existing = await findExistingRecord(type, projectId, candidate);
+
+  if (!existing) {
+    const saved = await save();
+    return saved ? { id: saved.id, action: 'created' } : null;
+  }
+
+  switch (existing.review_status || 'accepted') {
+    case 'rejected':
+      console.log(`[AUTO-SAVE] ${type} podobny do odrzuconego ${existing.id}, pomijam`);
+      return null;
+
+    case 'pending': {
+      const changes = mergeRecordFields(type, existing, [candidate]);
+      if (Object.keys(changes).length > 0 && await updateMemoryRecord(type, existing.id, changes)) {
+        console.log(`[AUTO-SAVE] Uzupełniono oczekujący duplikat ${type}:`, existing.id);
+        return { id: existing.id, action: 'updated' };
+      }
+      return { id: existing.id, action: 'linked' };
+    }
+
+    default:
+      console.log(`[AUTO-SAVE] ${type} już zapisany (${existing.id}), łączę`);
+      return { id: existing.id, action: 'linked' };
+  }
+}
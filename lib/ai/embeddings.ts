@@ -0,0 +1,127 @@
+/**
+ * Serwis embeddingów - pamięć semantyczna i deduplikacja
+ * EMBEDDINGS_PROVIDER: openai (domyślnie, gdy jest OPENAI_API_KEY), local (serwer zgodny z OpenAI API,
+ * np. Ollama) albo hash (deterministyczny, bez sieci - testy i development); bez konfiguracji - wyłączony
+ */
+
+import { HASH_EMBEDDING_DIMENSIONS } from '../constants';
+import { normalizeText } from '../dedup';
+import { embedTexts, EMBEDDING_MODEL } from './gpt';
+import type { EmbeddingProviderType, EmbeddingService } from '../types';
+
+// Domyślny lokalny serwer i model (Ollama)
+const LOCAL_EMBEDDINGS_BASE_URL = 'http://localhost:11434/v1';
+const LOCAL_EMBEDDING_MODEL = 'nomic-embed-text';
+
+// Serwis z bieżącej konfiguracji (undefined - jeszcze nie utworzony)
+let cachedService: EmbeddingService | null | undefined;
+
+/**
+ * Hash FNV-1a (32 bit)
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministyczny embedding: słowa i trygramy rzutowane hashem na wektor (znormalizowany L2)
+ * Oddaje podobieństwo leksykalne, nie znaczeniowe - zastępstwo modelu w testach i bez dostępu do API
+ */
+export function hashEmbedding(text: string, dimensions: number = HASH_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = normalizeText(text).split(' ').filter(Boolean);
+
+  const features = words.flatMap(word => {
+    const padded = ` ${word} `;
+    const grams = [];
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.push(`#${padded.slice(i, i + 3)}`);
+    }
+    return [word, ...grams];
+  });
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Tworzy serwis embeddingów danego rodzaju
+ */
+export function createEmbeddingService(type: EmbeddingProviderType, model?: string): EmbeddingService {
+  switch (type) {
+    case 'openai': {
+      const openaiModel = model || EMBEDDING_MODEL;
+      return {
+        id: `openai:${openaiModel}`,
+        embed: texts => embedTexts(texts, openaiModel),
+      };
+    }
+    case 'local': {
+      const localModel = model || LOCAL_EMBEDDING_MODEL;
+      const baseURL = process.env.EMBEDDINGS_BASE_URL || LOCAL_EMBEDDINGS_BASE_URL;
+      return {
+        id: `local:${localModel}`,
+        embed: texts => embedTexts(texts, localModel, baseURL),
+      };
+    }
+    case 'hash':
+      return {
+        id: `hash:${HASH_EMBEDDING_DIMENSIONS}`,
+        embed: async texts => texts.map(text => hashEmbedding(text)),
+      };
+  }
+}
+
+/**
+ * Rodzaj serwisu z konfiguracji (null - embeddingi wyłączone)
+ */
+function resolveProviderType(): EmbeddingProviderType | null {
+  const configured = process.env.EMBEDDINGS_PROVIDER;
+
+  if (configured === 'none') return null;
+  if (configured === 'openai' || configured === 'local' || configured === 'hash') return configured;
+  if (configured) {
+    console.error(`[EMBEDDINGS] Nieznany EMBEDDINGS_PROVIDER "${configured}" - embeddingi wyłączone`);
+    return null;
+  }
+  return process.env.OPENAI_API_KEY ? 'openai' : null;
+}
+
+/**
+ * Serwis embeddingów z konfiguracji środowiska (null - wyłączony)
+ */
+export function getEmbeddingService(): EmbeddingService | null {
+  if (cachedService === undefined) {
+    const type = resolveProviderType();
+    cachedService = type ? createEmbeddingService(type, process.env.EMBEDDINGS_MODEL) : null;
+    if (cachedService) {
+      console.log('[EMBEDDINGS] Serwis embeddingów:', cachedService.id);
+    }
+  }
+  return cachedService;
+}
+
+/**
+ * Podobieństwo cosinusowe dwóch wektorów
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -1,21 +1,158 @@
 /**
  * Moduł Gemini - specjalista UI/UX
- * Używa Google Generative AI SDK do komunikacji z Gemini
+ * Provider Google Generative AI + funkcje roli UI/UX
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { ChatMessage, AIContext, Preference, AIResponseWithMetadata } from '../types';
-
-// Leniwa inicjalizacja klienta Google AI
-let genaiClient: GoogleGenerativeAI | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genaiClient) {
-    genaiClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { GoogleGenerativeAI, FunctionCallingMode, SchemaType } from '@google/generative-ai';
+import type { Content, FunctionDeclaration, Part } from '@google/generative-ai';
+import { AI_PERSONALITIES, AI_TOOL_MAX_ROUNDS } from '../constants';
+import { MEMORY_SIDECAR_INSTRUCTIONS } from '../memorySidecar';
+import { buildContextInfo } from './context';
+import type {
+  ChatMessage,
+  AIContext,
+  AIResponseWithMetadata,
+  AICallOptions,
+  AIProvider,
+  AIProviderConfig,
+  AIProviderRequest,
+  AIPersonality,
+} from '../types';
+
+// Domyślny model Gemini
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Klienci Google AI per klucz API (leniwa inicjalizacja)
+const genaiClients = new Map<string, GoogleGenerativeAI>();
+
+function getGenAI(config: AIProviderConfig): GoogleGenerativeAI {
+  const apiKeyEnv = config.apiKeyEnv || 'GEMINI_API_KEY';
+
+  let client = genaiClients.get(apiKeyEnv);
+  if (!client) {
+    client = new GoogleGenerativeAI(process.env[apiKeyEnv] || '');
+    genaiClients.set(apiKeyEnv, client);
   }
-  return genaiClient;
+  return client;
+}
+
+/**
+ * Tworzy provider oparty o Google Generative AI (streaming)
+ */
+export function createGeminiProvider(config: AIProviderConfig, personality: AIPersonality): AIProvider {
+  return {
+    id: config.id,
+    type: 'gemini',
+    model: config.model,
+    personality,
+    contextWindow: config.contextWindow,
+    async complete(request: AIProviderRequest): Promise<AIResponseWithMetadata> {
+      // Parametry bez właściwości Gemini odrzuca - narzędzie bez argumentów ich nie deklaruje
+      const functionDeclarations: FunctionDeclaration[] | undefined = request.tools?.definitions.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        ...(Object.keys(tool.parameters.properties).length > 0 && {
+          parameters: {
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(
+              Object.entries(tool.parameters.properties).map(([name, param]) => [
+                name,
+                { type: SchemaType.STRING, description: param.description },
+              ])
+            ),
+            required: tool.parameters.required,
+          },
+        }),
+      }));
+
+      const model = getGenAI(config).getGenerativeModel({
+        model: config.model,
+        systemInstruction: request.system,
+        generationConfig: { maxOutputTokens: request.maxTokens || config.maxTokens },
+        ...(functionDeclarations && { tools: [{ functionDeclarations }] }),
+      });
+
+      const contents: Content[] = request.messages.map(msg => ({
+        role: msg.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: msg.content }],
+      }));
+
+      let content = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      // Pętla narzędzi - model wywołuje narzędzia, wyniki wracają w tej samej turze
+      for (let round = 1; ; round++) {
+        const lastRound = round >= AI_TOOL_MAX_ROUNDS;
+        const separator = content ? '\n\n' : '';
+
+        const result = await model.generateContentStream({
+          contents,
+          ...(functionDeclarations && lastRound && {
+            toolConfig: { functionCallingConfig: { mode: FunctionCallingMode.NONE } },
+          }),
+        }, { signal: request.signal });
+
+        // Przekazuj fragmenty na bieżąco, pełna odpowiedź (z usage) po zakończeniu streamu
+        let text = '';
+        for await (const chunk of result.stream) {
+          const delta = chunk.text();
+          if (delta) {
+            if (!text && separator) request.onDelta?.(separator);
+            text += delta;
+            request.onDelta?.(delta);
+          }
+        }
+
+        const response = await result.response;
+        if (text) content += separator + text;
+
+        // Gemini zwraca usage metadata jeśli jest dostępna
+        inputTokens += response.usageMetadata?.promptTokenCount || 0;
+        outputTokens += response.usageMetadata?.candidatesTokenCount || 0;
+
+        const calls = response.functionCalls() || [];
+        if (!request.tools || lastRound || calls.length === 0) break;
+
+        const responses: Part[] = [];
+        for (const [index, call] of calls.entries()) {
+          const toolResult = await request.tools.execute({
+            id: `${call.name}-${round}-${index}`,
+            name: call.name,
+            input: (call.args || {}) as Record<string, unknown>,
+          });
+          responses.push({ functionResponse: { name: call.name, response: { content: toolResult.content } } });
+        }
+        contents.push(
+          { role: 'model', parts: response.candidates?.[0]?.content?.parts || [] },
+          { role: 'function', parts: responses }
+        );
+      }
+
+      const tokensUsed = inputTokens + outputTokens;
+
+      console.log(`[${config.id.toUpperCase()}] Tokeny: input=${inputTokens}, output=${outputTokens}, total=${tokensUsed}`);
+
+      return {
+        content,
+        metadata: {
+          tokensUsed,
+          inputTokens,
+          outputTokens,
+          detectedPatterns: [],
+          autoSaved: [],
+        },
+      };
+    },
+  };
 }
 
+// Wbudowany provider Gemini
+export const geminiProvider = createGeminiProvider(
+  { id: 'gemini', type: 'gemini', model: GEMINI_MODEL },
+  AI_PERSONALITIES.gemini
+);
+
 // System prompt dla Gemini jako specjalisty UI/UX
 const GEMINI_SYSTEM_PROMPT = `Jesteś Gemini - specjalistą UI/UX w zespole AI, ale TAKŻE patrzysz na kod.
 
@@ -27,10 +164,11 @@ TWOJA ROLA:
 - TAKŻE sprawdzasz kod - jeśli widzisz bug, POWIEDZ
 
 DOSTĘP DO PLIKÓW PROJEKTU:
-Masz dostęp do plików projektu użytkownika. Możesz poprosić o:
-- [POKAŻ STRUKTURĘ] - zobaczysz drzewo plików projektu
-- [POKAŻ PLIK: ścieżka/do/pliku] - zobaczysz zawartość konkretnego pliku
-Użytkownik wklei ci zawartość. Używaj tego do oceny spójności UI/UX w projekcie.
+Masz narzędzia do plików projektu użytkownika:
+- show_structure - drzewo plików projektu
+- list_directory - zawartość katalogu
+- read_file - zawartość konkretnego pliku
+Wywołuj je sam, zamiast prosić użytkownika o wklejenie plików. Używaj ich do oceny spójności UI/UX w projekcie.
 
 NA CO ZWRACASZ UWAGĘ:
 - Kontrast kolorów i czytelność
@@ -64,7 +202,7 @@ ZAKAZANE FRAZY:
 - Jakiekolwiek komplementy`;
 
 /**
- * Formatuje historię dla Gemini (prosty string, Gemini nie ma tak zaawansowanego API)
+ * Formatuje historię dla Gemini (jako tekst w jednej wiadomości - ostatnie 10 wpisów)
  */
 function formatHistoryForGemini(history: ChatMessage[]): string {
   if (history.length === 0) return '';
@@ -77,109 +215,46 @@ function formatHistoryForGemini(history: ChatMessage[]): string {
   return `\nHistoria rozmowy:\n${formattedHistory}\n\n`;
 }
 
-/**
- * Formatuje preferencje do czytelnego formatu dla AI
- */
-function formatPreferences(preferences: Preference[]): string {
-  if (!preferences || preferences.length === 0) return '';
-
-  const lines = preferences.map(p => `- ${p.key}: ${p.value}`);
-  return `\n\nPreferencje użytkownika:\n${lines.join('\n')}`;
-}
-
-/**
- * Formatuje tech stack do czytelnego formatu
- */
-function formatTechStack(techStack?: string[]): string {
-  if (!techStack || techStack.length === 0) return '';
-  return `\nProjekt używa: ${techStack.join(', ')}`;
-}
-
-/**
- * Buduje kontekst z informacjami o projekcie
- */
-function buildContextInfo(context?: AIContext): string {
-  if (!context) return '';
-
-  let info = '';
-
-  if (context.project) {
-    info += `\nProjekt: ${context.project.name}`;
-    // Dodaj tech stack projektu
-    info += formatTechStack(context.project.tech_stack);
-  }
-
-  // Dodaj pełny kontekst projektu (struktura + pliki) jeśli załadowany
-  if (context.projectContext) {
-    info += `\n\n=== ZAŁADOWANY KONTEKST PROJEKTU ===\n${context.projectContext}\n=== KONIEC KONTEKSTU ===`;
-  }
-
-  // Dodaj preferencje użytkownika
-  if (context.preferences && context.preferences.length > 0) {
-    info += formatPreferences(context.preferences);
-  }
-
-  return info;
-}
-
 /**
  * Wywołuje Gemini do oceny UI/UX
- * Zwraca odpowiedź z metadanymi o tokenach
+ * Streamuje fragmenty przez onDelta, zwraca odpowiedź z metadanymi o tokenach
  */
 export async function callGemini(
   userMessage: string,
   claudeResponse: string,
   gptResponse: string,
   history: ChatMessage[],
-  context?: AIContext
+  context?: AIContext,
+  options: AICallOptions = {}
 ): Promise<AIResponseWithMetadata> {
-  const contextInfo = buildContextInfo(context);
-  const historyContext = formatHistoryForGemini(history);
+  const provider = options.provider || geminiProvider;
+  const contextInfo = buildContextInfo(context, { projectDetails: 'name', includeEditor: false });
 
-  const prompt = `${GEMINI_SYSTEM_PROMPT}
-${contextInfo}
-${historyContext}
+  // W równoległym review GPT jeszcze nie skończył - Gemini ocenia samą odpowiedź Claude'a
+  const gptSection = gptResponse ? `\nGPT skomentował:\n${gptResponse}\n` : '';
 
+  const prompt = `${formatHistoryForGemini(history)}
 User napisał: ${userMessage}
 
 Claude odpowiedział:
 ${claudeResponse}
-
-GPT skomentował:
-${gptResponse}
-
+${gptSection}
 Daj swój feedback z perspektywy UI/UX. Bądź konkretny i praktyczny:`;
 
   try {
-
-    const model = getGenAI().getGenerativeModel({ model: 'gemini-2.5-flash' });
-
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-
-    const content = response.text() || 'Nie mogłem wygenerować feedbacku UI/UX.';
-
-    // Gemini zwraca usage metadata jeśli jest dostępna
-    const usageMetadata = response.usageMetadata;
-    const inputTokens = usageMetadata?.promptTokenCount || 0;
-    const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-    const tokensUsed = usageMetadata?.totalTokenCount || (inputTokens + outputTokens);
-
-    console.log(`[GEMINI] Tokeny: input=${inputTokens}, output=${outputTokens}, total=${tokensUsed}`);
-
-    return {
-      content,
-      metadata: {
-        tokensUsed,
-        inputTokens,
-        outputTokens,
-        detectedPatterns: [],
-        autoSaved: [],
-      },
-    };
+    const result = await provider.complete({
+      system: (options.systemPrompt || GEMINI_SYSTEM_PROMPT) + contextInfo + MEMORY_SIDECAR_INSTRUCTIONS,
+      messages: [{ role: 'user', content: prompt }],
+      onDelta: options.onDelta,
+      onReset: options.onReset,
+      signal: options.signal,
+      tools: options.tools,
+    });
+    return { ...result, content: result.content || 'Nie mogłem wygenerować feedbacku UI/UX.' };
   } catch (error) {
     console.error('Błąd Gemini:', error);
-    throw new Error(`Błąd komunikacji z Gemini: ${error instanceof Error ? error.message : 'nieznany błąd'}`);
+    // Przyczyna zachowuje historię prób (AIProviderError) do zapisu nieudanego wywołania
+    throw new Error(`Błąd komunikacji z ${provider.personality.displayName}: ${error instanceof Error ? error.message : 'nieznany błąd'}`, { cause: error });
   }
 }
 
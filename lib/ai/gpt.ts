@@ -1,27 +1,177 @@
-// ========================================
-// ZAMIEŃ CAŁY PLIK: lib/ai/gpt.ts
-// ========================================
-
 /**
  * Moduł GPT - code reviewer i generator pomysłów
- * Używa OpenAI SDK do komunikacji z GPT-4
+ * Provider OpenAI (także serwery zgodne z OpenAI API) + funkcje roli reviewera
  */
 
 import OpenAI from 'openai';
-import type { ChatMessage, AIContext, Preference, AIResponseWithMetadata } from '../types';
-
-// Leniwa inicjalizacja klienta OpenAI
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+import { AI_PERSONALITIES, AI_TOOL_MAX_ROUNDS } from '../constants';
+import { MEMORY_SIDECAR_INSTRUCTIONS } from '../memorySidecar';
+import { buildContextInfo, formatHistoryMessages } from './context';
+import type {
+  ChatMessage,
+  AIContext,
+  AIResponseWithMetadata,
+  AICallOptions,
+  AIProvider,
+  AIProviderConfig,
+  AIProviderRequest,
+  AIPersonality,
+} from '../types';
+
+// Domyślny model GPT
+const GPT_MODEL = 'gpt-4o';
+
+// Domyślny model embeddingów (pamięć semantyczna i deduplikacja)
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Klienci OpenAI per klucz API i baseURL (leniwa inicjalizacja)
+const openaiClients = new Map<string, OpenAI>();
+
+function getOpenAI(config: AIProviderConfig): OpenAI {
+  const apiKeyEnv = config.apiKeyEnv || 'OPENAI_API_KEY';
+  const cacheKey = `${apiKeyEnv}|${config.baseURL || ''}`;
+
+  let client = openaiClients.get(cacheKey);
+  if (!client) {
+    client = new OpenAI({
+      // Lokalne serwery (np. Ollama, LM Studio) nie wymagają klucza, ale SDK tak
+      apiKey: process.env[apiKeyEnv] || (config.baseURL ? 'not-needed' : undefined),
+      baseURL: config.baseURL,
+      // Ponowienia obsługuje warstwa odporności (resilience.ts)
+      maxRetries: 0,
     });
+    openaiClients.set(cacheKey, client);
   }
-  return openaiClient;
+  return client;
+}
+
+/**
+ * Tworzy provider oparty o OpenAI Chat Completions API (streaming)
+ * Działa z OpenAI oraz każdym serwerem zgodnym z tym API (baseURL)
+ */
+export function createOpenAIProvider(config: AIProviderConfig, personality: AIPersonality): AIProvider {
+  return {
+    id: config.id,
+    type: 'openai',
+    model: config.model,
+    personality,
+    contextWindow: config.contextWindow,
+    async complete(request: AIProviderRequest): Promise<AIResponseWithMetadata> {
+      const client = getOpenAI(config);
+      const tools = request.tools?.definitions.map(tool => ({
+        type: 'function' as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }));
+      const messages: OpenAI.ChatCompletionMessageParam[] = [
+        { role: 'system', content: request.system },
+        ...request.messages,
+      ];
+
+      let content = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      // Pętla narzędzi - model wywołuje narzędzia, wyniki wracają w tej samej turze
+      for (let round = 1; ; round++) {
+        const lastRound = round >= AI_TOOL_MAX_ROUNDS;
+        const separator = content ? '\n\n' : '';
+
+        const stream = await client.chat.completions.create({
+          model: config.model,
+          max_tokens: request.maxTokens || config.maxTokens || 2048,
+          messages,
+          ...(tools && { tools, tool_choice: lastRound ? 'none' as const : 'auto' as const }),
+          stream: true,
+          stream_options: { include_usage: true },
+        }, { signal: request.signal });
+
+        // Zbieraj fragmenty odpowiedzi i wywołań narzędzi - usage przychodzi w ostatnim chunku
+        let text = '';
+        const toolCalls: { id: string; name: string; arguments: string }[] = [];
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta;
+          if (delta?.content) {
+            if (!text && separator) request.onDelta?.(separator);
+            text += delta.content;
+            request.onDelta?.(delta.content);
+          }
+          for (const call of delta?.tool_calls || []) {
+            const current = toolCalls[call.index] ||= { id: '', name: '', arguments: '' };
+            current.id ||= call.id || '';
+            current.name += call.function?.name || '';
+            current.arguments += call.function?.arguments || '';
+          }
+          if (chunk.usage) {
+            inputTokens += chunk.usage.prompt_tokens || 0;
+            outputTokens += chunk.usage.completion_tokens || 0;
+          }
+        }
+        if (text) content += separator + text;
+
+        const calls = toolCalls.filter(Boolean);
+        if (!request.tools || lastRound || calls.length === 0) break;
+
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          tool_calls: calls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        });
+        for (const call of calls) {
+          let input: Record<string, unknown> = {};
+          try {
+            input = JSON.parse(call.arguments || '{}');
+          } catch {
+            // Niepoprawny JSON argumentów - narzędzie zgłosi brak parametrów
+          }
+          const result = await request.tools.execute({ id: call.id, name: call.name, input });
+          messages.push({ role: 'tool', tool_call_id: call.id, content: result.content });
+        }
+      }
+
+      // Pobierz informacje o tokenach
+      const tokensUsed = inputTokens + outputTokens;
+
+      console.log(`[${config.id.toUpperCase()}] Tokeny: input=${inputTokens}, output=${outputTokens}, total=${tokensUsed}`);
+
+      return {
+        content,
+        metadata: {
+          tokensUsed,
+          inputTokens,
+          outputTokens,
+          detectedPatterns: [],
+          autoSaved: [],
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Embeddingi tekstów z OpenAI Embeddings API (kolejność jak w wejściu)
+ * baseURL - lokalny serwer zgodny z OpenAI API (np. Ollama)
+ */
+export async function embedTexts(texts: string[], model: string = EMBEDDING_MODEL, baseURL?: string): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const response = await getOpenAI({ id: 'embeddings', type: 'openai', model, baseURL }).embeddings.create({
+    model,
+    input: texts,
+  });
+  return response.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
 }
 
+// Wbudowany provider GPT
+export const gptProvider = createOpenAIProvider(
+  { id: 'gpt', type: 'openai', model: GPT_MODEL },
+  AI_PERSONALITIES.gpt
+);
+
 // System prompt dla GPT jako code reviewera
 const GPT_SYSTEM_PROMPT = `Jesteś GPT - code reviewerem w zespole AI.
 
@@ -33,10 +183,11 @@ TWOJA ROLA:
 - Proponujesz alternatywne rozwiązania (tylko gdy warto)
 
 DOSTĘP DO PLIKÓW PROJEKTU:
-Masz dostęp do plików projektu użytkownika. Możesz poprosić o:
-- [POKAŻ STRUKTURĘ] - zobaczysz drzewo plików projektu
-- [POKAŻ PLIK: ścieżka/do/pliku] - zobaczysz zawartość konkretnego pliku
-Użytkownik wklei ci zawartość. Używaj tego do weryfikacji kodu w kontekście projektu.
+Masz narzędzia do plików projektu użytkownika:
+- show_structure - drzewo plików projektu
+- list_directory - zawartość katalogu
+- read_file - zawartość konkretnego pliku
+Wywołuj je sam, zamiast prosić użytkownika o wklejenie plików. Używaj ich do weryfikacji kodu w kontekście projektu.
 
 ZASADY (KRYTYCZNE):
 - ZERO chwalenia - nie pisz "świetny kod", "dobra robota", "podoba mi się"
@@ -63,124 +214,44 @@ ZAKAZANE FRAZY:
 - "Podoba mi się podejście"
 - "Ogólnie wygląda dobrze, ale..."`;
 
-/**
- * Formatuje historię dla GPT
- */
-function formatHistoryForGPT(history: ChatMessage[]): OpenAI.ChatCompletionMessageParam[] {
-  return history.map(msg => {
-    if (msg.sender === 'user') {
-      return { role: 'user' as const, content: msg.content };
-    }
-    // Wiadomości od AI jako assistant z prefixem
-    return { role: 'assistant' as const, content: `[${msg.sender.toUpperCase()}]: ${msg.content}` };
-  });
-}
-
-/**
- * Formatuje preferencje do czytelnego formatu dla AI
- */
-function formatPreferences(preferences: Preference[]): string {
-  if (!preferences || preferences.length === 0) return '';
-
-  const lines = preferences.map(p => `- ${p.key}: ${p.value}`);
-  return `\n\nPreferencje użytkownika:\n${lines.join('\n')}`;
-}
-
-/**
- * Formatuje tech stack do czytelnego formatu
- */
-function formatTechStack(techStack?: string[]): string {
-  if (!techStack || techStack.length === 0) return '';
-  return `\nProjekt używa: ${techStack.join(', ')}`;
-}
-
-/**
- * Buduje kontekst z informacjami o projekcie
- */
-function buildContextInfo(context?: AIContext): string {
-  if (!context) return '';
-
-  let info = '';
-
-  if (context.project) {
-    info += `\n\nKontekst projektu: ${context.project.name}`;
-    if (context.project.description) {
-      info += ` - ${context.project.description}`;
-    }
-    // Dodaj tech stack projektu
-    info += formatTechStack(context.project.tech_stack);
-  }
-
-  // Dodaj pełny kontekst projektu (struktura + pliki) jeśli załadowany
-  if (context.projectContext) {
-    info += `\n\n=== ZAŁADOWANY KONTEKST PROJEKTU ===\n${context.projectContext}\n=== KONIEC KONTEKSTU ===`;
-  }
-
-  if (context.editorContent) {
-    info += `\n\nAktualny kod w edytorze użytkownika:\n\`\`\`\n${context.editorContent}\n\`\`\``;
-  }
-
-  // Dodaj preferencje użytkownika
-  if (context.preferences && context.preferences.length > 0) {
-    info += formatPreferences(context.preferences);
-  }
-
-  return info;
-}
-
 /**
  * Wywołuje GPT do review kodu/odpowiedzi Claude'a
- * Zwraca odpowiedź z metadanymi o tokenach
+ * Streamuje fragmenty przez onDelta, zwraca odpowiedź z metadanymi o tokenach
  */
 export async function callGPT(
   userMessage: string,
   claudeResponse: string,
   history: ChatMessage[],
-  context?: AIContext
+  context?: AIContext,
+  options: AICallOptions = {}
 ): Promise<AIResponseWithMetadata> {
-  const contextInfo = buildContextInfo(context);
-  const systemPrompt = GPT_SYSTEM_PROMPT + contextInfo;
+  const provider = options.provider || gptProvider;
+  const systemPrompt = (options.systemPrompt || GPT_SYSTEM_PROMPT)
+    + buildContextInfo(context, { projectDetails: 'short' })
+    + MEMORY_SIDECAR_INSTRUCTIONS;
 
   const reviewPrompt = `User napisał: ${userMessage}
 
 Claude odpowiedział:
-${claudeResponse}
+${claudeResponse}${options.sandboxReport ? `${options.sandboxReport}
+Uwagi [BUG] dotyczące kompilacji i testów opieraj na tym wyniku - nie zgaduj błędów, których tu nie ma.` : ''}
 
 Daj swój feedback jako code reviewer. Bądź konstruktywny i konkretny:`;
 
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o',
-      max_tokens: 2048,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        ...formatHistoryForGPT(history),
-        { role: 'user', content: reviewPrompt }
-      ],
+    const result = await provider.complete({
+      system: systemPrompt,
+      messages: [...formatHistoryMessages(history), { role: 'user', content: reviewPrompt }],
+      onDelta: options.onDelta,
+      onReset: options.onReset,
+      signal: options.signal,
+      tools: options.tools,
     });
-
-    const content = response.choices[0]?.message?.content || 'Nie mogłem wygenerować feedbacku.';
-
-    // Pobierz informacje o tokenach
-    const inputTokens = response.usage?.prompt_tokens || 0;
-    const outputTokens = response.usage?.completion_tokens || 0;
-    const tokensUsed = response.usage?.total_tokens || (inputTokens + outputTokens);
-
-    console.log(`[GPT] Tokeny: input=${inputTokens}, output=${outputTokens}, total=${tokensUsed}`);
-
-    return {
-      content,
-      metadata: {
-        tokensUsed,
-        inputTokens,
-        outputTokens,
-        detectedPatterns: [],
-        autoSaved: [],
-      },
-    };
+    return { ...result, content: result.content || 'Nie mogłem wygenerować feedbacku.' };
   } catch (error) {
     console.error('Błąd GPT:', error);
-    throw new Error(`Błąd komunikacji z GPT: ${error instanceof Error ? error.message : 'nieznany błąd'}`);
+    // Przyczyna zachowuje historię prób (AIProviderError) do zapisu nieudanego wywołania
+    throw new Error(`Błąd komunikacji z ${provider.personality.displayName}: ${error instanceof Error ? error.message : 'nieznany błąd'}`, { cause: error });
   }
 }
 
@@ -195,4 +266,4 @@ export async function callGPTSimple(
 ): Promise<string> {
   const result = await callGPT(userMessage, claudeResponse, history, context);
   return result.content;
-}
\ No newline at end of file
+}
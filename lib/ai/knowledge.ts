@@ -0,0 +1,99 @@
+/**
+ * Wiedza projektu w promptach AI
+ * Aktywne zasady, style guide (z przykładami) i najtrafniejsze ostatnie decyzje - w limicie tokenów projektu
+ */
+
+import {
+  PROJECT_KNOWLEDGE_DEFAULT_BUDGET,
+  PROJECT_KNOWLEDGE_RECENT_DECISIONS,
+  PROJECT_KNOWLEDGE_MAX_DECISIONS,
+} from '../constants';
+import { textSimilarity } from '../dedup';
+import { getProjectRules, getStyleGuide, getDecisions } from '../supabase';
+import { estimateTokens } from './contextWindow';
+import type { Decision, Project, ProjectRule, StyleGuide } from '../types';
+
+// Maksymalna długość przykładu kodu w style guide
+const EXAMPLE_MAX_CHARS = 400;
+
+function formatRule(rule: ProjectRule): string {
+  return `- [${rule.category}] ${rule.rule}`;
+}
+
+function formatExample(label: string, example?: string): string {
+  if (!example) return '';
+  const code = example.length > EXAMPLE_MAX_CHARS ? `${example.slice(0, EXAMPLE_MAX_CHARS)}\n...` : example;
+  return `\n  ${label}:\n\`\`\`\n${code}\n\`\`\``;
+}
+
+function formatStyle(entry: StyleGuide): string {
+  return `- ${entry.rule}${entry.language ? ` (${entry.language})` : ''}`
+    + formatExample('Dobrze', entry.example_good)
+    + formatExample('Źle', entry.example_bad);
+}
+
+function formatDecision(decision: Decision): string {
+  return `- ${decision.title}: ${decision.description}${decision.reason ? ` (powód: ${decision.reason})` : ''}`;
+}
+
+/**
+ * Najtrafniejsze z ostatnich decyzji względem wiadomości użytkownika
+ */
+function selectDecisions(decisions: Decision[], message: string): Decision[] {
+  return decisions
+    .slice(0, PROJECT_KNOWLEDGE_RECENT_DECISIONS)
+    .map((decision, index) => ({
+      decision,
+      // Podobieństwo do wiadomości, a przy remisie nowsze wyżej
+      score: textSimilarity(message, `${decision.title} ${decision.description}`) - index * 0.001,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, PROJECT_KNOWLEDGE_MAX_DECISIONS)
+    .map(({ decision }) => decision);
+}
+
+/**
+ * Buduje sekcję wiedzy projektu dla promptu (undefined - wyłączona albo pusta)
+ * Kolejność ważności: zasady → style guide → decyzje; wpisy ponad limit są pomijane
+ */
+export async function loadProjectKnowledge(project: Project | undefined, message: string): Promise<string | undefined> {
+  if (!project || project.knowledge_in_prompt === false) return undefined;
+
+  const [rules, styleGuide, decisions] = await Promise.all([
+    getProjectRules(project.id),
+    getStyleGuide(project.id),
+    getDecisions(project.id),
+  ]);
+
+  const sections: { title: string; items: string[] }[] = [
+    { title: 'Zasady projektu', items: rules.map(formatRule) },
+    { title: 'Style guide', items: styleGuide.map(formatStyle) },
+    { title: 'Decyzje projektu (najtrafniejsze z ostatnich)', items: selectDecisions(decisions, message).map(formatDecision) },
+  ];
+
+  let remaining = project.knowledge_budget_tokens || PROJECT_KNOWLEDGE_DEFAULT_BUDGET;
+  let skipped = 0;
+  const parts: string[] = [];
+
+  for (const section of sections) {
+    const included = section.items.filter(item => {
+      const cost = estimateTokens(item);
+      if (cost > remaining) {
+        skipped++;
+        return false;
+      }
+      remaining -= cost;
+      return true;
+    });
+    if (included.length > 0) {
+      parts.push(`${section.title}:\n${included.join('\n')}`);
+    }
+  }
+
+  if (parts.length === 0) return undefined;
+  if (skipped > 0) {
+    console.log(`[KNOWLEDGE] Pominięto ${skipped} wpisów wiedzy projektu ${project.id} - limit tokenów`);
+  }
+
+  return `=== WIEDZA PROJEKTU (stosuj się do zasad i decyzji) ===\n${parts.join('\n\n')}\n=== KONIEC WIEDZY PROJEKTU ===`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Pamięć semantyczna projektu
+ * Embedowanie wiadomości, decyzji, bugów i dokumentacji przy zapisie oraz wyszukiwanie
+ * wpisów podobnych do bieżącej wiadomości (dołączanych do kontekstu AI z cytowaniami)
+ */
+
+import {
+  MEMORY_TOP_K,
+  MEMORY_MIN_SIMILARITY,
+  MEMORY_EXCERPT_CHARS,
+  MEMORY_EMBED_MAX_CHARS,
+} from '../constants';
+import { getKnowledgeRecord, saveMemoryEmbedding, deleteMemoryEmbeddings, searchSimilarEmbeddings } from '../supabase';
+import { truncate } from '../utils';
+import { getEmbeddingService } from './embeddings';
+import type { KnowledgeRecords, MemoryCitation, MemoryContentType, MemoryRecordType } from '../types';
+
+/**
+ * Tekst rekordu bazy wiedzy do embedowania
+ */
+function recordText<T extends MemoryRecordType>(type: T, record: KnowledgeRecords[T]): string {
+  switch (type) {
+    case 'decision': {
+      const decision = record as KnowledgeRecords['decision'];
+      return [decision.title, decision.description, decision.reason && `Powód: ${decision.reason}`]
+        .filter(Boolean)
+        .join('\n');
+    }
+    case 'bug': {
+      const bug = record as KnowledgeRecords['bug'];
+      return [bug.description, bug.solution && `Rozwiązanie: ${bug.solution}`, bug.file_path]
+        .filter(Boolean)
+        .join('\n');
+    }
+    default: {
+      const doc = record as KnowledgeRecords['doc'];
+      return `${doc.title}\n${doc.content}`;
+    }
+  }
+}
+
+/**
+ * Embeduje tekst i zapisuje go jako wpis pamięci (false - serwis wyłączony albo błąd)
+ */
+export async function indexMemory(
+  contentType: MemoryContentType,
+  content: string,
+  sourceId: string,
+  projectId?: string
+): Promise<boolean> {
+  const service = getEmbeddingService();
+  if (!service || !content.trim()) return false;
+
+  try {
+    const text = content.slice(0, MEMORY_EMBED_MAX_CHARS);
+    const [embedding] = await service.embed([text]);
+    return !!await saveMemoryEmbedding(text, contentType, projectId, sourceId, embedding, service.id);
+  } catch (error) {
+    console.error(`[MEMORY] Błąd embedowania ${contentType} ${sourceId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Embeduje rekord bazy wiedzy po zapisie lub edycji
+ * Elementy pamięci czekające na przegląd (albo odrzucone) nie trafiają do wyszukiwania
+ */
+export async function indexKnowledgeRecord(type: MemoryRecordType, id: string): Promise<boolean> {
+  const record = await getKnowledgeRecord(type, id);
+  if (!record) return false;
+
+  if ('review_status' in record && record.review_status && record.review_status !== 'accepted') {
+    await deleteMemoryEmbeddings([id]);
+    return false;
+  }
+
+  return indexMemory(type, recordText(type, record), id, record.project_id);
+}
+
+/**
+ * Wpisy pamięci najbardziej podobne do wiadomości (z etykietami do cytowania [P1], [P2]...)
+ * excludeSourceIds - wiadomości, które model i tak dostaje (historia, bieżąca wiadomość)
+ */
+export async function retrieveMemories(
+  message: string,
+  projectId?: string,
+  excludeSourceIds: string[] = []
+): Promise<MemoryCitation[]> {
+  const service = getEmbeddingService();
+  if (!service || !message.trim()) return [];
+
+  try {
+    const [query] = await service.embed([message.slice(0, MEMORY_EMBED_MAX_CHARS)]);
+    const excluded = new Set(excludeSourceIds);
+    const matches = await searchSimilarEmbeddings(query, service.id, projectId, MEMORY_TOP_K + excluded.size);
+
+    return matches
+      .filter(match => !match.source_id || !excluded.has(match.source_id))
+      .filter(match => (match.similarity || 0) >= MEMORY_MIN_SIMILARITY)
+      .slice(0, MEMORY_TOP_K)
+      .map((match, index) => ({
+        ref: `P${index + 1}`,
+        content_type: match.content_type,
+        source_id: match.source_id,
+        excerpt: truncate(match.content, MEMORY_EXCERPT_CHARS),
+        similarity: match.similarity || 0,
+      }));
+  } catch (error) {
+    console.error('[MEMORY] Błąd wyszukiwania pamięci:', error);
+    return [];
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Pipeline'y zespołu AI
+ * Wbudowane tryby (solo/duo/team/parallel) + własne definicje z Supabase
+ * Wykonanie pojedynczego kroku na wspólnym stanie rozmowy
+ */
+
+import { callClaude, callClaudeSummary, callClaudeFinal, callClaudeFix } from './claude';
+import { callGPT } from './gpt';
+import { callGemini } from './gemini';
+import { getProvider, getProviderForRole } from './registry';
+import { parseReviewFindings } from '../reviewFindings';
+import type {
+  ChatMode,
+  AIContext,
+  AIProvider,
+  AIRole,
+  AICallOptions,
+  AIResponseWithMetadata,
+  PipelineStep,
+  PipelinePromptKind,
+  PipelineStepSnapshot,
+  ParsedReviewFinding,
+} from '../types';
+
+// Wbudowane tryby zapisane jako pipeline'y
+export const BUILTIN_PIPELINES: Record<ChatMode, PipelineStep[]> = {
+  solo: [
+    { role: 'architect', prompt: 'draft' },
+  ],
+  duo: [
+    { role: 'architect', prompt: 'draft' },
+    { role: 'reviewer', prompt: 'review' },
+    { role: 'architect', prompt: 'summary' },
+  ],
+  team: [
+    { role: 'architect', prompt: 'draft' },
+    { role: 'reviewer', prompt: 'review' },
+    { role: 'ux', prompt: 'ux' },
+    { role: 'architect', prompt: 'final' },
+  ],
+  // GPT i Gemini oceniają pierwszą odpowiedź jednocześnie - Gemini nie czeka na GPT
+  parallel: [
+    { role: 'architect', prompt: 'draft' },
+    { role: 'reviewer', prompt: 'review', parallelGroup: 'review' },
+    { role: 'ux', prompt: 'ux', parallelGroup: 'review' },
+    { role: 'architect', prompt: 'final' },
+  ],
+};
+
+// Odpowiedzi zastępcze gdy krok się nie powiedzie - draft nie ma zastępstwa (błąd przerywa pipeline)
+export const STEP_FALLBACKS: Partial<Record<PipelinePromptKind, string>> = {
+  review: 'Nie mogłem przeanalizować kodu w tym momencie.',
+  ux: 'Nie mogłem przeanalizować UI/UX w tym momencie.',
+  summary: 'Podsumowując feedback od GPT - moja oryginalna propozycja pozostaje aktualna.',
+  final: 'Uwzględniając feedback od GPT i Gemini - oto finalna wersja mojej propozycji.',
+};
+
+const ROLES: AIRole[] = ['architect', 'reviewer', 'ux'];
+const PROMPT_KINDS: PipelinePromptKind[] = ['draft', 'review', 'ux', 'summary', 'final', 'fix'];
+
+// Kroki, których odpowiedź staje się kodem do dalszej pracy (draft) - sprawdzane w trybie "do zielonego"
+export const CODE_PROMPT_KINDS: PipelinePromptKind[] = ['draft', 'summary', 'final', 'fix'];
+
+// Stan pipeline - ostatnie odpowiedzi poszczególnych rodzajów kroków
+export interface PipelineState {
+  message: string;          // Oryginalna wiadomość użytkownika
+  enhancedMessage: string;  // Wiadomość z dopiskiem trybu (np. generowanie kodu)
+  context: AIContext;
+  outputs: Partial<Record<PipelinePromptKind, string>>;
+  sandboxReport?: string;   // Wynik sprawdzenia kodu z draftu w sandboxie - dla recenzenta
+}
+
+/**
+ * Waliduje kroki pipeline wczytane z bazy - pomija niepoprawne wpisy
+ */
+export function normalizePipelineSteps(raw: unknown): PipelineStep[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter((step): step is PipelineStep =>
+    typeof step === 'object' &&
+    step !== null &&
+    ROLES.includes(step.role) &&
+    PROMPT_KINDS.includes(step.prompt) &&
+    // Poprawki dodaje tylko tryb "do zielonego" - po błędach z sandboxa
+    step.prompt !== 'fix'
+  );
+}
+
+/**
+ * Grupuje kroki - sąsiednie kroki z tym samym parallelGroup trafiają do jednej grupy
+ */
+export function groupPipelineSteps(steps: PipelineStep[]): PipelineStep[][] {
+  const groups: PipelineStep[][] = [];
+
+  for (const step of steps) {
+    const lastGroup = groups[groups.length - 1];
+    if (step.parallelGroup && lastGroup && lastGroup[0].parallelGroup === step.parallelGroup) {
+      lastGroup.push(step);
+    } else {
+      groups.push([step]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Czy któraś grupa równoległa ma więcej niż jeden krok z kodem
+ * Tryb "do zielonego" poprawia jeden draft naraz - takich pipeline'ów nie da się w nim uruchomić
+ */
+export function hasParallelCodeSteps(steps: PipelineStep[]): boolean {
+  return groupPipelineSteps(steps)
+    .some(group => group.filter(step => CODE_PROMPT_KINDS.includes(step.prompt)).length > 1);
+}
+
+/**
+ * Zwraca provider dla kroku - jawnie wskazany albo przypisany do roli
+ */
+export function resolveStepProvider(step: PipelineStep): AIProvider {
+  if (step.provider) {
+    const provider = getProvider(step.provider);
+    if (provider) return provider;
+    console.error(`[PIPELINE] Provider "${step.provider}" nie jest zarejestrowany - używam providera roli ${step.role}`);
+  }
+  return getProviderForRole(step.role);
+}
+
+/**
+ * Wykonuje pojedynczy krok pipeline na podstawie dotychczasowych odpowiedzi
+ * callbacks - streaming fragmentów, reset po ponownej próbie i przerwanie
+ */
+export async function runPipelineStep(
+  step: PipelineStep,
+  state: PipelineState,
+  provider: AIProvider,
+  callbacks: Pick<AICallOptions, 'onDelta' | 'onReset' | 'signal' | 'tools'> = {}
+): Promise<AIResponseWithMetadata> {
+  const { message, enhancedMessage, context, outputs } = state;
+  const options: AICallOptions = { ...callbacks, provider, systemPrompt: step.systemPrompt };
+  const draft = outputs.draft || '';
+  const review = outputs.review || '';
+
+  switch (step.prompt) {
+    case 'draft':
+      return callClaude(enhancedMessage, context.history, context, options);
+    case 'review':
+      return callGPT(message, draft, context.history, context, { ...options, sandboxReport: state.sandboxReport });
+    case 'ux':
+      return callGemini(message, draft, review, context.history, context, options);
+    case 'summary':
+      return callClaudeSummary(message, draft, review, context, options);
+    case 'final':
+      return callClaudeFinal(message, draft, review, outputs.ux || '', context, options);
+    case 'fix':
+      return callClaudeFix(message, draft, state.sandboxReport || '', context, options);
+  }
+}
+
+/**
+ * Ponumerowane uwagi recenzentów, które architekt dostaje w kroku podsumowania/finalnym
+ * Ta sama kolejność co w prompcie (callClaudeSummary, callClaudeFinal) - numery z raportu wskazują uwagi
+ */
+export function getStepFindings(
+  step: PipelineStep,
+  outputs: Partial<Record<PipelinePromptKind, string>>
+): ParsedReviewFinding[] {
+  switch (step.prompt) {
+    case 'summary':
+      return parseReviewFindings(outputs.review || '');
+    case 'final':
+      return [...parseReviewFindings(outputs.review || ''), ...parseReviewFindings(outputs.ux || '')];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Zapamiętuje wejście kroku - zapisywane przy odpowiedzi, żeby dało się ją wygenerować ponownie
+ */
+export function createStepSnapshot(
+  step: PipelineStep,
+  state: PipelineState,
+  historyUntil: string
+): PipelineStepSnapshot {
+  return {
+    step,
+    message: state.message,
+    enhancedMessage: state.enhancedMessage,
+    outputs: { ...state.outputs },
+    sandboxReport: state.sandboxReport,
+    historyUntil,
+  };
+}
+
+/**
+ * Odtwarza stan pipeline sprzed kroku (z aktualnym kontekstem rozmowy)
+ */
+export function restoreStepState(snapshot: PipelineStepSnapshot, context: AIContext): PipelineState {
+  return {
+    message: snapshot.message,
+    enhancedMessage: snapshot.enhancedMessage,
+    context,
+    outputs: { ...snapshot.outputs },
+    sandboxReport: snapshot.sandboxReport,
+  };
+}
+
+/**
+ * Zapisuje wyniki grupy kroków w stanie pipeline
+ * Kilka odpowiedzi tego samego rodzaju (kroki równoległe) łączone jest z podpisem autora
+ */
+export function applyStepResults(
+  state: PipelineState,
+  results: { step: PipelineStep; provider: AIProvider; content: string }[]
+): void {
+  for (const kind of PROMPT_KINDS) {
+    const ofKind = results.filter(r => r.step.prompt === kind);
+    if (ofKind.length === 0) continue;
+
+    const content = ofKind.length === 1
+      ? ofKind[0].content
+      : ofKind.map(r => `[${r.provider.personality.displayName}]:\n${r.content}`).join('\n\n');
+
+    state.outputs[kind] = content;
+
+    // Podsumowanie, wersja finalna i poprawka stają się nową bazą dla kolejnych kroków
+    if (kind === 'summary' || kind === 'final' || kind === 'fix') {
+      state.outputs.draft = content;
+    }
+  }
+}
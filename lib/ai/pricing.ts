@@ -0,0 +1,85 @@
+/**
+ * Cennik modeli AI i budżety projektów
+ * Koszt liczony przy zapisie odpowiedzi (llm_responses.cost_usd), budżet sprawdzany przed wywołaniem
+ */
+
+import { AI_MODEL_PRICING } from '../constants';
+import { getLLMUsage, getProjectById } from '../supabase';
+import { getBudgetStatus, getMonthStart, formatCost } from '../usage';
+import type { ModelPricing, ProjectBudgetStatus } from '../types';
+
+/**
+ * Cennik z AI_PRICING (JSON: model → { input, output }) - błędna konfiguracja jest ignorowana
+ */
+function getConfiguredPricing(): Record<string, ModelPricing> {
+  const raw = process.env.AI_PRICING;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw) as Record<string, ModelPricing>;
+  } catch (error) {
+    console.error('Błąd parsowania AI_PRICING:', error);
+    return {};
+  }
+}
+
+/**
+ * Zwraca cennik modelu - najdłuższy pasujący prefiks (np. "gpt-4o-mini" przed "gpt-4o")
+ */
+export function getModelPricing(model: string): ModelPricing | null {
+  const pricing = { ...AI_MODEL_PRICING, ...getConfiguredPricing() };
+
+  const match = Object.keys(pricing)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? pricing[match] : null;
+}
+
+/**
+ * Koszt wywołania w USD - 0 dla modeli bez cennika (np. lokalnych)
+ */
+export function calculateCost(model: string | undefined, inputTokens: number, outputTokens: number): number {
+  if (!model) return 0;
+
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    console.log(`[PRICING] Brak cennika dla modelu ${model} - koszt 0`);
+    return 0;
+  }
+
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Sprawdza miesięczny budżet projektu - null gdy projekt nie ma limitu
+ * Błąd sprawdzania nie blokuje rozmowy
+ */
+export async function checkProjectBudget(projectId: string): Promise<ProjectBudgetStatus | null> {
+  try {
+    const project = await getProjectById(projectId);
+    if (!project?.monthly_budget_usd) return null;
+
+    const rows = await getLLMUsage({ projectId, since: getMonthStart() });
+    const spentUsd = rows.reduce((sum, row) => sum + (row.cost_usd || 0), 0);
+
+    return getBudgetStatus(project, spentUsd);
+  } catch (error) {
+    console.error('[BUDGET] Błąd sprawdzania budżetu projektu:', error);
+    return null;
+  }
+}
+
+/**
+ * Komunikat o stanie budżetu dla użytkownika
+ */
+export function formatBudgetMessage(budget: ProjectBudgetStatus): string {
+  const spent = `${formatCost(budget.spentUsd)} z ${formatCost(budget.budgetUsd)}`;
+
+  if (budget.status === 'exceeded') {
+    return budget.action === 'block'
+      ? `Przekroczono miesięczny budżet projektu (${spent}). Zwiększ limit, aby kontynuować.`
+      : `Przekroczono miesięczny budżet projektu (${spent}).`;
+  }
+  return `Wykorzystano ${Math.round((budget.spentUsd / budget.budgetUsd) * 100)}% miesięcznego budżetu projektu (${spent}).`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Rejestr providerów AI
+ * Wbudowana trójka (Claude, GPT, Gemini) + providery z konfiguracji AI_PROVIDERS
+ * Mapowanie ról (architekt, reviewer, UI/UX) na providery przez AI_ROLE_PROVIDERS
+ * Providery zwracane z rejestru mają politykę odporności z AI_RESILIENCE (timeout, retry, fallback)
+ */
+
+import { getAIPersonality, AI_RESILIENCE_DEFAULTS } from '../constants';
+import { claudeProvider, createAnthropicProvider } from './claude';
+import { gptProvider, createOpenAIProvider } from './gpt';
+import { geminiProvider, createGeminiProvider } from './gemini';
+import { withResilience } from './resilience';
+import type {
+  AISender,
+  AIRole,
+  AIProvider,
+  AIProviderConfig,
+  AIPersonality,
+  AIResiliencePolicy,
+} from '../types';
+
+// Domyślne przypisanie ról do providerów
+const DEFAULT_ROLE_PROVIDERS: Record<AIRole, AISender> = {
+  architect: 'claude',
+  reviewer: 'gpt',
+  ux: 'gemini',
+};
+
+// Surowe providery (cele fallbacków) i te same opakowane w politykę odporności
+const providers = new Map<AISender, AIProvider>();
+const resilientProviders = new Map<AISender, AIProvider>();
+let initialized = false;
+
+/**
+ * Buduje osobowość providera z konfiguracji (kolor, avatar, nazwa)
+ */
+function buildPersonality(config: AIProviderConfig): AIPersonality {
+  const base = getAIPersonality(config.id);
+  const color = config.color || base.color;
+
+  return {
+    name: config.id,
+    displayName: config.displayName || base.displayName,
+    color,
+    bgColor: `${color}20`,
+    role: config.role || base.role,
+    avatar: config.avatar || base.avatar,
+  };
+}
+
+/**
+ * Tworzy provider z konfiguracji na podstawie typu API
+ */
+export function createProviderFromConfig(config: AIProviderConfig): AIProvider {
+  const personality = buildPersonality(config);
+
+  switch (config.type) {
+    case 'anthropic':
+      return createAnthropicProvider(config, personality);
+    case 'openai':
+      return createOpenAIProvider(config, personality);
+    case 'gemini':
+      return createGeminiProvider(config, personality);
+    default:
+      throw new Error(`Nieznany typ providera: ${String(config.type)}`);
+  }
+}
+
+/**
+ * Parsuje JSON ze zmiennej środowiskowej - błędna konfiguracja nie wywraca aplikacji
+ */
+function parseEnvJSON<T>(name: string): T | null {
+  const raw = process.env[name];
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Błąd parsowania ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Ładuje wbudowane providery i te z AI_PROVIDERS (leniwie, raz na proces)
+ */
+function ensureInitialized(): void {
+  if (initialized) return;
+  initialized = true;
+
+  for (const provider of [claudeProvider, gptProvider, geminiProvider]) {
+    setProvider(provider);
+  }
+
+  const configs = parseEnvJSON<AIProviderConfig[]>('AI_PROVIDERS') || [];
+  for (const config of configs) {
+    try {
+      registerProvider(createProviderFromConfig(config));
+    } catch (error) {
+      console.error(`Błąd rejestracji providera ${config.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Polityka odporności providera - domyślna nadpisana wpisem "default" i wpisem providera z AI_RESILIENCE
+ */
+export function getResiliencePolicy(id: AISender): AIResiliencePolicy {
+  const overrides = parseEnvJSON<Record<string, Partial<AIResiliencePolicy>>>('AI_RESILIENCE') || {};
+  return { ...AI_RESILIENCE_DEFAULTS, ...overrides.default, ...overrides[id] };
+}
+
+function setProvider(provider: AIProvider): void {
+  providers.set(provider.id, provider);
+  resilientProviders.set(
+    provider.id,
+    withResilience(provider, getResiliencePolicy, (id) => providers.get(id) || null)
+  );
+}
+
+/**
+ * Rejestruje provider (nadpisuje istniejący o tym samym id)
+ */
+export function registerProvider(provider: AIProvider): void {
+  ensureInitialized();
+  setProvider(provider);
+}
+
+/**
+ * Pobiera provider po id
+ */
+export function getProvider(id: AISender): AIProvider | null {
+  ensureInitialized();
+  return resilientProviders.get(id) || null;
+}
+
+/**
+ * Lista wszystkich zarejestrowanych providerów
+ */
+export function listProviders(): AIProvider[] {
+  ensureInitialized();
+  return Array.from(resilientProviders.values());
+}
+
+/**
+ * Zwraca provider przypisany do roli (AI_ROLE_PROVIDERS lub domyślny)
+ */
+export function getProviderForRole(role: AIRole): AIProvider {
+  ensureInitialized();
+
+  const mapping = parseEnvJSON<Partial<Record<AIRole, AISender>>>('AI_ROLE_PROVIDERS') || {};
+  const configuredId = mapping[role];
+
+  if (configuredId) {
+    const provider = resilientProviders.get(configuredId);
+    if (provider) return provider;
+    console.error(`Provider "${configuredId}" dla roli ${role} nie jest zarejestrowany - używam domyślnego`);
+  }
+
+  return resilientProviders.get(DEFAULT_ROLE_PROVIDERS[role])!;
+}
@@ -0,0 +1,227 @@
+/**
+ * Warstwa odporności wywołań providerów AI
+ * Timeout na próbę, ponowienia z wykładniczym backoffem (jitter) i łańcuch fallbacków
+ * Każda próba trafia do metadanych odpowiedzi (llm_responses.metadata) - także gdy wszystkie zawiodły
+ */
+
+import { saveLLMResponse } from '../supabase';
+import type {
+  AIAttempt,
+  AIProvider,
+  AIProviderRequest,
+  AIResiliencePolicy,
+  AIResponseWithMetadata,
+  AIRole,
+  AISender,
+  SaveLLMResponseInput,
+} from '../types';
+
+// Statusy HTTP, po których warto ponowić próbę
+const RETRYABLE_STATUSES = [408, 409, 429];
+
+// Błędy sieciowe bez statusu HTTP
+const NETWORK_ERROR_PATTERN = /(fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|network)/i;
+
+/**
+ * Błąd po wyczerpaniu wszystkich prób i fallbacków - zawiera historię prób
+ */
+export class AIProviderError extends Error {
+  attempts: AIAttempt[];
+
+  constructor(message: string, attempts: AIAttempt[]) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Historia prób z błędu wywołania - także gdy AIProviderError jest przyczyną (cause) błędu kroku
+ */
+export function getErrorAttempts(error: unknown): AIAttempt[] | null {
+  let current = error;
+  while (current instanceof Error) {
+    if (current instanceof AIProviderError) return current.attempts;
+    current = current.cause;
+  }
+  return null;
+}
+
+/**
+ * Zapisuje w llm_responses wywołanie, które zawiodło mimo ponowień i fallbacków
+ * Timeouty, 429 i wyczerpane fallbacki są widoczne w metadata.attempts; błędy bez historii prób są pomijane
+ */
+export async function saveFailedLLMResponse(
+  error: unknown,
+  provider: AIProvider,
+  input: Pick<SaveLLMResponseInput, 'task_id' | 'conversation_id' | 'project_id' | 'prompt_used'> & { role?: AIRole }
+): Promise<void> {
+  const attempts = getErrorAttempts(error);
+  if (!attempts) return;
+
+  const { role, ...row } = input;
+  await saveLLMResponse({
+    ...row,
+    llm_source: provider.id,
+    response: `[BŁĄD] ${error instanceof Error ? error.message : 'nieznany błąd'}`.slice(0, 5000),
+    tokens_used: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cost_usd: 0,
+    metadata: { provider: provider.id, model: provider.model, role, attempts },
+  });
+}
+
+/**
+ * Sprawdza czy błąd jest przejściowy (429, 5xx, błąd sieci)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUSES.includes(status) || status >= 500;
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  return NETWORK_ERROR_PATTERN.test(message);
+}
+
+/**
+ * Opóźnienie przed kolejną próbą - wykładniczy backoff z pełnym jitterem
+ */
+export function getBackoffDelay(retry: number, policy: AIResiliencePolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Czeka podany czas - przerywane razem z żądaniem
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Opakowuje provider w politykę odporności
+ * Zwrócony provider ma tożsamość głównego (id, osobowość) - fallback widać w metadanych
+ */
+export function withResilience(
+  primary: AIProvider,
+  getPolicy: (id: AISender) => AIResiliencePolicy,
+  getFallbackProvider: (id: AISender) => AIProvider | null
+): AIProvider {
+  return {
+    ...primary,
+    async complete(request: AIProviderRequest): Promise<AIResponseWithMetadata> {
+      const attempts: AIAttempt[] = [];
+
+      // Łańcuch: provider główny + fallbacki (bez powtórzeń)
+      const chain: AIProvider[] = [primary];
+      for (const id of getPolicy(primary.id).fallbacks) {
+        const fallback = getFallbackProvider(id);
+        if (!fallback) {
+          console.error(`[RESILIENCE] Fallback "${id}" dla ${primary.id} nie jest zarejestrowany - pomijam`);
+          continue;
+        }
+        if (!chain.some(p => p.id === fallback.id)) chain.push(fallback);
+      }
+
+      let lastError: unknown = null;
+
+      for (const provider of chain) {
+        const policy = getPolicy(provider.id);
+
+        for (let retry = 0; retry <= policy.maxRetries; retry++) {
+          request.signal?.throwIfAborted();
+
+          const timeout = new AbortController();
+          const timer = setTimeout(() => timeout.abort(), policy.timeoutMs);
+          const signal = request.signal ? AbortSignal.any([request.signal, timeout.signal]) : timeout.signal;
+          const startedAt = Date.now();
+          let streamed = false;
+
+          try {
+            const result = await provider.complete({
+              ...request,
+              signal,
+              onDelta: (delta) => {
+                streamed = true;
+                request.onDelta?.(delta);
+              },
+            });
+
+            attempts.push({
+              provider: provider.id,
+              model: provider.model,
+              attempt: retry + 1,
+              status: 'success',
+              durationMs: Date.now() - startedAt,
+            });
+
+            return {
+              ...result,
+              metadata: { ...result.metadata, provider: provider.id, model: provider.model, attempts },
+            };
+          } catch (error) {
+            // Przerwanie przez użytkownika - bez ponowień
+            if (request.signal?.aborted) throw error;
+
+            const timedOut = timeout.signal.aborted;
+            lastError = error;
+            attempts.push({
+              provider: provider.id,
+              model: provider.model,
+              attempt: retry + 1,
+              status: timedOut ? 'timeout' : 'error',
+              error: timedOut
+                ? `Przekroczono limit ${policy.timeoutMs} ms`
+                : error instanceof Error ? error.message : String(error),
+              durationMs: Date.now() - startedAt,
+            });
+
+            // Część odpowiedzi mogła już trafić do klienta - kolejna próba zaczyna od zera
+            if (streamed) request.onReset?.();
+
+            // Błąd trwały (np. 400, 401) - ponowienie nic nie da, przejdź do fallbacku
+            if (!timedOut && !isRetryableError(error)) {
+              console.error(`[RESILIENCE] ${provider.id}: błąd bez ponowień -`, error);
+              break;
+            }
+
+            if (retry < policy.maxRetries) {
+              const delay = getBackoffDelay(retry, policy);
+              console.error(`[RESILIENCE] ${provider.id}: próba ${retry + 1} nieudana, ponowienie za ${delay} ms`);
+              await sleep(delay, request.signal);
+            }
+          } finally {
+            clearTimeout(timer);
+          }
+        }
+
+        if (provider !== chain[chain.length - 1]) {
+          console.error(`[RESILIENCE] ${provider.id} wyczerpał próby - przechodzę do fallbacku`);
+        }
+      }
+
+      const reason = lastError instanceof Error ? lastError.message : 'nieznany błąd';
+      throw new AIProviderError(`Wszystkie próby nieudane (${attempts.length}): ${reason}`, attempts);
+    },
+  };
+}
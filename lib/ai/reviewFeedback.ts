@@ -0,0 +1,65 @@
+/**
+ * Uwagi z code review w pipeline czatu
+ * Odpowiedzi recenzentów → rekordy review_feedback, raport architekta → was_applied
+ */
+
+import {
+  replaceMessageReviewFeedback,
+  getPipelineRunReviewFeedback,
+  setReviewFeedbackApplied,
+} from '../supabase';
+import { parseReviewFindings } from '../reviewFindings';
+import type { LLMSource, ParsedReviewFinding, ReviewFeedback } from '../types';
+
+/**
+ * Zapisuje uwagi z odpowiedzi recenzenta (poprzednie uwagi tej wiadomości są zastępowane)
+ */
+export async function saveReviewFindings(
+  content: string,
+  reviewer: LLMSource,
+  messageId: string,
+  conversationId: string
+): Promise<ReviewFeedback[]> {
+  const findings = parseReviewFindings(content);
+  return replaceMessageReviewFeedback(
+    messageId,
+    findings.map(finding => ({ ...finding, reviewer, conversation_id: conversationId }))
+  );
+}
+
+/**
+ * Oznacza uwagi przebiegu pipeline wg raportu architekta
+ * findings - ponumerowane uwagi z promptu kroku, applied - numery uwzględnionych (od 1)
+ */
+export async function markAppliedFindings(
+  conversationId: string,
+  historyUntil: string,
+  findings: ParsedReviewFinding[],
+  applied: number[]
+): Promise<void> {
+  if (findings.length === 0) return;
+
+  const rows = await getPipelineRunReviewFeedback(conversationId, historyUntil);
+  const appliedIds: string[] = [];
+  const skippedIds: string[] = [];
+  const matched = new Set<string>();
+
+  // Numer z raportu → uwaga z promptu → zapisany rekord o tym samym rodzaju i opisie
+  findings.forEach((finding, index) => {
+    const row = rows.find(r =>
+      !matched.has(r.id) &&
+      r.feedback_type === finding.feedback_type &&
+      r.description === finding.description
+    );
+    if (!row) return;
+
+    matched.add(row.id);
+    (applied.includes(index + 1) ? appliedIds : skippedIds).push(row.id);
+  });
+
+  await Promise.all([
+    setReviewFeedbackApplied(appliedIds, true),
+    setReviewFeedbackApplied(skippedIds, false),
+  ]);
+  console.log(`[REVIEW] Uwzględnione uwagi: ${appliedIds.length}/${appliedIds.length + skippedIds.length}`);
+}
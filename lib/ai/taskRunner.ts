@@ -0,0 +1,181 @@
+/**
+ * Wbudowany runner zadań - pipeline multi-LLM bez N8N
+ * Claude pisze kod, GPT (z wynikiem sandboxa) i Gemini go oceniają, Claude poprawia - maksymalnie MAX_ITERATIONS razy
+ * Stan trafia do tasks, task_iterations i llm_responses tak jak z workflow N8N - /api/stream czyta go bez zmian
+ */
+
+import { callClaude, callClaudeSummary, callClaudeFinal } from './claude';
+import { callGPT } from './gpt';
+import { callGemini } from './gemini';
+import { getProviderForRole } from './registry';
+import { loadProjectKnowledge } from './knowledge';
+import { calculateCost } from './pricing';
+import { saveFailedLLMResponse } from './resilience';
+import { checkGeneratedCode, collectSandboxFiles, formatSandboxReport } from './codeCheck';
+import { stripMemorySidecar } from '../memorySidecar';
+import { parseReviewFindings, stripAppliedFindings } from '../reviewFindings';
+import {
+  updateTask,
+  createTaskIteration,
+  updateTaskIteration,
+  saveLLMResponse,
+  saveReviewFeedback,
+  uploadFile,
+} from '../supabase';
+import { MAX_ITERATIONS, TASK_RUN_TIMEOUT_MS } from '../constants';
+import type { AIContext, AIProvider, AIResponseWithMetadata, AIRole, Project, Task, TaskBackend, TaskMode } from '../types';
+
+// Feedback Gemini w trybie simple - pole wypełnione, żeby /api/stream nie czekał na review UI
+const SKIPPED_UX_FEEDBACK = 'Pominięto - tryb simple (bez review UI/UX)';
+
+/**
+ * Backend zadań z TASK_RUNNER (builtin | n8n)
+ * Bez ustawienia - N8N, gdy skonfigurowano N8N_WEBHOOK_URL, w przeciwnym razie wbudowany runner
+ */
+export function getTaskBackend(): TaskBackend {
+  const configured = process.env.TASK_RUNNER;
+  if (configured === 'builtin' || configured === 'n8n') return configured;
+  return process.env.N8N_WEBHOOK_URL ? 'n8n' : 'builtin';
+}
+
+/**
+ * Wywołuje krok zadania i zapisuje odpowiedź w llm_responses (koszt wg cennika modelu)
+ * Zwraca treść bez bloku pamięci i raportu uwzględnionych uwag; nieudane wywołanie zapisuje historię prób i rzuca dalej
+ */
+async function runCall(
+  task: Task,
+  provider: AIProvider,
+  role: AIRole,
+  prompt: string,
+  call: () => Promise<AIResponseWithMetadata>
+): Promise<string> {
+  let result: AIResponseWithMetadata;
+  try {
+    result = await call();
+  } catch (error) {
+    await saveFailedLLMResponse(error, provider, {
+      task_id: task.id,
+      project_id: task.project_id || undefined,
+      prompt_used: prompt.slice(0, 1000),
+      role,
+    });
+    throw error;
+  }
+
+  const content = stripAppliedFindings(stripMemorySidecar(result.content)).trim();
+  const { tokensUsed, inputTokens = 0, outputTokens = 0, model } = result.metadata;
+  await saveLLMResponse({
+    task_id: task.id,
+    project_id: task.project_id || undefined,
+    llm_source: result.metadata.provider || provider.id,
+    prompt_used: prompt.slice(0, 1000),
+    response: content.slice(0, 5000),
+    tokens_used: tokensUsed,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    cost_usd: calculateCost(model, inputTokens, outputTokens),
+    metadata: { provider: result.metadata.provider, model, role, attempts: result.metadata.attempts },
+  });
+  return content;
+}
+
+/**
+ * Uwagi recenzenta z tagami ([BUG], [UI]...) jako rekordy review_feedback zadania
+ */
+async function recordFindings(task: Task, reviewer: AIProvider, content: string): Promise<number> {
+  const findings = parseReviewFindings(content);
+  await Promise.all(findings.map(finding => saveReviewFeedback({ ...finding, task_id: task.id, reviewer: reviewer.id })));
+  return findings.length;
+}
+
+/**
+ * Pliki z finalnego kodu w storage (artifacts/tasks/<id>/) - ścieżki spłaszczone do nazwy pliku
+ */
+async function uploadTaskFiles(task: Task, code: string): Promise<void> {
+  for (const file of await collectSandboxFiles(code)) {
+    try {
+      await uploadFile(task.id, file.path.replace(/\//g, '__'), new Blob([file.content], { type: 'text/plain' }));
+    } catch (error) {
+      console.error(`[TASK] Nie udało się zapisać pliku ${file.path}:`, error);
+    }
+  }
+}
+
+/**
+ * Wykonuje zadanie: kod → review (GPT, w trybie full także Gemini) → poprawka, aż recenzenci nie mają uwag,
+ * kod przechodzi sprawdzenie w sandboxie albo skończą się iteracje
+ * Błąd albo przekroczenie TASK_RUN_TIMEOUT_MS oznacza zadanie jako failed - funkcja nie rzuca wyjątku
+ */
+export async function runTask(task: Task, mode: TaskMode, project?: Project | null): Promise<void> {
+  const prompt = task.description || task.title;
+  const architect = getProviderForRole('architect');
+  const reviewer = getProviderForRole('reviewer');
+  const ux = getProviderForRole('ux');
+  // Zadanie musi się skończyć przed limitem funkcji serwera - inaczej zostałoby w in_progress
+  const signal = AbortSignal.timeout(TASK_RUN_TIMEOUT_MS);
+
+  try {
+    await updateTask(task.id, { status: 'in_progress' });
+
+    const context: AIContext = {
+      history: [],
+      project: project || undefined,
+      projectKnowledge: await loadProjectKnowledge(project || undefined, prompt),
+    };
+
+    let code = '';
+    let gptFeedback = '';
+    let geminiFeedback = '';
+
+    for (let iterationNumber = 1; iterationNumber <= MAX_ITERATIONS; iterationNumber++) {
+      const iteration = await createTaskIteration(task.id, iterationNumber);
+      await updateTask(task.id, { iteration_count: iterationNumber });
+
+      // Pierwsza iteracja - kod od zera, kolejne - poprawka po feedbacku
+      const previousCode = code;
+      code = await runCall(task, architect, 'architect', prompt, () => iterationNumber === 1
+        ? callClaude(`${prompt}\n\n[TRYB GENEROWANIA - napisz pełny, działający kod]`, [], context, { provider: architect, signal })
+        : mode === 'full'
+          ? callClaudeFinal(prompt, previousCode, gptFeedback, geminiFeedback, context, { provider: architect, signal })
+          : callClaudeSummary(prompt, previousCode, gptFeedback, context, { provider: architect, signal }));
+
+      // Recenzent dostaje faktyczne błędy kompilacji i testów
+      const check = await checkGeneratedCode(code, null, signal);
+      signal.throwIfAborted();
+      await updateTaskIteration(iteration.id, {
+        claude_code: code,
+        check_status: check?.status ?? null,
+        check_result: check,
+      });
+
+      gptFeedback = await runCall(task, reviewer, 'reviewer', prompt, () => callGPT(prompt, code, [], context, {
+        provider: reviewer,
+        sandboxReport: check ? formatSandboxReport(check) : undefined,
+        signal,
+      }));
+      await updateTaskIteration(iteration.id, { gpt_feedback: gptFeedback });
+      let findings = await recordFindings(task, reviewer, gptFeedback);
+
+      if (mode === 'full') {
+        geminiFeedback = await runCall(task, ux, 'ux', prompt, () => callGemini(prompt, code, gptFeedback, [], context, { provider: ux, signal }));
+        findings += await recordFindings(task, ux, geminiFeedback);
+      } else {
+        geminiFeedback = SKIPPED_UX_FEEDBACK;
+      }
+      await updateTaskIteration(iteration.id, { gemini_feedback: geminiFeedback });
+
+      console.log(`[TASK] ${task.id} iteracja ${iterationNumber}/${MAX_ITERATIONS}: uwagi ${findings}, sandbox ${check?.status || 'brak kodu'}`);
+      if (findings === 0 && check?.status !== 'failed') break;
+    }
+
+    await updateTask(task.id, { status: 'completed', final_code: code });
+    await uploadTaskFiles(task, code);
+  } catch (error) {
+    console.error(`[TASK] Błąd zadania ${task.id}:`, error);
+    try {
+      await updateTask(task.id, { status: 'failed' });
+    } catch {
+      // Ignoruj błędy aktualizacji
+    }
+  }
+}
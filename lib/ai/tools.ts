@@ -0,0 +1,146 @@
+/**
+ * Narzędzia plików projektu dla AI (tool calling)
+ * Struktura, zawartość katalogu i odczyt pliku - z plików lokalnych albo z połączonego repo GitHub
+ * Wykonywane po stronie serwera w tej samej turze, z blokadami jak w /api/files (isPathSafe, isFileBlocked)
+ */
+
+import { listDirectory, readFileContent, getProjectTree, isPathSafe, isFileBlocked, isDirIgnored } from '../files';
+import { getRepoTree, getFileContent } from '../github';
+import { AI_TOOL_RESULT_MAX_CHARS, AI_TOOL_PREVIEW_CHARS } from '../constants';
+import type { AIToolCall, AIToolCallStep, AIToolDefinition, AIToolResult, AIToolset, RepoRef } from '../types';
+
+const PATH_PARAMETER = {
+  type: 'string' as const,
+  description: 'Ścieżka względem katalogu głównego projektu, np. "lib/types.ts" albo "." dla katalogu głównego',
+};
+
+export const FILE_TOOL_DEFINITIONS: AIToolDefinition[] = [
+  {
+    name: 'show_structure',
+    description: 'Drzewo plików całego projektu (bez node_modules, buildów i plików z sekretami)',
+    parameters: { type: 'object', properties: {}, required: [] },
+  },
+  {
+    name: 'list_directory',
+    description: 'Pliki i katalogi w podanym katalogu projektu',
+    parameters: { type: 'object', properties: { path: PATH_PARAMETER }, required: ['path'] },
+  },
+  {
+    name: 'read_file',
+    description: 'Zawartość pliku projektu',
+    parameters: { type: 'object', properties: { path: PATH_PARAMETER }, required: ['path'] },
+  },
+];
+
+// Źródło plików - lokalny katalog projektu albo repo GitHub
+interface FileSource {
+  structure: () => Promise<string>;
+  list: (path: string) => Promise<string>;
+  read: (path: string) => Promise<string>;
+}
+
+const localSource: FileSource = {
+  structure: getProjectTree,
+  list: async (path) => {
+    const files = await listDirectory(path);
+    return files.map(f => (f.type === 'dir' ? `${f.path}/` : f.path)).join('\n') || '(pusty katalog)';
+  },
+  read: async (path) => (await readFileContent(path)).content,
+};
+
+/**
+ * Repo GitHub - drzewo pobierane raz na turę, pliki ignorowane i zablokowane jak lokalnie
+ */
+function createGitHubSource({ owner, repo, branch }: RepoRef): FileSource {
+  let treePromise: Promise<string[]> | null = null;
+
+  const getPaths = () => {
+    treePromise ||= getRepoTree(owner, repo, branch).then(files =>
+      files
+        .map(f => f.path)
+        .filter(p => !p.split('/').some(isDirIgnored) && !isFileBlocked(p))
+        .sort()
+    );
+    return treePromise;
+  };
+
+  return {
+    structure: async () => `${owner}/${repo} (${branch})\n${(await getPaths()).join('\n')}`,
+    list: async (path) => {
+      const prefix = path === '.' ? '' : `${path}/`;
+      const entries = new Set<string>();
+      for (const filePath of await getPaths()) {
+        if (!filePath.startsWith(prefix)) continue;
+        const [name, ...rest] = filePath.slice(prefix.length).split('/');
+        entries.add(rest.length > 0 ? `${prefix}${name}/` : `${prefix}${name}`);
+      }
+      if (entries.size === 0) {
+        throw new Error(`Ścieżka nie istnieje: ${path}`);
+      }
+      return [...entries].join('\n');
+    },
+    read: async (path) => (await getFileContent(owner, repo, path, branch)).content,
+  };
+}
+
+/**
+ * Ścieżka z argumentów narzędzia - względna, bez "./" i "/" na początku
+ */
+function toolPath(input: Record<string, unknown>): string {
+  const raw = typeof input.path === 'string' ? input.path.trim() : '';
+  const path = raw.replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '');
+  return path || '.';
+}
+
+async function runTool(source: FileSource, call: AIToolCall): Promise<string> {
+  if (call.name === 'show_structure') {
+    return source.structure();
+  }
+
+  const path = toolPath(call.input);
+  if (!isPathSafe(path)) {
+    throw new Error('Nieprawidłowa ścieżka - dostęp zabroniony');
+  }
+
+  switch (call.name) {
+    case 'list_directory':
+      return source.list(path);
+    case 'read_file':
+      if (isFileBlocked(path)) {
+        throw new Error('Dostęp do tego pliku jest zabroniony ze względów bezpieczeństwa');
+      }
+      return source.read(path);
+    default:
+      throw new Error(`Nieznane narzędzie: ${call.name}`);
+  }
+}
+
+/**
+ * Tworzy narzędzia plików dla jednej odpowiedzi AI
+ * repo - połączone repo GitHub (brak - pliki lokalne), onStep - stan każdego wywołania (czat)
+ */
+export function createFileTools(repo?: RepoRef | null, onStep?: (step: AIToolCallStep) => void): AIToolset {
+  const source = repo ? createGitHubSource(repo) : localSource;
+
+  return {
+    definitions: FILE_TOOL_DEFINITIONS,
+    async execute(call: AIToolCall): Promise<AIToolResult> {
+      const step: AIToolCallStep = { id: call.id, name: call.name, input: call.input, status: 'running' };
+      onStep?.(step);
+
+      try {
+        let content = await runTool(source, call);
+        if (content.length > AI_TOOL_RESULT_MAX_CHARS) {
+          content = `${content.slice(0, AI_TOOL_RESULT_MAX_CHARS)}\n... (obcięto - wynik ma ${content.length} znaków)`;
+        }
+        onStep?.({ ...step, status: 'done', output: content.slice(0, AI_TOOL_PREVIEW_CHARS) });
+        return { content };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'nieznany błąd';
+        console.error(`[TOOLS] ${call.name} (${JSON.stringify(call.input)}):`, message);
+        onStep?.({ ...step, status: 'error', output: message });
+        return { content: `Błąd: ${message}`, isError: true };
+      }
+    },
+  };
+}
@@ -2,7 +2,7 @@
  * Stałe aplikacji AI Agent Dashboard
  */
 
-import type { StreamStatus, LLMSource, AISender, AIPersonality, ChatMode, ChatModeInfo } from './types';
+import type { StreamStatus, BuiltinLLMSource, AISender, BuiltinAISender, AIPersonality, AIResiliencePolicy, ModelPricing, ChatMode, ChatModeInfo, ReviewItemType, KnowledgeType, MemoryContentType, SearchSource, LLMTarget, AIRole, ReviewFeedbackType, BacklogStatus, BacklogPriority, MilestoneStatus } from './types';
 
 // Maksymalna liczba iteracji review
 export const MAX_ITERATIONS = 3;
@@ -10,6 +10,11 @@ export const MAX_ITERATIONS = 3;
 // Limit historii zadań
 export const TASK_HISTORY_LIMIT = 20;
 
+// Wbudowany runner zadań: limit czasu całego zadania (mieści się w maxDuration /api/webhook = 800 s)
+// i wiek zadania pending/in_progress, po którym /api/stream uznaje je za porzucone (funkcja serwera ubita)
+export const TASK_RUN_TIMEOUT_MS = 13 * 60 * 1000; // 13 minut
+export const TASK_STALE_TIMEOUT_MS = 15 * 60 * 1000; // 15 minut
+
 // Timeout dla SSE (ms)
 export const SSE_TIMEOUT = 5 * 60 * 1000; // 5 minut
 
@@ -42,14 +47,14 @@ export const STATUS_COLORS: Record<StreamStatus, string> = {
 };
 
 // Kolory LLM
-export const LLM_COLORS: Record<LLMSource, string> = {
+export const LLM_COLORS: Record<BuiltinLLMSource, string> = {
   claude: 'text-orange-500',
   gpt: 'text-green-500',
   gemini: 'text-blue-500',
 };
 
 // Nazwy LLM
-export const LLM_NAMES: Record<LLMSource, string> = {
+export const LLM_NAMES: Record<BuiltinLLMSource, string> = {
   claude: 'Claude',
   gpt: 'GPT-4',
   gemini: 'Gemini',
@@ -100,7 +105,7 @@ export const FILE_TYPE_ICONS: Record<string, string> = {
 // Skróty klawiaturowe
 export const KEYBOARD_SHORTCUTS = {
   SUBMIT: 'Ctrl+Enter',
-  FOCUS_INPUT: 'Ctrl+K',
+  SEARCH: 'Ctrl+K',
   CANCEL: 'Escape',
 };
 
@@ -179,7 +184,7 @@ export const detectLanguage = (code: string, filename?: string): string => {
 // ==========================================
 
 // Osobowości AI - kolory, role, avatary
-export const AI_PERSONALITIES: Record<AISender, AIPersonality> = {
+export const AI_PERSONALITIES: Record<BuiltinAISender, AIPersonality> = {
   claude: {
     name: 'claude',
     displayName: 'Claude',
@@ -206,6 +211,31 @@ export const AI_PERSONALITIES: Record<AISender, AIPersonality> = {
   }
 };
 
+// Osobowości providerów spoza wbudowanej trójki (ładowane z /api/providers)
+const registeredPersonalities: Record<string, AIPersonality> = {};
+
+// Rejestruje osobowości providerów z konfiguracji
+export const registerAIPersonalities = (personalities: AIPersonality[]): void => {
+  for (const personality of personalities) {
+    registeredPersonalities[personality.name] = personality;
+  }
+};
+
+// Zwraca osobowość dla nadawcy AI - z fallbackiem dla nieznanych providerów
+export const getAIPersonality = (sender: AISender): AIPersonality => {
+  if (sender in AI_PERSONALITIES) {
+    return AI_PERSONALITIES[sender as BuiltinAISender];
+  }
+  return registeredPersonalities[sender] || {
+    name: sender,
+    displayName: sender.charAt(0).toUpperCase() + sender.slice(1),
+    color: '#A1A1AA',
+    bgColor: '#A1A1AA20',
+    role: 'Asystent AI',
+    avatar: '⚪',
+  };
+};
+
 // Kolor użytkownika
 export const USER_COLOR = '#6B7280';
 export const USER_BG_COLOR = '#6B728020';
@@ -226,6 +256,11 @@ export const CHAT_MODES: Record<ChatMode, ChatModeInfo> = {
     label: 'Team',
     description: 'Pełny zespół: Claude + GPT + Gemini',
     icons: '🟣🟢🔵'
+  },
+  parallel: {
+    label: 'Team ⚡',
+    description: 'Pełny zespół z równoległym review: GPT i Gemini oceniają Claude\'a jednocześnie',
+    icons: '🟣🟢🔵'
   }
 };
 
@@ -253,10 +288,221 @@ export const isGenerateAction = (message: string): boolean => {
 // Limit historii wiadomości do kontekstu AI
 export const CHAT_HISTORY_LIMIT = 20;
 
+// Domyślna polityka odporności wywołań AI (nadpisywana per provider przez AI_RESILIENCE)
+export const AI_RESILIENCE_DEFAULTS: AIResiliencePolicy = {
+  timeoutMs: 2 * 60 * 1000, // 2 minuty na próbę
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 1000,
+  fallbacks: [],
+};
+
+// Cennik modeli (USD za milion tokenów) - dopasowanie po prefiksie nazwy modelu
+// Nadpisywany/rozszerzany przez AI_PRICING (np. dla providerów z AI_PROVIDERS)
+export const AI_MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+// Próg ostrzeżenia o budżecie projektu (ułamek miesięcznego limitu)
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+// Okna kontekstu modeli (tokeny) - dopasowanie po prefiksie, nadpisywane przez contextWindow w AI_PROVIDERS
+export const AI_MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'claude-': 200_000,
+  'gpt-4o': 128_000,
+  'gpt-4.1': 1_000_000,
+  'gemini-2.5': 1_000_000,
+  'gemini-2.0': 1_000_000,
+};
+
+// Okno dla modeli spoza listy (np. lokalnych)
+export const AI_DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// Tokeny zarezerwowane na system prompt roli, odpowiedzi poprzednich kroków i odpowiedź modelu
+export const AI_CONTEXT_RESERVED_TOKENS = 16_000;
+
+// Przybliżona liczba znaków na token (szacowanie bez tokenizera)
+export const CHARS_PER_TOKEN = 3.5;
+
+// Najnowsze wiadomości zawsze przekazywane dosłownie (starsze mogą trafić do podsumowania)
+export const CONTEXT_MIN_RECENT_MESSAGES = 4;
+
+// Ile wiadomości po podsumowaniu pobierać do budowania kontekstu
+export const CONTEXT_HISTORY_FETCH_LIMIT = 100;
+
+// Narzędzia plików AI: maksymalna liczba rund wywołań w jednej odpowiedzi (ostatnia runda bez narzędzi),
+// limit znaków wyniku przekazywanego modelowi i podglądu zapisywanego przy wiadomości
+export const AI_TOOL_MAX_ROUNDS = 8;
+export const AI_TOOL_RESULT_MAX_CHARS = 40_000;
+export const AI_TOOL_PREVIEW_CHARS = 2_000;
+
+// Etykiety kroków narzędzi w czacie
+export const AI_TOOL_LABELS: Record<string, string> = {
+  show_structure: 'Struktura projektu',
+  list_directory: 'Katalog',
+  read_file: 'Odczyt pliku',
+};
+
+// Sandbox sprawdzania kodu: domyślny i maksymalny limit czasu procesu, pamięć Node (MB), czas CPU procesu (s),
+// limit plików i ich łącznego rozmiaru oraz przechowywanego stdout/stderr
+export const SANDBOX_TIMEOUT_MS = 30_000;
+export const SANDBOX_MAX_TIMEOUT_MS = 120_000;
+export const SANDBOX_MAX_MEMORY_MB = 512;
+export const SANDBOX_MAX_CPU_SECONDS = 60;
+export const SANDBOX_MAX_FILES = 30;
+export const SANDBOX_MAX_TOTAL_BYTES = 1024 * 1024;
+export const SANDBOX_MAX_OUTPUT_CHARS = 20_000;
+
+// Limit znaków wyjścia procesów w raporcie dla recenzenta
+export const SANDBOX_REPORT_OUTPUT_CHARS = 4_000;
+
+// Tryb "do zielonego": górny limit prób kodu architekta (z pierwszą odpowiedzią) i opcje w czacie
+export const AUTO_FIX_MAX_ATTEMPTS = 5;
+export const AUTO_FIX_ATTEMPT_OPTIONS = [2, MAX_ITERATIONS, AUTO_FIX_MAX_ATTEMPTS];
+
+// Tabele elementów pamięci projektu objętych kolejką przeglądu
+export const REVIEW_ITEM_TABLES: Record<ReviewItemType, string> = {
+  decision: 'decisions',
+  bug: 'bugs_history',
+  prompt: 'prompts',
+  rule: 'project_rules',
+  tech: 'tech_stack',
+};
+
+// Domyślny limit tokenów sekcji wiedzy projektu w prompcie
+export const PROJECT_KNOWLEDGE_DEFAULT_BUDGET = 1500;
+
+// Ile najnowszych decyzji rozważać i ile najtrafniejszych z nich dołączyć do promptu
+export const PROJECT_KNOWLEDGE_RECENT_DECISIONS = 20;
+export const PROJECT_KNOWLEDGE_MAX_DECISIONS = 5;
+
+// Tabele bazy wiedzy projektu
+export const KNOWLEDGE_TABLES: Record<KnowledgeType, string> = {
+  decision: 'decisions',
+  bug: 'bugs_history',
+  rule: 'project_rules',
+  style: 'style_guide',
+  backlog: 'backlog',
+  doc: 'docs',
+  milestone: 'milestones',
+};
+
+// Próg podobieństwa tekstu (0-1), od którego element pamięci uznajemy za duplikat
+export const DEDUP_SIMILARITY_THRESHOLD = 0.75;
+
+// Próg podobieństwa cosinusowego embeddingów (DEDUP_EMBEDDINGS=true)
+export const DEDUP_EMBEDDING_THRESHOLD = 0.9;
+
+// Ile wektorów rekordów pamięci trzymać w cache deduplikacji (najdawniej użyte są usuwane)
+export const DEDUP_EMBEDDING_CACHE_SIZE = 2000;
+
+// Pamięć semantyczna: ile wpisów dołączyć do kontekstu, minimalne podobieństwo i długość fragmentu
+export const MEMORY_TOP_K = 5;
+export const MEMORY_MIN_SIMILARITY = 0.3;
+export const MEMORY_EXCERPT_CHARS = 500;
+
+// Maksymalna długość tekstu wysyłanego do embedowania
+export const MEMORY_EMBED_MAX_CHARS = 8000;
+
+// Wymiar wektorów deterministycznego serwisu embeddingów (jak kolumna vector w memory_embeddings)
+export const HASH_EMBEDDING_DIMENSIONS = 1536;
+
+// Etykiety rodzajów wpisów pamięci (cytowania w prompcie i w czacie)
+export const MEMORY_CONTENT_LABELS: Record<MemoryContentType, string> = {
+  code: 'kod',
+  decision: 'decyzja',
+  bug: 'bug',
+  rule: 'zasada',
+  doc: 'dokumentacja',
+  conversation: 'rozmowa',
+};
+
+// Narzędzia, dla których zapisywane są prompty
+export const LLM_TARGET_LABELS: Record<LLMTarget, string> = {
+  claude_code: 'Claude Code',
+  codex: 'Codex',
+  gemini: 'Gemini CLI',
+};
+
+// Rodzaje uwag z code review (checklista przy wiadomości recenzenta)
+export const REVIEW_FEEDBACK_LABELS: Record<ReviewFeedbackType, string> = {
+  bug: 'Bug',
+  optimization: 'Optymalizacja',
+  edge_case: 'Edge case',
+  best_practice: 'Best practice',
+  ui: 'UI',
+  ux: 'UX',
+  a11y: 'Dostępność',
+};
+
+// Role AI w pipeline (analityka ocen per rola)
+export const AI_ROLE_LABELS: Record<AIRole, string> = {
+  architect: 'Architekt',
+  reviewer: 'Recenzent',
+  ux: 'UX',
+};
+
+// Kolumny tablicy backlogu (kolejność jak na tablicy)
+export const BACKLOG_STATUS_LABELS: Record<BacklogStatus, string> = {
+  idea: 'Pomysł',
+  planned: 'Zaplanowane',
+  in_progress: 'W trakcie',
+  done: 'Zrobione',
+  rejected: 'Odrzucone',
+};
+
+// Priorytety backlogu (od najwyższego - sortowanie kart)
+export const BACKLOG_PRIORITY_LABELS: Record<BacklogPriority, string> = {
+  critical: 'Krytyczny',
+  high: 'Wysoki',
+  medium: 'Średni',
+  low: 'Niski',
+};
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  planned: 'Zaplanowany',
+  in_progress: 'W trakcie',
+  completed: 'Ukończony',
+  cancelled: 'Anulowany',
+};
+
+// Wyszukiwanie globalne: wyniki na źródło, długość fragmentu (znaki bez ts_headline, słowa w ts_headline)
+// i opóźnienie zapytania podczas pisania
+export const SEARCH_RESULTS_PER_SOURCE = 8;
+export const SEARCH_SNIPPET_CHARS = 160;
+export const SEARCH_SNIPPET_WORDS = 25;
+export const SEARCH_DEBOUNCE_MS = 250;
+
+// Ile wiadomości rozmowy wczytać, gdy wynik wyszukiwania jest poza domyślnym limitem
+export const CHAT_FOCUS_MESSAGES_LIMIT = 500;
+
+// Etykiety źródeł wyszukiwania
+export const SEARCH_SOURCE_LABELS: Record<SearchSource, string> = {
+  message: 'Wiadomości',
+  conversation: 'Rozmowy',
+  decision: 'Decyzje',
+  bug: 'Bugi',
+  doc: 'Dokumentacja',
+  prompt: 'Prompty',
+};
+
 // API endpoints dla chatu
 export const CHAT_API_ENDPOINTS = {
   CHAT: '/api/chat',
   CONVERSATIONS: '/api/conversations',
+  REGENERATE: '/api/chat/regenerate',
+  PROVIDERS: '/api/providers',
+  MEMORY: '/api/memory',
+  SEARCH: '/api/search',
 };
 
 // Skróty klawiaturowe dla chatu
@@ -264,5 +510,5 @@ export const CHAT_KEYBOARD_SHORTCUTS = {
   SEND: 'Ctrl+Enter',
   NEW_CONVERSATION: 'Ctrl+N',
   TOGGLE_SIDEBAR: 'Ctrl+B',
-  FOCUS_INPUT: 'Ctrl+K',
+  SEARCH: 'Ctrl+K',
 };
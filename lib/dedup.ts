@@ -0,0 +1,184 @@
+/**
+ * Deduplikacja pamięci projektu (decyzje, bugi, zasady, tech stack)
+ * Podobieństwo tekstu po normalizacji (trigramy znaków) + scalanie pól duplikatów
+ * Wspólne dla auto-save (serwer) i narzędzia scalania (klient)
+ */
+
+import { DEDUP_SIMILARITY_THRESHOLD } from './constants';
+import type { DedupItemType, ReviewItemRecords, ReviewStatus } from './types';
+
+// Pola porównywane przy szukaniu duplikatów (podobieństwo to średnia z pól)
+const DEDUP_FIELDS: Record<DedupItemType, string[]> = {
+  decision: ['title', 'description'],
+  bug: ['description'],
+  rule: ['rule'],
+  tech: ['name'],
+};
+
+// Pola uzupełniane przy scalaniu - przy tekstach opisowych wygrywa dłuższy
+const MERGE_FIELDS: Record<DedupItemType, { fill: string[]; longest: string[] }> = {
+  decision: { fill: ['reason', 'alternatives'], longest: ['description'] },
+  bug: { fill: ['file_path', 'line_number', 'severity'], longest: ['solution'] },
+  rule: { fill: [], longest: [] },
+  tech: { fill: ['version'], longest: [] },
+};
+
+type DedupRecord<T extends DedupItemType = DedupItemType> = ReviewItemRecords[T];
+
+function field(record: object, key: string): unknown {
+  return (record as unknown as Record<string, unknown>)[key];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Normalizuje tekst: małe litery, bez polskich znaków, interpunkcji i nadmiarowych spacji
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = ` ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+/**
+ * Podobieństwo dwóch tekstów (0-1) - współczynnik Dice'a na trygramach znaków
+ * Trygramy są odporne na odmianę słów i drobne różnice w sformułowaniu
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = trigrams(left);
+  const rightGrams = trigrams(right);
+  let shared = 0;
+  for (const gram of leftGrams) {
+    if (rightGrams.has(gram)) shared++;
+  }
+  return (2 * shared) / (leftGrams.size + rightGrams.size);
+}
+
+/**
+ * Tekst rekordu używany do porównań i embeddingów
+ */
+export function getDedupText(type: DedupItemType, record: Partial<DedupRecord>): string {
+  return DEDUP_FIELDS[type]
+    .map(key => field(record, key))
+    .filter(value => !isEmpty(value))
+    .join('\n');
+}
+
+/**
+ * Podobieństwo dwóch rekordów tego samego rodzaju
+ * Tech stack porównujemy po nazwie bez separatorów (Next.js = nextjs)
+ */
+export function recordSimilarity(type: DedupItemType, a: Partial<DedupRecord>, b: Partial<DedupRecord>): number {
+  if (type === 'tech') {
+    const compact = (record: Partial<DedupRecord>) => normalizeText(String(field(record, 'name') || '')).replace(/ /g, '');
+    return compact(a) && compact(a) === compact(b) ? 1 : 0;
+  }
+
+  const fields = DEDUP_FIELDS[type];
+  const total = fields.reduce((sum, key) => sum + textSimilarity(
+    String(field(a, key) || ''),
+    String(field(b, key) || '')
+  ), 0);
+  return total / fields.length;
+}
+
+/**
+ * Najbardziej podobny istniejący rekord powyżej progu (null - brak duplikatu)
+ */
+export function findDuplicate<T extends DedupItemType>(
+  type: T,
+  candidate: Partial<DedupRecord<T>>,
+  records: DedupRecord<T>[],
+  threshold: number = DEDUP_SIMILARITY_THRESHOLD
+): { record: DedupRecord<T>; similarity: number } | null {
+  let best: { record: DedupRecord<T>; similarity: number } | null = null;
+
+  for (const record of records) {
+    const similarity = recordSimilarity(type, candidate, record);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { record, similarity };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Grupuje rekordy w zbiory duplikatów (tylko grupy z co najmniej dwoma rekordami)
+ */
+export function groupDuplicates<T extends DedupItemType>(
+  type: T,
+  records: DedupRecord<T>[],
+  threshold: number = DEDUP_SIMILARITY_THRESHOLD
+): DedupRecord<T>[][] {
+  const groups: DedupRecord<T>[][] = [];
+
+  for (const record of records) {
+    const group = groups.find(g => g.some(member => recordSimilarity(type, record, member) >= threshold));
+    if (group) {
+      group.push(record);
+    } else {
+      groups.push([record]);
+    }
+  }
+
+  return groups.filter(group => group.length > 1);
+}
+
+/**
+ * Zmiany dla rekordu docelowego po scaleniu z innymi
+ * Puste pola są uzupełniane, z tekstów opisowych wygrywa najdłuższy
+ */
+export function mergeRecordFields<T extends DedupItemType>(
+  type: T,
+  target: Partial<DedupRecord<T>>,
+  sources: Partial<DedupRecord<T>>[]
+): Partial<DedupRecord<T>> {
+  const changes: Record<string, unknown> = {};
+  const { fill, longest } = MERGE_FIELDS[type];
+
+  for (const key of fill) {
+    if (!isEmpty(field(target, key))) continue;
+    const value = sources.map(source => field(source, key)).find(v => !isEmpty(v));
+    if (value !== undefined) changes[key] = value;
+  }
+
+  for (const key of longest) {
+    const current = String(field(target, key) || '');
+    const longer = sources
+      .map(source => String(field(source, key) || ''))
+      .reduce((best, value) => (value.length > best.length ? value : best), current);
+    if (longer !== current) changes[key] = longer;
+  }
+
+  return changes as Partial<DedupRecord<T>>;
+}
+
+/**
+ * Status po scaleniu - zaakceptowany, jeśli którykolwiek rekord był zaakceptowany
+ */
+export function mergeReviewStatus(records: Partial<DedupRecord>[]): ReviewStatus {
+  const statuses = records.map(record => record.review_status || 'accepted');
+  if (statuses.includes('accepted')) return 'accepted';
+  return statuses.includes('pending') ? 'pending' : 'rejected';
+}
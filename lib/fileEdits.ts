@@ -0,0 +1,482 @@
+/**
+ * Zmiany plików proponowane przez AI (bloki ```kodus-edit)
+ * Nagłówek bloku: akcja (create, modify, delete) i ścieżka; treść: fragmenty SEARCH/REPLACE, łatka unified diff
+ * albo pełna nowa treść pliku
+ * Fragmenty są umiejscawiane w aktualnej treści pliku (edytor albo GitHub) i akceptowane pojedynczo
+ */
+
+import type { DiffRow, FileEdit, FileEditAction, FileEditHunk, HunkDecision, ResolvedHunk, AppliedFileChange } from './types';
+
+// Język bloku kodu ze zmianą pliku
+export const FILE_EDIT_TAG = 'kodus-edit';
+
+// Instrukcja dla architekta dołączana do system promptu
+export const FILE_EDIT_INSTRUCTIONS = `
+
+ZMIANY W PLIKACH PROJEKTU:
+Gdy zmieniasz istniejące pliki albo tworzysz nowe, zamiast zwykłych bloków kodu użyj bloków \`\`\`${FILE_EDIT_TAG} <akcja> <ścieżka> - użytkownik przejrzy je jako diff i zaakceptuje wybrane fragmenty:
+- modify - fragmenty SEARCH/REPLACE (SEARCH dosłownie z pliku, z 2-3 liniami kontekstu):
+\`\`\`${FILE_EDIT_TAG} modify lib/utils.ts
+<<<<<<< SEARCH
+dotychczasowy kod
+=======
+nowy kod
+>>>>>>> REPLACE
+\`\`\`
+  zamiast SEARCH/REPLACE możesz podać łatkę unified diff (nagłówki @@ -n,m +n,m @@)
+- create - pełna treść nowego pliku
+- delete - bez treści
+Jeden blok na plik, ścieżki względem katalogu głównego projektu. Gdy treść zawiera \`\`\`, otwórz i zamknij blok czterema backtickami.`;
+
+const FENCE_OPEN = new RegExp('^(`{3,})' + FILE_EDIT_TAG + '[ \\t]+(create|modify|delete)[ \\t]+(\\S+)[ \\t]*$');
+
+const SEARCH_MARKER = /^<{5,9} ?SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} ?REPLACE\s*$/;
+const PATCH_HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+// Powyżej tej liczby porównań linii diff nie szuka wspólnych linii (całość jako zmiana)
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Linie pliku bez pustego elementu po końcowym znaku nowej linii
+function splitLines(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, '\n');
+  if (!normalized) return [];
+  return (normalized.endsWith('\n') ? normalized.slice(0, -1) : normalized).split('\n');
+}
+
+/**
+ * Fragmenty SEARCH/REPLACE z treści bloku
+ */
+function parseSearchReplace(body: string[]): FileEditHunk[] {
+  const hunks: FileEditHunk[] = [];
+  let current: FileEditHunk | null = null;
+  let section: 'search' | 'replace' | null = null;
+
+  for (const line of body) {
+    if (SEARCH_MARKER.test(line)) {
+      current = { oldLines: [], newLines: [] };
+      section = 'search';
+    } else if (current && section === 'search' && DIVIDER_MARKER.test(line)) {
+      section = 'replace';
+    } else if (current && section === 'replace' && REPLACE_MARKER.test(line)) {
+      hunks.push(current);
+      current = null;
+      section = null;
+    } else if (current && section === 'search') {
+      current.oldLines.push(line);
+    } else if (current && section === 'replace') {
+      current.newLines.push(line);
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Fragmenty łatki unified diff (nagłówki ---/+++ pomijane)
+ */
+function parsePatch(body: string[]): FileEditHunk[] {
+  const hunks: FileEditHunk[] = [];
+  let current: FileEditHunk | null = null;
+
+  for (const line of body) {
+    const header = line.match(PATCH_HUNK_HEADER);
+    if (header) {
+      current = { oldLines: [], newLines: [], startHint: Math.max(0, parseInt(header[1], 10) - 1) };
+      hunks.push(current);
+    } else if (!current || line.startsWith('\\')) {
+      continue;
+    } else if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1));
+    } else {
+      // Linia kontekstu - modele czasem gubią spację na początku pustej linii
+      const text = line.startsWith(' ') ? line.slice(1) : line;
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    }
+  }
+
+  return hunks;
+}
+
+function parseEditBody(action: FileEditAction, path: string, body: string[]): FileEdit {
+  if (action === 'delete') {
+    return { path, action, hunks: [] };
+  }
+
+  if (action === 'modify') {
+    if (body.some(line => SEARCH_MARKER.test(line))) {
+      return { path, action, hunks: parseSearchReplace(body) };
+    }
+    if (body.some(line => PATCH_HUNK_HEADER.test(line))) {
+      return { path, action, hunks: parsePatch(body) };
+    }
+  }
+
+  // Pełna treść pliku - z końcowym znakiem nowej linii
+  const content = body.length > 0 ? `${body.join('\n')}\n` : '';
+  return { path, action, hunks: [], content };
+}
+
+/**
+ * Przechodzi po odpowiedzi AI - zmiany plików i treść bez bloków zmian
+ * Niezamknięty blok (podczas streamingu) jest ukrywany, ale nie trafia do zmian
+ */
+function scanFileEdits(content: string): { edits: FileEdit[]; stripped: string } {
+  const edits: FileEdit[] = [];
+  const kept: string[] = [];
+  const lines = splitLines(content);
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE_OPEN);
+    if (!open) {
+      kept.push(lines[i]);
+      continue;
+    }
+
+    // Zagnieżdżone bloki z językiem (```ts ... ```) nie zamykają bloku zmiany
+    const [, fence, action, path] = open;
+    let depth = 0;
+    const end = lines.findIndex((line, index) => {
+      if (index <= i) return false;
+      if (line.trim() === fence) {
+        if (depth === 0) return true;
+        depth--;
+      } else if (fence.length === 3 && /^```\S/.test(line.trim())) {
+        depth++;
+      }
+      return false;
+    });
+    if (end < 0) break;
+
+    edits.push(parseEditBody(action as FileEditAction, path.replace(/^(\.\/|\/)+/, ''), lines.slice(i + 1, end)));
+    i = end;
+  }
+
+  return { edits, stripped: kept.join('\n').replace(/\n{3,}/g, '\n\n').trim() };
+}
+
+/**
+ * Zmiany plików z odpowiedzi AI (kolejne bloki tego samego pliku są łączone)
+ */
+export function parseFileEdits(content: string): FileEdit[] {
+  const byPath = new Map<string, FileEdit>();
+
+  for (const edit of scanFileEdits(content).edits) {
+    const previous = byPath.get(edit.path);
+    if (previous && previous.action === 'modify' && edit.action === 'modify' && !previous.content && !edit.content) {
+      previous.hunks.push(...edit.hunks);
+    } else {
+      byPath.set(edit.path, edit);
+    }
+  }
+
+  return [...byPath.values()];
+}
+
+/**
+ * Usuwa bloki zmian z treści wiadomości - zmiany są pokazywane osobno
+ */
+export function stripFileEdits(content: string): string {
+  return content.includes(FILE_EDIT_TAG) ? scanFileEdits(content).stripped : content;
+}
+
+type DiffOp = { type: 'equal' | 'remove' | 'add'; text: string };
+
+/**
+ * Diff linii (najdłuższy wspólny podciąg) - wspólny początek i koniec pomijane przed porównaniem
+ */
+function diffOps(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix
+    && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const middle: DiffOp[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    middle.push(...a.map(text => ({ type: 'remove' as const, text })), ...b.map(text => ({ type: 'add' as const, text })));
+  } else {
+    // lengths[i][j] - długość LCS dla a[i..] i b[j..]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ type: 'equal', text: a[i++] });
+        j++;
+      } else if (j < b.length && (i === a.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+        middle.push({ type: 'add', text: b[j++] });
+      } else {
+        middle.push({ type: 'remove', text: a[i++] });
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ type: 'equal' as const, text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: 'equal' as const, text })),
+  ];
+}
+
+/**
+ * Dzieli różnicę dwóch treści na osobne fragmenty (każdy ciągły obszar zmian to jeden fragment)
+ */
+function splitIntoHunks(baseLines: string[], newLines: string[]): ResolvedHunk[] {
+  const hunks: ResolvedHunk[] = [];
+  let current: ResolvedHunk | null = null;
+  let oldIndex = 0;
+
+  for (const op of diffOps(baseLines, newLines)) {
+    if (op.type === 'equal') {
+      current = null;
+      oldIndex++;
+      continue;
+    }
+    if (!current) {
+      current = { id: String(hunks.length), start: oldIndex, oldLines: [], newLines: [] };
+      hunks.push(current);
+    }
+    if (op.type === 'remove') {
+      current.oldLines.push(op.text);
+      oldIndex++;
+    } else {
+      current.newLines.push(op.text);
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Pozycje, na których w pliku występują szukane linie - dokładnie, a gdy brak, bez białych znaków na brzegach
+ */
+function findLines(baseLines: string[], needle: string[]): number[] {
+  const matchAt = (compare: (a: string, b: string) => boolean) => {
+    const positions: number[] = [];
+    for (let start = 0; start + needle.length <= baseLines.length; start++) {
+      if (needle.every((line, offset) => compare(baseLines[start + offset], line))) positions.push(start);
+    }
+    return positions;
+  };
+
+  const exact = matchAt((a, b) => a === b);
+  return exact.length > 0 ? exact : matchAt((a, b) => a.trim() === b.trim());
+}
+
+/**
+ * Umiejscawia fragment w pliku - wybiera wystąpienie za poprzednim fragmentem, najbliższe wskazówce z łatki
+ * Wspólne linie kontekstu na brzegach są odcinane (fragment obejmuje tylko zmianę)
+ */
+function locateHunk(baseLines: string[], hunk: FileEditHunk, id: string, from: number): ResolvedHunk {
+  if (hunk.oldLines.length === 0) {
+    // Pusty SEARCH - dopisanie na końcu pliku
+    return { id, start: baseLines.length, oldLines: [], newLines: hunk.newLines };
+  }
+
+  const positions = findLines(baseLines, hunk.oldLines);
+  if (positions.length === 0) {
+    return { id, start: hunk.startHint ?? from, oldLines: hunk.oldLines, newLines: hunk.newLines, error: 'Nie znaleziono fragmentu w pliku' };
+  }
+
+  const after = positions.filter(position => position >= from);
+  const hint = hunk.startHint ?? from;
+  const start = (after.length > 0 ? after : positions)
+    .reduce((best, position) => (Math.abs(position - hint) < Math.abs(best - hint) ? position : best));
+
+  // Wspólny kontekst to linie identyczne w SEARCH i REPLACE (także wcięcie - zmiana samego wcięcia jest zmianą)
+  // Porównujemy tekst łatki, a nie pliku: dopasowanie mogło pominąć białe znaki, a kontekst ma zostać nietknięty
+  const searchLines = hunk.oldLines;
+  const replaceLines = hunk.newLines;
+  let head = 0;
+  while (head < searchLines.length && head < replaceLines.length && searchLines[head] === replaceLines[head]) {
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < searchLines.length - head
+    && tail < replaceLines.length - head
+    && searchLines[searchLines.length - 1 - tail] === replaceLines[replaceLines.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  // Usuwane linie z pliku (mogą różnić się białymi znakami od łatki)
+  return {
+    id,
+    start: start + head,
+    oldLines: baseLines.slice(start + head, start + searchLines.length - tail),
+    newLines: replaceLines.slice(head, replaceLines.length - tail),
+  };
+}
+
+/**
+ * Fragmenty zmiany umiejscowione w aktualnej treści pliku (base - null, gdy pliku nie ma)
+ * Fragment bez zmian jest pomijany, nakładające się fragmenty dostają błąd
+ */
+export function resolveFileEdit(edit: FileEdit, base: string | null): ResolvedHunk[] {
+  const baseLines = base === null ? null : splitLines(base);
+
+  if (edit.action === 'delete') {
+    return baseLines
+      ? [{ id: '0', start: 0, oldLines: baseLines, newLines: [] }]
+      : [{ id: '0', start: 0, oldLines: [], newLines: [], error: 'Plik nie istnieje' }];
+  }
+
+  if (edit.content !== undefined) {
+    const newLines = splitLines(edit.content);
+    return baseLines
+      ? splitIntoHunks(baseLines, newLines)
+      : [{ id: '0', start: 0, oldLines: [], newLines, error: edit.action === 'modify' ? 'Brak pliku w edytorze i w repo' : undefined }];
+  }
+
+  if (!baseLines) {
+    return edit.hunks.map((hunk, index) => ({
+      id: String(index),
+      start: hunk.startHint ?? 0,
+      oldLines: hunk.oldLines,
+      newLines: hunk.newLines,
+      error: 'Brak pliku w edytorze i w repo',
+    }));
+  }
+
+  const resolved: ResolvedHunk[] = [];
+  let from = 0;
+  for (const [index, hunk] of edit.hunks.entries()) {
+    const located = locateHunk(baseLines, hunk, String(index), from);
+    // Fragment bez zmian (SEARCH = REPLACE albo REPLACE = aktualna treść pliku) - pomijany
+    const unchanged = located.oldLines.length === located.newLines.length
+      && located.oldLines.every((line, offset) => line === located.newLines[offset]);
+    if (!located.error && unchanged) continue;
+
+    const end = located.start + located.oldLines.length;
+    const overlaps = resolved.some(other => !other.error && (
+      other.start === located.start
+      || (other.start < end && located.start < other.start + other.oldLines.length)
+    ));
+    if (!located.error && overlaps) {
+      located.error = 'Fragment nakłada się na wcześniejszy';
+    }
+    if (!located.error) from = end;
+    resolved.push(located);
+  }
+
+  // Kolejność w pliku - numeracja nowej wersji liczona od góry
+  return resolved.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Treść pliku po zastosowaniu zaakceptowanych fragmentów
+ * Zwraca null, gdy żaden fragment nie został zaakceptowany (plik bez zmian)
+ */
+export function applyFileEdit(
+  edit: FileEdit,
+  base: string | null,
+  hunks: ResolvedHunk[],
+  decisions: Record<string, HunkDecision>
+): AppliedFileChange | null {
+  const accepted = hunks.filter(hunk => !hunk.error && decisions[hunk.id] === 'accepted');
+  if (accepted.length === 0) return null;
+
+  if (edit.action === 'delete') {
+    return { path: edit.path, content: null };
+  }
+
+  // Od końca pliku - wcześniejsze pozycje pozostają aktualne
+  const lines = base === null ? [] : splitLines(base);
+  for (const hunk of [...accepted].sort((a, b) => b.start - a.start)) {
+    lines.splice(hunk.start, hunk.oldLines.length, ...hunk.newLines);
+  }
+  // Końcowy znak nowej linii jak w pliku (nowe pliki - zawsze)
+  const trailingNewline = !base || base.endsWith('\n');
+  return { path: edit.path, content: lines.length > 0 ? lines.join('\n') + (trailingNewline ? '\n' : '') : '' };
+}
+
+/**
+ * Wiersze widoku obok siebie dla fragmentu - z liniami kontekstu z pliku
+ * offset - przesunięcie numeracji nowej wersji przez wcześniejsze fragmenty
+ */
+export function buildHunkRows(base: string | null, hunk: ResolvedHunk, offset: number, context = 3): DiffRow[] {
+  const baseLines = base === null ? [] : splitLines(base);
+  const rows: DiffRow[] = [];
+  const contextRow = (index: number): DiffRow => ({
+    type: 'context',
+    left: { line: index + 1, text: baseLines[index] },
+    right: { line: index + 1 + offset + (index >= hunk.start ? hunk.newLines.length - hunk.oldLines.length : 0), text: baseLines[index] },
+  });
+
+  const before = hunk.error ? hunk.start : Math.max(0, hunk.start - context);
+  for (let index = before; index < hunk.start && index < baseLines.length; index++) {
+    rows.push(contextRow(index));
+  }
+
+  let oldLine = hunk.start + 1;
+  let newLine = hunk.start + 1 + offset;
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  // Usunięte i dodane linie obok siebie - pary jako zmiana, nadmiar jako usunięcie albo dodanie
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const left = i < removed.length ? { line: oldLine++, text: removed[i] } : undefined;
+      const right = i < added.length ? { line: newLine++, text: added[i] } : undefined;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of diffOps(hunk.oldLines, hunk.newLines)) {
+    if (op.type === 'remove') {
+      removed.push(op.text);
+    } else if (op.type === 'add') {
+      added.push(op.text);
+    } else {
+      flush();
+      rows.push({ type: 'context', left: { line: oldLine++, text: op.text }, right: { line: newLine++, text: op.text } });
+    }
+  }
+  flush();
+
+  if (!hunk.error) {
+    const after = hunk.start + hunk.oldLines.length;
+    for (let index = after; index < Math.min(baseLines.length, after + context); index++) {
+      rows.push(contextRow(index));
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Liczba linii dodanych i usuniętych przez fragmenty (podsumowanie pliku)
+ */
+export function countHunkLines(hunks: ResolvedHunk[]): { added: number; removed: number } {
+  const total = { added: 0, removed: 0 };
+  for (const hunk of hunks) {
+    for (const op of diffOps(hunk.oldLines, hunk.newLines)) {
+      if (op.type === 'add') total.added++;
+      else if (op.type === 'remove') total.removed++;
+    }
+  }
+  return total;
+}
@@ -0,0 +1,31 @@
+/**
+ * Indeksowanie pamięci semantycznej z przeglądarki
+ * Embeddingi liczy serwer (klucze API) - klient tylko zgłasza zapisany lub zmieniony rekord
+ */
+
+import { CHAT_API_ENDPOINTS } from './constants';
+import type { KnowledgeType, ReviewItemType } from './types';
+
+// Rodzaje rekordów embedowanych przy zapisie (MemoryRecordType)
+const MEMORY_RECORD_TYPES: (KnowledgeType | ReviewItemType)[] = ['decision', 'bug', 'doc'];
+
+/**
+ * Zgłasza rekord do (ponownego) embedowania; inne rodzaje rekordów są pomijane
+ * Błąd nie przerywa zapisu - rekord po prostu nie trafi do wyszukiwania semantycznego
+ */
+export async function requestMemoryIndex(type: KnowledgeType | ReviewItemType, id: string): Promise<void> {
+  if (!MEMORY_RECORD_TYPES.includes(type)) return;
+
+  try {
+    const response = await fetch(CHAT_API_ENDPOINTS.MEMORY, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type, id }),
+    });
+    if (!response.ok) {
+      console.error('Błąd indeksowania pamięci:', response.status);
+    }
+  } catch (error) {
+    console.error('Błąd indeksowania pamięci:', error);
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Blok pamięci (sidecar JSON) w odpowiedziach AI
+ * AI dołącza na końcu odpowiedzi blok ```kodus-memory z decyzjami, bugami, zasadami, tech stackiem i promptami
+ * oraz propozycjami do backlogu (te nie są zapisywane automatycznie - trafiają do metadanych wiadomości)
+ * Walidacja względem schematu - auto-save zapisuje tylko poprawne elementy
+ */
+
+import type {
+  BacklogPriority,
+  LLMTarget,
+  MemoryBacklogItem,
+  MemoryBug,
+  MemoryDecision,
+  MemoryPrompt,
+  MemoryRule,
+  MemorySidecar,
+  MemorySidecarResult,
+  MemoryTech,
+  RuleCategory,
+  TechCategory,
+} from './types';
+
+// Język bloku kodu z pamięcią
+export const MEMORY_SIDECAR_TAG = 'kodus-memory';
+
+const RULE_CATEGORIES: RuleCategory[] = ['code_style', 'architecture', 'testing', 'security', 'naming', 'other'];
+const TECH_CATEGORIES: TechCategory[] = ['framework', 'library', 'language', 'database', 'state', 'styling', 'testing', 'build', 'other'];
+const LLM_TARGETS: LLMTarget[] = ['claude_code', 'codex', 'gemini'];
+const BUG_SEVERITIES: NonNullable<MemoryBug['severity']>[] = ['low', 'medium', 'high', 'critical'];
+const BACKLOG_PRIORITIES: BacklogPriority[] = ['low', 'medium', 'high', 'critical'];
+
+// Blok pamięci - zamknięty albo (podczas streamingu) jeszcze otwarty na końcu odpowiedzi
+const SIDECAR_PATTERN = new RegExp('\\n*```' + MEMORY_SIDECAR_TAG + '[^\\n]*\\n([\\s\\S]*?)(?:```|$)\\s*$');
+
+// Instrukcja dla AI dołączana do system promptu ról
+export const MEMORY_SIDECAR_INSTRUCTIONS = `
+
+PAMIĘĆ PROJEKTU:
+Na samym końcu odpowiedzi dodaj blok \`\`\`${MEMORY_SIDECAR_TAG} z JSON-em - tylko z tym, co faktycznie ustalono w tej odpowiedzi:
+{"decisions":[{"title":"","description":"","reason":"","alternatives":""}],"bugs":[{"description":"","solution":"","file_path":"","severity":"low|medium|high|critical"}],"rules":[{"rule":"","category":"${RULE_CATEGORIES.join('|')}"}],"tech":[{"name":"","category":"${TECH_CATEGORIES.join('|')}","version":""}],"prompts":[{"name":"","llm_target":"${LLM_TARGETS.join('|')}","content":"","description":""}],"backlog":[{"title":"","description":"","priority":"${BACKLOG_PRIORITIES.join('|')}"}]}
+- decisions: podjęte decyzje architektoniczne (nie luźne propozycje)
+- bugs: zdiagnozowane błędy razem z rozwiązaniem
+- rules: zasady i konwencje ustalone dla projektu
+- tech: technologie, których projekt używa (nie każda wspomniana)
+- prompts: gotowe prompty do wklejenia w inne narzędzie
+- backlog: pomysły i zadania na później wynikające z rozmowy (użytkownik sam zdecyduje, czy je dodać)
+Pomiń puste listy i opcjonalne pola. Gdy nie ma nic do zapamiętania, dodaj pusty blok:
+\`\`\`${MEMORY_SIDECAR_TAG}
+{}
+\`\`\``;
+
+type Validator<T> = (item: Record<string, unknown>) => T | string;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Niepusty tekst przycięty do limitu
+function text(value: unknown, maxLength: number): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
+}
+
+function optionalText(value: unknown, maxLength: number): string | undefined {
+  return text(value, maxLength) ?? undefined;
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[]): T | null {
+  return allowed.includes(value as T) ? (value as T) : null;
+}
+
+const validateDecision: Validator<MemoryDecision> = (item) => {
+  const title = text(item.title, 200);
+  const description = text(item.description, 2000);
+  if (!title || !description) return 'decyzja wymaga pól title i description';
+  return {
+    title,
+    description,
+    reason: text(item.reason, 1000) || '',
+    alternatives: optionalText(item.alternatives, 1000),
+  };
+};
+
+const validateBug: Validator<MemoryBug> = (item) => {
+  const description = text(item.description, 1000);
+  const solution = text(item.solution, 3000);
+  if (!description || !solution) return 'bug wymaga pól description i solution';
+  return {
+    description,
+    solution,
+    file_path: optionalText(item.file_path, 500),
+    line_number: typeof item.line_number === 'number' ? item.line_number : undefined,
+    severity: oneOf(item.severity, BUG_SEVERITIES) ?? undefined,
+  };
+};
+
+const validateRule: Validator<MemoryRule> = (item) => {
+  const rule = text(item.rule, 500);
+  if (!rule) return 'zasada wymaga pola rule';
+  return { rule, category: oneOf(item.category, RULE_CATEGORIES) ?? 'other' };
+};
+
+const validateTech: Validator<MemoryTech> = (item) => {
+  const name = text(item.name, 100);
+  if (!name) return 'tech wymaga pola name';
+  return {
+    name,
+    category: oneOf(item.category, TECH_CATEGORIES) ?? 'other',
+    version: optionalText(item.version, 50),
+  };
+};
+
+const validatePrompt: Validator<MemoryPrompt> = (item) => {
+  const name = text(item.name, 200);
+  const content = text(item.content, 10000);
+  const target = oneOf(item.llm_target, LLM_TARGETS);
+  if (!name || !content || !target) return 'prompt wymaga pól name, content i llm_target';
+  return { name, content, llm_target: target, description: optionalText(item.description, 500) };
+};
+
+const validateBacklogItem: Validator<MemoryBacklogItem> = (item) => {
+  const title = text(item.title, 200);
+  if (!title) return 'backlog wymaga pola title';
+  return {
+    title,
+    description: optionalText(item.description, 2000),
+    priority: oneOf(item.priority, BACKLOG_PRIORITIES) ?? undefined,
+  };
+};
+
+/**
+ * Waliduje listę elementów - niepoprawne są pomijane z opisem błędu
+ */
+function validateList<T>(key: string, value: unknown, validate: Validator<T>, errors: string[]): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${key}: oczekiwano listy`);
+    return [];
+  }
+
+  const valid: T[] = [];
+  value.forEach((item, index) => {
+    const result = isRecord(item) ? validate(item) : 'oczekiwano obiektu';
+    if (typeof result === 'string') {
+      errors.push(`${key}[${index}]: ${result}`);
+    } else {
+      valid.push(result);
+    }
+  });
+  return valid;
+}
+
+/**
+ * Usuwa blok pamięci z treści (także niedokończony podczas streamingu)
+ */
+export function stripMemorySidecar(content: string): string {
+  return content.replace(SIDECAR_PATTERN, '');
+}
+
+/**
+ * Wyciąga i waliduje blok pamięci z odpowiedzi AI
+ */
+export function extractMemorySidecar(content: string): MemorySidecarResult {
+  const match = content.match(SIDECAR_PATTERN);
+  if (!match) {
+    return { content, memory: null, errors: [] };
+  }
+
+  const stripped = content.slice(0, match.index).trimEnd();
+  const raw = match[1].trim();
+
+  let parsed: unknown;
+  try {
+    parsed = raw ? JSON.parse(raw) : {};
+  } catch {
+    return { content: stripped, memory: null, errors: ['niepoprawny JSON'] };
+  }
+
+  if (!isRecord(parsed)) {
+    return { content: stripped, memory: null, errors: ['oczekiwano obiektu JSON'] };
+  }
+
+  const errors: string[] = [];
+  const memory: MemorySidecar = {
+    decisions: validateList('decisions', parsed.decisions, validateDecision, errors),
+    bugs: validateList('bugs', parsed.bugs, validateBug, errors),
+    rules: validateList('rules', parsed.rules, validateRule, errors),
+    tech: validateList('tech', parsed.tech, validateTech, errors),
+    prompts: validateList('prompts', parsed.prompts, validatePrompt, errors),
+    backlog: validateList('backlog', parsed.backlog, validateBacklogItem, errors),
+  };
+
+  return { content: stripped, memory, errors };
+}
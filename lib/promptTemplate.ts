@@ -0,0 +1,21 @@
+/**
+ * Szablony promptów - zmienne {{nazwa}} uzupełniane z formularza
+ */
+
+// {{ nazwa }} - litery, cyfry, _, - i . (spacje wokół nazwy są dozwolone)
+const VARIABLE_PATTERN = /\{\{\s*([\p{L}\p{N}_.-]+)\s*\}\}/gu;
+
+/**
+ * Nazwy zmiennych w kolejności pierwszego wystąpienia (bez powtórzeń)
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const names = [...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Podstawia wartości zmiennych - nieuzupełnione zostają jako {{nazwa}}
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() ? values[name] : placeholder);
+}
@@ -0,0 +1,136 @@
+/**
+ * Uwagi z code review w odpowiedziach recenzentów
+ * Recenzenci oznaczają uwagi tagami ([BUG], [OPTYMALIZACJA], [EDGE CASE]...) - parsowanie do rekordów review_feedback
+ * Architekt w wersji finalnej raportuje numery uwzględnionych uwag (was_applied)
+ */
+
+import type { ParsedReviewFinding, ReviewFeedbackType } from './types';
+
+// Tagi z promptów recenzentów (GPT, Gemini)
+const FINDING_TAGS: Record<string, ReviewFeedbackType> = {
+  'BUG': 'bug',
+  'OPTYMALIZACJA': 'optimization',
+  'EDGE CASE': 'edge_case',
+  'BEST PRACTICE': 'best_practice',
+  'UI': 'ui',
+  'UX': 'ux',
+  'A11Y': 'a11y',
+};
+
+const TYPE_TAGS = Object.fromEntries(
+  Object.entries(FINDING_TAGS).map(([tag, type]) => [type, tag])
+) as Record<ReviewFeedbackType, string>;
+
+// Linia otwierająca uwagę: opcjonalny punktor albo numer, tag (także pogrubiony), opcjonalny dwukropek
+const FINDING_LINE = new RegExp(
+  `^\\s*(?:[-*•]|\\d+[.)])?\\s*\\**\\[(${Object.keys(FINDING_TAGS).join('|')})\\]\\**\\s*[:\\-–]?\\s*(.*)$`,
+  'i'
+);
+
+// Podpis autora przy połączonych odpowiedziach kroków równoległych ("[GPT]:")
+const AUTHOR_LINE = /^\s*\[[^\]]+\]:\s*$/;
+
+// Oddziela opis od propozycji w pierwszej linii uwagi ("opis + fix", "opis → przykład", "Fix: ...")
+const SUGGESTION_SEPARATOR = /\s+(?:\+|→|->)\s+(?:(?:fix|propozycja|przykład|rozwiązanie|sugestia)\s*:\s*)?|\s*\b(?:fix|propozycja|przykład|rozwiązanie|sugestia)\s*:\s*/i;
+
+const MAX_DESCRIPTION_CHARS = 500;
+const MAX_SUGGESTION_CHARS = 2000;
+
+// Linia raportu architekta z numerami uwzględnionych uwag
+export const APPLIED_FINDINGS_MARKER = 'UWZGLĘDNIONE UWAGI';
+const APPLIED_LINE = new RegExp(`^[ \\t]*\\**${APPLIED_FINDINGS_MARKER}\\**:([^\\n]*)$`, 'imu');
+
+/**
+ * Zamienia zebrane linie uwagi na opis i propozycję
+ */
+function buildFinding(type: ReviewFeedbackType, firstLine: string, rest: string[]): ParsedReviewFinding | null {
+  const separator = firstLine.match(SUGGESTION_SEPARATOR);
+  const head = separator ? firstLine.slice(0, separator.index) : firstLine;
+  const tail = separator ? firstLine.slice((separator.index ?? 0) + separator[0].length) : '';
+
+  const suggestion = [tail, ...rest].join('\n').trim();
+  const description = head.trim() || suggestion.split('\n')[0].trim();
+  if (!description) return null;
+
+  return {
+    feedback_type: type,
+    description: description.slice(0, MAX_DESCRIPTION_CHARS),
+    suggestion: suggestion && suggestion !== description ? suggestion.slice(0, MAX_SUGGESTION_CHARS) : undefined,
+  };
+}
+
+/**
+ * Wyciąga oznaczone tagami uwagi z odpowiedzi recenzenta
+ * Uwaga obejmuje linię z tagiem i kolejne linie (np. blok kodu z poprawką) do następnego tagu
+ */
+export function parseReviewFindings(content: string): ParsedReviewFinding[] {
+  const findings: ParsedReviewFinding[] = [];
+  let current: { type: ReviewFeedbackType; firstLine: string; rest: string[] } | null = null;
+  let inCodeBlock = false;
+
+  const flush = () => {
+    const finding = current && buildFinding(current.type, current.firstLine, current.rest);
+    if (finding) findings.push(finding);
+    current = null;
+  };
+
+  for (const line of content.split('\n')) {
+    if (line.trim().startsWith('```')) inCodeBlock = !inCodeBlock;
+
+    const match = !inCodeBlock ? line.match(FINDING_LINE) : null;
+    if (match) {
+      flush();
+      current = { type: FINDING_TAGS[match[1].toUpperCase()], firstLine: match[2], rest: [] };
+    } else if (!inCodeBlock && AUTHOR_LINE.test(line)) {
+      flush();
+    } else if (current) {
+      current.rest.push(line);
+    }
+  }
+  flush();
+
+  return findings;
+}
+
+/**
+ * Ponumerowana lista uwag dla architekta z prośbą o raport uwzględnionych (pusta, gdy brak uwag)
+ */
+export function formatFindingsForPrompt(findings: ParsedReviewFinding[]): string {
+  if (findings.length === 0) return '';
+
+  const list = findings
+    .map((finding, index) => `${index + 1}. [${TYPE_TAGS[finding.feedback_type]}] ${finding.description}`)
+    .join('\n');
+
+  return `
+
+Uwagi recenzentów (numeracja do raportu):
+${list}
+
+Na końcu odpowiedzi (przed blokiem pamięci) dodaj osobną linię:
+${APPLIED_FINDINGS_MARKER}: numery uwag, które uwzględniłeś, po przecinku (albo "brak")`;
+}
+
+/**
+ * Wyciąga raport uwzględnionych uwag z odpowiedzi architekta
+ * applied - numery uwag (od 1), null gdy odpowiedź nie zawiera raportu
+ */
+export function extractAppliedFindings(content: string): { content: string; applied: number[] | null } {
+  const match = content.match(APPLIED_LINE);
+  if (!match) {
+    return { content, applied: null };
+  }
+
+  const applied = [...match[1].matchAll(/\d+/g)].map(([number]) => parseInt(number, 10));
+  const before = content.slice(0, match.index).trimEnd();
+  const after = content.slice((match.index ?? 0) + match[0].length).trim();
+  const stripped = [before, after].filter(Boolean).join('\n\n');
+  return { content: stripped, applied };
+}
+
+/**
+ * Usuwa raport uwzględnionych uwag z treści (widoczny tylko podczas streamingu)
+ */
+export function stripAppliedFindings(content: string): string {
+  return extractAppliedFindings(content).content;
+}
@@ -0,0 +1,358 @@
+/**
+ * Sandbox sprawdzania kodu (tylko po stronie serwera)
+ * Pliki trafiają do katalogu tymczasowego, tsc sprawdza typy, a testy (node:test) albo snippet są uruchamiane
+ * w osobnym procesie z limitem czasu, pamięci i CPU, bez zmiennych środowiskowych aplikacji (klucze API)
+ * Uruchamiany kod działa w modelu uprawnień Node: odczyt i zapis tylko w katalogu tymczasowym, bez procesów
+ * potomnych i workerów. To nie jest pełna izolacja - sieć pozostaje dostępna
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SANDBOX_TIMEOUT_MS,
+  SANDBOX_MAX_TIMEOUT_MS,
+  SANDBOX_MAX_MEMORY_MB,
+  SANDBOX_MAX_CPU_SECONDS,
+  SANDBOX_MAX_FILES,
+  SANDBOX_MAX_TOTAL_BYTES,
+  SANDBOX_MAX_OUTPUT_CHARS,
+} from './constants';
+import type { SandboxDiagnostic, SandboxFile, SandboxRequest, SandboxResult, SandboxRun } from './types';
+
+// node_modules aplikacji - TypeScript i @types dla tsc (uruchamiany kod go nie widzi)
+const PROJECT_NODE_MODULES = path.join(process.cwd(), 'node_modules');
+const TSC_PATH = path.join(PROJECT_NODE_MODULES, 'typescript', 'bin', 'tsc');
+
+// Katalog wyniku kompilacji w sandboxie
+const OUT_DIR = 'dist';
+
+// Plik ładujący wszystkie testy w jednym procesie - node --test uruchamia pliki w procesach potomnych
+const TEST_RUNNER_FILE = 'kodus-sandbox-tests.js';
+
+// Pliki i katalogi zarządzane przez sandbox - nie mogą przyjść z zewnątrz
+const RESERVED_PATHS = ['node_modules', OUT_DIR, 'tsconfig.json', 'package.json', TEST_RUNNER_FILE];
+
+const TEST_FILE_PATTERN = /\.(test|spec)\.[jt]sx?$/;
+const SOURCE_FILE_PATTERN = /\.[jt]sx?$/;
+
+// Brak modułu lub deklaracji typów - zależność spoza projektu, a nie błąd w kodzie
+const MISSING_MODULE_CODES = ['TS2307', 'TS7016'];
+
+const TSCONFIG = {
+  compilerOptions: {
+    target: 'ES2022',
+    module: 'commonjs',
+    moduleResolution: 'node10',
+    jsx: 'react-jsx',
+    strict: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    allowJs: true,
+    resolveJsonModule: true,
+    noEmitOnError: false,
+    rootDir: '.',
+    outDir: OUT_DIR,
+  },
+  include: ['**/*'],
+  exclude: ['node_modules', OUT_DIR],
+};
+
+/**
+ * Czy sandbox jest włączony - uruchamia kod z zewnątrz, więc tylko po jawnym SANDBOX_ENABLED=true
+ * (sprawdzanie kodu w czacie, runnerze zadań i /api/sandbox)
+ */
+export function isSandboxEnabled(): boolean {
+  return process.env.SANDBOX_ENABLED === 'true';
+}
+
+/**
+ * Normalizuje ścieżkę pliku - względna, bez "..", poza plikami zarządzanymi przez sandbox
+ */
+function normalizeSandboxPath(raw: string): string {
+  const normalized = path.posix.normalize(raw.trim().replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+
+  if (!normalized || normalized === '.' || normalized.startsWith('/') || normalized.split('/').includes('..')) {
+    throw new Error(`Nieprawidłowa ścieżka pliku: ${raw}`);
+  }
+  if (RESERVED_PATHS.includes(normalized.split('/')[0])) {
+    throw new Error(`Ścieżka zarezerwowana przez sandbox: ${raw}`);
+  }
+  return normalized;
+}
+
+/**
+ * Waliduje zlecenie (np. z /api/sandbox) - rzuca błąd z opisem dla niepoprawnych danych
+ */
+export function normalizeSandboxRequest(raw: unknown): SandboxRequest {
+  const body = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+
+  if (!Array.isArray(body.files) || body.files.length === 0) {
+    throw new Error('Lista plików (files) jest wymagana');
+  }
+  if (body.files.length > SANDBOX_MAX_FILES) {
+    throw new Error(`Za dużo plików (maksymalnie ${SANDBOX_MAX_FILES})`);
+  }
+
+  const files: SandboxFile[] = body.files.map((file: unknown) => {
+    const entry = (typeof file === 'object' && file !== null ? file : {}) as Record<string, unknown>;
+    if (typeof entry.path !== 'string' || typeof entry.content !== 'string') {
+      throw new Error('Każdy plik musi mieć pola path i content (tekst)');
+    }
+    return { path: normalizeSandboxPath(entry.path), content: entry.content };
+  });
+
+  const totalBytes = files.reduce((sum, f) => sum + Buffer.byteLength(f.content), 0);
+  if (totalBytes > SANDBOX_MAX_TOTAL_BYTES) {
+    throw new Error(`Pliki są za duże (maksymalnie ${Math.round(SANDBOX_MAX_TOTAL_BYTES / 1024)}KB łącznie)`);
+  }
+
+  const entry = typeof body.entry === 'string' ? normalizeSandboxPath(body.entry) : undefined;
+  if (entry && !files.some(f => f.path === entry)) {
+    throw new Error(`Plik entry nie istnieje na liście plików: ${entry}`);
+  }
+
+  const timeoutMs = typeof body.timeoutMs === 'number' && body.timeoutMs > 0
+    ? Math.min(body.timeoutMs, SANDBOX_MAX_TIMEOUT_MS)
+    : undefined;
+
+  return { files, entry, timeoutMs };
+}
+
+/**
+ * Flagi modelu uprawnień Node dla uruchamianego kodu - system plików tylko w katalogu sandboxa,
+ * bez child_process i worker_threads (domyślnie zablokowane przy --experimental-permission)
+ */
+function permissionArgs(dir: string): string[] {
+  return [
+    '--experimental-permission',
+    `--allow-fs-read=${dir}`,
+    `--allow-fs-write=${dir}`,
+    // Ostrzeżenie o eksperymentalnym modelu uprawnień zaśmiecałoby raport
+    '--no-warnings',
+  ];
+}
+
+/**
+ * Uruchamia proces Node w sandboxie - własna grupa procesów zabijana po przekroczeniu czasu lub przerwaniu
+ * Limit czasu CPU (ulimit -t) ustawia powłoka przed exec, więc obowiązuje też kod uruchomiony przez Node
+ */
+function runNodeProcess(
+  cwd: string,
+  args: string[],
+  label: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<SandboxRun> {
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    const child = spawn('/bin/sh', ['-c', `ulimit -t ${SANDBOX_MAX_CPU_SECONDS} && exec "$@"`, 'sh', process.execPath, ...args], {
+      cwd,
+      // Tylko to, czego potrzebuje Node - bez kluczy API i konfiguracji aplikacji
+      env: {
+        PATH: process.env.PATH || '',
+        HOME: cwd,
+        TMPDIR: cwd,
+        NODE_ENV: 'test',
+        NODE_OPTIONS: `--max-old-space-size=${SANDBOX_MAX_MEMORY_MB}`,
+      },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    const collect = (current: string, chunk: Buffer) =>
+      current.length >= SANDBOX_MAX_OUTPUT_CHARS ? current : current + chunk.toString();
+    child.stdout.on('data', (chunk: Buffer) => { stdout = collect(stdout, chunk); });
+    child.stderr.on('data', (chunk: Buffer) => { stderr = collect(stderr, chunk); });
+
+    // Zabija cały proces razem z potomkami
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, timeoutMs);
+    signal?.addEventListener('abort', killGroup, { once: true });
+
+    const finish = (exitCode: number | null, error?: string) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', killGroup);
+      // Procesy pozostawione przez sprawdzany kod nie mogą działać po zakończeniu
+      killGroup();
+
+      const truncate = (text: string) => text.length > SANDBOX_MAX_OUTPUT_CHARS
+        ? `${text.slice(0, SANDBOX_MAX_OUTPUT_CHARS)}\n... (obcięto)`
+        : text;
+
+      resolve({
+        command: label,
+        exitCode,
+        stdout: truncate(stdout),
+        stderr: truncate(error ? `${stderr}${error}` : stderr),
+        timedOut,
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    child.on('error', (error) => finish(null, error.message));
+    child.on('close', (code) => finish(code));
+  });
+}
+
+/**
+ * Parsuje wyjście tsc --pretty false do listy diagnostyk
+ * Linie z wcięciem to kontynuacja komunikatu poprzedniej diagnostyki
+ */
+export function parseTscOutput(output: string): SandboxDiagnostic[] {
+  const diagnostics: SandboxDiagnostic[] = [];
+
+  for (const line of output.split('\n')) {
+    const located = line.match(/^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/);
+    const global = located ? null : line.match(/^(error|warning) (TS\d+): (.*)$/);
+
+    if (located || global) {
+      const [file, lineNo, column, severity, code, message] = located
+        ? located.slice(1)
+        : ['', '0', '0', ...global!.slice(1)];
+      diagnostics.push({
+        file,
+        line: Number(lineNo),
+        column: Number(column),
+        code,
+        message,
+        severity: severity === 'warning' || MISSING_MODULE_CODES.includes(code) ? 'warning' : 'error',
+      });
+    } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+
+  return diagnostics;
+}
+
+// Ścieżka skompilowanego pliku w katalogu wyniku
+function emittedPath(file: string): string {
+  return path.posix.join(OUT_DIR, file.replace(/\.[jt]sx?$/, '.js'));
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function executeSandbox(request: SandboxRequest, signal?: AbortSignal): Promise<SandboxResult> {
+  const timeoutMs = Math.min(request.timeoutMs || SANDBOX_TIMEOUT_MS, SANDBOX_MAX_TIMEOUT_MS);
+  const files = request.files.map(f => ({ ...f, path: normalizeSandboxPath(f.path) }));
+  const result: SandboxResult = {
+    status: 'passed',
+    files: files.map(f => f.path),
+    diagnostics: [],
+    typecheck: null,
+    run: null,
+    runKind: null,
+  };
+
+  if (!(await pathExists(TSC_PATH))) {
+    return { ...result, status: 'error', error: 'Brak TypeScript w node_modules aplikacji' };
+  }
+
+  // Rzeczywista ścieżka - model uprawnień Node porównuje ścieżki po rozwinięciu dowiązań (np. /tmp na macOS)
+  const dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'kodus-sandbox-')));
+  try {
+    for (const file of files) {
+      const target = path.join(dir, file.path);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content, 'utf-8');
+    }
+    await fs.writeFile(path.join(dir, 'tsconfig.json'), JSON.stringify(TSCONFIG, null, 2), 'utf-8');
+    await fs.symlink(PROJECT_NODE_MODULES, path.join(dir, 'node_modules'), 'junction');
+
+    result.typecheck = await runNodeProcess(dir, [TSC_PATH, '-p', 'tsconfig.json', '--pretty', 'false'], 'tsc -p tsconfig.json', timeoutMs, signal);
+    result.diagnostics = parseTscOutput(result.typecheck.stdout);
+    signal?.throwIfAborted();
+
+    // Uruchamiany kod nie dostaje node_modules aplikacji - tylko moduły wbudowane i własne pliki
+    await fs.unlink(path.join(dir, 'node_modules'));
+
+    // Testy mają pierwszeństwo przed snippetem - uruchamiany jest kod po kompilacji (także z błędami typów)
+    const tests = files.map(f => f.path).filter(p => TEST_FILE_PATTERN.test(p));
+    const targets = tests.length > 0 ? tests : request.entry ? [request.entry] : [];
+    result.runKind = tests.length > 0 ? 'tests' : request.entry ? 'snippet' : null;
+
+    if (result.runKind) {
+      const compiled = targets.map(t => (SOURCE_FILE_PATTERN.test(t) ? emittedPath(t) : t));
+      const missing: string[] = [];
+      for (const file of compiled) {
+        if (!(await pathExists(path.join(dir, file)))) missing.push(file);
+      }
+
+      if (missing.length > 0) {
+        result.error = `Brak skompilowanych plików: ${missing.join(', ')}`;
+      } else {
+        // Testy node:test ładowane w jednym procesie - runner zgłasza wynik wszystkich plików i kod wyjścia
+        if (result.runKind === 'tests') {
+          const runner = compiled.map(file => `require(${JSON.stringify(`./${file}`)});`).join('\n');
+          await fs.writeFile(path.join(dir, TEST_RUNNER_FILE), runner, 'utf-8');
+        }
+        const entry = result.runKind === 'tests' ? TEST_RUNNER_FILE : compiled[0];
+        const label = result.runKind === 'tests' ? `node:test ${compiled.join(' ')}` : `node ${entry}`;
+        result.run = await runNodeProcess(dir, [...permissionArgs(dir), entry], label, timeoutMs, signal);
+      }
+    }
+
+    const failed = result.typecheck.timedOut
+      || result.diagnostics.some(d => d.severity === 'error')
+      || Boolean(result.error)
+      || (result.run !== null && (result.run.timedOut || result.run.exitCode !== 0));
+    result.status = failed ? 'failed' : 'passed';
+    return result;
+  } finally {
+    // rm nie podąża za dowiązaniem - node_modules aplikacji zostaje nietknięte
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Sandboxy wykonywane po kolei - jeden kompilator i proces testów naraz
+let sandboxQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Sprawdza kod w sandboxie: type-check tsc, potem testy albo snippet (entry)
+ * Błąd samego sandboxa zwracany jest jako status "error", a nie wyjątek
+ */
+export function runSandbox(request: SandboxRequest, signal?: AbortSignal): Promise<SandboxResult> {
+  const run = sandboxQueue.then(async (): Promise<SandboxResult> => {
+    try {
+      signal?.throwIfAborted();
+      return await executeSandbox(request, signal);
+    } catch (error) {
+      console.error('[SANDBOX] Błąd sprawdzania kodu:', error);
+      return {
+        status: 'error',
+        files: request.files.map(f => f.path),
+        diagnostics: [],
+        typecheck: null,
+        run: null,
+        runKind: null,
+        error: error instanceof Error ? error.message : 'nieznany błąd',
+      };
+    }
+  });
+  sandboxQueue = run;
+  return run;
+}
@@ -0,0 +1,69 @@
+/**
+ * Wyszukiwanie globalne - zapytanie full-text i fragmenty z trafieniami zaznaczonymi przez Postgresa (ts_headline)
+ * Współdzielone przez zapytania do Supabase (serwer) i paletę wyszukiwania (klient)
+ */
+
+import { SEARCH_SNIPPET_CHARS } from './constants';
+
+// Maksymalna liczba słów zapytania
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Słowa zapytania (małe litery, bez znaków specjalnych)
+ */
+export function parseSearchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Zapytanie tsquery: wszystkie słowa jako prefiksy (wyniki już podczas pisania)
+ */
+export function buildTsQuery(terms: string[]): string {
+  return terms.map(term => `${term}:*`).join(' & ');
+}
+
+// Znaczniki trafień w wyniku ts_headline (StartSel/StopSel funkcji search_headlines) - znaki sterujące,
+// których nie ma w zwykłym tekście
+export const HEADLINE_START = '\u0002';
+export const HEADLINE_STOP = '\u0003';
+
+/**
+ * Fragment z zakresami trafień z wyniku ts_headline - zaznacza dokładnie to, co dopasował Postgres
+ * Bez headline (brak funkcji w bazie) - początek tekstu bez zaznaczeń
+ */
+export function parseHeadline(
+  text: string,
+  headline: string | null,
+  maxLength: number = SEARCH_SNIPPET_CHARS
+): { snippet: string; highlights: [number, number][] } {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (headline === null) {
+    return { snippet: flat.length > maxLength ? `${flat.slice(0, maxLength)}…` : flat, highlights: [] };
+  }
+
+  let fragment = '';
+  let open = -1;
+  const ranges: [number, number][] = [];
+  for (const char of headline.replace(/\s+/g, ' ').trim()) {
+    if (char === HEADLINE_START) {
+      open = fragment.length;
+    } else if (char === HEADLINE_STOP) {
+      if (open >= 0) ranges.push([open, fragment.length]);
+      open = -1;
+    } else {
+      fragment += char;
+    }
+  }
+
+  // Wielokropki, gdy fragment nie obejmuje początku albo końca tekstu
+  const prefix = flat.startsWith(fragment) ? '' : '…';
+  const suffix = flat.endsWith(fragment) ? '' : '…';
+  return {
+    snippet: `${prefix}${fragment}${suffix}`,
+    highlights: ranges.map(([from, to]) => [from + prefix.length, to + prefix.length]),
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Helpery Server-Sent Events dla odpowiedzi AI (/api/chat, /api/chat/regenerate)
+ */
+
+import type { AISender, AIToolCallStep, ChatMessageMetadata } from './types';
+
+// Nagłówki odpowiedzi SSE
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+// Helper do wysyłania SSE
+// signal jest przerywany gdy klient zamknie połączenie (np. przycisk stop)
+export function createSSEStream() {
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  const abortController = new AbortController();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+    cancel() {
+      controller = null;
+      abortController.abort();
+    },
+  });
+
+  const abort = () => {
+    controller = null;
+    abortController.abort();
+  };
+
+  const sendEvent = (data: object) => {
+    if (controller) {
+      try {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      } catch {
+        // Stream zamknięty
+      }
+    }
+  };
+
+  const close = () => {
+    if (controller) {
+      try {
+        controller.close();
+      } catch {
+        // Już zamknięty
+      }
+    }
+  };
+
+  return { stream, sendEvent, close, signal: abortController.signal, abort };
+}
+
+/**
+ * Tworzy streamowaną wiadomość AI - wspólne ID dla wszystkich delt i zdarzenia końcowego
+ * Przy ponownym generowaniu messageId to ID istniejącej wiadomości
+ */
+export function createMessageStream(
+  sendEvent: (data: object) => void,
+  sender: AISender,
+  messageId: string = `msg-${crypto.randomUUID()}`
+) {
+  // Ostatni stan każdego wywołania narzędzia - do zapisu w metadanych wiadomości
+  const toolCalls: AIToolCallStep[] = [];
+
+  return {
+    messageId,
+    toolCalls,
+    onDelta: (delta: string) => {
+      sendEvent({ type: 'delta', sender, messageId, content: delta });
+    },
+    // Provider ponawia próbę - klient czyści częściową treść i kroki narzędzi
+    onReset: () => {
+      toolCalls.length = 0;
+      sendEvent({ type: 'message_reset', sender, messageId });
+    },
+    onToolCall: (toolCall: AIToolCallStep) => {
+      const index = toolCalls.findIndex(step => step.id === toolCall.id);
+      if (index >= 0) toolCalls[index] = toolCall;
+      else toolCalls.push(toolCall);
+      sendEvent({ type: 'tool_call', sender, messageId, toolCall });
+    },
+    // savedId - ID wiadomości w bazie, klient podmienia nim tymczasowe messageId
+    // messageMetadata - metadane widoczne w UI (np. cytowana pamięć)
+    end: (content: string, savedId?: string, messageMetadata?: ChatMessageMetadata) => {
+      sendEvent({ type: 'message_end', sender, messageId, content, id: savedId, messageMetadata });
+    },
+  };
+}
@@ -9,6 +9,7 @@ import type {
   Project,
   Task,
   TaskIteration,
+  SandboxResult,
   LLMResponse,
   StorageFile,
   TaskFilters,
@@ -16,7 +17,9 @@ import type {
   ChatMessage,
   ChatMode,
   MessageSender,
+  ChatMessageMetadata,
   Preference,
+  Pipeline,
   // Nowe typy dla auto-save
   Decision,
   BugHistory,
@@ -25,13 +28,29 @@ import type {
   TechStackItem,
   StyleGuide,
   UserFeedback,
+  RatedResponse,
   ReviewFeedback,
   BacklogItem,
+  BacklogStatus,
   Doc,
   Milestone,
+  MilestoneStatus,
   MemoryEmbedding,
+  MemoryContentType,
+  ReviewSource,
+  ReviewStatus,
+  ReviewItem,
+  ReviewItemType,
+  ReviewItemRecords,
+  DedupItemType,
+  KnowledgeType,
+  KnowledgeRecords,
+  SearchFilters,
+  SearchResult,
+  SearchSource,
   // Inputy
   SaveLLMResponseInput,
+  UsageFilters,
   SaveDecisionInput,
   SaveBugInput,
   SavePromptInput,
@@ -44,7 +63,8 @@ import type {
   SaveDocInput,
   SaveMilestoneInput,
 } from './types';
-import { STORAGE_BUCKET, TASK_HISTORY_LIMIT } from './constants';
+import { STORAGE_BUCKET, TASK_HISTORY_LIMIT, REVIEW_ITEM_TABLES, KNOWLEDGE_TABLES, SEARCH_RESULTS_PER_SOURCE, SEARCH_SNIPPET_WORDS } from './constants';
+import { parseSearchTerms, buildTsQuery, parseHeadline } from './search';
 
 // Tworzenie klienta Supabase
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -233,6 +253,123 @@ export async function getTaskIterations(taskId: string): Promise<TaskIteration[]
   return data || [];
 }
 
+/**
+ * Tworzy pustą iterację zadania - kolejne pola wypełnia wbudowany runner (jak workflow N8N)
+ */
+export async function createTaskIteration(taskId: string, iterationNumber: number): Promise<TaskIteration> {
+  const { data, error } = await supabase
+    .from('task_iterations')
+    .insert({
+      task_id: taskId,
+      iteration_number: iterationNumber,
+      claude_code: null,
+      gpt_feedback: null,
+      gemini_feedback: null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Błąd tworzenia iteracji:', error);
+    throw new Error(`Nie udało się utworzyć iteracji: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Aktualizuje iterację zadania (kod Claude'a, feedback recenzentów)
+ */
+export async function updateTaskIteration(
+  id: string,
+  updates: Partial<Pick<TaskIteration, 'claude_code' | 'gpt_feedback' | 'gemini_feedback' | 'check_status' | 'check_result'>>
+): Promise<TaskIteration> {
+  const { data, error } = await supabase
+    .from('task_iterations')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Błąd aktualizacji iteracji:', error);
+    throw new Error(`Nie udało się zaktualizować iteracji: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Zapisuje próbę kodu architekta w trybie "do zielonego" (iteracja czatu bez zadania)
+ */
+export async function saveChatIteration(
+  conversationId: string,
+  messageId: string,
+  iterationNumber: number,
+  code: string,
+  check: SandboxResult
+): Promise<TaskIteration | null> {
+  try {
+    const { data, error } = await supabase
+      .from('task_iterations')
+      .insert({
+        task_id: null,
+        iteration_number: iterationNumber,
+        claude_code: code,
+        gpt_feedback: null,
+        gemini_feedback: null,
+        conversation_id: conversationId,
+        message_id: messageId,
+        check_status: check.status,
+        check_result: check,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Błąd zapisywania iteracji:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Błąd zapisywania iteracji:', error);
+    return null;
+  }
+}
+
+/**
+ * Aktualizuje próbę trybu "do zielonego" po ponownym wygenerowaniu jej wiadomości - nowy kod i wynik sprawdzenia
+ * Zwraca false, gdy wiadomość nie ma zapisanej próby (albo przy błędzie)
+ */
+export async function updateChatIteration(
+  messageId: string,
+  code: string,
+  check: SandboxResult | null
+): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from('task_iterations')
+      .update({
+        claude_code: code,
+        check_status: check?.status ?? null,
+        check_result: check,
+      })
+      .eq('message_id', messageId)
+      .select('id');
+
+    if (error) {
+      console.error('Błąd aktualizacji iteracji:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (error) {
+    console.error('Błąd aktualizacji iteracji:', error);
+    return false;
+  }
+}
+
 // ============================================
 // ODPOWIEDZI LLM
 // ============================================
@@ -429,7 +566,8 @@ export async function getConversationById(id: string): Promise<Conversation | nu
 export async function createConversation(
   title: string,
   mode: ChatMode,
-  projectId?: string
+  projectId?: string,
+  pipelineId?: string
 ): Promise<Conversation> {
   const { data, error } = await supabase
     .from('conversations')
@@ -437,6 +575,7 @@ export async function createConversation(
       title,
       mode,
       project_id: projectId || null,
+      pipeline_id: pipelineId || null,
     })
     .select()
     .single();
@@ -503,7 +642,8 @@ export async function getChatMessages(
 export async function saveChatMessage(
   conversationId: string,
   sender: MessageSender,
-  content: string
+  content: string,
+  metadata?: ChatMessageMetadata
 ): Promise<ChatMessage> {
   const { data, error } = await supabase
     .from('chat_messages')
@@ -511,6 +651,7 @@ export async function saveChatMessage(
       conversation_id: conversationId,
       sender,
       content,
+      metadata: metadata || null,
     })
     .select()
     .single();
@@ -529,20 +670,78 @@ export async function saveChatMessage(
   return data;
 }
 
+/**
+ * Pobiera wiadomość po ID
+ */
+export async function getChatMessageById(id: string): Promise<ChatMessage | null> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    console.error('Błąd pobierania wiadomości:', error);
+    throw new Error(`Nie udało się pobrać wiadomości: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Aktualizuje treść i metadane wiadomości (np. po ponownym wygenerowaniu)
+ */
+export async function updateChatMessage(
+  id: string,
+  updates: Partial<Pick<ChatMessage, 'content' | 'metadata'>>
+): Promise<ChatMessage> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Błąd aktualizacji wiadomości:', error);
+    throw new Error(`Nie udało się zaktualizować wiadomości: ${error.message}`);
+  }
+
+  return data;
+}
+
 /**
  * Pobiera historię konwersacji dla AI (ostatnie N wiadomości)
+ * until - tylko wiadomości do tego momentu (np. przy ponownym generowaniu kroku)
+ * after - tylko wiadomości po tym momencie (starsze są w podsumowaniu rozmowy)
  */
 export async function getConversationHistory(
   conversationId: string,
-  limit: number = 20
+  limit: number = 20,
+  until?: string,
+  after?: string
 ): Promise<ChatMessage[]> {
-  const { data, error } = await supabase
+  let query = supabase
     .from('chat_messages')
     .select('*')
     .eq('conversation_id', conversationId)
     .order('created_at', { ascending: false })
     .limit(limit);
 
+  if (until) {
+    query = query.lte('created_at', until);
+  }
+
+  // Wiadomości objęte podsumowaniem rozmowy są pomijane
+  if (after) {
+    query = query.gt('created_at', after);
+  }
+
+  const { data, error } = await query;
+
   if (error) {
     console.error('Błąd pobierania historii:', error);
     return [];
@@ -552,6 +751,61 @@ export async function getConversationHistory(
   return (data || []).reverse();
 }
 
+// ============================================
+// PIPELINES (Własne sekwencje zespołu AI)
+// ============================================
+
+/**
+ * Pobiera pipeline'y dostępne w projekcie (projektowe + globalne)
+ */
+export async function getPipelines(projectId?: string): Promise<Pipeline[]> {
+  try {
+    let query = supabase
+      .from('pipelines')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    query = projectId
+      ? query.or(`project_id.eq.${projectId},project_id.is.null`)
+      : query.is('project_id', null);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Błąd pobierania pipeline:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Błąd pobierania pipeline:', error);
+    return [];
+  }
+}
+
+/**
+ * Pobiera pipeline po ID
+ */
+export async function getPipelineById(id: string): Promise<Pipeline | null> {
+  try {
+    const { data, error } = await supabase
+      .from('pipelines')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Błąd pobierania pipeline:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Błąd pobierania pipeline:', error);
+    return null;
+  }
+}
+
 // ============================================
 // PREFERENCJE UŻYTKOWNIKA
 // ============================================
@@ -685,6 +939,17 @@ export async function getPreferenceByKey(key: string): Promise<Preference | null
 // DECISIONS (Decyzje architektoniczne)
 // ============================================
 
+/**
+ * Kolumny pochodzenia elementu pamięci - dodane ręcznie są od razu zaakceptowane
+ */
+function reviewColumns(input: ReviewSource) {
+  return {
+    review_status: input.review_status || 'accepted',
+    source_message_id: input.source_message_id || null,
+    conversation_id: input.conversation_id || null,
+  };
+}
+
 /**
  * Zapisuje decyzję architektoniczną
  */
@@ -698,6 +963,7 @@ export async function saveDecision(input: SaveDecisionInput): Promise<Decision |
         description: input.description,
         reason: input.reason,
         alternatives: input.alternatives || null,
+        ...reviewColumns(input),
       })
       .select()
       .single();
@@ -716,13 +982,14 @@ export async function saveDecision(input: SaveDecisionInput): Promise<Decision |
 }
 
 /**
- * Pobiera decyzje dla projektu
+ * Pobiera zaakceptowane decyzje dla projektu
  */
 export async function getDecisions(projectId: string): Promise<Decision[]> {
   try {
     const { data, error } = await supabase
       .from('decisions')
       .select('*')
+      .eq('review_status', 'accepted')
       .eq('project_id', projectId)
       .order('created_at', { ascending: false });
 
@@ -756,6 +1023,7 @@ export async function saveBugHistory(input: SaveBugInput): Promise<BugHistory |
         file_path: input.file_path || null,
         line_number: input.line_number || null,
         severity: input.severity || 'medium',
+        ...reviewColumns(input),
       })
       .select()
       .single();
@@ -774,13 +1042,14 @@ export async function saveBugHistory(input: SaveBugInput): Promise<BugHistory |
 }
 
 /**
- * Pobiera historię bugów dla projektu
+ * Pobiera zaakceptowaną historię bugów dla projektu
  */
 export async function getBugsHistory(projectId: string): Promise<BugHistory[]> {
   try {
     const { data, error } = await supabase
       .from('bugs_history')
       .select('*')
+      .eq('review_status', 'accepted')
       .eq('project_id', projectId)
       .order('created_at', { ascending: false });
 
@@ -813,6 +1082,12 @@ export async function saveLLMResponse(input: SaveLLMResponseInput): Promise<LLMR
         prompt_used: input.prompt_used,
         response: input.response,
         tokens_used: input.tokens_used,
+        conversation_id: input.conversation_id || null,
+        project_id: input.project_id || null,
+        input_tokens: input.input_tokens ?? null,
+        output_tokens: input.output_tokens ?? null,
+        cost_usd: input.cost_usd ?? null,
+        metadata: input.metadata || null,
       })
       .select()
       .single();
@@ -830,6 +1105,40 @@ export async function saveLLMResponse(input: SaveLLMResponseInput): Promise<LLMR
   }
 }
 
+/**
+ * Pobiera zużycie tokenów i koszty (bez treści odpowiedzi) - do widoku kosztów i budżetu
+ */
+export async function getLLMUsage(filters: UsageFilters = {}): Promise<LLMResponse[]> {
+  try {
+    let query = supabase
+      .from('llm_responses')
+      .select('id, task_id, llm_source, conversation_id, project_id, tokens_used, input_tokens, output_tokens, cost_usd, created_at')
+      .order('created_at', { ascending: false });
+
+    if (filters.projectId) {
+      query = query.eq('project_id', filters.projectId);
+    }
+    if (filters.conversationId) {
+      query = query.eq('conversation_id', filters.conversationId);
+    }
+    if (filters.since) {
+      query = query.gte('created_at', filters.since);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Błąd pobierania zużycia LLM:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => ({ ...row, prompt_used: null, response: null }));
+  } catch (error) {
+    console.error('Błąd pobierania zużycia LLM:', error);
+    return [];
+  }
+}
+
 // ============================================
 // PROMPTS (Wygenerowane prompty)
 // ============================================
@@ -842,12 +1151,14 @@ export async function savePrompt(input: SavePromptInput): Promise<Prompt | null>
     const { data, error } = await supabase
       .from('prompts')
       .insert({
+        project_id: input.project_id || null,
         name: input.name,
         llm_target: input.llm_target,
         content: input.content,
         description: input.description || null,
         tags: input.tags || [],
         use_count: 0,
+        ...reviewColumns(input),
       })
       .select()
       .single();
@@ -866,19 +1177,25 @@ export async function savePrompt(input: SavePromptInput): Promise<Prompt | null>
 }
 
 /**
- * Pobiera prompty dla danego celu
+ * Pobiera zaakceptowane prompty dla danego celu
+ * Z projectId - prompty projektu i wspólne (bez projektu)
  */
-export async function getPrompts(llmTarget?: string): Promise<Prompt[]> {
+export async function getPrompts(llmTarget?: string, projectId?: string): Promise<Prompt[]> {
   try {
     let query = supabase
       .from('prompts')
       .select('*')
+      .eq('review_status', 'accepted')
       .order('created_at', { ascending: false });
 
     if (llmTarget) {
       query = query.eq('llm_target', llmTarget);
     }
 
+    if (projectId) {
+      query = query.or(`project_id.is.null,project_id.eq.${projectId}`);
+    }
+
     const { data, error } = await query;
 
     if (error) {
@@ -920,19 +1237,6 @@ export async function incrementPromptUseCount(promptId: string): Promise<void> {
  */
 export async function saveProjectRule(input: SaveProjectRuleInput): Promise<ProjectRule | null> {
   try {
-    // Sprawdź czy taka zasada już istnieje
-    const { data: existing } = await supabase
-      .from('project_rules')
-      .select('id')
-      .eq('project_id', input.project_id)
-      .eq('rule', input.rule)
-      .single();
-
-    if (existing) {
-      console.log('[AUTO-SAVE] Zasada już istnieje, pomijam');
-      return null;
-    }
-
     const { data, error } = await supabase
       .from('project_rules')
       .insert({
@@ -940,6 +1244,7 @@ export async function saveProjectRule(input: SaveProjectRuleInput): Promise<Proj
         rule: input.rule,
         category: input.category,
         is_active: true,
+        ...reviewColumns(input),
       })
       .select()
       .single();
@@ -958,13 +1263,14 @@ export async function saveProjectRule(input: SaveProjectRuleInput): Promise<Proj
 }
 
 /**
- * Pobiera zasady dla projektu
+ * Pobiera aktywne, zaakceptowane zasady dla projektu
  */
 export async function getProjectRules(projectId: string): Promise<ProjectRule[]> {
   try {
     const { data, error } = await supabase
       .from('project_rules')
       .select('*')
+      .eq('review_status', 'accepted')
       .eq('project_id', projectId)
       .eq('is_active', true)
       .order('created_at', { ascending: false });
@@ -990,19 +1296,6 @@ export async function getProjectRules(projectId: string): Promise<ProjectRule[]>
  */
 export async function saveTechStack(input: SaveTechStackInput): Promise<TechStackItem | null> {
   try {
-    // Sprawdź czy technologia już istnieje w projekcie
-    const { data: existing } = await supabase
-      .from('tech_stack')
-      .select('id')
-      .eq('project_id', input.project_id)
-      .ilike('name', input.name)
-      .single();
-
-    if (existing) {
-      console.log('[AUTO-SAVE] Tech stack item już istnieje, pomijam');
-      return null;
-    }
-
     const { data, error } = await supabase
       .from('tech_stack')
       .insert({
@@ -1010,6 +1303,7 @@ export async function saveTechStack(input: SaveTechStackInput): Promise<TechStac
         name: input.name,
         category: input.category,
         version: input.version || null,
+        ...reviewColumns(input),
       })
       .select()
       .single();
@@ -1028,13 +1322,14 @@ export async function saveTechStack(input: SaveTechStackInput): Promise<TechStac
 }
 
 /**
- * Pobiera tech stack dla projektu
+ * Pobiera zaakceptowany tech stack dla projektu
  */
 export async function getTechStack(projectId: string): Promise<TechStackItem[]> {
   try {
     const { data, error } = await supabase
       .from('tech_stack')
       .select('*')
+      .eq('review_status', 'accepted')
       .eq('project_id', projectId)
       .order('category', { ascending: true });
 
@@ -1051,71 +1346,253 @@ export async function getTechStack(projectId: string): Promise<TechStackItem[]>
 }
 
 // ============================================
-// STYLE_GUIDE (Zasady stylu kodu)
+// KOLEJKA PRZEGLĄDU (Elementy z auto-save)
 // ============================================
 
 /**
- * Zapisuje zasadę stylu kodu
+ * Pobiera elementy czekające na przegląd razem z wiadomością, z której pochodzą
  */
-export async function saveStyleGuide(input: SaveStyleGuideInput): Promise<StyleGuide | null> {
+export async function getPendingReviewItems(projectId?: string): Promise<ReviewItem[]> {
   try {
-    const { data, error } = await supabase
-      .from('style_guide')
-      .insert({
-        project_id: input.project_id,
-        rule: input.rule,
-        example_good: input.example_good || null,
-        example_bad: input.example_bad || null,
-        language: input.language || null,
+    const results = await Promise.all(
+      (Object.entries(REVIEW_ITEM_TABLES) as [ReviewItemType, string][]).map(async ([type, table]) => {
+        let query = supabase
+          .from(table)
+          .select('*')
+          .eq('review_status', 'pending');
+
+        if (projectId) {
+          query = query.eq('project_id', projectId);
+        }
+
+        const { data, error } = await query;
+        if (error) {
+          console.error(`Błąd pobierania kolejki przeglądu (${table}):`, error);
+          return [];
+        }
+        return (data || []).map(record => ({ type, record }) as ReviewItem);
       })
-      .select()
-      .single();
+    );
+
+    const items = results
+      .flat()
+      .sort((a, b) => (b.record.created_at || '').localeCompare(a.record.created_at || ''));
+
+    const messageIds = [...new Set(items.map(item => item.record.source_message_id).filter((id): id is string => !!id))];
+    if (messageIds.length === 0) {
+      return items;
+    }
+
+    const { data: messages, error } = await supabase
+      .from('chat_messages')
+      .select('*')
+      .in('id', messageIds);
 
     if (error) {
-      console.error('[AUTO-SAVE] Błąd zapisywania style guide:', error);
-      return null;
+      console.error('Błąd pobierania wiadomości źródłowych:', error);
+      return items;
     }
 
-    console.log('[AUTO-SAVE] Zapisano style guide:', data.id);
-    return data;
+    const byId = new Map<string, ChatMessage>((messages || []).map(message => [message.id, message]));
+    return items.map(item => ({
+      ...item,
+      sourceMessage: item.record.source_message_id ? byId.get(item.record.source_message_id) : undefined,
+    }) as ReviewItem);
   } catch (error) {
-    console.error('[AUTO-SAVE] Błąd zapisywania style guide:', error);
-    return null;
+    console.error('Błąd pobierania kolejki przeglądu:', error);
+    return [];
   }
 }
 
 /**
- * Pobiera style guide dla projektu
+ * Akceptuje (opcjonalnie z poprawkami) albo odrzuca element z kolejki przeglądu
+ * Odrzucone zostają w bazie (poza kontekstem AI) - widać, co już odrzucono
  */
-export async function getStyleGuide(projectId: string): Promise<StyleGuide[]> {
+export async function reviewItem<T extends ReviewItemType>(
+  type: T,
+  id: string,
+  status: Exclude<ReviewStatus, 'pending'>,
+  changes: Partial<ReviewItemRecords[T]> = {}
+): Promise<boolean> {
   try {
-    const { data, error } = await supabase
-      .from('style_guide')
+    const { error } = await supabase
+      .from(REVIEW_ITEM_TABLES[type])
+      .update({ ...changes, review_status: status })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Błąd przeglądu elementu:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Błąd przeglądu elementu:', error);
+    return false;
+  }
+}
+
+/**
+ * Pobiera rekordy pamięci projektu danego rodzaju (do deduplikacji i scalania)
+ */
+export async function getMemoryRecords<T extends DedupItemType>(
+  type: T,
+  projectId: string,
+  statuses?: ReviewStatus[]
+): Promise<ReviewItemRecords[T][]> {
+  try {
+    let query = supabase
+      .from(REVIEW_ITEM_TABLES[type])
       .select('*')
       .eq('project_id', projectId)
-      .order('created_at', { ascending: false });
+      .order('created_at', { ascending: true });
+
+    if (statuses) {
+      query = query.in('review_status', statuses);
+    }
+
+    const { data, error } = await query;
 
     if (error) {
-      console.error('Błąd pobierania style guide:', error);
+      console.error(`Błąd pobierania ${REVIEW_ITEM_TABLES[type]}:`, error);
       return [];
     }
 
     return data || [];
   } catch (error) {
-    console.error('Błąd pobierania style guide:', error);
+    console.error(`Błąd pobierania ${REVIEW_ITEM_TABLES[type]}:`, error);
     return [];
   }
 }
 
-// ============================================
-// USER_FEEDBACK (Oceny odpowiedzi AI)
-// ============================================
-
 /**
- * Zapisuje feedback użytkownika
+ * Aktualizuje pola rekordu pamięci projektu
  */
-export async function saveUserFeedback(input: SaveUserFeedbackInput): Promise<UserFeedback | null> {
+export async function updateMemoryRecord<T extends DedupItemType>(
+  type: T,
+  id: string,
+  changes: Partial<ReviewItemRecords[T]>
+): Promise<boolean> {
   try {
+    const { error } = await supabase
+      .from(REVIEW_ITEM_TABLES[type])
+      .update(changes)
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Błąd aktualizacji ${REVIEW_ITEM_TABLES[type]}:`, error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Błąd aktualizacji ${REVIEW_ITEM_TABLES[type]}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Scala duplikaty - aktualizuje rekord docelowy i usuwa pozostałe
+ */
+export async function mergeMemoryRecords<T extends DedupItemType>(
+  type: T,
+  targetId: string,
+  changes: Partial<ReviewItemRecords[T]>,
+  duplicateIds: string[]
+): Promise<boolean> {
+  if (!await updateMemoryRecord(type, targetId, changes)) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from(REVIEW_ITEM_TABLES[type])
+      .delete()
+      .in('id', duplicateIds);
+
+    if (error) {
+      console.error(`Błąd usuwania duplikatów ${REVIEW_ITEM_TABLES[type]}:`, error);
+      return false;
+    }
+
+    await deleteMemoryEmbeddings(duplicateIds);
+    return true;
+  } catch (error) {
+    console.error(`Błąd usuwania duplikatów ${REVIEW_ITEM_TABLES[type]}:`, error);
+    return false;
+  }
+}
+
+// ============================================
+// STYLE_GUIDE (Zasady stylu kodu)
+// ============================================
+
+/**
+ * Zapisuje zasadę stylu kodu
+ */
+export async function saveStyleGuide(input: SaveStyleGuideInput): Promise<StyleGuide | null> {
+  try {
+    const { data, error } = await supabase
+      .from('style_guide')
+      .insert({
+        project_id: input.project_id,
+        rule: input.rule,
+        example_good: input.example_good || null,
+        example_bad: input.example_bad || null,
+        language: input.language || null,
+        conversation_id: input.conversation_id || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[AUTO-SAVE] Błąd zapisywania style guide:', error);
+      return null;
+    }
+
+    console.log('[AUTO-SAVE] Zapisano style guide:', data.id);
+    return data;
+  } catch (error) {
+    console.error('[AUTO-SAVE] Błąd zapisywania style guide:', error);
+    return null;
+  }
+}
+
+/**
+ * Pobiera style guide dla projektu
+ */
+export async function getStyleGuide(projectId: string): Promise<StyleGuide[]> {
+  try {
+    const { data, error } = await supabase
+      .from('style_guide')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Błąd pobierania style guide:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Błąd pobierania style guide:', error);
+    return [];
+  }
+}
+
+// ============================================
+// USER_FEEDBACK (Oceny odpowiedzi AI)
+// ============================================
+
+/**
+ * Zapisuje feedback użytkownika
+ * Nowa ocena tej samej odpowiedzi zastępuje poprzednią
+ */
+export async function saveUserFeedback(input: SaveUserFeedbackInput): Promise<UserFeedback | null> {
+  try {
+    await supabase.from('user_feedback').delete().eq('llm_response_id', input.llm_response_id);
+
     const { data, error } = await supabase
       .from('user_feedback')
       .insert({
@@ -1139,10 +1616,69 @@ export async function saveUserFeedback(input: SaveUserFeedbackInput): Promise<Us
   }
 }
 
+/**
+ * Pobiera oceny odpowiedzi z providerem i rolą odpowiedzi - do analityki ocen
+ */
+export async function getRatedResponses(filters: UsageFilters = {}): Promise<RatedResponse[]> {
+  try {
+    let query = supabase
+      .from('user_feedback')
+      .select('rating, created_at, llm_responses!inner(llm_source, project_id, conversation_id, metadata)')
+      .order('created_at', { ascending: false });
+
+    if (filters.projectId) {
+      query = query.eq('llm_responses.project_id', filters.projectId);
+    }
+    if (filters.conversationId) {
+      query = query.eq('llm_responses.conversation_id', filters.conversationId);
+    }
+    if (filters.since) {
+      query = query.gte('created_at', filters.since);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Błąd pobierania ocen odpowiedzi:', error);
+      return [];
+    }
+
+    return (data || []).map((row) => {
+      const response = row.llm_responses as unknown as Pick<LLMResponse, 'llm_source' | 'metadata'>;
+      return {
+        rating: row.rating,
+        created_at: row.created_at,
+        // Fallback mógł odpowiedzieć zamiast providera przypisanego do roli
+        provider: response.metadata?.provider || response.llm_source,
+        role: response.metadata?.role,
+      };
+    });
+  } catch (error) {
+    console.error('Błąd pobierania ocen odpowiedzi:', error);
+    return [];
+  }
+}
+
 // ============================================
 // REVIEW_FEEDBACK (Feedback z code review)
 // ============================================
 
+/**
+ * Wiersz review_feedback - zadanie N8N albo wiadomość recenzenta w czacie
+ */
+function reviewFeedbackRow(input: SaveReviewFeedbackInput) {
+  return {
+    task_id: input.task_id || null,
+    reviewer: input.reviewer,
+    feedback_type: input.feedback_type,
+    description: input.description,
+    suggestion: input.suggestion || null,
+    was_applied: false,
+    message_id: input.message_id || null,
+    conversation_id: input.conversation_id || null,
+  };
+}
+
 /**
  * Zapisuje feedback z code review
  */
@@ -1150,14 +1686,7 @@ export async function saveReviewFeedback(input: SaveReviewFeedbackInput): Promis
   try {
     const { data, error } = await supabase
       .from('review_feedback')
-      .insert({
-        task_id: input.task_id,
-        reviewer: input.reviewer,
-        feedback_type: input.feedback_type,
-        description: input.description,
-        suggestion: input.suggestion || null,
-        was_applied: false,
-      })
+      .insert(reviewFeedbackRow(input))
       .select()
       .single();
 
@@ -1197,6 +1726,121 @@ export async function getReviewFeedback(taskId: string): Promise<ReviewFeedback[
   }
 }
 
+/**
+ * Zastępuje uwagi z wiadomości recenzenta (np. po ponownym wygenerowaniu odpowiedzi)
+ */
+export async function replaceMessageReviewFeedback(
+  messageId: string,
+  inputs: SaveReviewFeedbackInput[]
+): Promise<ReviewFeedback[]> {
+  try {
+    await supabase.from('review_feedback').delete().eq('message_id', messageId);
+    if (inputs.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('review_feedback')
+      .insert(inputs.map(input => reviewFeedbackRow({ ...input, message_id: messageId })))
+      .select();
+
+    if (error) {
+      console.error('[AUTO-SAVE] Błąd zapisywania review feedback:', error);
+      return [];
+    }
+
+    console.log(`[AUTO-SAVE] Zapisano ${data?.length || 0} uwag z review wiadomości ${messageId}`);
+    return data || [];
+  } catch (error) {
+    console.error('[AUTO-SAVE] Błąd zapisywania review feedback:', error);
+    return [];
+  }
+}
+
+/**
+ * Pobiera uwagi z review w rozmowie (checklista przy wiadomościach recenzentów)
+ */
+export async function getConversationReviewFeedback(conversationId: string): Promise<ReviewFeedback[]> {
+  try {
+    const { data, error } = await supabase
+      .from('review_feedback')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Błąd pobierania review feedback rozmowy:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Błąd pobierania review feedback rozmowy:', error);
+    return [];
+  }
+}
+
+/**
+ * Pobiera uwagi z jednego przebiegu pipeline - wiadomości AI odpowiadające na tę samą wiadomość użytkownika
+ * historyUntil - created_at wiadomości użytkownika zapisany w wejściu kroku (metadata.pipelineStep)
+ */
+export async function getPipelineRunReviewFeedback(
+  conversationId: string,
+  historyUntil: string
+): Promise<ReviewFeedback[]> {
+  try {
+    const { data: messages, error: messagesError } = await supabase
+      .from('chat_messages')
+      .select('id')
+      .eq('conversation_id', conversationId)
+      .eq('metadata->pipelineStep->>historyUntil', historyUntil);
+
+    if (messagesError) {
+      console.error('Błąd pobierania wiadomości przebiegu pipeline:', messagesError);
+      return [];
+    }
+    if (!messages?.length) return [];
+
+    const { data, error } = await supabase
+      .from('review_feedback')
+      .select('*')
+      .in('message_id', messages.map(m => m.id))
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Błąd pobierania review feedback przebiegu:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Błąd pobierania review feedback przebiegu:', error);
+    return [];
+  }
+}
+
+/**
+ * Oznacza uwagi jako uwzględnione albo nie
+ */
+export async function setReviewFeedbackApplied(ids: string[], wasApplied: boolean): Promise<boolean> {
+  if (ids.length === 0) return true;
+
+  try {
+    const { error } = await supabase
+      .from('review_feedback')
+      .update({ was_applied: wasApplied })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Błąd aktualizacji review feedback:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Błąd aktualizacji review feedback:', error);
+    return false;
+  }
+}
+
 // ============================================
 // BACKLOG (Pomysły/TODO)
 // ============================================
@@ -1215,6 +1859,8 @@ export async function saveBacklogItem(input: SaveBacklogInput): Promise<BacklogI
         priority: input.priority || 'medium',
         status: 'idea',
         tags: input.tags || [],
+        milestone_id: input.milestone_id || null,
+        conversation_id: input.conversation_id || null,
       })
       .select()
       .single();
@@ -1259,14 +1905,44 @@ export async function getBacklog(projectId: string): Promise<BacklogItem[]> {
 /**
  * Aktualizuje status elementu backlogu
  */
-export async function updateBacklogStatus(id: string, status: string): Promise<void> {
+export async function updateBacklogStatus(id: string, status: BacklogStatus): Promise<boolean> {
   try {
-    await supabase
+    const { error } = await supabase
       .from('backlog')
       .update({ status, updated_at: new Date().toISOString() })
       .eq('id', id);
+
+    if (error) {
+      console.error('Błąd aktualizacji backlog status:', error);
+      return false;
+    }
+
+    return true;
   } catch (error) {
     console.error('Błąd aktualizacji backlog status:', error);
+    return false;
+  }
+}
+
+/**
+ * Przenosi element backlogu do kamienia milowego (null - bez kamienia milowego)
+ */
+export async function updateBacklogMilestone(id: string, milestoneId: string | null): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('backlog')
+      .update({ milestone_id: milestoneId, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Błąd aktualizacji backlog milestone:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Błąd aktualizacji backlog milestone:', error);
+    return false;
   }
 }
 
@@ -1287,6 +1963,7 @@ export async function saveDoc(input: SaveDocInput): Promise<Doc | null> {
         content: input.content,
         doc_type: input.doc_type,
         file_path: input.file_path || null,
+        conversation_id: input.conversation_id || null,
       })
       .select()
       .single();
@@ -1344,6 +2021,7 @@ export async function saveMilestone(input: SaveMilestoneInput): Promise<Mileston
         description: input.description || null,
         status: 'planned',
         target_date: input.target_date || null,
+        conversation_id: input.conversation_id || null,
       })
       .select()
       .single();
@@ -1387,15 +2065,116 @@ export async function getMilestones(projectId: string): Promise<Milestone[]> {
 /**
  * Aktualizuje status kamienia milowego
  */
-export async function updateMilestoneStatus(id: string, status: string): Promise<void> {
+export async function updateMilestoneStatus(id: string, status: MilestoneStatus): Promise<boolean> {
   try {
     const updates: Record<string, unknown> = { status };
     if (status === 'completed') {
       updates.completed_date = new Date().toISOString();
     }
-    await supabase.from('milestones').update(updates).eq('id', id);
+    const { error } = await supabase.from('milestones').update(updates).eq('id', id);
+
+    if (error) {
+      console.error('Błąd aktualizacji milestone status:', error);
+      return false;
+    }
+
+    return true;
   } catch (error) {
     console.error('Błąd aktualizacji milestone status:', error);
+    return false;
+  }
+}
+
+// ============================================
+// BAZA WIEDZY (Edycja i usuwanie rekordów projektu)
+// ============================================
+
+// Tabele z kolumną updated_at
+const KNOWLEDGE_TIMESTAMPED: KnowledgeType[] = ['decision', 'backlog', 'doc'];
+
+/**
+ * Pobiera rekord bazy wiedzy projektu po ID
+ */
+export async function getKnowledgeRecord<T extends KnowledgeType>(
+  type: T,
+  id: string
+): Promise<KnowledgeRecords[T] | null> {
+  try {
+    const { data, error } = await supabase
+      .from(KNOWLEDGE_TABLES[type])
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error(`Błąd pobierania z ${KNOWLEDGE_TABLES[type]}:`, error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error(`Błąd pobierania z ${KNOWLEDGE_TABLES[type]}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Aktualizuje rekord bazy wiedzy projektu
+ */
+export async function updateKnowledgeRecord<T extends KnowledgeType>(
+  type: T,
+  id: string,
+  changes: Partial<KnowledgeRecords[T]>
+): Promise<KnowledgeRecords[T] | null> {
+  try {
+    const updates: Record<string, unknown> = { ...changes };
+    if (KNOWLEDGE_TIMESTAMPED.includes(type)) {
+      updates.updated_at = new Date().toISOString();
+    }
+    // Jak w updateMilestoneStatus - data ukończenia przy zmianie statusu
+    if (type === 'milestone' && updates.status === 'completed') {
+      updates.completed_date = new Date().toISOString();
+    }
+
+    const { data, error } = await supabase
+      .from(KNOWLEDGE_TABLES[type])
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Błąd aktualizacji ${KNOWLEDGE_TABLES[type]}:`, error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error(`Błąd aktualizacji ${KNOWLEDGE_TABLES[type]}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Usuwa rekord bazy wiedzy projektu
+ */
+export async function deleteKnowledgeRecord(type: KnowledgeType, id: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(KNOWLEDGE_TABLES[type])
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Błąd usuwania z ${KNOWLEDGE_TABLES[type]}:`, error);
+      return false;
+    }
+
+    await deleteMemoryEmbeddings([id]);
+    return true;
+  } catch (error) {
+    console.error(`Błąd usuwania z ${KNOWLEDGE_TABLES[type]}:`, error);
+    return false;
   }
 }
 
@@ -1404,15 +2183,22 @@ export async function updateMilestoneStatus(id: string, status: string): Promise
 // ============================================
 
 /**
- * Zapisuje embedding do pamięci (bez faktycznego embedowania - wymaga osobnego serwisu)
+ * Zapisuje wpis pamięci z wektorem, zastępując poprzedni wpis tego samego źródła
  */
 export async function saveMemoryEmbedding(
   content: string,
-  contentType: 'code' | 'decision' | 'bug' | 'rule' | 'doc' | 'conversation',
+  contentType: MemoryContentType,
   projectId?: string,
-  sourceId?: string
+  sourceId?: string,
+  embedding?: number[],
+  embeddingModel?: string
 ): Promise<MemoryEmbedding | null> {
   try {
+    // Edycja rekordu lub nowa wersja odpowiedzi - stary wektor przestaje być aktualny
+    if (sourceId) {
+      await deleteMemoryEmbeddings([sourceId]);
+    }
+
     const { data, error } = await supabase
       .from('memory_embeddings')
       .insert({
@@ -1420,36 +2206,63 @@ export async function saveMemoryEmbedding(
         content,
         content_type: contentType,
         source_id: sourceId || null,
-        // embedding będzie dodany przez trigger/funkcję w Supabase
+        embedding: embedding || null,
+        embedding_model: embeddingModel || null,
       })
-      .select()
+      .select('id, project_id, content, content_type, source_id, embedding_model, created_at')
       .single();
 
     if (error) {
-      console.error('[AUTO-SAVE] Błąd zapisywania memory embedding:', error);
+      console.error('[MEMORY] Błąd zapisywania memory embedding:', error);
       return null;
     }
 
-    console.log('[AUTO-SAVE] Zapisano memory embedding:', data.id, '-', contentType);
+    console.log('[MEMORY] Zapisano memory embedding:', data.id, '-', contentType);
     return data;
   } catch (error) {
-    console.error('[AUTO-SAVE] Błąd zapisywania memory embedding:', error);
+    console.error('[MEMORY] Błąd zapisywania memory embedding:', error);
     return null;
   }
 }
 
 /**
- * Wyszukuje podobne embeddingi (wymaga pg_vector w Supabase)
+ * Usuwa wpisy pamięci powiązane z rekordami źródłowymi
+ */
+export async function deleteMemoryEmbeddings(sourceIds: string[]): Promise<boolean> {
+  if (sourceIds.length === 0) return true;
+
+  try {
+    const { error } = await supabase
+      .from('memory_embeddings')
+      .delete()
+      .in('source_id', sourceIds);
+
+    if (error) {
+      console.error('[MEMORY] Błąd usuwania memory embeddings:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[MEMORY] Błąd usuwania memory embeddings:', error);
+    return false;
+  }
+}
+
+/**
+ * Wyszukuje podobne embeddingi (wymaga pg_vector i funkcji search_similar_embeddings w Supabase)
+ * Porównywane są tylko wektory policzone tym samym modelem
  */
 export async function searchSimilarEmbeddings(
   queryEmbedding: number[],
+  embeddingModel: string,
   projectId?: string,
   limit: number = 5
 ): Promise<MemoryEmbedding[]> {
   try {
-    // Ta funkcja wymaga RPC w Supabase z pg_vector
     const { data, error } = await supabase.rpc('search_similar_embeddings', {
       query_embedding: queryEmbedding,
+      match_model: embeddingModel,
       match_project_id: projectId || null,
       match_count: limit,
     });
@@ -1466,6 +2279,174 @@ export async function searchSimilarEmbeddings(
   }
 }
 
+// ============================================
+// WYSZUKIWANIE GLOBALNE (Full-text search)
+// ============================================
+
+// Wszystkie źródła wyszukiwania, w kolejności wyświetlania
+const SEARCH_SOURCES: SearchSource[] = ['message', 'conversation', 'decision', 'bug', 'doc', 'prompt'];
+
+/**
+ * Zapytanie full-text do jednej tabeli (trafienie w dowolnej z kolumn) z filtrami daty i projektu
+ */
+async function searchTable(
+  table: string,
+  columns: string[],
+  tsQuery: string,
+  filters: SearchFilters,
+  options: { select?: string; projectColumn?: string; reviewed?: boolean; match?: Record<string, string> } = {}
+): Promise<unknown[]> {
+  const { select = '*', projectColumn = 'project_id', reviewed = false, match } = options;
+
+  let query = supabase
+    .from(table)
+    .select(select)
+    // Konfiguracja "simple" - bez stemmingu, działa dla polskiego i angielskiego
+    .or(columns.map(column => `${column}.fts(simple)."${tsQuery}"`).join(','))
+    .order('created_at', { ascending: false })
+    .limit(SEARCH_RESULTS_PER_SOURCE);
+
+  if (filters.projectId) query = query.eq(projectColumn, filters.projectId);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+  if (reviewed) query = query.eq('review_status', 'accepted');
+  if (match) query = query.match(match);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error(`Błąd wyszukiwania w ${table}:`, error);
+    return [];
+  }
+  return data || [];
+}
+
+// Trafienie przed wyliczeniem fragmentu - text to treść, z której ts_headline wybiera fragment
+interface SearchHit {
+  result: Omit<SearchResult, 'snippet' | 'highlights'>;
+  text: string;
+}
+
+/**
+ * Fragmenty z zaznaczonymi trafieniami z Postgresa (funkcja search_headlines, ts_headline z tym samym zapytaniem)
+ * Bez funkcji w bazie - początki tekstów bez zaznaczeń
+ */
+async function searchHeadlines(texts: string[], tsQuery: string): Promise<Pick<SearchResult, 'snippet' | 'highlights'>[]> {
+  if (texts.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('search_headlines', {
+    docs: texts,
+    query: tsQuery,
+    max_words: SEARCH_SNIPPET_WORDS,
+  });
+  if (error) {
+    console.error('Błąd search_headlines:', error);
+    return texts.map(text => parseHeadline(text, null));
+  }
+  const headlines = (data || []) as string[];
+  return texts.map((text, index) => parseHeadline(text, headlines[index] ?? null));
+}
+
+/**
+ * Wyniki jednego źródła w formacie wspólnym dla palety wyszukiwania
+ */
+async function searchSource(source: SearchSource, tsQuery: string, filters: SearchFilters): Promise<SearchResult[]> {
+  const hits = await searchHits(source, tsQuery, filters);
+  const headlines = await searchHeadlines(hits.map(hit => hit.text), tsQuery);
+  return hits.map((hit, index) => ({ ...hit.result, ...headlines[index] }));
+}
+
+/**
+ * Trafienia jednego źródła - wiersze tabeli zmapowane na wspólne pola wyniku
+ */
+async function searchHits(source: SearchSource, tsQuery: string, filters: SearchFilters): Promise<SearchHit[]> {
+  const result = (id: string, title: string, text: string, extra: Partial<SearchResult>): SearchHit => ({
+    result: { id, source, title, ...extra },
+    text,
+  });
+
+  switch (source) {
+    case 'message': {
+      type MessageRow = ChatMessage & { conversations: { project_id?: string; title: string } };
+      const rows = await searchTable('chat_messages', ['content'], tsQuery, filters, {
+        select: 'id, conversation_id, sender, content, created_at, conversations!inner(project_id, title)',
+        projectColumn: 'conversations.project_id',
+        match: filters.sender ? { sender: filters.sender } : undefined,
+      }) as MessageRow[];
+      return rows.map(row => result(row.id, row.conversations.title, row.content, {
+        created_at: row.created_at,
+        project_id: row.conversations.project_id,
+        conversation_id: row.conversation_id,
+        message_id: row.id,
+        sender: row.sender,
+      }));
+    }
+    case 'conversation': {
+      const rows = await searchTable('conversations', ['title'], tsQuery, filters) as Conversation[];
+      return rows.map(row => result(row.id, row.title, row.title, {
+        created_at: row.created_at,
+        project_id: row.project_id,
+        conversation_id: row.id,
+      }));
+    }
+    case 'decision': {
+      const rows = await searchTable('decisions', ['title', 'description', 'reason'], tsQuery, filters, { reviewed: true }) as Decision[];
+      return rows.map(row => result(row.id, row.title, `${row.description} ${row.reason || ''}`, {
+        created_at: row.created_at,
+        project_id: row.project_id,
+        conversation_id: row.conversation_id,
+        message_id: row.source_message_id,
+      }));
+    }
+    case 'bug': {
+      const rows = await searchTable('bugs_history', ['description', 'solution'], tsQuery, filters, { reviewed: true }) as BugHistory[];
+      return rows.map(row => result(row.id, row.file_path || row.description.slice(0, 80), `${row.description} ${row.solution || ''}`, {
+        created_at: row.created_at,
+        project_id: row.project_id,
+        conversation_id: row.conversation_id,
+        message_id: row.source_message_id,
+      }));
+    }
+    case 'doc': {
+      const rows = await searchTable('docs', ['title', 'content'], tsQuery, filters) as Doc[];
+      return rows.map(row => result(row.id, row.title, row.content, {
+        created_at: row.created_at,
+        project_id: row.project_id,
+        conversation_id: row.conversation_id,
+      }));
+    }
+    case 'prompt': {
+      const rows = await searchTable('prompts', ['name', 'content', 'description'], tsQuery, filters, { reviewed: true }) as Prompt[];
+      return rows.map(row => result(row.id, row.name, row.content, {
+        created_at: row.created_at,
+        project_id: row.project_id,
+        conversation_id: row.conversation_id,
+        message_id: row.source_message_id,
+      }));
+    }
+  }
+}
+
+/**
+ * Wyszukuje w wiadomościach, tytułach rozmów, decyzjach, bugach, dokumentacji i promptach
+ * Filtr nadawcy zawęża wyniki do wiadomości
+ */
+export async function searchAll(filters: SearchFilters): Promise<SearchResult[]> {
+  const terms = parseSearchTerms(filters.query);
+  if (terms.length === 0) return [];
+
+  const tsQuery = buildTsQuery(terms);
+  const sources = (filters.sources?.length ? filters.sources : SEARCH_SOURCES)
+    .filter(source => !filters.sender || source === 'message');
+
+  try {
+    const results = await Promise.all(sources.map(source => searchSource(source, tsQuery, filters)));
+    return results.flat();
+  } catch (error) {
+    console.error('Błąd wyszukiwania:', error);
+    return [];
+  }
+}
+
 // ============================================
 // PROJEKTY - rozszerzenie (tworzenie)
 // ============================================
@@ -12,8 +12,14 @@ export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
 // Tryb wykonania zadania
 export type TaskMode = 'simple' | 'full';
 
-// Źródło LLM
-export type LLMSource = 'claude' | 'gpt' | 'gemini';
+// Backend wykonujący zadania - wbudowany runner (lib/ai/taskRunner) albo workflow N8N
+export type TaskBackend = 'builtin' | 'n8n';
+
+// Wbudowane źródła LLM
+export type BuiltinLLMSource = 'claude' | 'gpt' | 'gemini';
+
+// Źródło LLM - wbudowane lub ID providera z konfiguracji (AI_PROVIDERS)
+export type LLMSource = BuiltinLLMSource | (string & {});
 
 // Status SSE dla StatusBar
 export type StreamStatus =
@@ -33,10 +39,17 @@ export interface Project {
   repo_url: string | null;
   status: ProjectStatus;
   tech_stack?: string[];  // Stack technologiczny projektu
+  monthly_budget_usd?: number | null;  // Miesięczny budżet na wywołania AI (null = bez limitu)
+  budget_action?: BudgetAction;         // Co zrobić po przekroczeniu budżetu
+  knowledge_in_prompt?: boolean | null;        // Zasady, style guide i decyzje w promptach AI (null = tak)
+  knowledge_budget_tokens?: number | null;     // Limit tokenów sekcji wiedzy projektu (null = domyślny)
   created_at?: string;
   updated_at?: string;
 }
 
+// Reakcja na przekroczenie budżetu projektu
+export type BudgetAction = 'warn' | 'block';
+
 // Zadanie z tabeli tasks
 export interface Task {
   id: string;
@@ -53,13 +66,18 @@ export interface Task {
 }
 
 // Iteracja zadania z tabeli task_iterations
+// Iteracje czatu (tryb "do zielonego") mają conversation_id i message_id zamiast task_id
 export interface TaskIteration {
   id: string;
-  task_id: string;
+  task_id: string | null;
   iteration_number: number;
   claude_code: string | null;
   gpt_feedback: string | null;
   gemini_feedback: string | null;
+  conversation_id?: string | null;
+  message_id?: string | null;
+  check_status?: SandboxResult['status'] | null;  // Wynik sprawdzenia kodu w sandboxie
+  check_result?: SandboxResult | null;
   created_at?: string;
 }
 
@@ -71,9 +89,23 @@ export interface LLMResponse {
   prompt_used: string | null;
   response: string | null;
   tokens_used: number | null;
+  conversation_id?: string | null;
+  project_id?: string | null;
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cost_usd?: number | null;
+  metadata?: LLMResponseMetadata | null;
   created_at?: string;
 }
 
+// Metadane odpowiedzi LLM - który provider faktycznie odpowiedział i historia prób
+export interface LLMResponseMetadata {
+  provider?: AISender;
+  model?: string;
+  role?: AIRole;  // Rola kroku pipeline, w której provider odpowiadał
+  attempts?: AIAttempt[];
+}
+
 // Plik z Storage
 export interface StorageFile {
   name: string;
@@ -213,14 +245,17 @@ export interface ModeToggleProps {
 // TYPY DLA CHAT INTERFACE Z MULTI-AI TEAM
 // ==========================================
 
-// Nadawca wiadomości AI
-export type AISender = 'claude' | 'gpt' | 'gemini';
+// Wbudowani nadawcy AI
+export type BuiltinAISender = BuiltinLLMSource;
+
+// Nadawca wiadomości AI - ID providera z rejestru (wbudowany lub z konfiguracji)
+export type AISender = BuiltinAISender | (string & {});
 
 // Nadawca wiadomości (user lub AI)
 export type MessageSender = 'user' | AISender;
 
-// Tryb chatu: solo/duo/team
-export type ChatMode = 'solo' | 'duo' | 'team';
+// Tryb chatu: solo/duo/team/parallel (team z równoległym review GPT i Gemini)
+export type ChatMode = 'solo' | 'duo' | 'team' | 'parallel';
 
 // Blok kodu w wiadomości
 export interface CodeBlock {
@@ -237,6 +272,38 @@ export interface ChatMessage {
   content: string;
   code_blocks?: CodeBlock[];
   created_at: string;
+  metadata?: ChatMessageMetadata | null;
+  isStreaming?: boolean;  // Tylko po stronie klienta - odpowiedź jeszcze spływa
+}
+
+// Wcześniejsza wersja odpowiedzi AI (zachowana przy ponownym generowaniu)
+export interface ChatMessageVersion {
+  content: string;
+  replaced_at: string;
+}
+
+// Dodatkowe dane wiadomości (kolumna metadata jsonb w chat_messages)
+export interface ChatMessageMetadata {
+  pipelineStep?: PipelineStepSnapshot;  // Wejście kroku - pozwala wygenerować odpowiedź ponownie
+  versions?: ChatMessageVersion[];       // Poprzednie wersje, od najstarszej
+  memories?: MemoryCitation[];           // Wpisy pamięci w kontekście odpowiedzi (cytowania [P1]...)
+  llmResponseId?: string;                // Zapisana odpowiedź w llm_responses - do oceny
+  rating?: FeedbackRating;               // Ocena użytkownika (kopia ostatniego wpisu w user_feedback)
+  backlogProposals?: BacklogProposal[];  // Propozycje AI do backlogu (blok pamięci)
+  toolCalls?: AIToolCallStep[];          // Narzędzia wywołane przez AI przed odpowiedzią
+  sandbox?: SandboxResult;               // Sprawdzenie kodu (przy recenzencie - kod, który ocenia)
+  iteration?: ChatIteration;             // Numer próby w trybie "do zielonego"
+}
+
+// Próba kodu architekta w trybie "do zielonego" - kolejne poprawki po błędach z sandboxa
+export interface ChatIteration {
+  attempt: number;      // Od 1 (pierwsza odpowiedź)
+  maxAttempts: number;
+}
+
+// Propozycja do backlogu przy wiadomości AI
+export interface BacklogProposal extends MemoryBacklogItem {
+  backlogItemId?: string;  // Dodana do backlogu - ID elementu
 }
 
 // Rozmowa/konwersacja
@@ -245,6 +312,10 @@ export interface Conversation {
   project_id?: string;
   title: string;
   mode: ChatMode;
+  pipeline_id?: string | null;  // Własny pipeline zespołu (zamiast wbudowanego trybu)
+  cancelled_at?: string | null; // Ostatnia odpowiedź zespołu została zatrzymana przez użytkownika
+  summary?: string | null;      // Kroczące podsumowanie starszej części rozmowy
+  summary_until?: string | null; // created_at ostatniej wiadomości objętej podsumowaniem
   created_at: string;
   updated_at: string;
 }
@@ -258,6 +329,47 @@ export interface EditorFile {
   isDirty: boolean;
 }
 
+// Zmiana pliku zaproponowana przez AI (blok ```kodus-edit w odpowiedzi)
+export type FileEditAction = 'create' | 'modify' | 'delete';
+
+// Fragment zmiany - linie do znalezienia w pliku i linie, które je zastąpią
+export interface FileEditHunk {
+  oldLines: string[];
+  newLines: string[];
+  startHint?: number;  // Numer linii z nagłówka łatki (@@ -n), od 0
+}
+
+export interface FileEdit {
+  path: string;
+  action: FileEditAction;
+  hunks: FileEditHunk[];
+  content?: string;  // Pełna nowa treść (create albo modify bez fragmentów)
+}
+
+// Fragment umiejscowiony w aktualnej treści pliku (edytor albo GitHub)
+export interface ResolvedHunk {
+  id: string;
+  start: number;       // Pierwsza zastępowana linia, od 0
+  oldLines: string[];
+  newLines: string[];
+  error?: string;      // Fragmentu nie da się zastosować (nie znaleziono, nakłada się)
+}
+
+export type HunkDecision = 'pending' | 'accepted' | 'rejected';
+
+// Wiersz widoku diff obok siebie - numery linii od 1
+export interface DiffRow {
+  type: 'context' | 'removed' | 'added' | 'changed';
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+// Wynik przeglądu zmian - nowa treść pliku albo null (usunięcie)
+export interface AppliedFileChange {
+  path: string;
+  content: string | null;
+}
+
 // Osobowość AI (kolor, rola, avatar)
 export interface AIPersonality {
   name: AISender;
@@ -276,12 +388,250 @@ export interface ChatModeInfo {
 }
 
 // Event SSE dla chatu (streaming)
+// delta - kolejny fragment odpowiedzi AI, message_end - pełna, finalna treść wiadomości
 export interface ChatStreamEvent {
-  type: 'typing' | 'message' | 'done' | 'error' | 'conversation_id';
+  type:
+    | 'typing' | 'delta' | 'message_reset' | 'message_end' | 'message_metadata' | 'message'
+    | 'tool_call' | 'done' | 'warning' | 'error' | 'conversation_id';
   sender?: MessageSender;
   content?: string;
+  messageId?: string;
+  queue?: AISender[];  // Kolejni nadawcy w pipeline (przy zdarzeniu typing)
+  error?: string;
+  id?: string;         // conversation_id albo ID zapisanej wiadomości (przy message_end)
+  messageMetadata?: ChatMessageMetadata;  // Metadane zapisanej wiadomości (przy message_end i message_metadata)
+  toolCall?: AIToolCallStep;           // Stan wywołania narzędzia (przy tool_call)
+  metadata?: {         // Podsumowanie przy zdarzeniu done
+    totalTokens?: number;
+    totalCost?: number;
+    autoSaved?: AIResponseMetadata['autoSaved'];  // Elementy dodane do kolejki przeglądu
+  };
+}
+
+// Callback otrzymujący kolejne fragmenty tekstu ze streamu providera AI
+export type AIDeltaHandler = (delta: string) => void;
+
+// ==========================================
+// TYPY DLA REJESTRU PROVIDERÓW AI
+// ==========================================
+
+// Rola AI w zespole - provider przypisany do roli jest konfigurowalny
+export type AIRole = 'architect' | 'reviewer' | 'ux';
+
+// Rodzaj API providera ('openai' obejmuje też serwery zgodne z OpenAI API - lokalne, Mistral)
+export type AIProviderType = 'anthropic' | 'openai' | 'gemini';
+
+// Wiadomość przekazywana do providera (format niezależny od SDK)
+export interface AIProviderMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Narzędzia plików projektu dostępne dla AI (tool calling)
+export type AIToolName = 'show_structure' | 'list_directory' | 'read_file';
+
+// Definicja narzędzia - parametry jako JSON Schema (wspólny podzbiór Anthropic, OpenAI i Gemini)
+export interface AIToolDefinition {
+  name: AIToolName;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, { type: 'string'; description: string }>;
+    required: string[];
+  };
+}
+
+// Wywołanie narzędzia zwrócone przez model
+export interface AIToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface AIToolResult {
+  content: string;
+  isError?: boolean;
+}
+
+// Narzędzia przekazywane do providera - wykonywane po stronie serwera w tej samej turze
+export interface AIToolset {
+  definitions: AIToolDefinition[];
+  execute: (call: AIToolCall) => Promise<AIToolResult>;
+}
+
+// Krok wywołania narzędzia widoczny w czacie (metadane wiadomości)
+export interface AIToolCallStep {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  output?: string;  // Początek wyniku (podgląd) albo komunikat błędu
+}
+
+// Repozytorium GitHub, z którego AI czyta pliki (zamiast plików lokalnych)
+export interface RepoRef {
+  owner: string;
+  repo: string;
+  branch: string;
+}
+
+// Plik przekazany do sandboxa (ścieżka względna w katalogu tymczasowym)
+export interface SandboxFile {
+  path: string;
+  content: string;
+}
+
+// Zlecenie sprawdzenia kodu - testy (*.test.ts, *.spec.ts) albo plik entry są uruchamiane po type-checku
+export interface SandboxRequest {
+  files: SandboxFile[];
+  entry?: string;      // Plik do uruchomienia (snippet), gdy brak testów
+  timeoutMs?: number;  // Limit czasu pojedynczego procesu (maksymalnie SANDBOX_MAX_TIMEOUT_MS)
+}
+
+// Błąd lub ostrzeżenie kompilatora TypeScript
+export interface SandboxDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: string;  // np. TS2322
+  message: string;
+  severity: 'error' | 'warning';  // Brak modułu spoza node_modules projektu to ostrzeżenie
+}
+
+// Wynik pojedynczego procesu w sandboxie
+export interface SandboxRun {
+  command: string;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+// Wynik sprawdzenia kodu: passed - kompiluje się i testy/snippet przeszły, error - sandbox nie zadziałał
+export interface SandboxResult {
+  status: 'passed' | 'failed' | 'error';
+  files: string[];
+  diagnostics: SandboxDiagnostic[];
+  typecheck: SandboxRun | null;
+  run: SandboxRun | null;
+  runKind: 'tests' | 'snippet' | null;
   error?: string;
-  id?: string;
+}
+
+// Zapytanie do providera
+export interface AIProviderRequest {
+  system: string;
+  messages: AIProviderMessage[];
+  maxTokens?: number;
+  tools?: AIToolset;      // Model może wywoływać narzędzia przed odpowiedzią
+  onDelta?: AIDeltaHandler;
+  onReset?: () => void;   // Ponowna próba po częściowym streamie - klient czyści dotychczasową treść
+  signal?: AbortSignal;   // Przerwanie żądania (np. użytkownik zatrzymał odpowiedź)
+}
+
+// Provider AI - jedna implementacja na backend (Anthropic, OpenAI, Gemini, serwer zgodny z OpenAI)
+export interface AIProvider {
+  id: AISender;
+  type: AIProviderType;
+  model: string;
+  personality: AIPersonality;
+  contextWindow?: number;  // Okno kontekstu w tokenach (domyślnie wg modelu)
+  complete: (request: AIProviderRequest) => Promise<AIResponseWithMetadata>;
+}
+
+// Konfiguracja providera (wbudowanego lub z env AI_PROVIDERS)
+export interface AIProviderConfig {
+  id: string;
+  type: AIProviderType;
+  model: string;
+  baseURL?: string;       // Np. http://localhost:11434/v1 albo https://api.mistral.ai/v1
+  apiKeyEnv?: string;     // Nazwa zmiennej środowiskowej z kluczem API
+  maxTokens?: number;
+  contextWindow?: number;
+  displayName?: string;
+  color?: string;
+  avatar?: string;
+  role?: string;          // Opis roli wyświetlany w UI
+}
+
+// Publiczne informacje o providerze (GET /api/providers)
+export interface AIProviderInfo {
+  id: AISender;
+  type: AIProviderType;
+  model: string;
+  personality: AIPersonality;
+}
+
+// Opcje wywołania funkcji ról (callClaude, callGPT, callGemini...)
+export interface AICallOptions {
+  onDelta?: AIDeltaHandler;
+  provider?: AIProvider;  // Domyślnie provider wbudowany dla modułu
+  systemPrompt?: string;  // Własny system prompt (np. z pipeline) zamiast domyślnego dla roli
+  tools?: AIToolset;
+  sandboxReport?: string;  // Wynik sprawdzenia kodu w sandboxie (prompt recenzenta)
+  onReset?: () => void;
+  signal?: AbortSignal;
+}
+
+// Polityka odporności wywołań providera (AI_RESILIENCE)
+export interface AIResiliencePolicy {
+  timeoutMs: number;      // Limit czasu pojedynczej próby
+  maxRetries: number;     // Ponowienia po 429/5xx/timeout (bez pierwszej próby)
+  baseDelayMs: number;    // Bazowe opóźnienie backoffu (rośnie wykładniczo, z jitterem)
+  maxDelayMs: number;
+  fallbacks: AISender[];  // Kolejne providery gdy główny wyczerpie próby
+}
+
+// Status pojedynczej próby wywołania providera
+export type AIAttemptStatus = 'success' | 'error' | 'timeout';
+
+// Pojedyncza próba wywołania providera - zapisywana w llm_responses.metadata
+export interface AIAttempt {
+  provider: AISender;
+  model: string;
+  attempt: number;        // Numer próby u danego providera (od 1)
+  status: AIAttemptStatus;
+  error?: string;
+  durationMs: number;
+}
+
+// ==========================================
+// TYPY DLA PIPELINE'ÓW ZESPOŁU
+// ==========================================
+
+// Rodzaj promptu kroku - odpowiada funkcjom ról (callClaude, callGPT, callGemini, callClaudeSummary, callClaudeFinal)
+// fix (callClaudeFix) dodaje tylko tryb "do zielonego" - nie występuje w definicjach pipeline'ów
+export type PipelinePromptKind = 'draft' | 'review' | 'ux' | 'summary' | 'final' | 'fix';
+
+// Pojedynczy krok pipeline
+export interface PipelineStep {
+  role: AIRole;
+  prompt: PipelinePromptKind;
+  provider?: AISender;      // Nadpisuje provider przypisany do roli
+  systemPrompt?: string;    // Własny system prompt kroku
+  parallelGroup?: string;   // Sąsiednie kroki z tą samą grupą uruchamiane są równolegle
+}
+
+// Definicja pipeline zapisana w Supabase (project_id null = dostępny we wszystkich projektach)
+export interface Pipeline {
+  id: string;
+  project_id?: string | null;
+  name: string;
+  description?: string | null;
+  icons?: string | null;
+  steps: PipelineStep[];
+  created_at: string;
+}
+
+// Wejście kroku pipeline zapisane przy odpowiedzi AI - do ponownego wygenerowania
+export interface PipelineStepSnapshot {
+  step: PipelineStep;
+  message: string;
+  enhancedMessage: string;
+  outputs: Partial<Record<PipelinePromptKind, string>>;
+  sandboxReport?: string;  // Wynik sprawdzenia kodu dla recenzenta
+  historyUntil: string;  // created_at wiadomości użytkownika - historia rozmowy do tego momentu
 }
 
 // Kontekst dla AI (historia, preferencje, projekt)
@@ -291,6 +641,9 @@ export interface AIContext {
   project?: Project;
   editorContent?: string;
   projectContext?: string;  // Kontekst projektu (struktura + zawartość plików)
+  historySummary?: string;  // Podsumowanie wiadomości starszych niż history
+  projectKnowledge?: string;  // Zasady, style guide i decyzje projektu (sekcja promptu)
+  memories?: MemoryCitation[];  // Wpisy pamięci semantycznej podobne do wiadomości
 }
 
 // Preferencje użytkownika (stary format - do usunięcia w przyszłości)
@@ -318,14 +671,28 @@ export interface ChatRequest {
   conversation_id?: string;
   message: string;
   mode: ChatMode;
+  pipeline_id?: string;
   project_id?: string;
   projectContext?: string;
+  repo?: RepoRef;  // Połączone repo GitHub - narzędzia plików czytają z niego
+  autoFixAttempts?: number;  // Tryb "do zielonego" - maksymalna liczba prób kodu architekta (brak = wyłączony)
   context?: {
     editorContent?: string;
     action?: 'generate' | 'discuss';
   };
 }
 
+// Request do /api/chat/regenerate - ponowne wykonanie jednego kroku
+export interface RegenerateRequest {
+  message_id: string;
+  replace?: boolean;  // true - nadpisz odpowiedź, false - zachowaj ją jako poprzednią wersję
+  projectContext?: string;
+  repo?: RepoRef;
+  context?: {
+    editorContent?: string;
+  };
+}
+
 // Response z /api/chat (initial)
 export interface ChatResponse {
   conversation_id: string;
@@ -345,20 +712,23 @@ export interface ChatMessageProps {
 }
 
 export interface ChatInputProps {
-  onSend: (content: string, mode: ChatMode) => void;
+  onSend: (content: string, mode: ChatMode, pipelineId?: string) => void;
   isLoading: boolean;
-  currentlyTyping: AISender | null;
+  currentlyTyping: AISender[];
   defaultMode?: ChatMode;
 }
 
 export interface ModeSelectorProps {
   mode: ChatMode;
   onChange: (mode: ChatMode) => void;
+  pipelines?: Pipeline[];
+  pipelineId?: string | null;
+  onPipelineChange?: (pipelineId: string | null) => void;
   disabled?: boolean;
 }
 
 export interface TypingIndicatorProps {
-  sender: AISender;
+  senders: AISender[];
   queue?: AISender[];
 }
 
@@ -397,13 +767,18 @@ export interface AdditionalFile {
 // Hook returns
 export interface UseChatReturn {
   messages: ChatMessage[];
-  sendMessage: (content: string, mode: ChatMode) => Promise<void>;
+  sendMessage: (content: string, mode: ChatMode, pipelineId?: string, autoFixAttempts?: number) => Promise<void>;
+  stopGeneration: () => void;
+  regenerateMessage: (messageId: string, replace?: boolean) => Promise<void>;
+  rateMessage: (messageId: string, rating: FeedbackRating) => Promise<boolean>;
+  addBacklogProposal: (messageId: string, index: number) => Promise<BacklogItem | null>;
   isLoading: boolean;
-  currentlyTyping: AISender | null;
+  currentlyTyping: AISender[];  // Kilku nadawców naraz przy krokach równoległych
   typingQueue: AISender[];
   startNewConversation: () => void;
-  loadConversation: (id: string) => Promise<void>;
+  loadConversation: (id: string, focusMessageId?: string) => Promise<void>;
   conversationId: string | null;
+  focusedMessageId: string | null;  // Wiadomość wskazana z wyszukiwania
   error: string | null;
   conversations: Conversation[];
   loadConversations: () => Promise<void>;
@@ -425,6 +800,7 @@ export interface UseCodeEditorReturn {
   closeFile: (id: string) => void;
   hasUnsavedChanges: boolean;
   insertCode: (code: string, filename?: string, language?: string) => void;
+  applyFileChanges: (changes: AppliedFileChange[]) => void;
 }
 
 export interface UseGitHubReturn {
@@ -484,8 +860,18 @@ export type BacklogPriority = 'low' | 'medium' | 'high' | 'critical';
 // Status elementu backlog
 export type BacklogStatus = 'idea' | 'planned' | 'in_progress' | 'done' | 'rejected';
 
+// Status przeglądu elementu pamięci projektu (auto-save trafia do kolejki jako pending)
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+// Pochodzenie i status przeglądu elementu pamięci projektu
+export interface ReviewSource {
+  review_status?: ReviewStatus;   // Tylko accepted trafia do kontekstu AI
+  source_message_id?: string;     // Wiadomość AI, z której element wykryto
+  conversation_id?: string;
+}
+
 // Decyzja architektoniczna
-export interface Decision {
+export interface Decision extends ReviewSource {
   id: string;
   project_id: string;
   title: string;
@@ -497,7 +883,7 @@ export interface Decision {
 }
 
 // Historia bugów
-export interface BugHistory {
+export interface BugHistory extends ReviewSource {
   id: string;
   project_id: string;
   description: string;
@@ -509,8 +895,9 @@ export interface BugHistory {
 }
 
 // Wygenerowany prompt
-export interface Prompt {
+export interface Prompt extends ReviewSource {
   id: string;
+  project_id?: string;
   name: string;
   llm_target: LLMTarget;
   content: string;
@@ -522,7 +909,7 @@ export interface Prompt {
 }
 
 // Zasada projektu
-export interface ProjectRule {
+export interface ProjectRule extends ReviewSource {
   id: string;
   project_id: string;
   rule: string;
@@ -532,7 +919,7 @@ export interface ProjectRule {
 }
 
 // Element tech stacku
-export interface TechStackItem {
+export interface TechStackItem extends ReviewSource {
   id: string;
   project_id: string;
   name: string;
@@ -549,30 +936,46 @@ export interface StyleGuide {
   example_good?: string;
   example_bad?: string;
   language?: string;
+  conversation_id?: string;   // Rozmowa, z której pochodzi
   created_at?: string;
 }
 
+// Ocena odpowiedzi AI (1-5 gwiazdek)
+export type FeedbackRating = 1 | 2 | 3 | 4 | 5;
+
 // Feedback użytkownika na odpowiedź AI
 export interface UserFeedback {
   id: string;
   llm_response_id: string;
-  rating: 1 | 2 | 3 | 4 | 5;
+  rating: FeedbackRating;
   comment?: string;
   created_at?: string;
 }
 
+// Rodzaj uwagi z code review (tagi [BUG], [OPTYMALIZACJA]... w odpowiedzi recenzenta)
+export type ReviewFeedbackType = 'bug' | 'optimization' | 'edge_case' | 'best_practice' | 'ui' | 'ux' | 'a11y';
+
 // Feedback z code review
 export interface ReviewFeedback {
   id: string;
-  task_id: string;
+  task_id?: string | null;
   reviewer: LLMSource;
-  feedback_type: 'bug' | 'optimization' | 'edge_case' | 'best_practice' | 'ui' | 'ux' | 'a11y';
+  feedback_type: ReviewFeedbackType;
   description: string;
   suggestion?: string;
-  was_applied?: boolean;
+  was_applied?: boolean;          // Uwzględniona w wersji finalnej (raport architekta albo użytkownik)
+  message_id?: string | null;     // Wiadomość recenzenta w czacie
+  conversation_id?: string | null;
   created_at?: string;
 }
 
+// Uwaga wyciągnięta z odpowiedzi recenzenta (przed zapisem)
+export interface ParsedReviewFinding {
+  feedback_type: ReviewFeedbackType;
+  description: string;
+  suggestion?: string;
+}
+
 // Element backlogu
 export interface BacklogItem {
   id: string;
@@ -582,6 +985,8 @@ export interface BacklogItem {
   priority: BacklogPriority;
   status: BacklogStatus;
   tags?: string[];
+  milestone_id?: string | null;  // Kamień milowy (tor na tablicy kanban)
+  conversation_id?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -594,6 +999,7 @@ export interface Doc {
   content: string;
   doc_type: 'readme' | 'api' | 'guide' | 'changelog' | 'other';
   file_path?: string;
+  conversation_id?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -607,20 +1013,47 @@ export interface Milestone {
   status: MilestoneStatus;
   target_date?: string;
   completed_date?: string;
+  conversation_id?: string;
   created_at?: string;
 }
 
+// Rodzaj wpisu pamięci semantycznej
+export type MemoryContentType = 'code' | 'decision' | 'bug' | 'rule' | 'doc' | 'conversation';
+
+// Rekordy bazy wiedzy embedowane przy zapisie (wiadomości czatu - osobno, w API czatu)
+export type MemoryRecordType = Extract<KnowledgeType, 'decision' | 'bug' | 'doc'>;
+
 // Embedding dla semantic search
 export interface MemoryEmbedding {
   id: string;
   project_id?: string;
   content: string;
-  content_type: 'code' | 'decision' | 'bug' | 'rule' | 'doc' | 'conversation';
+  content_type: MemoryContentType;
   source_id?: string;
   embedding?: number[];
+  embedding_model?: string;  // Serwis i model, którym policzono wektor (porównujemy tylko w obrębie modelu)
+  similarity?: number;       // Podobieństwo do zapytania (wynik wyszukiwania)
   created_at?: string;
 }
 
+// Wpis pamięci dołączony do kontekstu AI - model cytuje go jako [ref]
+export interface MemoryCitation {
+  ref: string;               // np. "P1"
+  content_type: MemoryContentType;
+  source_id?: string;
+  excerpt: string;
+  similarity: number;
+}
+
+// Rodzaj serwisu embeddingów: OpenAI, lokalny serwer zgodny z OpenAI API albo deterministyczny hash (testy/dev)
+export type EmbeddingProviderType = 'openai' | 'local' | 'hash';
+
+// Serwis liczący embeddingi tekstów
+export interface EmbeddingService {
+  id: string;                // Typ i model, np. "openai:text-embedding-3-small" - zapisywany przy wektorze
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
 // ==========================================
 // TYPY DLA AUTO-SAVE METADATA
 // ==========================================
@@ -628,16 +1061,25 @@ export interface MemoryEmbedding {
 // Wzorce do auto-wykrywania
 export type AutoSavePatternType = 'decision' | 'bug' | 'prompt' | 'rule' | 'tech' | 'feedback';
 
+// Co auto-save zrobił z elementem: nowy rekord, uzupełnienie oczekującego duplikatu albo powiązanie z istniejącym
+export type AutoSaveAction = 'created' | 'updated' | 'linked';
+
 // Metadata odpowiedzi AI z informacją o tokenach i auto-save
 export interface AIResponseMetadata {
   tokensUsed: number;
   inputTokens?: number;
   outputTokens?: number;
+  costUsd?: number;         // Koszt wg cennika modelu (liczony przy zapisie)
+  provider?: AISender;      // Provider, który odpowiedział (może być fallbackiem)
+  model?: string;
+  role?: AIRole;            // Rola kroku pipeline (zapisywana przy odpowiedzi LLM)
+  attempts?: AIAttempt[];   // Kolejne próby wywołania (retry, timeout, fallback)
   detectedPatterns: AutoSavePatternType[];
   autoSaved: {
     table: string;
     id: string;
     type: AutoSavePatternType;
+    action?: AutoSaveAction;  // Brak - nowy rekord
   }[];
 }
 
@@ -657,10 +1099,92 @@ export interface SaveLLMResponseInput {
   tokens_used: number;
   input_tokens?: number;
   output_tokens?: number;
+  project_id?: string;
+  cost_usd?: number;
+  metadata?: LLMResponseMetadata;
+}
+
+// ==========================================
+// TYPY DLA ZUŻYCIA TOKENÓW I KOSZTÓW
+// ==========================================
+
+// Cennik modelu - USD za milion tokenów
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Zsumowane zużycie (wywołania, tokeny, koszt)
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// Zużycie w rozbiciu na providery
+export type UsageByProvider = Record<string, UsageTotals>;  // Klucz - id providera (llm_source)
+
+// Zużycie jednego dnia
+export interface UsageDay extends UsageTotals {
+  date: string;  // YYYY-MM-DD
+  byProvider: UsageByProvider;
+}
+
+// Zużycie jednej rozmowy
+export interface UsageConversation extends UsageTotals {
+  conversationId: string;
+  title?: string;
+  byProvider: UsageByProvider;
+}
+
+// Stan budżetu projektu w bieżącym miesiącu
+export interface ProjectBudgetStatus {
+  budgetUsd: number;
+  spentUsd: number;
+  action: BudgetAction;
+  status: 'ok' | 'warning' | 'exceeded';
+}
+
+// Podsumowanie zużycia dla widoku kosztów
+export interface UsageSummary {
+  totals: UsageTotals;
+  byProvider: UsageByProvider;
+  byDay: UsageDay[];
+  byConversation: UsageConversation[];
+}
+
+// Ocena odpowiedzi z providerem i rolą (wiersz user_feedback połączony z llm_responses)
+export interface RatedResponse {
+  rating: FeedbackRating;
+  provider: string;  // Faktyczny provider (metadata.provider) albo llm_source
+  role?: AIRole;
+  created_at?: string;
+}
+
+// Zsumowane oceny
+export interface RatingStats {
+  count: number;
+  average: number;
+}
+
+// Oceny w rozbiciu na providery i role (rola → providery w tej roli)
+export interface RatingSummary {
+  totals: RatingStats;
+  byProvider: Record<string, RatingStats>;
+  byRole: Partial<Record<AIRole, RatingStats & { byProvider: Record<string, RatingStats> }>>;
+}
+
+// Filtry zapytania o zużycie
+export interface UsageFilters {
+  projectId?: string;
+  conversationId?: string;
+  since?: string;  // ISO - od kiedy liczyć
 }
 
 // Input do zapisania decyzji
-export interface SaveDecisionInput {
+export interface SaveDecisionInput extends ReviewSource {
   project_id: string;
   title: string;
   description: string;
@@ -669,7 +1193,7 @@ export interface SaveDecisionInput {
 }
 
 // Input do zapisania buga
-export interface SaveBugInput {
+export interface SaveBugInput extends ReviewSource {
   project_id: string;
   description: string;
   solution: string;
@@ -679,7 +1203,8 @@ export interface SaveBugInput {
 }
 
 // Input do zapisania promptu
-export interface SavePromptInput {
+export interface SavePromptInput extends ReviewSource {
+  project_id?: string;
   name: string;
   llm_target: LLMTarget;
   content: string;
@@ -688,20 +1213,128 @@ export interface SavePromptInput {
 }
 
 // Input do zapisania zasady projektu
-export interface SaveProjectRuleInput {
+export interface SaveProjectRuleInput extends ReviewSource {
   project_id: string;
   rule: string;
   category: RuleCategory;
 }
 
 // Input do zapisania tech stacku
-export interface SaveTechStackInput {
+export interface SaveTechStackInput extends ReviewSource {
   project_id: string;
   name: string;
   category: TechCategory;
   version?: string;
 }
 
+// ==========================================
+// TYPY DLA BLOKU PAMIĘCI (SIDECAR JSON)
+// ==========================================
+
+// Elementy bloku pamięci - pola jak w inputach zapisu (bez project_id i pochodzenia)
+type MemoryOmit = 'project_id' | keyof ReviewSource;
+export type MemoryDecision = Omit<SaveDecisionInput, MemoryOmit>;
+export type MemoryBug = Omit<SaveBugInput, MemoryOmit>;
+export type MemoryRule = Omit<SaveProjectRuleInput, MemoryOmit>;
+export type MemoryTech = Omit<SaveTechStackInput, MemoryOmit>;
+export type MemoryPrompt = Omit<SavePromptInput, MemoryOmit>;
+// Propozycja do backlogu - nie jest zapisywana automatycznie, użytkownik dodaje ją z wiadomości
+export type MemoryBacklogItem = Pick<SaveBacklogInput, 'title' | 'description' | 'priority'>;
+
+// Blok pamięci dołączany przez AI na końcu odpowiedzi (```kodus-memory)
+export interface MemorySidecar {
+  decisions: MemoryDecision[];
+  bugs: MemoryBug[];
+  rules: MemoryRule[];
+  tech: MemoryTech[];
+  prompts: MemoryPrompt[];
+  backlog: MemoryBacklogItem[];
+}
+
+// Wynik wyciągnięcia bloku pamięci z odpowiedzi
+export interface MemorySidecarResult {
+  content: string;                // Odpowiedź bez bloku pamięci
+  memory: MemorySidecar | null;   // null - brak bloku albo niepoprawny JSON
+  errors: string[];               // Pominięte elementy niezgodne ze schematem
+}
+
+// ==========================================
+// TYPY DLA KOLEJKI PRZEGLĄDU AUTO-SAVE
+// ==========================================
+
+// Rodzaj elementu w kolejce przeglądu
+export type ReviewItemType = Exclude<AutoSavePatternType, 'feedback'>;
+
+// Rodzaje elementów objęte deduplikacją i scalaniem
+export type DedupItemType = Exclude<ReviewItemType, 'prompt'>;
+
+// Rekord bazy dla rodzaju elementu
+export interface ReviewItemRecords {
+  decision: Decision;
+  bug: BugHistory;
+  prompt: Prompt;
+  rule: ProjectRule;
+  tech: TechStackItem;
+}
+
+// Element kolejki przeglądu z wiadomością, z której pochodzi
+export type ReviewItem = {
+  [K in ReviewItemType]: {
+    type: K;
+    record: ReviewItemRecords[K];
+    sourceMessage?: ChatMessage;
+  };
+}[ReviewItemType];
+
+// Rodzaj rekordu w bazie wiedzy projektu
+export type KnowledgeType = 'decision' | 'bug' | 'rule' | 'style' | 'backlog' | 'doc' | 'milestone';
+
+// Rekord bazy dla rodzaju wiedzy projektu
+export interface KnowledgeRecords {
+  decision: Decision;
+  bug: BugHistory;
+  rule: ProjectRule;
+  style: StyleGuide;
+  backlog: BacklogItem;
+  doc: Doc;
+  milestone: Milestone;
+}
+
+// Źródło wyników wyszukiwania globalnego
+export type SearchSource = 'message' | 'conversation' | 'decision' | 'bug' | 'doc' | 'prompt';
+
+// Filtry wyszukiwania globalnego
+export interface SearchFilters {
+  query: string;
+  projectId?: string;
+  sender?: MessageSender;    // Zawęża wyniki do wiadomości
+  from?: string;             // Data od (ISO, włącznie)
+  to?: string;               // Data do (ISO, włącznie)
+  sources?: SearchSource[];  // Domyślnie wszystkie
+}
+
+// Wynik wyszukiwania - fragment z zaznaczonymi trafieniami i miejsce w rozmowie
+export interface SearchResult {
+  id: string;
+  source: SearchSource;
+  title: string;
+  snippet: string;
+  highlights: [number, number][];  // Zakresy [od, do) trafień w snippet
+  created_at?: string;
+  project_id?: string;
+  conversation_id?: string;
+  message_id?: string;             // Wiadomość, do której przechodzi wynik
+  sender?: MessageSender;
+}
+
+// Grupa podobnych rekordów pamięci projektu (do scalenia)
+export type DuplicateGroup = {
+  [K in DedupItemType]: {
+    type: K;
+    records: ReviewItemRecords[K][];
+  };
+}[DedupItemType];
+
 // Input do zapisania style guide
 export interface SaveStyleGuideInput {
   project_id: string;
@@ -709,22 +1342,25 @@ export interface SaveStyleGuideInput {
   example_good?: string;
   example_bad?: string;
   language?: string;
+  conversation_id?: string;
 }
 
 // Input do zapisania feedbacku użytkownika
 export interface SaveUserFeedbackInput {
   llm_response_id: string;
-  rating: 1 | 2 | 3 | 4 | 5;
+  rating: FeedbackRating;
   comment?: string;
 }
 
 // Input do zapisania review feedbacku
 export interface SaveReviewFeedbackInput {
-  task_id: string;
+  task_id?: string;
   reviewer: LLMSource;
-  feedback_type: 'bug' | 'optimization' | 'edge_case' | 'best_practice' | 'ui' | 'ux' | 'a11y';
+  feedback_type: ReviewFeedbackType;
   description: string;
   suggestion?: string;
+  message_id?: string;
+  conversation_id?: string;
 }
 
 // Input do zapisania backlogu
@@ -734,6 +1370,8 @@ export interface SaveBacklogInput {
   description?: string;
   priority?: BacklogPriority;
   tags?: string[];
+  milestone_id?: string;
+  conversation_id?: string;
 }
 
 // Input do zapisania dokumentacji
@@ -743,6 +1381,7 @@ export interface SaveDocInput {
   content: string;
   doc_type: 'readme' | 'api' | 'guide' | 'changelog' | 'other';
   file_path?: string;
+  conversation_id?: string;
 }
 
 // Input do zapisania milestone
@@ -751,4 +1390,5 @@ export interface SaveMilestoneInput {
   title: string;
   description?: string;
   target_date?: string;
+  conversation_id?: string;
 }
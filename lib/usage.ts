@@ -0,0 +1,171 @@
+/**
+ * Zużycie tokenów i koszty wywołań AI
+ * Agregacja wierszy llm_responses (per rozmowa, dzień, provider), oceny odpowiedzi i stan budżetu projektu
+ */
+
+import { BUDGET_WARNING_THRESHOLD } from './constants';
+import type {
+  LLMResponse,
+  Project,
+  ProjectBudgetStatus,
+  RatedResponse,
+  RatingStats,
+  RatingSummary,
+  UsageByProvider,
+  UsageDay,
+  UsageConversation,
+  UsageSummary,
+  UsageTotals,
+} from './types';
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+});
+
+/**
+ * Dodaje wywołanie do sumy
+ */
+function addToTotals(totals: UsageTotals, row: LLMResponse): void {
+  const inputTokens = row.input_tokens || 0;
+  const outputTokens = row.output_tokens || 0;
+
+  totals.calls += 1;
+  totals.inputTokens += inputTokens;
+  totals.outputTokens += outputTokens;
+  // Starsze wiersze mają tylko tokens_used
+  totals.totalTokens += row.tokens_used || inputTokens + outputTokens;
+  totals.costUsd += row.cost_usd || 0;
+}
+
+function addToProvider(byProvider: UsageByProvider, row: LLMResponse): void {
+  const provider = row.llm_source;
+  byProvider[provider] = byProvider[provider] || emptyTotals();
+  addToTotals(byProvider[provider], row);
+}
+
+/**
+ * Początek bieżącego miesiąca (ISO) - okres rozliczeniowy budżetu
+ */
+export function getMonthStart(date: Date = new Date()): string {
+  return new Date(date.getFullYear(), date.getMonth(), 1).toISOString();
+}
+
+/**
+ * Agreguje odpowiedzi LLM: suma, providery, dni i rozmowy
+ * titles - opcjonalne tytuły rozmów (id → tytuł)
+ */
+export function summarizeUsage(
+  rows: LLMResponse[],
+  titles: Record<string, string> = {}
+): UsageSummary {
+  const totals = emptyTotals();
+  const byProvider: UsageByProvider = {};
+  const days = new Map<string, UsageDay>();
+  const conversations = new Map<string, UsageConversation>();
+
+  for (const row of rows) {
+    addToTotals(totals, row);
+    addToProvider(byProvider, row);
+
+    const date = (row.created_at || '').slice(0, 10);
+    if (date) {
+      const day = days.get(date) || { date, ...emptyTotals(), byProvider: {} };
+      addToTotals(day, row);
+      addToProvider(day.byProvider, row);
+      days.set(date, day);
+    }
+
+    if (row.conversation_id) {
+      const conversation = conversations.get(row.conversation_id) || {
+        conversationId: row.conversation_id,
+        title: titles[row.conversation_id],
+        ...emptyTotals(),
+        byProvider: {},
+      };
+      addToTotals(conversation, row);
+      addToProvider(conversation.byProvider, row);
+      conversations.set(row.conversation_id, conversation);
+    }
+  }
+
+  return {
+    totals,
+    byProvider,
+    byDay: Array.from(days.values()).sort((a, b) => b.date.localeCompare(a.date)),
+    byConversation: Array.from(conversations.values()).sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
+
+/**
+ * Dolicza ocenę do średniej
+ */
+function addRating(stats: RatingStats | undefined, rating: number): RatingStats {
+  const count = (stats?.count || 0) + 1;
+  const average = ((stats?.average || 0) * (count - 1) + rating) / count;
+  return { count, average };
+}
+
+/**
+ * Agreguje oceny odpowiedzi: suma, providery i role (w roli - providery, które ją pełniły)
+ */
+export function summarizeRatings(rows: RatedResponse[]): RatingSummary {
+  const summary: RatingSummary = { totals: { count: 0, average: 0 }, byProvider: {}, byRole: {} };
+
+  for (const row of rows) {
+    summary.totals = addRating(summary.totals, row.rating);
+    summary.byProvider[row.provider] = addRating(summary.byProvider[row.provider], row.rating);
+
+    // Starsze odpowiedzi nie mają zapisanej roli
+    if (row.role) {
+      const role = summary.byRole[row.role];
+      summary.byRole[row.role] = {
+        ...addRating(role, row.rating),
+        byProvider: {
+          ...role?.byProvider,
+          [row.provider]: addRating(role?.byProvider[row.provider], row.rating),
+        },
+      };
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Stan budżetu projektu - null gdy projekt nie ma ustawionego limitu
+ */
+export function getBudgetStatus(project: Project, spentUsd: number): ProjectBudgetStatus | null {
+  const budgetUsd = project.monthly_budget_usd;
+  if (!budgetUsd || budgetUsd <= 0) return null;
+
+  const status = spentUsd >= budgetUsd
+    ? 'exceeded'
+    : spentUsd >= budgetUsd * BUDGET_WARNING_THRESHOLD ? 'warning' : 'ok';
+
+  return {
+    budgetUsd,
+    spentUsd,
+    action: project.budget_action || 'warn',
+    status,
+  };
+}
+
+/**
+ * Formatuje koszt w USD (małe kwoty z większą dokładnością)
+ */
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Formatuje liczbę tokenów (1.2k, 3.4M)
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}